@@ -0,0 +1,66 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `available` on the `Room` table. All the data in the column will be lost.
+  - You are about to drop the column `price` on the `Room` table. All the data in the column will be lost.
+  - You are about to drop the column `type` on the `Room` table. All the data in the column will be lost.
+  - A unique constraint covering the columns `[hotelId,number]` on the table `Room` will be added. If there are existing duplicate values, this will fail.
+  - Added the required column `roomTypeId` to the `Room` table without a default value. This is not possible if the table is not empty.
+
+*/
+-- DropForeignKey
+ALTER TABLE "Room" DROP CONSTRAINT "Room_hotelId_fkey";
+
+-- AlterTable
+ALTER TABLE "Room" DROP COLUMN "available",
+DROP COLUMN "price",
+DROP COLUMN "type",
+ADD COLUMN     "roomTypeId" TEXT NOT NULL,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'available';
+
+-- CreateTable
+CREATE TABLE "RoomType" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "altDescription" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "alternativePrice" DOUBLE PRECISION,
+    "quantity" INTEGER NOT NULL,
+    "boardType" TEXT NOT NULL DEFAULT 'Room only',
+    "hotelId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoomType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SeasonalPrice" (
+    "id" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "roomTypeId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SeasonalPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomType_hotelId_name_key" ON "RoomType"("hotelId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Room_hotelId_number_key" ON "Room"("hotelId", "number");
+
+-- AddForeignKey
+ALTER TABLE "RoomType" ADD CONSTRAINT "RoomType_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "Hotel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeasonalPrice" ADD CONSTRAINT "SeasonalPrice_roomTypeId_fkey" FOREIGN KEY ("roomTypeId") REFERENCES "RoomType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "Hotel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_roomTypeId_fkey" FOREIGN KEY ("roomTypeId") REFERENCES "RoomType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
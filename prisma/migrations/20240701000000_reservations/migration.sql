@@ -0,0 +1,82 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `guestEmail` on the `Booking` table. All the data in the column will be lost.
+  - You are about to drop the column `guestName` on the `Booking` table. All the data in the column will be lost.
+  - A unique constraint covering the columns `[resId]` on the table `Booking` will be added. If there are existing duplicate values, this will fail.
+  - Added the required column `guestId` to the `Booking` table without a default value. This is not possible if the table is not empty.
+  - Added the required column `hotelId` to the `Booking` table without a default value. This is not possible if the table is not empty.
+  - Added the required column `paymentMethod` to the `Booking` table without a default value. This is not possible if the table is not empty.
+  - Added the required column `resId` to the `Booking` table without a default value. This is not possible if the table is not empty.
+  - Added the required column `roomRate` to the `Booking` table without a default value. This is not possible if the table is not empty.
+  - Added the required column `roomTypeId` to the `Booking` table without a default value. This is not possible if the table is not empty.
+  - Added the required column `totalAmount` to the `Booking` table without a default value. This is not possible if the table is not empty.
+
+*/
+-- DropForeignKey
+ALTER TABLE "Booking" DROP CONSTRAINT "Booking_roomId_fkey";
+
+-- AlterTable
+ALTER TABLE "Booking" DROP COLUMN "guestEmail",
+DROP COLUMN "guestName",
+ADD COLUMN     "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "amountPaidToday" DOUBLE PRECISION,
+ADD COLUMN     "group" TEXT,
+ADD COLUMN     "guestId" TEXT NOT NULL,
+ADD COLUMN     "hotelId" TEXT NOT NULL,
+ADD COLUMN     "numberOfRooms" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "paymentCompletionDate" DATE,
+ADD COLUMN     "paymentDate" DATE,
+ADD COLUMN     "paymentMethod" TEXT NOT NULL,
+ADD COLUMN     "paymentStartDate" DATE,
+ADD COLUMN     "rateCode" TEXT,
+ADD COLUMN     "remainingBalance" DOUBLE PRECISION,
+ADD COLUMN     "resId" TEXT NOT NULL,
+ADD COLUMN     "roomNo" TEXT,
+ADD COLUMN     "roomRate" DOUBLE PRECISION NOT NULL,
+ADD COLUMN     "roomTypeId" TEXT NOT NULL,
+ADD COLUMN     "source" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'confirmed',
+ADD COLUMN     "totalAmount" DOUBLE PRECISION NOT NULL,
+ALTER COLUMN "checkIn" SET DATA TYPE DATE,
+ALTER COLUMN "checkOut" SET DATA TYPE DATE,
+ALTER COLUMN "roomId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "Guest" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "email" TEXT,
+    "guestClassification" TEXT,
+    "nationality" TEXT,
+    "telephone" TEXT,
+    "company" TEXT,
+    "travelAgent" TEXT,
+    "vip" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Guest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Guest_profileId_key" ON "Guest"("profileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Booking_resId_key" ON "Booking"("resId");
+
+-- CreateIndex
+CREATE INDEX "Booking_roomTypeId_checkIn_checkOut_idx" ON "Booking"("roomTypeId", "checkIn", "checkOut");
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "Hotel"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_roomTypeId_fkey" FOREIGN KEY ("roomTypeId") REFERENCES "RoomType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "Guest"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
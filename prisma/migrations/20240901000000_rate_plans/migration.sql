@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "ratePlanId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RatePlan" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "derivation" TEXT NOT NULL DEFAULT 'bar',
+    "derivationValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "boardType" TEXT,
+    "minStay" INTEGER,
+    "maxStay" INTEGER,
+    "validFrom" DATE,
+    "validTo" DATE,
+    "cancellationPolicy" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "hotelId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RatePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatePlan_hotelId_code_key" ON "RatePlan"("hotelId", "code");
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "Hotel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_ratePlanId_fkey" FOREIGN KEY ("ratePlanId") REFERENCES "RatePlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "BookingRateLine" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "rateCode" TEXT,
+    "roomTypeName" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "tax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "seasonal" BOOLEAN NOT NULL DEFAULT false,
+    "bookingId" TEXT NOT NULL,
+    "ratePlanId" TEXT,
+    "roomTypeId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingRateLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingRateLine_bookingId_date_key" ON "BookingRateLine"("bookingId", "date");
+
+-- AddForeignKey
+ALTER TABLE "BookingRateLine" ADD CONSTRAINT "BookingRateLine_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingRateLine" ADD CONSTRAINT "BookingRateLine_ratePlanId_fkey" FOREIGN KEY ("ratePlanId") REFERENCES "RatePlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingRateLine" ADD CONSTRAINT "BookingRateLine_roomTypeId_fkey" FOREIGN KEY ("roomTypeId") REFERENCES "RoomType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill existing reservations with one line per night at their flat room rate
+INSERT INTO "BookingRateLine" ("id", "date", "rateCode", "roomTypeName", "price", "bookingId", "ratePlanId", "roomTypeId")
+SELECT md5(b."id" || night::date::text), night::date, b."rateCode", rt."name", b."roomRate", b."id", b."ratePlanId", b."roomTypeId"
+FROM "Booking" b
+JOIN "RoomType" rt ON rt."id" = b."roomTypeId"
+CROSS JOIN LATERAL generate_series(b."checkIn"::timestamp, (b."checkOut" - 1)::timestamp, interval '1 day') AS night;
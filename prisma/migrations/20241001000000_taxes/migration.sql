@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Hotel" ADD COLUMN     "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Tax" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "altName" TEXT,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "compound" BOOLEAN NOT NULL DEFAULT false,
+    "chargeTypes" TEXT[] DEFAULT ARRAY['room']::TEXT[],
+    "effectiveFrom" DATE,
+    "effectiveTo" DATE,
+    "hotelId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tax_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RateLineTax" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "rateLineId" TEXT NOT NULL,
+    "taxId" TEXT,
+
+    CONSTRAINT "RateLineTax_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Tax_hotelId_code_idx" ON "Tax"("hotelId", "code");
+
+-- CreateIndex
+CREATE INDEX "RateLineTax_rateLineId_idx" ON "RateLineTax"("rateLineId");
+
+-- AddForeignKey
+ALTER TABLE "Tax" ADD CONSTRAINT "Tax_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "Hotel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RateLineTax" ADD CONSTRAINT "RateLineTax_rateLineId_fkey" FOREIGN KEY ("rateLineId") REFERENCES "BookingRateLine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RateLineTax" ADD CONSTRAINT "RateLineTax_taxId_fkey" FOREIGN KEY ("taxId") REFERENCES "Tax"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- AlterTable
+ALTER TABLE "Hotel" ADD COLUMN     "buildingNumber" TEXT,
+ADD COLUMN     "city" TEXT,
+ADD COLUMN     "crNumber" TEXT,
+ADD COLUMN     "postalCode" TEXT,
+ADD COLUMN     "street" TEXT,
+ADD COLUMN     "vatNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'invoice',
+    "simplified" BOOLEAN NOT NULL DEFAULT true,
+    "uuid" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "currency" TEXT NOT NULL DEFAULT 'SAR',
+    "buyerName" TEXT,
+    "buyerVatNumber" TEXT,
+    "reason" TEXT,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "vatTotal" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "hash" TEXT NOT NULL,
+    "previousHash" TEXT NOT NULL,
+    "qrCode" TEXT NOT NULL,
+    "xml" TEXT NOT NULL,
+    "hotelId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "originalInvoiceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceLine" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "altDescription" TEXT,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "netAmount" DOUBLE PRECISION NOT NULL,
+    "vatRate" DOUBLE PRECISION NOT NULL,
+    "vatAmount" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+
+    CONSTRAINT "InvoiceLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_number_key" ON "Invoice"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_uuid_key" ON "Invoice"("uuid");
+
+-- CreateIndex
+CREATE INDEX "Invoice_bookingId_idx" ON "Invoice"("bookingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_hotelId_sequence_key" ON "Invoice"("hotelId", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceLine_invoiceId_position_key" ON "InvoiceLine"("invoiceId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_hotelId_fkey" FOREIGN KEY ("hotelId") REFERENCES "Hotel"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_originalInvoiceId_fkey" FOREIGN KEY ("originalInvoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
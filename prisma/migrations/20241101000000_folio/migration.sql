@@ -0,0 +1,79 @@
+-- CreateTable
+CREATE TABLE "FolioEntry" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "chargeType" TEXT,
+    "description" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitPrice" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "tax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total" DOUBLE PRECISION NOT NULL,
+    "method" TEXT,
+    "reference" TEXT,
+    "bookingId" TEXT NOT NULL,
+    "postedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FolioEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FolioEntryTax" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "taxId" TEXT,
+
+    CONSTRAINT "FolioEntryTax_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FolioEntry_bookingId_date_idx" ON "FolioEntry"("bookingId", "date");
+
+-- CreateIndex
+CREATE INDEX "FolioEntryTax_entryId_idx" ON "FolioEntryTax"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "FolioEntry" ADD CONSTRAINT "FolioEntry_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FolioEntry" ADD CONSTRAINT "FolioEntry_postedById_fkey" FOREIGN KEY ("postedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FolioEntryTax" ADD CONSTRAINT "FolioEntryTax_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "FolioEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FolioEntryTax" ADD CONSTRAINT "FolioEntryTax_taxId_fkey" FOREIGN KEY ("taxId") REFERENCES "Tax"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill existing reservations: one room charge per night from their rate lines, which are per room
+INSERT INTO "FolioEntry" ("id", "type", "chargeType", "description", "date", "quantity", "unitPrice", "amount", "tax", "total", "bookingId")
+SELECT md5('charge' || rl."id"), 'charge', 'room', rl."roomTypeName", rl."date", b."numberOfRooms", rl."price",
+    round((rl."price" * b."numberOfRooms")::numeric, 2), round((rl."tax" * b."numberOfRooms")::numeric, 2),
+    round(((rl."price" + rl."tax") * b."numberOfRooms")::numeric, 2), b."id"
+FROM "BookingRateLine" rl
+JOIN "Booking" b ON b."id" = rl."bookingId";
+
+INSERT INTO "FolioEntryTax" ("id", "code", "name", "rate", "amount", "entryId", "taxId")
+SELECT md5('charge' || t."id"), t."code", t."name", t."rate", round((t."amount" * b."numberOfRooms")::numeric, 2), md5('charge' || rl."id"), t."taxId"
+FROM "RateLineTax" t
+JOIN "BookingRateLine" rl ON rl."id" = t."rateLineId"
+JOIN "Booking" b ON b."id" = rl."bookingId";
+
+-- ...and the money taken at booking: what was paid on the day for credit, the amount paid otherwise
+INSERT INTO "FolioEntry" ("id", "type", "description", "date", "amount", "total", "method", "bookingId")
+SELECT md5('payment' || b."id"), 'payment', 'Payment at booking', COALESCE(b."paymentDate", b."createdAt"::date), paid, paid, b."paymentMethod", b."id"
+FROM (
+    SELECT *, CASE WHEN "paymentMethod" = 'credit' THEN COALESCE("amountPaidToday", 0) ELSE "amountPaid" END AS paid
+    FROM "Booking"
+) b
+WHERE paid > 0;
+
+-- AlterTable
+ALTER TABLE "Booking" DROP COLUMN "amountPaid",
+DROP COLUMN "amountPaidToday",
+DROP COLUMN "remainingBalance";
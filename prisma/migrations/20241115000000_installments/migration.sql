@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Installment" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "dueDate" DATE NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Installment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Installment_bookingId_sequence_key" ON "Installment"("bookingId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "Installment_dueDate_idx" ON "Installment"("dueDate");
+
+-- AddForeignKey
+ALTER TABLE "Installment" ADD CONSTRAINT "Installment_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill credit reservations that still owe money with a single installment due on their completion date
+INSERT INTO "Installment" ("id", "sequence", "dueDate", "amount", "bookingId")
+SELECT md5('installment' || b."id"), 1, COALESCE(b."paymentCompletionDate", b."checkOut"), f.balance, b."id"
+FROM "Booking" b
+JOIN (
+    SELECT "bookingId",
+        round(sum(CASE WHEN "type" = 'payment' THEN -"total" ELSE "total" END)::numeric, 2) AS balance
+    FROM "FolioEntry"
+    GROUP BY "bookingId"
+) f ON f."bookingId" = b."id"
+WHERE b."paymentMethod" = 'credit' AND b."status" <> 'cancelled' AND f.balance > 0;
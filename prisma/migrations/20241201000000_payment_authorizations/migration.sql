@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "PaymentAuthorization" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'authorized',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "captured" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "refunded" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "cardBrand" TEXT,
+    "cardLast4" TEXT,
+    "declineReason" TEXT,
+    "bookingId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentAuthorization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentAuthorization_provider_reference_key" ON "PaymentAuthorization"("provider", "reference");
+
+-- CreateIndex
+CREATE INDEX "PaymentAuthorization_bookingId_idx" ON "PaymentAuthorization"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentAuthorization" ADD CONSTRAINT "PaymentAuthorization_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
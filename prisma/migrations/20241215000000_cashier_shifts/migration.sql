@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "CashierShift" (
+    "id" TEXT NOT NULL,
+    "openingFloat" DOUBLE PRECISION NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "expectedCash" DOUBLE PRECISION,
+    "expectedCard" DOUBLE PRECISION,
+    "countedCash" DOUBLE PRECISION,
+    "countedCard" DOUBLE PRECISION,
+    "notes" TEXT,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "CashierShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CashierShift_userId_openedAt_idx" ON "CashierShift"("userId", "openedAt");
+
+-- A cashier can only have one shift open at a time
+CREATE UNIQUE INDEX "CashierShift_userId_open_key" ON "CashierShift"("userId") WHERE "closedAt" IS NULL;
+
+-- AlterTable
+ALTER TABLE "FolioEntry" ADD COLUMN "shiftId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "FolioEntry_shiftId_idx" ON "FolioEntry"("shiftId");
+
+-- AddForeignKey
+ALTER TABLE "CashierShift" ADD CONSTRAINT "CashierShift_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FolioEntry" ADD CONSTRAINT "FolioEntry_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "CashierShift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "housekeeping" TEXT NOT NULL DEFAULT 'clean';
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "idType" TEXT,
+ADD COLUMN "idNumber" TEXT,
+ADD COLUMN "idCountry" TEXT,
+ADD COLUMN "idExpiry" DATE,
+ADD COLUMN "dateOfBirth" DATE;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "checkedInAt" TIMESTAMP(3);
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Hotel" ADD COLUMN "checkOutTime" TEXT NOT NULL DEFAULT '12:00',
+ADD COLUMN "earlyCheckOutFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "lateCheckOutFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Guest" ADD COLUMN "lastStay" DATE,
+ADD COLUMN "totalStays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "totalSpent" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "checkedOutAt" TIMESTAMP(3);
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "BookingStatusChange" (
+    "id" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "reason" TEXT,
+    "bookingId" TEXT NOT NULL,
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingStatusChange_bookingId_createdAt_idx" ON "BookingStatusChange"("bookingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BookingStatusChange" ADD CONSTRAINT "BookingStatusChange_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingStatusChange" ADD CONSTRAINT "BookingStatusChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing reservations start their history at the status they are in now
+INSERT INTO "BookingStatusChange" ("id", "toStatus", "bookingId", "createdAt")
+SELECT 'status-' || "id", "status", "id", "updatedAt" FROM "Booking";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "RatePlan" ADD COLUMN "cancellationType" TEXT NOT NULL DEFAULT 'free-until',
+ADD COLUMN "freeCancellationDays" INTEGER NOT NULL DEFAULT 0;
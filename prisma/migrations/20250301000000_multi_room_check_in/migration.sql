@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "_BookingToRoom" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_BookingToRoom_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "_BookingToRoom_B_index" ON "_BookingToRoom"("B");
+
+-- AddForeignKey
+ALTER TABLE "_BookingToRoom" ADD CONSTRAINT "_BookingToRoom_A_fkey" FOREIGN KEY ("A") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BookingToRoom" ADD CONSTRAINT "_BookingToRoom_B_fkey" FOREIGN KEY ("B") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Keep the rooms already assigned at check-in
+INSERT INTO "_BookingToRoom" ("A", "B")
+SELECT "id", "roomId" FROM "Booking" WHERE "roomId" IS NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "Booking" DROP CONSTRAINT "Booking_roomId_fkey";
+
+-- AlterTable
+ALTER TABLE "Booking" DROP COLUMN "roomId";
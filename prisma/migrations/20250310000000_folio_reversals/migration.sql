@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "BookingRateLine_bookingId_date_key";
+
+-- AlterTable
+ALTER TABLE "BookingRateLine" ADD COLUMN "releasedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "FolioEntry" ADD COLUMN "reversesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "BookingRateLine_bookingId_date_idx" ON "BookingRateLine"("bookingId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FolioEntry_reversesId_key" ON "FolioEntry"("reversesId");
+
+-- AddForeignKey
+ALTER TABLE "FolioEntry" ADD CONSTRAINT "FolioEntry_reversesId_fkey" FOREIGN KEY ("reversesId") REFERENCES "FolioEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "BookingStatusChange" ADD COLUMN "event" TEXT NOT NULL DEFAULT 'status';
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "overrideRate" DOUBLE PRECISION;
+
+-- Amendments were recorded as a change from a status to itself
+UPDATE "BookingStatusChange" SET "event" = 'amendment' WHERE "fromStatus" = "toStatus";
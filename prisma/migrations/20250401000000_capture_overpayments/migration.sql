@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PaymentAuthorization" ADD COLUMN "overpaid" DOUBLE PRECISION NOT NULL DEFAULT 0;
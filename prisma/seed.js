@@ -1,38 +1,132 @@
 const { PrismaClient } = require('@prisma/client')
+const bcrypt = require('bcryptjs')
 
 const prisma = new PrismaClient()
 
 async function main() {
   console.log('Start seeding...')
-  
+
+  // Create one staff account per role; override the password with SEED_USER_PASSWORD
+  const passwordHash = await bcrypt.hash(process.env.SEED_USER_PASSWORD || 'ChangeMe123!', 12)
+  const users = [
+    { username: 'owner', email: 'owner@example.com', name: 'Hotel Owner', role: 'owner' },
+    { username: 'frontdesk', email: 'frontdesk@example.com', name: 'Front Desk', role: 'front-desk' },
+    { username: 'accountant', email: 'accountant@example.com', name: 'Accountant', role: 'accountant' },
+  ]
+
+  for (const user of users) {
+    await prisma.user.upsert({
+      where: { username: user.username },
+      update: {},
+      create: { ...user, passwordHash },
+    })
+  }
+
   // Create sample hotel
   const hotel = await prisma.hotel.create({
     data: {
       name: 'Grand Hotel',
+      code: 'GH001',
+      altName: 'الفندق الكبير',
       description: 'A luxurious hotel in the heart of the city',
       location: 'Downtown',
+      vatNumber: '300000000000003',
+      crNumber: '1010000000',
+      street: 'King Fahd Road',
+      buildingNumber: '1234',
+      city: 'Riyadh',
+      postalCode: '12345',
     },
   })
 
-  // Create sample rooms
-  await prisma.room.createMany({
+  // Create sample room types with their physical rooms
+  const roomTypes = [
+    {
+      name: 'Standard',
+      description: 'Comfortable standard accommodation',
+      altDescription: 'إقامة قياسية مريحة',
+      price: 100.0,
+      quantity: 2,
+      boardType: 'Room only',
+      roomNumbers: ['101', '102'],
+    },
+    {
+      name: 'Deluxe',
+      description: 'Spacious room with city view',
+      altDescription: 'غرفة واسعة مع إطلالة على المدينة',
+      price: 150.0,
+      quantity: 2,
+      boardType: 'Bed & breakfast',
+      roomNumbers: ['201', '202'],
+    },
+    {
+      name: 'Suite',
+      description: 'Luxury suite with separate living area',
+      altDescription: 'جناح فاخر مع منطقة جلوس منفصلة',
+      price: 250.0,
+      quantity: 1,
+      boardType: 'Half board',
+      roomNumbers: ['301'],
+    },
+  ]
+
+  for (const { roomNumbers, ...roomType } of roomTypes) {
+    await prisma.roomType.create({
+      data: {
+        ...roomType,
+        hotelId: hotel.id,
+        rooms: {
+          create: roomNumbers.map((number) => ({ number, hotelId: hotel.id })),
+        },
+      },
+    })
+  }
+
+  // Create sample rate plans: the rack rate (BAR) and a corporate discount off it
+  await prisma.ratePlan.createMany({
     data: [
       {
-        number: '101',
-        type: 'Standard',
-        price: 100.0,
+        code: 'RACK',
+        name: 'Rack rate',
+        description: 'Best available rate',
+        derivation: 'bar',
+        hotelId: hotel.id,
+      },
+      {
+        code: 'CORP',
+        name: 'Corporate',
+        description: 'Negotiated company rate, 15% off the best available rate',
+        derivation: 'percent-off',
+        derivationValue: 15,
+        boardType: 'Bed & breakfast',
+        minStay: 1,
+        maxStay: 30,
+        cancellationPolicy: 'Free cancellation until 24 hours before arrival',
+        cancellationType: 'free-until',
+        freeCancellationDays: 1,
         hotelId: hotel.id,
       },
+    ],
+  })
+
+  // Saudi hotel taxes: the municipality fee on rooms, and VAT on everything including that fee
+  await prisma.tax.createMany({
+    data: [
       {
-        number: '102',
-        type: 'Deluxe',
-        price: 150.0,
+        code: 'MUN',
+        name: 'Municipality fee',
+        altName: 'رسوم البلدية',
+        rate: 2.5,
+        chargeTypes: ['room'],
         hotelId: hotel.id,
       },
       {
-        number: '201',
-        type: 'Suite',
-        price: 250.0,
+        code: 'VAT',
+        name: 'Value added tax',
+        altName: 'ضريبة القيمة المضافة',
+        rate: 15,
+        compound: true,
+        chargeTypes: ['room', 'food-beverage', 'minibar', 'laundry', 'service', 'other'],
         hotelId: hotel.id,
       },
     ],
@@ -1,54 +1,75 @@
 'use client';
 
-import { useState } from 'react';
-
-interface Hotel {
-  id: string;
-  name: string;
-  code: string;
-  altName: string;
-  createdAt: string;
-}
+import { useState, useEffect } from 'react';
+import { hotelInputSchema, hotelListSchema, hotelSchema, type Hotel } from '@/lib/domain';
+
+// Seller details ZATCA requires on tax invoices; a hotel cannot invoice until it has a VAT number
+const SELLER_FIELDS = [
+  { key: 'vatNumber', en: 'VAT Number', ar: 'الرقم الضريبي', placeholder: '3XXXXXXXXXXXXX3' },
+  { key: 'crNumber', en: 'Commercial Registration', ar: 'السجل التجاري', placeholder: '1010000000' },
+  { key: 'street', en: 'Street', ar: 'الشارع', placeholder: 'King Fahd Road' },
+  { key: 'buildingNumber', en: 'Building Number', ar: 'رقم المبنى', placeholder: '1234' },
+  { key: 'city', en: 'City', ar: 'المدينة', placeholder: 'Riyadh' },
+  { key: 'postalCode', en: 'Postal Code', ar: 'الرمز البريدي', placeholder: '12345' },
+] as const;
+
+type SellerField = typeof SELLER_FIELDS[number]['key'];
+
+// When guests are due out and what leaving early or late costs them, in the hotel's own prices
+const emptyCheckOutPolicy = {
+  checkOutTime: '12:00',
+  earlyCheckOutFee: '0',
+  lateCheckOutFee: '0',
+};
+
+const emptySellerDetails: Record<SellerField, string> = {
+  vatNumber: '',
+  crNumber: '',
+  street: '',
+  buildingNumber: '',
+  city: '',
+  postalCode: '',
+};
 
 export default function AddHotel() {
   const [language, setLanguage] = useState('en');
   const [hotelName, setHotelName] = useState('');
   const [hotelCode, setHotelCode] = useState('');
   const [altHotelName, setAltHotelName] = useState('');
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+  const [sellerDetails, setSellerDetails] = useState(emptySellerDetails);
+  const [checkOutPolicy, setCheckOutPolicy] = useState(emptyCheckOutPolicy);
   const [nameFilter, setNameFilter] = useState('');
   const [codeFilter, setCodeFilter] = useState('');
   const [selectedHotels, setSelectedHotels] = useState<string[]>([]);
   const [selectedHotelDetails, setSelectedHotelDetails] = useState<Hotel | null>(null);
-  const [hotels, setHotels] = useState<Hotel[]>([
-    {
-      id: '1',
-      name: 'Grand Palace Hotel',
-      code: 'GPH001',
-      altName: 'فندق القصر الكبير',
-      createdAt: '2024-01-15'
-    },
-    {
-      id: '2',
-      name: 'Ocean View Resort',
-      code: 'OVR002',
-      altName: 'منتجع إطلالة المحيط',
-      createdAt: '2024-01-20'
-    },
-    {
-      id: '3',
-      name: 'Mountain Lodge',
-      code: 'ML003',
-      altName: 'نزل الجبل',
-      createdAt: '2024-01-25'
-    },
-    {
-      id: '4',
-      name: 'City Center Hotel',
-      code: 'CCH004',
-      altName: 'فندق وسط المدينة',
-      createdAt: '2024-01-30'
-    }
-  ]);
+  const [editingHotelId, setEditingHotelId] = useState<string | null>(null);
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [error, setError] = useState('');
+
+  // Fetch hotels on component mount
+  useEffect(() => {
+    const fetchHotels = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/hotels');
+        if (!response.ok) {
+          throw new Error('Failed to load hotels');
+        }
+        setHotels(hotelListSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching hotels:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHotels();
+  }, []);
 
   // Filter hotels based on search inputs
   const filteredHotels = hotels.filter(hotel => {
@@ -60,39 +81,110 @@ export default function AddHotel() {
     return nameMatch && codeMatch;
   });
 
-  const handleAddHotel = (e: React.FormEvent) => {
+  const resetForm = () => {
+    setHotelName('');
+    setHotelCode('');
+    setAltHotelName('');
+    setPricesIncludeTax(false);
+    setSellerDetails(emptySellerDetails);
+    setCheckOutPolicy(emptyCheckOutPolicy);
+    setEditingHotelId(null);
+  };
+
+  const handleAddHotel = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (hotelName && hotelCode && altHotelName) {
-      const newHotel: Hotel = {
-        id: Date.now().toString(),
-        name: hotelName,
-        code: hotelCode,
-        altName: altHotelName,
-        createdAt: new Date().toISOString().split('T')[0]
-      };
-      setHotels([...hotels, newHotel]);
-      setHotelName('');
-      setHotelCode('');
-      setAltHotelName('');
-      console.log('Hotel added:', newHotel);
+    // Blank seller fields are cleared rather than saved as empty strings
+    const seller = SELLER_FIELDS.reduce((fields, field) => ({
+      ...fields,
+      [field.key]: sellerDetails[field.key].trim() || null,
+    }), {} as Record<SellerField, string | null>);
+    const input = hotelInputSchema.safeParse({
+      name: hotelName,
+      code: hotelCode,
+      altName: altHotelName,
+      pricesIncludeTax,
+      ...seller,
+      checkOutTime: checkOutPolicy.checkOutTime,
+      earlyCheckOutFee: parseFloat(checkOutPolicy.earlyCheckOutFee) || 0,
+      lateCheckOutFee: parseFloat(checkOutPolicy.lateCheckOutFee) || 0,
+    });
+    if (!input.success) {
+      setError(input.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await fetch(editingHotelId ? `/api/hotels/${editingHotelId}` : '/api/hotels', {
+        method: editingHotelId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input.data)
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to save hotel');
+      }
+      const data = hotelSchema.parse(body);
+
+      setHotels(editingHotelId
+        ? hotels.map(hotel => hotel.id === data.id ? data : hotel)
+        : [...hotels, data]);
+      resetForm();
+    } catch (error) {
+      console.error('Error saving hotel:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save hotel');
+    } finally {
+      setSaving(false);
     }
   };
 
   const handleEditHotel = (id: string) => {
-    console.log('Edit hotel:', id);
-    // Handle edit logic
+    const hotel = hotels.find(h => h.id === id);
+    if (!hotel) return;
+    setEditingHotelId(hotel.id);
+    setHotelName(hotel.name);
+    setHotelCode(hotel.code);
+    setAltHotelName(hotel.altName);
+    setPricesIncludeTax(hotel.pricesIncludeTax);
+    setSellerDetails(SELLER_FIELDS.reduce((fields, field) => ({
+      ...fields,
+      [field.key]: hotel[field.key] ?? '',
+    }), emptySellerDetails));
+    setCheckOutPolicy({
+      checkOutTime: hotel.checkOutTime,
+      earlyCheckOutFee: String(hotel.earlyCheckOutFee),
+      lateCheckOutFee: String(hotel.lateCheckOutFee),
+    });
+    setSelectedHotelDetails(null);
+  };
+
+  // Delete hotels on the server, keeping only those that were actually removed out of local state
+  const deleteHotels = async (ids: string[]) => {
+    setError('');
+    const results = await Promise.all(ids.map(async (id) => {
+      const response = await fetch(`/api/hotels/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to delete hotel');
+      }
+      return { id, ok: response.ok };
+    }));
+    const deletedIds = results.filter(result => result.ok).map(result => result.id);
+    setHotels(prev => prev.filter(hotel => !deletedIds.includes(hotel.id)));
+    setSelectedHotels(prev => prev.filter(selectedId => !deletedIds.includes(selectedId)));
+    if (editingHotelId && deletedIds.includes(editingHotelId)) {
+      resetForm();
+    }
   };
 
-  const handleDeleteHotel = (id: string) => {
-    setHotels(hotels.filter(hotel => hotel.id !== id));
-    setSelectedHotels(selectedHotels.filter(selectedId => selectedId !== id));
-    console.log('Hotel deleted:', id);
+  const handleDeleteHotel = async (id: string) => {
+    await deleteHotels([id]);
   };
 
   const handleViewHotel = (id: string) => {
     const hotel = hotels.find(h => h.id === id);
     setSelectedHotelDetails(hotel || null);
-    console.log('View hotel:', hotel);
   };
 
   const handleSelectHotel = (id: string) => {
@@ -111,10 +203,8 @@ export default function AddHotel() {
     }
   };
 
-  const handleDeleteSelected = () => {
-    setHotels(hotels.filter(hotel => !selectedHotels.includes(hotel.id)));
-    setSelectedHotels([]);
-    console.log('Selected hotels deleted:', selectedHotels);
+  const handleDeleteSelected = async () => {
+    await deleteHotels(selectedHotels);
   };
 
   const handlePrint = () => {
@@ -128,10 +218,8 @@ export default function AddHotel() {
     // Handle print selected logic
   };
 
-  const handleDeleteAll = () => {
-    setHotels([]);
-    setSelectedHotels([]);
-    console.log('All hotels deleted');
+  const handleDeleteAll = async () => {
+    await deleteHotels(hotels.map(hotel => hotel.id));
   };
 
   const handlePrintAll = () => {
@@ -160,13 +248,21 @@ export default function AddHotel() {
         <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
           <div className="mb-6">
             <h2 className="text-2xl font-semibold text-gray-900 mb-2">
-              {language === 'ar' ? 'إضافة فندق جديد' : 'Add New Hotel'}
+              {editingHotelId
+                ? (language === 'ar' ? 'تعديل الفندق' : 'Edit Hotel')
+                : (language === 'ar' ? 'إضافة فندق جديد' : 'Add New Hotel')}
             </h2>
             <p className="text-gray-600">
               {language === 'ar' ? 'أدخل تفاصيل الفندق الجديد' : 'Enter the details of the new hotel'}
             </p>
           </div>
 
+          {error && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
           <form onSubmit={handleAddHotel} className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {/* Hotel Name */}
@@ -215,14 +311,101 @@ export default function AddHotel() {
               </div>
             </div>
 
+            {/* Invoice seller details */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {SELLER_FIELDS.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {language === 'ar' ? field.ar : field.en}
+                  </label>
+                  <input
+                    type="text"
+                    value={sellerDetails[field.key]}
+                    onChange={(e) => setSellerDetails({ ...sellerDetails, [field.key]: e.target.value })}
+                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                    placeholder={field.placeholder}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Check-out policy */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'موعد تسجيل الخروج' : 'Check-out Time'}
+                </label>
+                <input
+                  type="time"
+                  value={checkOutPolicy.checkOutTime}
+                  onChange={(e) => setCheckOutPolicy({ ...checkOutPolicy, checkOutTime: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'رسوم المغادرة المبكرة' : 'Early Check-out Fee'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={checkOutPolicy.earlyCheckOutFee}
+                  onChange={(e) => setCheckOutPolicy({ ...checkOutPolicy, earlyCheckOutFee: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'رسوم المغادرة المتأخرة' : 'Late Check-out Fee'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={checkOutPolicy.lateCheckOutFee}
+                  onChange={(e) => setCheckOutPolicy({ ...checkOutPolicy, lateCheckOutFee: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                />
+              </div>
+            </div>
+
+            {/* Tax-inclusive pricing */}
+            <label className="flex items-center gap-3 p-3 bg-white/40 rounded-xl border border-gray-200/40 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={pricesIncludeTax}
+                onChange={(e) => setPricesIncludeTax(e.target.checked)}
+                className="w-5 h-5 text-apple-blue bg-white/80 border-gray-300 rounded-md focus:ring-apple-blue focus:ring-2"
+              />
+              <span className="text-sm font-semibold text-gray-700">
+                {language === 'ar' ? 'أسعار الغرف شاملة الضرائب والرسوم' : 'Room rates include VAT and fees'}
+              </span>
+            </label>
+
             {/* Action Buttons */}
             <div className="flex flex-wrap gap-4 pt-4">
               <button
                 type="submit"
-                className="px-6 py-3 bg-gradient-to-r w-full from-green-600 to-green-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-green-600 focus:ring-offset-2"
+                disabled={saving}
+                className="px-6 py-3 bg-gradient-to-r flex-1 from-green-600 to-green-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-green-600 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {language === 'ar' ? 'إضافة' : 'Add'}
+                {saving
+                  ? (language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                  : editingHotelId
+                    ? (language === 'ar' ? 'حفظ التعديلات' : 'Save Changes')
+                    : (language === 'ar' ? 'إضافة' : 'Add')}
               </button>
+              {editingHotelId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-6 py-3 bg-gradient-to-r from-gray-600 to-gray-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200"
+                >
+                  {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                </button>
+              )}
               
             </div>
           </form>
@@ -387,7 +570,22 @@ export default function AddHotel() {
              </table>
            </div>
 
-          {filteredHotels.length === 0 && (
+          {loading && (
+             <div className="flex items-center justify-center space-x-4 py-12">
+               <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+               <span className="text-lg font-medium text-gray-700">
+                 {language === 'ar' ? 'جاري تحميل الفنادق...' : 'Loading hotels...'}
+               </span>
+             </div>
+           )}
+
+          {!loading && loadFailed && (
+             <div className="text-center py-12 text-red-600">
+               {language === 'ar' ? 'تعذر تحميل الفنادق' : 'Could not load hotels'}
+             </div>
+           )}
+
+          {!loading && !loadFailed && filteredHotels.length === 0 && (
              <div className="text-center py-12">
                <div className="w-16 h-16 mx-auto bg-gray-100 rounded-full flex items-center justify-center mb-4">
                  <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -450,7 +648,40 @@ export default function AddHotel() {
                        {selectedHotelDetails.altName}
                      </div>
                    </div>
-                   
+
+                   <div className="space-y-2">
+                     <label className="block text-sm font-medium text-gray-700">
+                       {language === 'ar' ? 'تسعير الغرف' : 'Room Pricing'}
+                     </label>
+                     <div className="px-4 py-3 bg-gray-50/50 border border-gray-200/50 rounded-xl text-gray-800">
+                       {selectedHotelDetails.pricesIncludeTax
+                         ? (language === 'ar' ? 'شاملة الضرائب' : 'Tax included')
+                         : (language === 'ar' ? 'الضرائب تضاف' : 'Tax added on top')}
+                     </div>
+                   </div>
+
+                   <div className="space-y-2">
+                     <label className="block text-sm font-medium text-gray-700">
+                       {language === 'ar' ? 'سياسة تسجيل الخروج' : 'Check-out Policy'}
+                     </label>
+                     <div className="px-4 py-3 bg-gray-50/50 border border-gray-200/50 rounded-xl text-gray-800">
+                       {language === 'ar' ? 'الساعة' : 'By'} {selectedHotelDetails.checkOutTime} · {language === 'ar' ? 'مبكر' : 'early'}{' '}
+                       {selectedHotelDetails.earlyCheckOutFee.toFixed(2)} · {language === 'ar' ? 'متأخر' : 'late'}{' '}
+                       {selectedHotelDetails.lateCheckOutFee.toFixed(2)} SAR
+                     </div>
+                   </div>
+
+                   {SELLER_FIELDS.map(field => (
+                     <div key={field.key} className="space-y-2">
+                       <label className="block text-sm font-medium text-gray-700">
+                         {language === 'ar' ? field.ar : field.en}
+                       </label>
+                       <div className="px-4 py-3 bg-gray-50/50 border border-gray-200/50 rounded-xl text-gray-800">
+                         {selectedHotelDetails[field.key] || '-'}
+                       </div>
+                     </div>
+                   ))}
+
                    <div className="space-y-2">
                      <label className="block text-sm font-medium text-gray-700">
                        {language === 'ar' ? 'تاريخ الإضافة' : 'Created Date'}
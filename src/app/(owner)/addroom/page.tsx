@@ -1,29 +1,23 @@
 'use client';
 
-import { useState } from 'react';
-
-interface Room {
-  id: string;
-  hotelId: string;
-  hotelName: string;
-  roomType: string;
-  roomTypeDescription: string;
-  altDescription: string;
-  price: number;
-  quantity: number;
-  boardType: 'Room only' | 'Bed & breakfast' | 'Half board' | 'Full board';
-  seasonalPrices?: {
-    startDate: string;
-    endDate: string;
-    price: number;
-  }[];
-  createdAt: string;
-}
-
-interface Hotel {
-  id: string;
-  name: string;
-  code: string;
+import { useState, useEffect } from 'react';
+import {
+  hotelListSchema,
+  roomTypeInputSchema,
+  roomTypeListSchema,
+  roomTypeSchema,
+  roomTypeUpdateSchema,
+  seasonalPriceListSchema,
+  type BoardType,
+  type Hotel,
+  type RoomType,
+} from '@/lib/domain';
+
+// A seasonal price row as typed into the editor; price stays a string until the form is submitted
+interface SeasonDraft {
+  startDate: string;
+  endDate: string;
+  price: string;
 }
 
 export default function AddRoom() {
@@ -34,60 +28,48 @@ export default function AddRoom() {
   const [altDescription, setAltDescription] = useState('');
   const [price, setPrice] = useState('');
   const [quantity, setQuantity] = useState('1');
-  const [boardType, setBoardType] = useState<'Room only' | 'Bed & breakfast' | 'Half board' | 'Full board'>('Room only');
+  const [roomNumbers, setRoomNumbers] = useState('');
+  const [boardType, setBoardType] = useState<BoardType>('Room only');
   const [hasAlternativePrice, setHasAlternativePrice] = useState(true);
   const [alternativePrice, setAlternativePrice] = useState('');
+  const [seasonalPrices, setSeasonalPrices] = useState<SeasonDraft[]>([]);
   const [nameFilter, setNameFilter] = useState('');
   const [typeFilter, setTypeFilter] = useState('');
   const [selectedRooms, setSelectedRooms] = useState<string[]>([]);
-  const [selectedRoomDetails, setSelectedRoomDetails] = useState<Room | null>(null);
-  
-  // Sample hotels data
-  const [hotels] = useState<Hotel[]>([
-    { id: '1', name: 'Grand Palace Hotel', code: 'GPH001' },
-    { id: '2', name: 'Ocean View Resort', code: 'OVR002' },
-    { id: '3', name: 'Mountain Lodge', code: 'ML003' },
-    { id: '4', name: 'City Center Hotel', code: 'CCH004' }
-  ]);
-
-  const [rooms, setRooms] = useState<Room[]>([
-    {
-      id: '1',
-      hotelId: '1',
-      hotelName: 'Grand Palace Hotel',
-      roomType: 'Deluxe Suite',
-      roomTypeDescription: 'Luxury suite with ocean view',
-      altDescription: 'جناح فاخر مع إطلالة على المحيط',
-      price: 250,
-      quantity: 5,
-      boardType: 'Bed & breakfast',
-      createdAt: '2024-01-15'
-    },
-    {
-      id: '2',
-      hotelId: '2',
-      hotelName: 'Ocean View Resort',
-      roomType: 'Family Room',
-      roomTypeDescription: 'Spacious room for families',
-      altDescription: 'غرفة واسعة للعائلات',
-      price: 180,
-      quantity: 8,
-      boardType: 'Half board',
-      createdAt: '2024-01-20'
-    },
-    {
-      id: '3',
-      hotelId: '3',
-      hotelName: 'Mountain Lodge',
-      roomType: 'Standard Room',
-      roomTypeDescription: 'Comfortable standard accommodation',
-      altDescription: 'إقامة قياسية مريحة',
-      price: 120,
-      quantity: 12,
-      boardType: 'Room only',
-      createdAt: '2024-01-25'
-    }
-  ]);
+  const [selectedRoomDetails, setSelectedRoomDetails] = useState<RoomType | null>(null);
+  const [editingRoomId, setEditingRoomId] = useState<string | null>(null);
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [rooms, setRooms] = useState<RoomType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Fetch hotels and rooms on component mount
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+
+        const [hotelsResponse, roomsResponse] = await Promise.all([
+          fetch('/api/hotels'),
+          fetch('/api/rooms')
+        ]);
+        if (!hotelsResponse.ok || !roomsResponse.ok) {
+          throw new Error('Failed to load rooms');
+        }
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
+        setRooms(roomTypeListSchema.parse(await roomsResponse.json()));
+      } catch (error) {
+        console.error('Error fetching data:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
 
   // Filter rooms based on search inputs
   const filteredRooms = rooms.filter(room => {
@@ -101,52 +83,151 @@ export default function AddRoom() {
     return nameMatch && typeMatch;
   });
 
-  const handleAddRoom = (e: React.FormEvent) => {
+  const resetForm = () => {
+    setHotelId('');
+    setRoomType('');
+    setRoomTypeDescription('');
+    setAltDescription('');
+    setPrice('');
+    setQuantity('1');
+    setRoomNumbers('');
+    setBoardType('Room only');
+    setHasAlternativePrice(true);
+    setAlternativePrice('');
+    setSeasonalPrices([]);
+    setEditingRoomId(null);
+  };
+
+  const parseSeasons = () => seasonalPrices.map(season => ({
+    startDate: season.startDate,
+    endDate: season.endDate,
+    price: parseFloat(season.price),
+  }));
+
+  // Date problems per season row (end before start, overlap with an earlier row), shown while editing
+  const getSeasonErrors = () => {
+    const errors: Record<number, string> = {};
+    const result = seasonalPriceListSchema.safeParse(parseSeasons());
+    if (!result.success) {
+      result.error.issues
+        .filter(issue => issue.code === 'custom')
+        .forEach(issue => {
+          const index = issue.path[0] as number;
+          errors[index] = errors[index] || issue.message;
+        });
+    }
+    return errors;
+  };
+
+  const updateSeason = (index: number, field: keyof SeasonDraft, value: string) => {
+    setSeasonalPrices(seasonalPrices.map((season, i) => i === index ? { ...season, [field]: value } : season));
+  };
+
+  const handleAddSeason = () => {
+    setSeasonalPrices([...seasonalPrices, { startDate: '', endDate: '', price: price }]);
+  };
+
+  const handleRemoveSeason = (index: number) => {
+    setSeasonalPrices(seasonalPrices.filter((_, i) => i !== index));
+  };
+
+  const handleAddRoom = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (hotelId && roomType && roomTypeDescription && altDescription && price && quantity) {
-      const selectedHotel = hotels.find(h => h.id === hotelId);
-      const newRoom: Room = {
-        id: Date.now().toString(),
-        hotelId,
-        hotelName: selectedHotel?.name || '',
-        roomType,
-        roomTypeDescription,
-        altDescription,
-        price: parseFloat(price),
-        quantity: parseInt(quantity),
-        boardType,
-        createdAt: new Date().toISOString().split('T')[0]
-      };
-      setRooms([...rooms, newRoom]);
-      // Reset form
-      setHotelId('');
-      setRoomType('');
-      setRoomTypeDescription('');
-      setAltDescription('');
-      setPrice('');
-       setQuantity('1');
-       setBoardType('Room only');
-       setHasAlternativePrice(true);
-       setAlternativePrice('');
-      console.log('Room added:', newRoom);
+    if (!hotelId || !roomType || !roomTypeDescription || !altDescription || !price || !quantity) return;
+
+    const fields = {
+      roomType,
+      roomTypeDescription,
+      altDescription,
+      price: parseFloat(price),
+      alternativePrice: hasAlternativePrice && alternativePrice ? parseFloat(alternativePrice) : null,
+      quantity: parseInt(quantity),
+      boardType,
+      seasonalPrices: parseSeasons(),
+      roomNumbers: roomNumbers.split(',').map(number => number.trim()).filter(Boolean)
+    };
+    const payload = editingRoomId
+      ? roomTypeUpdateSchema.safeParse(fields)
+      : roomTypeInputSchema.safeParse({ ...fields, hotelId });
+    if (!payload.success) {
+      setError(payload.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await fetch(editingRoomId ? `/api/rooms/${editingRoomId}` : '/api/rooms', {
+        method: editingRoomId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload.data)
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to save room');
+      }
+      const data = roomTypeSchema.parse(body);
+
+      setRooms(editingRoomId
+        ? rooms.map(room => room.id === data.id ? data : room)
+        : [...rooms, data]);
+      resetForm();
+    } catch (error) {
+      console.error('Error saving room:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save room');
+    } finally {
+      setSaving(false);
     }
   };
 
   const handleEditRoom = (id: string) => {
-    console.log('Edit room:', id);
-    // Handle edit logic
+    const room = rooms.find(r => r.id === id);
+    if (!room) return;
+    setEditingRoomId(room.id);
+    setHotelId(room.hotelId);
+    setRoomType(room.roomType);
+    setRoomTypeDescription(room.roomTypeDescription);
+    setAltDescription(room.altDescription);
+    setPrice(room.price.toString());
+    setQuantity(room.quantity.toString());
+    setRoomNumbers(room.roomNumbers.join(', '));
+    setBoardType(room.boardType);
+    setHasAlternativePrice(room.alternativePrice != null);
+    setAlternativePrice(room.alternativePrice != null ? room.alternativePrice.toString() : '');
+    setSeasonalPrices(room.seasonalPrices.map(season => ({
+      startDate: season.startDate,
+      endDate: season.endDate,
+      price: season.price.toString()
+    })));
+    setSelectedRoomDetails(null);
   };
 
-  const handleDeleteRoom = (id: string) => {
-    setRooms(rooms.filter(room => room.id !== id));
-    setSelectedRooms(selectedRooms.filter(selectedId => selectedId !== id));
-    console.log('Room deleted:', id);
+  // Delete rooms on the server, keeping only those that were actually removed out of local state
+  const deleteRooms = async (ids: string[]) => {
+    setError('');
+    const results = await Promise.all(ids.map(async (id) => {
+      const response = await fetch(`/api/rooms/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to delete room');
+      }
+      return { id, ok: response.ok };
+    }));
+    const deletedIds = results.filter(result => result.ok).map(result => result.id);
+    setRooms(prev => prev.filter(room => !deletedIds.includes(room.id)));
+    setSelectedRooms(prev => prev.filter(roomId => !deletedIds.includes(roomId)));
+    if (editingRoomId && deletedIds.includes(editingRoomId)) {
+      resetForm();
+    }
+  };
+
+  const handleDeleteRoom = async (id: string) => {
+    await deleteRooms([id]);
   };
 
   const handleViewRoom = (id: string) => {
     const room = rooms.find(r => r.id === id);
     setSelectedRoomDetails(room || null);
-    console.log('View room:', room);
   };
 
   const handleSelectRoom = (id: string) => {
@@ -165,10 +246,8 @@ export default function AddRoom() {
     }
   };
 
-  const handleDeleteSelected = () => {
-    setRooms(rooms.filter(room => !selectedRooms.includes(room.id)));
-    setSelectedRooms([]);
-    console.log('Selected rooms deleted');
+  const handleDeleteSelected = async () => {
+    await deleteRooms(selectedRooms);
   };
 
   const handlePrintSelected = () => {
@@ -177,10 +256,8 @@ export default function AddRoom() {
     // Handle print selected logic
   };
 
-  const handleDeleteAll = () => {
-    setRooms([]);
-    setSelectedRooms([]);
-    console.log('All rooms deleted');
+  const handleDeleteAll = async () => {
+    await deleteRooms(rooms.map(room => room.id));
   };
 
   const handlePrintAll = () => {
@@ -219,10 +296,18 @@ export default function AddRoom() {
             <div className="flex items-center space-x-3 mb-6">
               <div className="w-2 h-2 bg-gradient-to-r from-apple-green to-apple-blue rounded-full animate-pulse"></div>
               <h2 className="text-xl font-semibold text-gray-800">
-                {language === 'ar' ? 'إضافة غرفة جديدة' : 'Add New Room'}
+                {editingRoomId
+                  ? (language === 'ar' ? 'تعديل الغرفة' : 'Edit Room')
+                  : (language === 'ar' ? 'إضافة غرفة جديدة' : 'Add New Room')}
               </h2>
             </div>
 
+            {error && (
+              <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
             <form onSubmit={handleAddRoom} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {/* Hotel Selection */}
@@ -233,7 +318,8 @@ export default function AddRoom() {
                   <select
                     value={hotelId}
                     onChange={(e) => setHotelId(e.target.value)}
-                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                    disabled={editingRoomId !== null}
+                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm disabled:opacity-50 disabled:cursor-not-allowed"
                     required
                   >
                     <option value="">{language === 'ar' ? 'اختر فندق' : 'Select Hotel'}</option>
@@ -265,7 +351,7 @@ export default function AddRoom() {
                   </label>
                   <select
                     value={boardType}
-                    onChange={(e) => setBoardType(e.target.value as any)}
+                    onChange={(e) => setBoardType(e.target.value as BoardType)}
                     className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm"
                   >
                     <option value="Room only">{language === 'ar' ? 'غرفة فقط' : 'Room only'}</option>
@@ -319,6 +405,20 @@ export default function AddRoom() {
                     required
                   />
                 </div>
+
+                {/* Room Numbers */}
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {language === 'ar' ? 'أرقام الغرف' : 'Room Numbers'}
+                  </label>
+                  <input
+                    type="text"
+                    value={roomNumbers}
+                    onChange={(e) => setRoomNumbers(e.target.value)}
+                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                    placeholder={language === 'ar' ? 'مثل: 101، 102، 103' : 'e.g., 101, 102, 103'}
+                  />
+                </div>
               </div>
 
               {/* Pricing Section - Full Width */}
@@ -394,30 +494,110 @@ export default function AddRoom() {
                             </span>
                           </div>
                         </div>
-                        <div className="w-full bg-gradient-to-r from-blue-50/80 to-indigo-50/80 p-4 rounded-xl border border-blue-200/50 shadow-sm">
-                          <p className="text-sm font-medium text-blue-800 leading-relaxed">
-                            {language === 'ar' 
-                              ? '💡 يمكنك تحديد أسعار موسمية بناءً على تواريخ محددة بعد إضافة الغرفة'
-                              : '💡 You can set seasonal prices based on specific dates after adding the room'
-                            }
-                          </p>
-                        </div>
                       </div>
                     </div>
                   </div>
+
+                  {/* Seasonal Prices */}
+                  <div className="border-t border-gray-200/50 pt-4 w-full space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+                        <div className="w-2 h-2 bg-apple-purple rounded-full"></div>
+                        {language === 'ar' ? 'الأسعار الموسمية (لكل ليلة)' : 'Seasonal Prices (per night)'}
+                      </label>
+                      <button
+                        type="button"
+                        onClick={handleAddSeason}
+                        className="px-4 py-2 bg-white/70 border border-gray-200/60 rounded-xl text-sm font-medium text-apple-blue hover:bg-white transition-all duration-200"
+                      >
+                        {language === 'ar' ? '+ إضافة موسم' : '+ Add Season'}
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {language === 'ar'
+                        ? 'يحل سعر الموسم محل السعر الأساسي لكل ليلة من تاريخ البداية حتى تاريخ النهاية شاملاً، ولا يجوز أن تتداخل المواسم'
+                        : 'A season replaces the base price on every night from its start date through its end date; seasons may not overlap'}
+                    </p>
+
+                    {seasonalPrices.length === 0 ? (
+                      <div className="p-3 bg-white/40 rounded-xl border border-gray-200/40 text-sm text-gray-500">
+                        {language === 'ar' ? 'لا توجد أسعار موسمية' : 'No seasonal prices'}
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {(() => {
+                          const seasonErrors = getSeasonErrors();
+                          return seasonalPrices.map((season, index) => (
+                            <div key={index} className="space-y-1">
+                              <div className={`grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-3 p-3 bg-white/40 rounded-xl border ${seasonErrors[index] ? 'border-red-300' : 'border-gray-200/40'}`}>
+                                <input
+                                  type="date"
+                                  value={season.startDate}
+                                  onChange={(e) => updateSeason(index, 'startDate', e.target.value)}
+                                  className="w-full px-3 py-2 bg-white/70 border border-gray-200/60 rounded-lg focus:ring-2 focus:ring-apple-blue focus:border-transparent"
+                                  aria-label={language === 'ar' ? 'من' : 'From'}
+                                  required
+                                />
+                                <input
+                                  type="date"
+                                  value={season.endDate}
+                                  onChange={(e) => updateSeason(index, 'endDate', e.target.value)}
+                                  className="w-full px-3 py-2 bg-white/70 border border-gray-200/60 rounded-lg focus:ring-2 focus:ring-apple-blue focus:border-transparent"
+                                  aria-label={language === 'ar' ? 'إلى' : 'To'}
+                                  required
+                                />
+                                <input
+                                  type="number"
+                                  value={season.price}
+                                  onChange={(e) => updateSeason(index, 'price', e.target.value)}
+                                  className="w-full px-3 py-2 bg-white/70 border border-gray-200/60 rounded-lg focus:ring-2 focus:ring-apple-blue focus:border-transparent"
+                                  placeholder={language === 'ar' ? 'السعر بالريال' : 'Price in SAR'}
+                                  min="0"
+                                  step="0.01"
+                                  required
+                                />
+                                <button
+                                  type="button"
+                                  onClick={() => handleRemoveSeason(index)}
+                                  className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                >
+                                  {language === 'ar' ? 'حذف' : 'Remove'}
+                                </button>
+                              </div>
+                              {seasonErrors[index] && (
+                                <p className="text-xs text-red-600 px-1">{seasonErrors[index]}</p>
+                              )}
+                            </div>
+                          ));
+                        })()}
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
 
-
-
               {/* Action Buttons */}
               <div className="flex flex-wrap gap-3">
                 <button
                   type="submit"
-                  className="w-full px-6 py-3 bg-gradient-to-r from-apple-green to-apple-green-light text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-apple-green focus:ring-offset-2"
+                  disabled={saving}
+                  className="flex-1 px-6 py-3 bg-gradient-to-r from-apple-green to-apple-green-light text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-apple-green focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {language === 'ar' ? 'إضافة غرفة' : 'Add Room'}
+                  {saving
+                    ? (language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                    : editingRoomId
+                      ? (language === 'ar' ? 'حفظ التعديلات' : 'Save Changes')
+                      : (language === 'ar' ? 'إضافة غرفة' : 'Add Room')}
                 </button>
+                {editingRoomId && (
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-6 py-3 bg-gradient-to-r from-gray-600 to-gray-700 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200"
+                  >
+                    {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                  </button>
+                )}
               </div>
             </form>
           </div>
@@ -514,7 +694,18 @@ export default function AddRoom() {
 
             {/* Rooms Table */}
             <div className="overflow-x-auto">
-              {filteredRooms.length > 0 ? (
+              {loading ? (
+                <div className="flex items-center justify-center space-x-4 py-12">
+                  <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                  <span className="text-lg font-medium text-gray-700">
+                    {language === 'ar' ? 'جاري تحميل الغرف...' : 'Loading rooms...'}
+                  </span>
+                </div>
+              ) : loadFailed ? (
+                <div className="text-center py-12 text-red-600">
+                  {language === 'ar' ? 'تعذر تحميل الغرف' : 'Could not load rooms'}
+                </div>
+              ) : filteredRooms.length > 0 ? (
                 <table className="w-full">
                   <thead>
                     <tr className="border-b border-gray-200/50">
@@ -680,6 +871,26 @@ export default function AddRoom() {
                   <p className="text-gray-900">{selectedRoomDetails.quantity}</p>
                 </div>
               </div>
+              {selectedRoomDetails.seasonalPrices.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {language === 'ar' ? 'الأسعار الموسمية' : 'Seasonal Prices'}
+                  </label>
+                  {selectedRoomDetails.seasonalPrices.map(season => (
+                    <p key={season.startDate} className="text-gray-900">
+                      {season.startDate} → {season.endDate}: SAR {season.price}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {selectedRoomDetails.roomNumbers.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {language === 'ar' ? 'أرقام الغرف' : 'Room Numbers'}
+                  </label>
+                  <p className="text-gray-900">{selectedRoomDetails.roomNumbers.join(', ')}</p>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700">
                   {language === 'ar' ? 'تاريخ الإضافة' : 'Created Date'}
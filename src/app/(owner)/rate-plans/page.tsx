@@ -0,0 +1,578 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  BOARD_TYPES,
+  CANCELLATION_TYPES,
+  CANCELLATION_TYPE_LABELS,
+  RATE_DERIVATIONS,
+  RATE_DERIVATION_LABELS,
+  hotelListSchema,
+  ratePlanInputSchema,
+  ratePlanListSchema,
+  ratePlanSchema,
+  ratePlanUpdateSchema,
+  type BoardType,
+  type CancellationType,
+  type Hotel,
+  type RateDerivation,
+  type RatePlan,
+} from '@/lib/domain';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export default function RatePlans() {
+  const [language] = useState('en');
+  const [hotelId, setHotelId] = useState('');
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [derivation, setDerivation] = useState<RateDerivation>('bar');
+  const [derivationValue, setDerivationValue] = useState('');
+  const [boardType, setBoardType] = useState<BoardType | ''>('');
+  const [minStay, setMinStay] = useState('');
+  const [maxStay, setMaxStay] = useState('');
+  const [validFrom, setValidFrom] = useState('');
+  const [validTo, setValidTo] = useState('');
+  const [cancellationPolicy, setCancellationPolicy] = useState('');
+  const [cancellationType, setCancellationType] = useState<CancellationType>('free-until');
+  const [freeCancellationDays, setFreeCancellationDays] = useState('1');
+  const [active, setActive] = useState(true);
+  const [editingPlanId, setEditingPlanId] = useState<string | null>(null);
+  const [hotelFilter, setHotelFilter] = useState('');
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [ratePlans, setRatePlans] = useState<RatePlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Fetch hotels and rate plans on component mount
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+
+        const [hotelsResponse, ratePlansResponse] = await Promise.all([
+          fetch('/api/hotels'),
+          fetch('/api/rate-plans')
+        ]);
+        if (!hotelsResponse.ok || !ratePlansResponse.ok) {
+          throw new Error('Failed to load rate plans');
+        }
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
+        setRatePlans(ratePlanListSchema.parse(await ratePlansResponse.json()));
+      } catch (error) {
+        console.error('Error fetching data:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const filteredPlans = ratePlans.filter(plan => hotelFilter === '' || plan.hotelId === hotelFilter);
+
+  const resetForm = () => {
+    setHotelId('');
+    setCode('');
+    setName('');
+    setDescription('');
+    setDerivation('bar');
+    setDerivationValue('');
+    setBoardType('');
+    setMinStay('');
+    setMaxStay('');
+    setValidFrom('');
+    setValidTo('');
+    setCancellationPolicy('');
+    setCancellationType('free-until');
+    setFreeCancellationDays('1');
+    setActive(true);
+    setEditingPlanId(null);
+  };
+
+  const handleSavePlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const fields = {
+      code,
+      name,
+      description: description || null,
+      derivation,
+      derivationValue: derivation === 'bar' ? 0 : parseFloat(derivationValue) || 0,
+      boardType: boardType || null,
+      minStay: minStay ? parseInt(minStay) : null,
+      maxStay: maxStay ? parseInt(maxStay) : null,
+      validFrom: validFrom || null,
+      validTo: validTo || null,
+      cancellationPolicy: cancellationPolicy || null,
+      cancellationType,
+      freeCancellationDays: cancellationType === 'free-until' ? parseInt(freeCancellationDays) || 0 : 0,
+      active
+    };
+    const payload = editingPlanId
+      ? ratePlanUpdateSchema.safeParse(fields)
+      : ratePlanInputSchema.safeParse({ ...fields, hotelId });
+    if (!payload.success) {
+      setError(payload.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await fetch(editingPlanId ? `/api/rate-plans/${editingPlanId}` : '/api/rate-plans', {
+        method: editingPlanId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload.data)
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to save rate plan');
+      }
+      const data = ratePlanSchema.parse(body);
+
+      setRatePlans(editingPlanId
+        ? ratePlans.map(plan => plan.id === data.id ? data : plan)
+        : [...ratePlans, data]);
+      resetForm();
+    } catch (error) {
+      console.error('Error saving rate plan:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save rate plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEditPlan = (plan: RatePlan) => {
+    setEditingPlanId(plan.id);
+    setHotelId(plan.hotelId);
+    setCode(plan.code);
+    setName(plan.name);
+    setDescription(plan.description ?? '');
+    setDerivation(plan.derivation);
+    setDerivationValue(plan.derivation === 'bar' ? '' : plan.derivationValue.toString());
+    setBoardType(plan.boardType ?? '');
+    setMinStay(plan.minStay?.toString() ?? '');
+    setMaxStay(plan.maxStay?.toString() ?? '');
+    setValidFrom(plan.validFrom ?? '');
+    setValidTo(plan.validTo ?? '');
+    setCancellationPolicy(plan.cancellationPolicy ?? '');
+    setCancellationType(plan.cancellationType);
+    setFreeCancellationDays(plan.freeCancellationDays.toString());
+    setActive(plan.active);
+  };
+
+  const handleDeletePlan = async (plan: RatePlan) => {
+    if (!confirm(`Delete rate plan ${plan.code}? Reservations made on it keep their rate code.`)) return;
+
+    try {
+      setError('');
+      const response = await fetch(`/api/rate-plans/${plan.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to delete rate plan');
+      }
+      setRatePlans(ratePlans.filter(item => item.id !== plan.id));
+      if (editingPlanId === plan.id) resetForm();
+    } catch (error) {
+      console.error('Error deleting rate plan:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete rate plan');
+    }
+  };
+
+  // "15% off BAR", "SAR 20 off BAR", "SAR 300 / night" or "BAR"
+  const describeDerivation = (plan: RatePlan) => {
+    switch (plan.derivation) {
+      case 'percent-off': return `${plan.derivationValue}% off BAR`;
+      case 'amount-off': return `SAR ${plan.derivationValue} off BAR`;
+      case 'fixed': return `SAR ${plan.derivationValue} / night`;
+      default: return 'BAR';
+    }
+  };
+
+  const describeStay = (plan: RatePlan) => {
+    if (plan.minStay && plan.maxStay) return `${plan.minStay}–${plan.maxStay} nights`;
+    if (plan.minStay) return `${plan.minStay}+ nights`;
+    if (plan.maxStay) return `up to ${plan.maxStay} nights`;
+    return 'Any';
+  };
+
+  const describeCancellation = (plan: RatePlan) => plan.cancellationType === 'free-until'
+    ? `Free until ${plan.freeCancellationDays} day(s) before`
+    : CANCELLATION_TYPE_LABELS[plan.cancellationType].en;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        {/* Add / Edit Rate Plan Section */}
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+              {editingPlanId
+                ? (language === 'ar' ? 'تعديل خطة التعريفة' : 'Edit Rate Plan')
+                : (language === 'ar' ? 'إضافة خطة تعريفة' : 'Add Rate Plan')}
+            </h2>
+            <p className="text-gray-600">
+              {language === 'ar'
+                ? 'كل خطة تشتق سعرها من أفضل سعر متاح للغرفة في كل ليلة'
+                : 'Each plan derives its nightly rate from the room type\'s best available rate (BAR) for that night'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSavePlan} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'الفندق' : 'Hotel'}
+                </label>
+                <select
+                  value={hotelId}
+                  onChange={(e) => setHotelId(e.target.value)}
+                  disabled={editingPlanId !== null}
+                  className={inputClassName}
+                  required
+                >
+                  <option value="">{language === 'ar' ? 'اختر فندق' : 'Select Hotel'}</option>
+                  {hotels.map(hotel => (
+                    <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'كود التعريفة' : 'Rate Code'}
+                </label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  className={inputClassName}
+                  placeholder={language === 'ar' ? 'مثل: CORP' : 'e.g., CORP'}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'الاسم' : 'Name'}
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClassName}
+                  placeholder={language === 'ar' ? 'مثل: أسعار الشركات' : 'e.g., Corporate'}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'طريقة التسعير' : 'Rate Derivation'}
+                </label>
+                <select
+                  value={derivation}
+                  onChange={(e) => setDerivation(e.target.value as RateDerivation)}
+                  className={inputClassName}
+                >
+                  {RATE_DERIVATIONS.map(option => (
+                    <option key={option} value={option}>{RATE_DERIVATION_LABELS[option][language === 'ar' ? 'ar' : 'en']}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {derivation === 'percent-off'
+                    ? (language === 'ar' ? 'نسبة الخصم (%)' : 'Discount (%)')
+                    : derivation === 'fixed'
+                      ? (language === 'ar' ? 'السعر لكل ليلة (ريال)' : 'Nightly Rate (SAR)')
+                      : (language === 'ar' ? 'مبلغ الخصم (ريال)' : 'Discount (SAR)')}
+                </label>
+                <input
+                  type="number"
+                  value={derivationValue}
+                  onChange={(e) => setDerivationValue(e.target.value)}
+                  disabled={derivation === 'bar'}
+                  className={inputClassName}
+                  min="0"
+                  max={derivation === 'percent-off' ? '100' : undefined}
+                  step="0.01"
+                  required={derivation !== 'bar'}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'نوع الإقامة المشمول' : 'Board Included'}
+                </label>
+                <select
+                  value={boardType}
+                  onChange={(e) => setBoardType(e.target.value as BoardType | '')}
+                  className={inputClassName}
+                >
+                  <option value="">{language === 'ar' ? 'حسب نوع الغرفة' : 'Room type default'}</option>
+                  {BOARD_TYPES.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'أقل مدة إقامة (ليالي)' : 'Minimum Stay (nights)'}
+                </label>
+                <input
+                  type="number"
+                  value={minStay}
+                  onChange={(e) => setMinStay(e.target.value)}
+                  className={inputClassName}
+                  min="1"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'أقصى مدة إقامة (ليالي)' : 'Maximum Stay (nights)'}
+                </label>
+                <input
+                  type="number"
+                  value={maxStay}
+                  onChange={(e) => setMaxStay(e.target.value)}
+                  className={inputClassName}
+                  min="1"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'صالحة للوصول من / إلى' : 'Valid for Arrivals From / To'}
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="date"
+                    value={validFrom}
+                    onChange={(e) => setValidFrom(e.target.value)}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="date"
+                    value={validTo}
+                    onChange={(e) => setValidTo(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'الوصف' : 'Description'}
+                </label>
+                <input
+                  type="text"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div className="flex items-end">
+                <label className="flex items-center gap-3 p-3 w-full bg-white/40 rounded-xl border border-gray-200/40 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={active}
+                    onChange={(e) => setActive(e.target.checked)}
+                    className="w-5 h-5 text-apple-blue bg-white/80 border-gray-300 rounded-md focus:ring-apple-blue focus:ring-2"
+                  />
+                  <span className="text-sm font-semibold text-gray-700">
+                    {language === 'ar' ? 'متاحة للحجز' : 'Offered for new bookings'}
+                  </span>
+                </label>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'غرامة الإلغاء' : 'Cancellation Penalty'}
+                </label>
+                <select
+                  value={cancellationType}
+                  onChange={(e) => setCancellationType(e.target.value as CancellationType)}
+                  className={inputClassName}
+                >
+                  {CANCELLATION_TYPES.map(option => (
+                    <option key={option} value={option}>{CANCELLATION_TYPE_LABELS[option][language === 'ar' ? 'ar' : 'en']}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'أيام الإلغاء المجاني قبل الوصول' : 'Free Cancellation (days before arrival)'}
+                </label>
+                <input
+                  type="number"
+                  value={freeCancellationDays}
+                  onChange={(e) => setFreeCancellationDays(e.target.value)}
+                  disabled={cancellationType !== 'free-until'}
+                  className={inputClassName}
+                  min="0"
+                  required={cancellationType === 'free-until'}
+                />
+              </div>
+
+              <div className="space-y-2 md:col-span-2 lg:col-span-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'سياسة الإلغاء' : 'Cancellation Policy'}
+                </label>
+                <textarea
+                  value={cancellationPolicy}
+                  onChange={(e) => setCancellationPolicy(e.target.value)}
+                  rows={2}
+                  className={inputClassName}
+                  placeholder={language === 'ar' ? 'مثل: إلغاء مجاني حتى 24 ساعة قبل الوصول' : 'e.g., Free cancellation until 24 hours before arrival'}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-apple-green to-apple-green-light text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-apple-green focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving
+                  ? (language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                  : editingPlanId
+                    ? (language === 'ar' ? 'حفظ التعديلات' : 'Save Changes')
+                    : (language === 'ar' ? 'إضافة خطة' : 'Add Rate Plan')}
+              </button>
+              {editingPlanId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-6 py-3 bg-gradient-to-r from-gray-600 to-gray-700 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200"
+                >
+                  {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        {/* Rate Plans List */}
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900">
+              {language === 'ar' ? 'خطط التعريفة' : 'Rate Plans'}
+            </h2>
+            <select
+              value={hotelFilter}
+              onChange={(e) => setHotelFilter(e.target.value)}
+              className="px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+            >
+              <option value="">{language === 'ar' ? 'كل الفنادق' : 'All Hotels'}</option>
+              {hotels.map(hotel => (
+                <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {loading && (
+            <div className="flex items-center justify-center space-x-4 py-12">
+              <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+              <span className="text-lg font-medium text-gray-700">
+                {language === 'ar' ? 'جاري تحميل خطط التعريفة...' : 'Loading rate plans...'}
+              </span>
+            </div>
+          )}
+
+          {!loading && loadFailed && (
+            <div className="text-center py-12 text-red-600">
+              {language === 'ar' ? 'تعذر تحميل خطط التعريفة' : 'Could not load rate plans'}
+            </div>
+          )}
+
+          {!loading && !loadFailed && filteredPlans.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              {language === 'ar' ? 'لا توجد خطط تعريفة' : 'No rate plans found'}
+            </div>
+          )}
+
+          {!loading && !loadFailed && filteredPlans.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200/30">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الكود' : 'Code'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الفندق' : 'Hotel'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'السعر' : 'Rate'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الإقامة' : 'Board'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'مدة الإقامة' : 'Stay'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الصلاحية' : 'Valid'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الإلغاء' : 'Cancellation'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الحالة' : 'Status'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الإجراءات' : 'Actions'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredPlans.map(plan => (
+                    <tr key={plan.id} className="border-b border-gray-100/50 hover:bg-white/30 transition-colors">
+                      <td className="py-3 px-4">
+                        <div className="font-semibold text-gray-900">{plan.code}</div>
+                        <div className="text-sm text-gray-500">{plan.name}</div>
+                      </td>
+                      <td className="py-3 px-4 text-gray-800">{plan.hotelName}</td>
+                      <td className="py-3 px-4 text-gray-800">{describeDerivation(plan)}</td>
+                      <td className="py-3 px-4 text-gray-800">{plan.boardType ?? '—'}</td>
+                      <td className="py-3 px-4 text-gray-800">{describeStay(plan)}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {plan.validFrom || plan.validTo ? `${plan.validFrom ?? '…'} → ${plan.validTo ?? '…'}` : 'Always'}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{describeCancellation(plan)}</td>
+                      <td className="py-3 px-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium border ${plan.active ? 'bg-green-100 text-green-800 border-green-200' : 'bg-gray-100 text-gray-600 border-gray-200'}`}>
+                          {plan.active ? (language === 'ar' ? 'نشطة' : 'Active') : (language === 'ar' ? 'متوقفة' : 'Inactive')}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 space-x-2 whitespace-nowrap">
+                        <button
+                          onClick={() => handleEditPlan(plan)}
+                          className="px-3 py-1 bg-apple-blue/10 text-apple-blue text-sm rounded-lg hover:bg-apple-blue/20 transition-colors"
+                        >
+                          {language === 'ar' ? 'تعديل' : 'Edit'}
+                        </button>
+                        <button
+                          onClick={() => handleDeletePlan(plan)}
+                          className="px-3 py-1 bg-red-50 text-red-600 text-sm rounded-lg hover:bg-red-100 transition-colors"
+                        >
+                          {language === 'ar' ? 'حذف' : 'Delete'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
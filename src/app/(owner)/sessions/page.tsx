@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { signOut } from '@/components/SessionProvider';
+
+interface ActiveSession {
+  id: string;
+  remember: boolean;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+interface UserSessions {
+  id: string;
+  username: string;
+  name: string | null;
+  role: string;
+  sessions: ActiveSession[];
+}
+
+// Rough "Browser on OS" label from a user agent string
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+export default function Sessions() {
+  const [language] = useState('en');
+  const [users, setUsers] = useState<UserSessions[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Fetch sessions on component mount
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/sessions');
+        if (!response.ok) {
+          throw new Error('Failed to load sessions');
+        }
+        setUsers(await response.json());
+      } catch (error) {
+        console.error('Error fetching sessions:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  const handleForceLogout = async (user: UserSessions, session: ActiveSession) => {
+    if (!confirm(`Sign ${user.username} out of ${describeDevice(session.userAgent)}?`)) return;
+
+    try {
+      setRevokingId(session.id);
+      setError('');
+      const response = await fetch(`/api/sessions/${session.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to sign out device');
+      }
+
+      if (session.current) {
+        signOut();
+        return;
+      }
+
+      setUsers(prev => prev.map(item => item.id === user.id
+        ? { ...item, sessions: item.sessions.filter(s => s.id !== session.id) }
+        : item
+      ));
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sign out device');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+              {language === 'ar' ? 'الجلسات النشطة' : 'Active Sessions'}
+            </h2>
+            <p className="text-gray-600">
+              {language === 'ar'
+                ? 'الأجهزة المسجلة الدخول لكل مستخدم، مع إمكانية تسجيل خروج أي جهاز'
+                : 'Devices signed in for each user; sign out any device remotely'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex items-center justify-center space-x-4 py-12">
+              <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+              <span className="text-lg font-medium text-gray-700">
+                {language === 'ar' ? 'جاري تحميل الجلسات...' : 'Loading sessions...'}
+              </span>
+            </div>
+          )}
+
+          {!loading && loadFailed && (
+            <div className="text-center py-12 text-red-600">
+              {language === 'ar' ? 'تعذر تحميل الجلسات' : 'Could not load sessions'}
+            </div>
+          )}
+
+          {!loading && !loadFailed && (
+            <div className="space-y-6">
+              {users.map(user => (
+                <div key={user.id} className="bg-white/50 border border-gray-200/50 rounded-2xl p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{user.name || user.username}</h3>
+                      <p className="text-sm text-gray-500">@{user.username} · {user.role}</p>
+                    </div>
+                    <span className="px-3 py-1 bg-apple-blue/10 text-apple-blue text-sm rounded-full">
+                      {user.sessions.length} {language === 'ar' ? 'جلسة' : user.sessions.length === 1 ? 'session' : 'sessions'}
+                    </span>
+                  </div>
+
+                  {user.sessions.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      {language === 'ar' ? 'لا توجد جلسات نشطة' : 'No active sessions'}
+                    </p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b border-gray-200/30">
+                            <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                              {language === 'ar' ? 'الجهاز' : 'Device'}
+                            </th>
+                            <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                              {language === 'ar' ? 'عنوان IP' : 'IP Address'}
+                            </th>
+                            <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                              {language === 'ar' ? 'تسجيل الدخول' : 'Signed In'}
+                            </th>
+                            <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                              {language === 'ar' ? 'آخر نشاط' : 'Last Seen'}
+                            </th>
+                            <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                              {language === 'ar' ? 'ينتهي' : 'Expires'}
+                            </th>
+                            <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                              {language === 'ar' ? 'الإجراءات' : 'Actions'}
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {user.sessions.map(session => (
+                            <tr key={session.id} className="border-b border-gray-100/50 hover:bg-white/30 transition-colors">
+                              <td className="py-3 px-4 text-gray-800">
+                                {describeDevice(session.userAgent)}
+                                {session.current && (
+                                  <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-800 text-xs rounded-full">
+                                    {language === 'ar' ? 'هذا الجهاز' : 'This device'}
+                                  </span>
+                                )}
+                                {session.remember && (
+                                  <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">
+                                    {language === 'ar' ? 'تذكرني' : 'Remembered'}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-3 px-4 text-gray-600">{session.ipAddress || '-'}</td>
+                              <td className="py-3 px-4 text-gray-600">{formatDateTime(session.createdAt)}</td>
+                              <td className="py-3 px-4 text-gray-600">{formatDateTime(session.lastSeenAt)}</td>
+                              <td className="py-3 px-4 text-gray-600">{formatDateTime(session.expiresAt)}</td>
+                              <td className="py-3 px-4">
+                                <button
+                                  onClick={() => handleForceLogout(user, session)}
+                                  disabled={revokingId === session.id}
+                                  className="px-3 py-1 bg-gradient-to-r from-red-500 to-red-600 text-white text-sm rounded-lg hover:shadow-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  {language === 'ar' ? 'تسجيل الخروج' : 'Force Logout'}
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,470 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  CHARGE_TYPES,
+  CHARGE_TYPE_LABELS,
+  hotelListSchema,
+  taxInputSchema,
+  taxListSchema,
+  taxSchema,
+  taxUpdateSchema,
+  type ChargeType,
+  type Hotel,
+  type Tax,
+} from '@/lib/domain';
+import { applyTaxes } from '@/lib/taxes';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export default function Taxes() {
+  const [language] = useState('en');
+  const [hotelId, setHotelId] = useState('');
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [altName, setAltName] = useState('');
+  const [rate, setRate] = useState('');
+  const [compound, setCompound] = useState(false);
+  const [chargeTypes, setChargeTypes] = useState<ChargeType[]>(['room']);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [effectiveTo, setEffectiveTo] = useState('');
+  const [editingTaxId, setEditingTaxId] = useState<string | null>(null);
+  const [hotelFilter, setHotelFilter] = useState('');
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [taxes, setTaxes] = useState<Tax[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Fetch hotels and taxes on component mount
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+
+        const [hotelsResponse, taxesResponse] = await Promise.all([
+          fetch('/api/hotels'),
+          fetch('/api/taxes')
+        ]);
+        if (!hotelsResponse.ok || !taxesResponse.ok) {
+          throw new Error('Failed to load taxes');
+        }
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
+        setTaxes(taxListSchema.parse(await taxesResponse.json()));
+      } catch (error) {
+        console.error('Error fetching data:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const filteredTaxes = taxes.filter(tax => hotelFilter === '' || tax.hotelId === hotelFilter);
+
+  const resetForm = () => {
+    setHotelId('');
+    setCode('');
+    setName('');
+    setAltName('');
+    setRate('');
+    setCompound(false);
+    setChargeTypes(['room']);
+    setEffectiveFrom('');
+    setEffectiveTo('');
+    setEditingTaxId(null);
+  };
+
+  const toggleChargeType = (chargeType: ChargeType) => {
+    setChargeTypes(chargeTypes.includes(chargeType)
+      ? chargeTypes.filter(item => item !== chargeType)
+      : [...chargeTypes, chargeType]);
+  };
+
+  const handleSaveTax = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const fields = {
+      code,
+      name,
+      altName: altName || null,
+      rate: parseFloat(rate) || 0,
+      compound,
+      chargeTypes,
+      effectiveFrom: effectiveFrom || null,
+      effectiveTo: effectiveTo || null
+    };
+    const payload = editingTaxId
+      ? taxUpdateSchema.safeParse(fields)
+      : taxInputSchema.safeParse({ ...fields, hotelId });
+    if (!payload.success) {
+      setError(payload.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await fetch(editingTaxId ? `/api/taxes/${editingTaxId}` : '/api/taxes', {
+        method: editingTaxId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload.data)
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to save tax');
+      }
+      const data = taxSchema.parse(body);
+
+      setTaxes(editingTaxId
+        ? taxes.map(tax => tax.id === data.id ? data : tax)
+        : [...taxes, data]);
+      resetForm();
+    } catch (error) {
+      console.error('Error saving tax:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save tax');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEditTax = (tax: Tax) => {
+    setEditingTaxId(tax.id);
+    setHotelId(tax.hotelId);
+    setCode(tax.code);
+    setName(tax.name);
+    setAltName(tax.altName ?? '');
+    setRate(tax.rate.toString());
+    setCompound(tax.compound);
+    setChargeTypes(tax.chargeTypes);
+    setEffectiveFrom(tax.effectiveFrom ?? '');
+    setEffectiveTo(tax.effectiveTo ?? '');
+  };
+
+  const handleDeleteTax = async (tax: Tax) => {
+    if (!confirm(`Delete ${tax.code} ${tax.rate}%? Reservations already made keep the tax they were charged.`)) return;
+
+    try {
+      setError('');
+      const response = await fetch(`/api/taxes/${tax.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to delete tax');
+      }
+      setTaxes(taxes.filter(item => item.id !== tax.id));
+      if (editingTaxId === tax.id) resetForm();
+    } catch (error) {
+      console.error('Error deleting tax:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete tax');
+    }
+  };
+
+  // What a 100 SAR room night comes to today under the filtered hotel's taxes
+  const getSample = () => {
+    const hotel = hotels.find(item => item.id === hotelFilter);
+    if (!hotel) return null;
+    return applyTaxes(100, 'room', new Date().toISOString().split('T')[0], filteredTaxes, hotel.pricesIncludeTax);
+  };
+
+  const sample = getSample();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        {/* Add / Edit Tax Section */}
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+              {editingTaxId
+                ? (language === 'ar' ? 'تعديل ضريبة' : 'Edit Tax')
+                : (language === 'ar' ? 'إضافة ضريبة أو رسوم' : 'Add Tax or Fee')}
+            </h2>
+            <p className="text-gray-600">
+              {language === 'ar'
+                ? 'لتغيير نسبة ضريبة، أنهِ الفترة الحالية وأضف فترة جديدة بالنسبة الجديدة'
+                : 'To change a rate, end the current period and add a new one, so past stays keep the rate in force at the time'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSaveTax} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'الفندق' : 'Hotel'}
+                </label>
+                <select
+                  value={hotelId}
+                  onChange={(e) => setHotelId(e.target.value)}
+                  disabled={editingTaxId !== null}
+                  className={inputClassName}
+                  required
+                >
+                  <option value="">{language === 'ar' ? 'اختر فندق' : 'Select Hotel'}</option>
+                  {hotels.map(hotel => (
+                    <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'الكود' : 'Code'}
+                </label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  className={inputClassName}
+                  placeholder={language === 'ar' ? 'مثل: VAT' : 'e.g., VAT'}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'النسبة (%)' : 'Rate (%)'}
+                </label>
+                <input
+                  type="number"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  className={inputClassName}
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'الاسم' : 'Name'}
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClassName}
+                  placeholder={language === 'ar' ? 'مثل: ضريبة القيمة المضافة' : 'e.g., Value added tax'}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'الاسم بالعربية' : 'Arabic Name'}
+                </label>
+                <input
+                  type="text"
+                  value={altName}
+                  onChange={(e) => setAltName(e.target.value)}
+                  className={inputClassName}
+                  dir="rtl"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'سارية من / إلى' : 'Effective From / To'}
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="date"
+                    value={effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="date"
+                    value={effectiveTo}
+                    onChange={(e) => setEffectiveTo(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'تطبق على' : 'Applies To'}
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {CHARGE_TYPES.map(chargeType => (
+                    <label
+                      key={chargeType}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-xl border cursor-pointer text-sm ${chargeTypes.includes(chargeType) ? 'bg-apple-blue/10 border-apple-blue/40 text-gray-900' : 'bg-white/40 border-gray-200/40 text-gray-600'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={chargeTypes.includes(chargeType)}
+                        onChange={() => toggleChargeType(chargeType)}
+                        className="w-4 h-4 text-apple-blue bg-white/80 border-gray-300 rounded focus:ring-apple-blue focus:ring-2"
+                      />
+                      {CHARGE_TYPE_LABELS[chargeType][language === 'ar' ? 'ar' : 'en']}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-end">
+                <label className="flex items-center gap-3 p-3 w-full bg-white/40 rounded-xl border border-gray-200/40 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={compound}
+                    onChange={(e) => setCompound(e.target.checked)}
+                    className="w-5 h-5 text-apple-blue bg-white/80 border-gray-300 rounded-md focus:ring-apple-blue focus:ring-2"
+                  />
+                  <span className="text-sm font-semibold text-gray-700">
+                    {language === 'ar' ? 'تحسب على المبلغ مع الرسوم الأخرى' : 'Charged on top of the other fees'}
+                  </span>
+                </label>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-apple-green to-apple-green-light text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-apple-green focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving
+                  ? (language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                  : editingTaxId
+                    ? (language === 'ar' ? 'حفظ التعديلات' : 'Save Changes')
+                    : (language === 'ar' ? 'إضافة ضريبة' : 'Add Tax')}
+              </button>
+              {editingTaxId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-6 py-3 bg-gradient-to-r from-gray-600 to-gray-700 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200"
+                >
+                  {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        {/* Taxes List */}
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900">
+              {language === 'ar' ? 'الضرائب والرسوم' : 'Taxes & Fees'}
+            </h2>
+            <select
+              value={hotelFilter}
+              onChange={(e) => setHotelFilter(e.target.value)}
+              className="px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+            >
+              <option value="">{language === 'ar' ? 'كل الفنادق' : 'All Hotels'}</option>
+              {hotels.map(hotel => (
+                <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {sample && sample.taxes.length > 0 && (
+            <div className="mb-6 px-4 py-3 bg-blue-50/80 border border-blue-200 rounded-xl text-sm text-blue-800">
+              {language === 'ar' ? 'ليلة بسعر 100 ريال اليوم: ' : 'A 100 SAR room night today: '}
+              {sample.net} SAR
+              {sample.taxes.map(tax => ` + ${tax.code} ${tax.amount}`).join('')}
+              {` = ${sample.total} SAR`}
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex items-center justify-center space-x-4 py-12">
+              <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+              <span className="text-lg font-medium text-gray-700">
+                {language === 'ar' ? 'جاري تحميل الضرائب...' : 'Loading taxes...'}
+              </span>
+            </div>
+          )}
+
+          {!loading && loadFailed && (
+            <div className="text-center py-12 text-red-600">
+              {language === 'ar' ? 'تعذر تحميل الضرائب' : 'Could not load taxes'}
+            </div>
+          )}
+
+          {!loading && !loadFailed && filteredTaxes.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              {language === 'ar' ? 'لا توجد ضرائب' : 'No taxes found'}
+            </div>
+          )}
+
+          {!loading && !loadFailed && filteredTaxes.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200/30">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الكود' : 'Code'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الفندق' : 'Hotel'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'النسبة' : 'Rate'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'تطبق على' : 'Applies To'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'السريان' : 'Effective'}</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">{language === 'ar' ? 'الإجراءات' : 'Actions'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredTaxes.map(tax => (
+                    <tr key={tax.id} className="border-b border-gray-100/50 hover:bg-white/30 transition-colors">
+                      <td className="py-3 px-4">
+                        <div className="font-semibold text-gray-900">{tax.code}</div>
+                        <div className="text-sm text-gray-500">{tax.name}{tax.altName && ` · ${tax.altName}`}</div>
+                      </td>
+                      <td className="py-3 px-4 text-gray-800">{tax.hotelName}</td>
+                      <td className="py-3 px-4 text-gray-800">
+                        {tax.rate}%
+                        {tax.compound && (
+                          <span className="ml-2 px-2 py-0.5 bg-purple-100 text-purple-700 text-xs rounded-full">
+                            {language === 'ar' ? 'مركبة' : 'Compound'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {tax.chargeTypes.map(chargeType => CHARGE_TYPE_LABELS[chargeType][language === 'ar' ? 'ar' : 'en']).join(', ')}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {tax.effectiveFrom || tax.effectiveTo ? `${tax.effectiveFrom ?? '…'} → ${tax.effectiveTo ?? '…'}` : 'Always'}
+                      </td>
+                      <td className="py-3 px-4 space-x-2 whitespace-nowrap">
+                        <button
+                          onClick={() => handleEditTax(tax)}
+                          className="px-3 py-1 bg-apple-blue/10 text-apple-blue text-sm rounded-lg hover:bg-apple-blue/20 transition-colors"
+                        >
+                          {language === 'ar' ? 'تعديل' : 'Edit'}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteTax(tax)}
+                          className="px-3 py-1 bg-red-50 text-red-600 text-sm rounded-lg hover:bg-red-100 transition-colors"
+                        >
+                          {language === 'ar' ? 'حذف' : 'Delete'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
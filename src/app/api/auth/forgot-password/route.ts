@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { forgotPasswordSchema, requestPasswordReset } from '@/lib/password-reset';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { identifier } = forgotPasswordSchema.parse(body);
+
+    await requestPasswordReset(identifier);
+
+    // Same answer whether or not the account exists
+    return NextResponse.json({
+      message: 'If an account matches, a password reset link has been sent to its email address',
+    });
+  } catch (error) {
+    return handleApiError(error, 'Request password reset');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { createSession } from '@/lib/auth';
+import { verifyPassword } from '@/lib/password';
+import { ROLES, SESSION_COOKIE, type Role } from '@/lib/session';
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+  remember: z.boolean().default(false),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { username, password, remember } = loginSchema.parse(body);
+
+    const user = await prisma.user.findUnique({ where: { username } });
+    const valid = await verifyPassword(password, user?.passwordHash ?? null);
+
+    if (!user || !valid || !ROLES.includes(user.role as Role)) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const { token, maxAge } = await createSession(user, {
+      remember,
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+    });
+
+    const response = NextResponse.json({
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      role: user.role,
+    });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge,
+    });
+
+    return response;
+  } catch (error) {
+    return handleApiError(error, 'Login');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { revokeSession } from '@/lib/auth';
+import { SESSION_COOKIE, verifySession } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Revoke whatever session the cookie names, even one that has already expired or been revoked
+    const payload = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (payload) {
+      await revokeSession(payload.sid);
+    }
+
+    const response = new NextResponse(null, { status: 204 });
+    response.cookies.delete(SESSION_COOKIE);
+
+    return response;
+  } catch (error) {
+    return handleApiError(error, 'Logout');
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { resetPassword, resetPasswordSchema } from '@/lib/password-reset';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, password } = resetPasswordSchema.parse(body);
+
+    await resetPassword(token, password);
+
+    return NextResponse.json({ message: 'Password updated' });
+  } catch (error) {
+    return handleApiError(error, 'Reset password');
+  }
+}
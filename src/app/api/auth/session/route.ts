@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requireSession, touchSession } from '@/lib/auth';
+
+// Returns the signed-in user; signed-in pages call it while they have input, and the idle-timeout dialog to keep
+// the session alive
+export async function GET() {
+  try {
+    const session = await requireSession();
+    await touchSession(session.sid);
+
+    return NextResponse.json({
+      id: session.sub,
+      username: session.username,
+      name: session.name,
+      role: session.role,
+    });
+  } catch (error) {
+    return handleApiError(error, 'Get session');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { hotelUpdateSchema } from '@/lib/domain';
+import { serializeHotel } from '@/lib/hotels';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const hotel = await prisma.hotel.findUnique({ where: { id } });
+
+    if (!hotel) {
+      return NextResponse.json({ error: 'Hotel not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeHotel(hotel));
+  } catch (error) {
+    return handleApiError(error, 'Get hotel');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('hotels:write');
+    const { id } = await params;
+    const body = await request.json();
+    const data = hotelUpdateSchema.parse(body);
+
+    const hotel = await prisma.hotel.update({ where: { id }, data });
+
+    return NextResponse.json(serializeHotel(hotel));
+  } catch (error) {
+    return handleApiError(error, 'Update hotel');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('hotels:write');
+    const { id } = await params;
+    await prisma.hotel.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Delete hotel');
+  }
+}
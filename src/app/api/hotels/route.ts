@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { hotelInputSchema } from '@/lib/domain';
+import { serializeHotel } from '@/lib/hotels';
+
+export async function GET() {
+  try {
+    await requireSession();
+    const hotels = await prisma.hotel.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(hotels.map(serializeHotel));
+  } catch (error) {
+    return handleApiError(error, 'List hotels');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('hotels:write');
+    const body = await request.json();
+    const data = hotelInputSchema.parse(body);
+
+    const hotel = await prisma.hotel.create({ data });
+
+    return NextResponse.json(serializeHotel(hotel), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Create hotel');
+  }
+}
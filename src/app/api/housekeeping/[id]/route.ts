@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { housekeepingUpdateSchema } from '@/lib/domain';
+import { housekeepingRoomInclude, serializeHousekeepingRoom } from '@/lib/rooms';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('rooms:housekeeping');
+    const { id } = await params;
+    const body = await request.json();
+    const data = housekeepingUpdateSchema.parse(body);
+
+    const existing = await prisma.room.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const room = await prisma.room.update({
+      where: { id },
+      data: { housekeeping: data.housekeeping },
+      include: housekeepingRoomInclude,
+    });
+
+    return NextResponse.json(serializeHousekeepingRoom(room));
+  } catch (error) {
+    return handleApiError(error, 'Update housekeeping');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requireSession } from '@/lib/auth';
+import { housekeepingRoomInclude, serializeHousekeepingRoom } from '@/lib/rooms';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const hotelId = request.nextUrl.searchParams.get('hotelId');
+
+    const rooms = await prisma.room.findMany({
+      where: hotelId ? { hotelId } : undefined,
+      include: housekeepingRoomInclude,
+      orderBy: [{ hotelId: 'asc' }, { number: 'asc' }],
+    });
+
+    return NextResponse.json(rooms.map(serializeHousekeepingRoom));
+  } catch (error) {
+    return handleApiError(error, 'List housekeeping');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requireSession } from '@/lib/auth';
+import { getInventory, inventoryQuerySchema } from '@/lib/inventory';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const { searchParams } = request.nextUrl;
+    const query = inventoryQuerySchema.parse({
+      hotelId: searchParams.get('hotelId') ?? undefined,
+      roomTypeId: searchParams.get('roomTypeId') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      excludeBookingId: searchParams.get('excludeBookingId') ?? undefined,
+    });
+
+    const inventory = await getInventory(query);
+
+    return NextResponse.json(inventory);
+  } catch (error) {
+    return handleApiError(error, 'Get inventory');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { creditNoteInputSchema } from '@/lib/domain';
+import { issueCreditNote, serializeInvoice } from '@/lib/invoices';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('invoices:credit');
+    const { id } = await params;
+    const body = await request.json();
+    const input = creditNoteInputSchema.parse(body);
+
+    const creditNote = await issueCreditNote(id, input);
+
+    return NextResponse.json(serializeInvoice(creditNote), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Issue credit note');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requireSession } from '@/lib/auth';
+import { invoiceInclude, serializeInvoice } from '@/lib/invoices';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: invoiceInclude,
+    });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeInvoice(invoice));
+  } catch (error) {
+    return handleApiError(error, 'Get invoice');
+  }
+}
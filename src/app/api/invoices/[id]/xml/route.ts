@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requireSession } from '@/lib/auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The UBL document exactly as it was hashed and stored at issue time
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { number: true, xml: true },
+    });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    return new NextResponse(invoice.xml, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${invoice.number}.xml"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Get invoice XML');
+  }
+}
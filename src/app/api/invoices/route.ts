@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requireSession } from '@/lib/auth';
+import { invoiceInclude, serializeInvoice } from '@/lib/invoices';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const hotelId = request.nextUrl.searchParams.get('hotelId');
+    const bookingId = request.nextUrl.searchParams.get('bookingId');
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        ...(hotelId ? { hotelId } : {}),
+        ...(bookingId ? { bookingId } : {}),
+      },
+      include: invoiceInclude,
+      orderBy: [{ hotelId: 'asc' }, { sequence: 'desc' }],
+    });
+
+    return NextResponse.json(invoices.map(serializeInvoice));
+  } catch (error) {
+    return handleApiError(error, 'List invoices');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { captureInputSchema } from '@/lib/domain';
+import { serializeFolio } from '@/lib/folio';
+import { captureAuthorization } from '@/lib/payments';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('folio:write');
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const input = captureInputSchema.parse(body);
+
+    const booking = await captureAuthorization(id, input, session.sub);
+
+    return NextResponse.json(serializeFolio(booking));
+  } catch (error) {
+    return handleApiError(error, 'Capture card authorization');
+  }
+}
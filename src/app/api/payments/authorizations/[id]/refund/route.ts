@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { authorizationRefundInputSchema } from '@/lib/domain';
+import { serializeFolio } from '@/lib/folio';
+import { refundAuthorization } from '@/lib/payments';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('folio:refund');
+    const { id } = await params;
+    const body = await request.json();
+    const input = authorizationRefundInputSchema.parse(body);
+
+    const booking = await refundAuthorization(id, input, session.sub);
+
+    return NextResponse.json(serializeFolio(booking));
+  } catch (error) {
+    return handleApiError(error, 'Refund card payment');
+  }
+}
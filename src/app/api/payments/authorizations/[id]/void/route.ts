@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { serializeFolio } from '@/lib/folio';
+import { voidAuthorization } from '@/lib/payments';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('folio:write');
+    const { id } = await params;
+
+    const booking = await voidAuthorization(id, session.sub);
+
+    return NextResponse.json(serializeFolio(booking));
+  } catch (error) {
+    return handleApiError(error, 'Release card authorization');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { handleGatewayWebhook } from '@/lib/payments';
+
+interface RouteContext {
+  params: Promise<{ provider: string }>;
+}
+
+// Called by the payment provider, not a signed-in user; the provider's signature on the body stands in for a session
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { provider } = await params;
+    const body = await request.text();
+
+    await handleGatewayWebhook(provider, body, request.headers);
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    return handleApiError(error, 'Handle payment webhook');
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { parseDateOnly } from '@/lib/dates';
+import { ratePlanInputSchema, ratePlanUpdateSchema } from '@/lib/domain';
+import { ratePlanInclude, serializeRatePlan } from '@/lib/rate-plans';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const ratePlan = await prisma.ratePlan.findUnique({
+      where: { id },
+      include: ratePlanInclude,
+    });
+
+    if (!ratePlan) {
+      return NextResponse.json({ error: 'Rate plan not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeRatePlan(ratePlan));
+  } catch (error) {
+    return handleApiError(error, 'Get rate plan');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('rates:write');
+    const { id } = await params;
+    const body = await request.json();
+    const changes = ratePlanUpdateSchema.parse(body);
+
+    const existing = await prisma.ratePlan.findUnique({
+      where: { id },
+      include: ratePlanInclude,
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Rate plan not found' }, { status: 404 });
+    }
+
+    // Re-check the cross-field rules against the plan as it will be saved; hotelId stays the existing one
+    const data = ratePlanInputSchema.parse({ ...serializeRatePlan(existing), ...changes });
+
+    const ratePlan = await prisma.ratePlan.update({
+      where: { id },
+      data: {
+        ...data,
+        validFrom: data.validFrom ? parseDateOnly(data.validFrom) : null,
+        validTo: data.validTo ? parseDateOnly(data.validTo) : null,
+      },
+      include: ratePlanInclude,
+    });
+
+    return NextResponse.json(serializeRatePlan(ratePlan));
+  } catch (error) {
+    return handleApiError(error, 'Update rate plan');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('rates:write');
+    const { id } = await params;
+    await prisma.ratePlan.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Delete rate plan');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { parseDateOnly } from '@/lib/dates';
+import { ratePlanInputSchema } from '@/lib/domain';
+import { ratePlanInclude, serializeRatePlan } from '@/lib/rate-plans';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const hotelId = request.nextUrl.searchParams.get('hotelId');
+
+    const ratePlans = await prisma.ratePlan.findMany({
+      where: hotelId ? { hotelId } : undefined,
+      include: ratePlanInclude,
+      orderBy: [{ hotelId: 'asc' }, { code: 'asc' }],
+    });
+
+    return NextResponse.json(ratePlans.map(serializeRatePlan));
+  } catch (error) {
+    return handleApiError(error, 'List rate plans');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('rates:write');
+    const body = await request.json();
+    const data = ratePlanInputSchema.parse(body);
+
+    const ratePlan = await prisma.ratePlan.create({
+      data: {
+        ...data,
+        validFrom: data.validFrom ? parseDateOnly(data.validFrom) : null,
+        validTo: data.validTo ? parseDateOnly(data.validTo) : null,
+      },
+      include: ratePlanInclude,
+    });
+
+    return NextResponse.json(serializeRatePlan(ratePlan), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Create rate plan');
+  }
+}
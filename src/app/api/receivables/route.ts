@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requireSession } from '@/lib/auth';
+import { installmentStatusSchema } from '@/lib/domain';
+import { getReceivables, receivableBookingInclude } from '@/lib/receivables';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const hotelId = request.nextUrl.searchParams.get('hotelId');
+    const statusParam = request.nextUrl.searchParams.get('status');
+    const status = statusParam ? installmentStatusSchema.parse(statusParam) : null;
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        ...(hotelId ? { hotelId } : {}),
+        status: { not: 'cancelled' },
+        installments: { some: {} },
+      },
+      include: receivableBookingInclude,
+    });
+
+    return NextResponse.json(getReceivables(bookings, status));
+  } catch (error) {
+    return handleApiError(error, 'List receivables');
+  }
+}
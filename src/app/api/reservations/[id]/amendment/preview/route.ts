@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { previewAmendment } from '@/lib/amendments';
+import { amendmentInputSchema } from '@/lib/domain';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Prices an amendment without saving it, so the old and new stay can be compared before confirming
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('reservations:write');
+    const { id } = await params;
+    const body = await request.json();
+    const input = amendmentInputSchema.parse(body);
+
+    const amendment = await previewAmendment(id, input);
+
+    return NextResponse.json(amendment);
+  } catch (error) {
+    return handleApiError(error, 'Preview amendment');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { amendReservation } from '@/lib/amendments';
+import { amendmentInputSchema } from '@/lib/domain';
+import { serializeBooking } from '@/lib/reservations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('reservations:write');
+    const { id } = await params;
+    const body = await request.json();
+    const input = amendmentInputSchema.parse(body);
+
+    const booking = await amendReservation(id, input, session.sub);
+
+    return NextResponse.json(serializeBooking(booking));
+  } catch (error) {
+    return handleApiError(error, 'Amend reservation');
+  }
+}
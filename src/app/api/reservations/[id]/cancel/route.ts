@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { cancelReservation, getCancellation } from '@/lib/cancellation';
+import { cancellationInputSchema } from '@/lib/domain';
+import { serializeBooking } from '@/lib/reservations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const quote = await getCancellation(id);
+
+    if (!quote) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(quote);
+  } catch (error) {
+    return handleApiError(error, 'Get cancellation');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('reservations:cancel');
+    const { id } = await params;
+    const body = await request.json();
+    const input = cancellationInputSchema.parse(body);
+
+    if (input.refund) {
+      await requirePermission('folio:refund');
+    }
+
+    const booking = await cancelReservation(id, input, session.sub);
+
+    return NextResponse.json(serializeBooking(booking));
+  } catch (error) {
+    return handleApiError(error, 'Cancel reservation');
+  }
+}
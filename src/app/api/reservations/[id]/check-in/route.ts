@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { checkInInputSchema } from '@/lib/domain';
+import { checkInReservation, getRegistration } from '@/lib/check-in';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const registration = await getRegistration(id);
+
+    if (!registration) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(registration);
+  } catch (error) {
+    return handleApiError(error, 'Get registration');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('reservations:check-in');
+    const { id } = await params;
+    const body = await request.json();
+    const input = checkInInputSchema.parse(body);
+
+    await checkInReservation(id, input, session.sub);
+
+    return NextResponse.json(await getRegistration(id));
+  } catch (error) {
+    return handleApiError(error, 'Check in reservation');
+  }
+}
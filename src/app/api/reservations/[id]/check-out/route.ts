@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { checkOutInputSchema } from '@/lib/domain';
+import { checkOutReservation, getCheckOut } from '@/lib/check-out';
+import { serializeBooking } from '@/lib/reservations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const plan = await getCheckOut(id);
+
+    if (!plan) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    return handleApiError(error, 'Get check-out');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('reservations:check-out');
+    const { id } = await params;
+    const body = await request.json();
+    const input = checkOutInputSchema.parse(body);
+
+    if (input.settlement?.type === 'refund') {
+      await requirePermission('folio:refund');
+    }
+    if (input.cityLedger) {
+      await requirePermission('folio:city-ledger');
+    }
+
+    const { booking, invoice } = await checkOutReservation(id, input, session.sub);
+
+    return NextResponse.json({ booking: serializeBooking(booking), invoiceId: invoice?.id ?? null });
+  } catch (error) {
+    return handleApiError(error, 'Check out reservation');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { folioEntryInputSchema } from '@/lib/domain';
+import { folioInclude, postFolioEntry, serializeFolio } from '@/lib/folio';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: folioInclude,
+    });
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeFolio(booking));
+  } catch (error) {
+    return handleApiError(error, 'Get folio');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('folio:write');
+    const { id } = await params;
+    const body = await request.json();
+    const input = folioEntryInputSchema.parse(body);
+    // Giving money back is kept to the roles that reconcile it
+    if (input.type === 'refund') {
+      await requirePermission('folio:refund');
+    }
+
+    const booking = await postFolioEntry(id, input, session.sub);
+
+    return NextResponse.json(serializeFolio(booking), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Post folio entry');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { installmentPlanSchema } from '@/lib/domain';
+import { serializeFolio } from '@/lib/folio';
+import { scheduleInstallments } from '@/lib/receivables';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('folio:write');
+    const { id } = await params;
+    const body = await request.json();
+    const plan = installmentPlanSchema.parse(body);
+
+    const booking = await scheduleInstallments(id, plan);
+
+    return NextResponse.json(serializeFolio(booking));
+  } catch (error) {
+    return handleApiError(error, 'Schedule installments');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { invoiceIssueSchema } from '@/lib/domain';
+import { issueInvoice, serializeInvoice } from '@/lib/invoices';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('invoices:write');
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const input = invoiceIssueSchema.parse(body);
+
+    const invoice = await issueInvoice(id, input);
+
+    return NextResponse.json(serializeInvoice(invoice), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Issue invoice');
+  }
+}
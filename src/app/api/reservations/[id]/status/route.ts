@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { getStatusHistory } from '@/lib/booking-status';
+import { markNoShow } from '@/lib/cancellation';
+import { statusChangeInputSchema } from '@/lib/domain';
+import { changeStatus, serializeBooking } from '@/lib/reservations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const history = await getStatusHistory(id);
+
+    if (!history) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(history);
+  } catch (error) {
+    return handleApiError(error, 'Get status history');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('reservations:write');
+    const { id } = await params;
+    const body = await request.json();
+    const input = statusChangeInputSchema.parse(body);
+
+    const booking = input.status === 'no-show'
+      ? await markNoShow(id, input.reason || null, session.sub)
+      : await changeStatus(id, input, session.sub);
+
+    return NextResponse.json(serializeBooking(booking));
+  } catch (error) {
+    return handleApiError(error, 'Change reservation status');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { bookingStatusSchema, reservationInputSchema } from '@/lib/domain';
+import { bookingInclude, createReservation, serializeBooking } from '@/lib/reservations';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const hotelId = request.nextUrl.searchParams.get('hotelId');
+    const statusParam = request.nextUrl.searchParams.get('status');
+    const status = statusParam ? bookingStatusSchema.parse(statusParam) : null;
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        ...(hotelId ? { hotelId } : {}),
+        ...(status ? { status } : {}),
+      },
+      include: bookingInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(bookings.map(serializeBooking));
+  } catch (error) {
+    return handleApiError(error, 'List reservations');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('reservations:write');
+    const body = await request.json();
+    const input = reservationInputSchema.parse(body);
+
+    const booking = await createReservation(input, session.sub);
+
+    return NextResponse.json(serializeBooking(booking), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Create reservation');
+  }
+}
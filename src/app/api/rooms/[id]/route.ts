@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { parseDateOnly } from '@/lib/dates';
+import { roomTypeUpdateSchema } from '@/lib/domain';
+import { roomTypeInclude, serializeRoomType } from '@/lib/rooms';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const roomType = await prisma.roomType.findUnique({
+      where: { id },
+      include: roomTypeInclude,
+    });
+
+    if (!roomType) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeRoomType(roomType));
+  } catch (error) {
+    return handleApiError(error, 'Get room');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('rooms:write');
+    const { id } = await params;
+    const body = await request.json();
+    const data = roomTypeUpdateSchema.parse(body);
+
+    const existing = await prisma.roomType.findUnique({
+      where: { id },
+      include: { rooms: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const quantity = data.quantity ?? existing.quantity;
+    const roomNumbers = data.roomNumbers ?? existing.rooms.map(room => room.number);
+    if (roomNumbers.length > quantity) {
+      return NextResponse.json(
+        { error: 'There are more room numbers than rooms of this type' },
+        { status: 400 }
+      );
+    }
+
+    const roomType = await prisma.$transaction(async (tx) => {
+      if (data.seasonalPrices) {
+        await tx.seasonalPrice.deleteMany({ where: { roomTypeId: id } });
+        await tx.seasonalPrice.createMany({
+          data: data.seasonalPrices.map(season => ({
+            roomTypeId: id,
+            startDate: parseDateOnly(season.startDate),
+            endDate: parseDateOnly(season.endDate),
+            price: season.price,
+          })),
+        });
+      }
+
+      if (data.roomNumbers) {
+        const existingNumbers = existing.rooms.map(room => room.number);
+        await tx.room.deleteMany({
+          where: { roomTypeId: id, number: { notIn: data.roomNumbers } },
+        });
+        await tx.room.createMany({
+          data: data.roomNumbers
+            .filter((number, index, numbers) => numbers.indexOf(number) === index && !existingNumbers.includes(number))
+            .map(number => ({ number, roomTypeId: id, hotelId: existing.hotelId })),
+        });
+      }
+
+      return tx.roomType.update({
+        where: { id },
+        data: {
+          name: data.roomType,
+          description: data.roomTypeDescription,
+          altDescription: data.altDescription,
+          price: data.price,
+          alternativePrice: data.alternativePrice,
+          quantity: data.quantity,
+          boardType: data.boardType,
+        },
+        include: roomTypeInclude,
+      });
+    });
+
+    return NextResponse.json(serializeRoomType(roomType));
+  } catch (error) {
+    return handleApiError(error, 'Update room');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('rooms:write');
+    const { id } = await params;
+    await prisma.roomType.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Delete room');
+  }
+}
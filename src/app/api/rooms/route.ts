@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { parseDateOnly } from '@/lib/dates';
+import { roomTypeInputSchema } from '@/lib/domain';
+import { roomTypeInclude, serializeRoomType } from '@/lib/rooms';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const hotelId = request.nextUrl.searchParams.get('hotelId');
+
+    const roomTypes = await prisma.roomType.findMany({
+      where: hotelId ? { hotelId } : undefined,
+      include: roomTypeInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(roomTypes.map(serializeRoomType));
+  } catch (error) {
+    return handleApiError(error, 'List rooms');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('rooms:write');
+    const body = await request.json();
+    const data = roomTypeInputSchema.parse(body);
+
+    const roomType = await prisma.roomType.create({
+      data: {
+        hotelId: data.hotelId,
+        name: data.roomType,
+        description: data.roomTypeDescription,
+        altDescription: data.altDescription,
+        price: data.price,
+        alternativePrice: data.alternativePrice ?? null,
+        quantity: data.quantity,
+        boardType: data.boardType,
+        seasonalPrices: {
+          create: (data.seasonalPrices ?? []).map(season => ({
+            startDate: parseDateOnly(season.startDate),
+            endDate: parseDateOnly(season.endDate),
+            price: season.price,
+          })),
+        },
+        rooms: {
+          create: (data.roomNumbers ?? []).map(number => ({ number, hotelId: data.hotelId })),
+        },
+      },
+      include: roomTypeInclude,
+    });
+
+    return NextResponse.json(serializeRoomType(roomType), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Create room');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission, revokeSession } from '@/lib/auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Force-logout one device
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('sessions:manage');
+    const { id } = await params;
+
+    const revoked = await revokeSession(id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Revoke session');
+  }
+}
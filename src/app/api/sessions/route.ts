@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { activeSessionWhere, requirePermission, serializeSession } from '@/lib/auth';
+
+// Active sessions grouped by user, for the owner's sessions screen
+export async function GET() {
+  try {
+    const current = await requirePermission('sessions:manage');
+
+    const users = await prisma.user.findMany({
+      include: {
+        sessions: {
+          where: activeSessionWhere(),
+          orderBy: { lastSeenAt: 'desc' },
+        },
+      },
+      orderBy: { username: 'asc' },
+    });
+
+    return NextResponse.json(users.map(user => ({
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      role: user.role,
+      sessions: user.sessions.map(session => serializeSession(session, current.sid)),
+    })));
+  } catch (error) {
+    return handleApiError(error, 'List sessions');
+  }
+}
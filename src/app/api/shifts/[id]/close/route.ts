@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { shiftCloseInputSchema } from '@/lib/domain';
+import { hasPermission } from '@/lib/permissions';
+import { closeShift, serializeShiftReport } from '@/lib/shifts';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Cashiers close their own shift; reviewers can also close one a cashier left open
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('shifts:write');
+    const { id } = await params;
+    const body = await request.json();
+    const input = shiftCloseInputSchema.parse(body);
+
+    const shift = await closeShift(id, input, hasPermission(session.role, 'shifts:review') ? null : session.sub);
+
+    return NextResponse.json(serializeShiftReport(shift));
+  } catch (error) {
+    return handleApiError(error, 'Close shift');
+  }
+}
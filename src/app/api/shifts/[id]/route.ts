@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { serializeShiftReport, shiftInclude } from '@/lib/shifts';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The reconciliation report for one shift; cashiers only see their own
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await requirePermission('shifts:write');
+    const { id } = await params;
+
+    const shift = await prisma.cashierShift.findUnique({
+      where: { id },
+      include: shiftInclude,
+    });
+    if (!shift || (shift.userId !== session.sub && !hasPermission(session.role, 'shifts:review'))) {
+      return NextResponse.json({ error: 'Shift not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeShiftReport(shift));
+  } catch (error) {
+    return handleApiError(error, 'Get shift');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { serializeShiftReport, shiftInclude } from '@/lib/shifts';
+
+// The signed-in cashier's open shift, or null when they have none
+export async function GET() {
+  try {
+    const session = await requirePermission('shifts:write');
+
+    const shift = await prisma.cashierShift.findFirst({
+      where: { userId: session.sub, closedAt: null },
+      include: shiftInclude,
+    });
+
+    return NextResponse.json(shift ? serializeShiftReport(shift) : null);
+  } catch (error) {
+    return handleApiError(error, 'Get current shift');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError } from '@/lib/api';
+import { requirePermission } from '@/lib/auth';
+import { shiftOpenInputSchema } from '@/lib/domain';
+import { hasPermission } from '@/lib/permissions';
+import { openShift, serializeShift, shiftInclude } from '@/lib/shifts';
+
+// Shift history, newest first: everyone's for reviewers, otherwise the signed-in cashier's own
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requirePermission('shifts:write');
+    const canReview = hasPermission(session.role, 'shifts:review');
+    const userId = canReview ? request.nextUrl.searchParams.get('userId') : session.sub;
+
+    const shifts = await prisma.cashierShift.findMany({
+      where: userId ? { userId } : {},
+      include: shiftInclude,
+      orderBy: { openedAt: 'desc' },
+    });
+
+    return NextResponse.json(shifts.map(serializeShift));
+  } catch (error) {
+    return handleApiError(error, 'List shifts');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('shifts:write');
+    const body = await request.json();
+    const input = shiftOpenInputSchema.parse(body);
+
+    const shift = await openShift(session.sub, input);
+
+    return NextResponse.json(serializeShift(shift), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Open shift');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api';
+import { requireSession } from '@/lib/auth';
+import { getTapeChart, tapeChartQuerySchema } from '@/lib/tape-chart';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const { searchParams } = request.nextUrl;
+    const { hotelId, from, days } = tapeChartQuerySchema.parse({
+      hotelId: searchParams.get('hotelId') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      days: searchParams.get('days') ?? undefined,
+    });
+
+    const chart = await getTapeChart(hotelId, from, days);
+
+    return NextResponse.json(chart);
+  } catch (error) {
+    return handleApiError(error, 'Get tape chart');
+  }
+}
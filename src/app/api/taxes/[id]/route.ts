@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ApiError, handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { parseDateOnly } from '@/lib/dates';
+import { taxInputSchema, taxUpdateSchema } from '@/lib/domain';
+import { findOverlappingTax, serializeTax, taxInclude } from '@/lib/taxes';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireSession();
+    const { id } = await params;
+    const tax = await prisma.tax.findUnique({
+      where: { id },
+      include: taxInclude,
+    });
+
+    if (!tax) {
+      return NextResponse.json({ error: 'Tax not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeTax(tax));
+  } catch (error) {
+    return handleApiError(error, 'Get tax');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('taxes:write');
+    const { id } = await params;
+    const body = await request.json();
+    const changes = taxUpdateSchema.parse(body);
+
+    const existing = await prisma.tax.findUnique({
+      where: { id },
+      include: taxInclude,
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Tax not found' }, { status: 404 });
+    }
+
+    // Re-check the period against the tax as it will be saved; hotelId stays the existing one
+    const data = taxInputSchema.parse({ ...serializeTax(existing), ...changes });
+
+    const sameCode = await prisma.tax.findMany({
+      where: { hotelId: data.hotelId, code: data.code },
+      include: taxInclude,
+    });
+    const clash = findOverlappingTax(sameCode.map(serializeTax), { ...data, id });
+    if (clash) {
+      throw new ApiError(409, 'TAX_PERIOD_OVERLAP',
+        `${data.code} already has a rate of ${clash.rate}% from ${clash.effectiveFrom ?? 'the start'} to ${clash.effectiveTo ?? 'no end date'}`);
+    }
+
+    const tax = await prisma.tax.update({
+      where: { id },
+      data: {
+        ...data,
+        effectiveFrom: data.effectiveFrom ? parseDateOnly(data.effectiveFrom) : null,
+        effectiveTo: data.effectiveTo ? parseDateOnly(data.effectiveTo) : null,
+      },
+      include: taxInclude,
+    });
+
+    return NextResponse.json(serializeTax(tax));
+  } catch (error) {
+    return handleApiError(error, 'Update tax');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('taxes:write');
+    const { id } = await params;
+    await prisma.tax.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'Delete tax');
+  }
+}
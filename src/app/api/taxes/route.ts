@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ApiError, handleApiError } from '@/lib/api';
+import { requirePermission, requireSession } from '@/lib/auth';
+import { parseDateOnly } from '@/lib/dates';
+import { taxInputSchema } from '@/lib/domain';
+import { findOverlappingTax, serializeTax, taxInclude } from '@/lib/taxes';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireSession();
+    const hotelId = request.nextUrl.searchParams.get('hotelId');
+
+    const taxes = await prisma.tax.findMany({
+      where: hotelId ? { hotelId } : undefined,
+      include: taxInclude,
+      orderBy: [{ hotelId: 'asc' }, { code: 'asc' }, { effectiveFrom: 'asc' }],
+    });
+
+    return NextResponse.json(taxes.map(serializeTax));
+  } catch (error) {
+    return handleApiError(error, 'List taxes');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('taxes:write');
+    const body = await request.json();
+    const data = taxInputSchema.parse(body);
+
+    const sameCode = await prisma.tax.findMany({
+      where: { hotelId: data.hotelId, code: data.code },
+      include: taxInclude,
+    });
+    const clash = findOverlappingTax(sameCode.map(serializeTax), data);
+    if (clash) {
+      throw new ApiError(409, 'TAX_PERIOD_OVERLAP',
+        `${data.code} already has a rate of ${clash.rate}% from ${clash.effectiveFrom ?? 'the start'} to ${clash.effectiveTo ?? 'no end date'}`);
+    }
+
+    const tax = await prisma.tax.create({
+      data: {
+        ...data,
+        effectiveFrom: data.effectiveFrom ? parseDateOnly(data.effectiveFrom) : null,
+        effectiveTo: data.effectiveTo ? parseDateOnly(data.effectiveTo) : null,
+      },
+      include: taxInclude,
+    });
+
+    return NextResponse.json(serializeTax(tax), { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Create tax');
+  }
+}
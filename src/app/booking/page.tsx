@@ -1,80 +1,71 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import {
+  AMENDABLE_STATUSES,
+  BOOKING_STATUSES,
+  BOOKING_STATUS_LABELS,
+  CANCELLATION_TYPE_LABELS,
+  MAX_INSTALLMENTS,
+  PAYMENT_METHODS,
+  amendmentInputSchema,
+  amendmentSchema,
+  bookingListSchema,
+  bookingSchema,
+  canChangeStatus,
+  hotelListSchema,
+  inventoryListSchema,
+  ratePlanListSchema,
+  reservationInputSchema,
+  roomTypeListSchema,
+  taxListSchema,
+  type Amendment,
+  type Booking as BookingRecord,
+  type BookingGuest,
+  type BookingRateLine,
+  type BookingRoom,
+  type Hotel,
+  type PaymentEntryInput,
+  type RatePlan,
+  type ReservationInput,
+  type RoomTypeInventory,
+  type SeasonalPrice,
+  type Tax,
+} from '@/lib/domain';
+import { deriveRate, getNightlyRates, getRateLineTotals, getRatePlanStayError, roundMoney } from '@/lib/pricing';
+import { buildInstallmentPlan } from '@/lib/installments';
+import { applyTaxes } from '@/lib/taxes';
+import RateLinesTable from '@/components/RateLinesTable';
+import CancelReservationDialog from '@/components/CancelReservationDialog';
+import { useCan } from '@/components/SessionProvider';
 
-interface Hotel {
-  id: string;
-  name: string;
-  code: string;
-}
-
-interface Room {
-  id: string;
-  hotelId: string;
-  type: string;
-  boardType: 'Room only' | 'Bed & breakfast' | 'Half board' | 'Full board';
-  description: string;
-  rate: number;
-  available: boolean;
-  status: 'available' | 'occupied' | 'maintenance';
-  availableCount?: number;
-}
+// A room type as offered on this screen, with how many rooms of it can still be sold and its seasons
+type RoomOption = BookingRoom & { availableCount?: number; seasonalPrices?: SeasonalPrice[] };
 
-interface Guest {
-  fullName: string;
-  email: string;
-  guestClassification: string;
-  travelAgent: string;
-  company: string;
-  source: string;
-  group: string;
-  arrival: string;
-  departure: string;
-  vip: boolean;
-  nationality: string;
-  telephone: string;
-  roomNo: string;
-  rateCode: string;
-  roomRate: number;
-  payment: string;
-  resId: string;
-  profileId: string;
-}
+type BookingErrorBody = { error?: string; details?: { nights?: { date: string; available: number }[] } };
 
-interface Payment {
-  method: 'cash' | 'credit' | 'visa';
-  amount: number;
-  date: string;
-  startDate?: string;
-  completionDate?: string;
-  amountPaidToday?: number;
-  remainingBalance?: number;
-}
-
-interface Booking {
-  id: string;
-  resId: string;
-  guest: Guest;
-  room: Room;
-  numberOfRooms: number;
-  payment: Payment;
-  status: 'pending' | 'confirmed' | 'checked-in' | 'cancelled';
-  createdAt: string;
-}
+// The API's error message, with the nights that ran out of rooms when availability was the problem
+const getBookingError = (body: BookingErrorBody, fallback: string) => {
+  const nights = body.details?.nights || [];
+  return nights.length > 0
+    ? `${body.error}: ${nights.map(night => `${night.date} (${night.available} left)`).join(', ')}`
+    : body.error || fallback;
+};
 
 export default function Booking() {
   const [language, setLanguage] = useState('en');
   
   // Step 1: Room Selection
-  const [selectedHotelId, setSelectedHotelId] = useState('hotel-1');
-  const [selectedRoomId, setSelectedRoomId] = useState('room-1');
+  const [selectedHotelId, setSelectedHotelId] = useState('');
+  const [selectedRoomId, setSelectedRoomId] = useState('');
   const [numberOfRooms, setNumberOfRooms] = useState(1);
+  const [selectedRatePlanId, setSelectedRatePlanId] = useState('');
   const [arrivalDate, setArrivalDate] = useState('2024-01-15');
   const [departureDate, setDepartureDate] = useState('2024-01-20');
   const [numberOfNights, setNumberOfNights] = useState(5);
   
   // Step 2: Guest Data
-  const [guestData, setGuestData] = useState<Guest>({
+  const [guestData, setGuestData] = useState<BookingGuest>({
     fullName: 'Ahmed Mohammed Al-Rashid',
     email: 'ahmed.alrashid@email.com',
     guestClassification: 'Saudi Citizen',
@@ -89,32 +80,54 @@ export default function Booking() {
     telephone: '+971-50-123-4567',
     roomNo: '205',
     rateCode: 'CORP',
-    roomRate: 250,
+    roomRate: 0,
     payment: 'credit',
     resId: 'RES-2024-001',
     profileId: 'PROF-12345'
   });
   
   // Step 3: Payment
-  const [paymentData, setPaymentData] = useState<Payment>({
+  const [paymentData, setPaymentData] = useState<ReservationInput['payment']>({
     method: 'credit',
-    amount: 1250,
-    date: '2024-01-15',
+    payments: [{ method: 'cash', amount: 500, date: '2024-01-15', reference: '' }],
     startDate: '2024-01-15',
     completionDate: '2024-01-25',
-    amountPaidToday: 500,
-    remainingBalance: 750
+    installments: 3
+  });
+
+  // A deposit held on the guest's card; only the brand and last four digits are kept once the provider approves it
+  const [depositData, setDepositData] = useState({
+    enabled: false,
+    amount: 0,
+    number: '',
+    expiry: '',
+    cvc: '',
+    holder: ''
   });
   
   // Operations Management
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [bookings, setBookings] = useState<BookingRecord[]>([]);
+  const [cancellingId, setCancellingId] = useState('');
+  const canCancel = useCan('reservations:cancel');
+  const canEdit = useCan('reservations:write');
+
+  // Amending an existing reservation: its stay is loaded into room selection and repriced on review
+  const [editingBooking, setEditingBooking] = useState<BookingRecord | null>(null);
+  const [amendment, setAmendment] = useState<Amendment | null>(null);
   const [statusFilter, setStatusFilter] = useState('');
   const [dateRangeFilter, setDateRangeFilter] = useState({ start: '', end: '' });
   
   // Data states
   const [hotels, setHotels] = useState<Hotel[]>([]);
-  const [rooms, setRooms] = useState<Room[]>([]);
+  const [rooms, setRooms] = useState<RoomOption[]>([]);
+  const [inventory, setInventory] = useState<RoomTypeInventory[]>([]);
+  const [ratePlans, setRatePlans] = useState<RatePlan[]>([]);
+  const [taxes, setTaxes] = useState<Tax[]>([]);
   const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [bookingError, setBookingError] = useState('');
+  const [confirmedResId, setConfirmedResId] = useState('');
+  const [amendedResId, setAmendedResId] = useState('');
   
   // Fetch data on component mount
   useEffect(() => {
@@ -123,20 +136,59 @@ export default function Booking() {
         setLoading(true);
         
         // Fetch hotels
-        const hotelsResponse = await fetch('/hotels.json');
-        const hotelsData = await hotelsResponse.json();
-        setHotels(hotelsData);
+        const hotelsResponse = await fetch('/api/hotels');
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
+        
+        // Fetch room types
+        const roomsResponse = await fetch('/api/rooms');
+        const roomsData = roomTypeListSchema.parse(await roomsResponse.json());
+        setRooms(roomsData.map(room => ({
+          id: room.id,
+          hotelId: room.hotelId,
+          type: room.roomType,
+          boardType: room.boardType,
+          description: room.roomTypeDescription,
+          rate: room.price,
+          available: room.quantity > 0,
+          status: 'available',
+          availableCount: room.quantity,
+          seasonalPrices: room.seasonalPrices
+        })));
         
-        // Fetch rooms
-        const roomsResponse = await fetch('/rooms.json');
-        const roomsData = await roomsResponse.json();
-        setRooms(roomsData);
+        // Fetch rate plans
+        const ratePlansResponse = await fetch('/api/rate-plans');
+        setRatePlans(ratePlanListSchema.parse(await ratePlansResponse.json()));
+        
+        // Fetch taxes
+        const taxesResponse = await fetch('/api/taxes');
+        setTaxes(taxListSchema.parse(await taxesResponse.json()));
         
         // Fetch bookings
-        const bookingsResponse = await fetch('/bookings.json');
-        const bookingsData = await bookingsResponse.json();
+        const bookingsResponse = await fetch('/api/reservations');
+        const bookingsData = bookingListSchema.parse(await bookingsResponse.json());
         setBookings(bookingsData);
-        
+
+        // Pre-fill the stay when arriving from an empty tape chart cell
+        const params = new URLSearchParams(window.location.search);
+        const arrival = params.get('arrival');
+        const departure = params.get('departure');
+        if (params.get('hotelId')) {
+          setSelectedHotelId(params.get('hotelId') || '');
+          setSelectedRoomId(params.get('roomTypeId') || '');
+        }
+        if (arrival && departure) {
+          setArrivalDate(arrival);
+          setDepartureDate(departure);
+          calculateNights(arrival, departure);
+          setGuestData(prev => ({ ...prev, arrival, departure, roomNo: params.get('roomNo') || prev.roomNo }));
+        }
+
+        // Open a reservation for amendment when arriving from the reservations list
+        const editing = bookingsData.find(booking => booking.id === params.get('edit'));
+        if (editing) {
+          setEditingBooking(editing);
+        }
+
       } catch (error) {
         console.error('Error fetching data:', error);
       } finally {
@@ -147,6 +199,62 @@ export default function Booking() {
     fetchData();
   }, []);
   
+  // Fetch night-by-night inventory for the selected hotel and stay
+  useEffect(() => {
+    if (!selectedHotelId || !arrivalDate || !departureDate || departureDate <= arrivalDate) {
+      setInventory([]);
+      return;
+    }
+
+    const fetchInventory = async () => {
+      try {
+        const params = new URLSearchParams({ hotelId: selectedHotelId, from: arrivalDate, to: departureDate });
+        // The reservation being amended does not compete with itself for rooms
+        if (editingBooking) {
+          params.set('excludeBookingId', editingBooking.id);
+        }
+        const response = await fetch(`/api/inventory?${params}`);
+        if (!response.ok) {
+          throw new Error('Failed to load inventory');
+        }
+        setInventory(inventoryListSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching inventory:', error);
+        setInventory([]);
+      }
+    };
+
+    fetchInventory();
+  }, [selectedHotelId, arrivalDate, departureDate, editingBooking]);
+
+  // Load the reservation being amended into room selection; its guest details and payments are not changed here
+  useEffect(() => {
+    if (!editingBooking) return;
+    const { arrival, departure } = editingBooking.guest;
+    const hotelId = editingBooking.room.hotelId;
+    setSelectedHotelId(hotelId);
+    setSelectedRoomId(editingBooking.room.id);
+    setNumberOfRooms(editingBooking.numberOfRooms);
+    setSelectedRatePlanId(ratePlans.find(plan => plan.hotelId === hotelId && plan.code === editingBooking.guest.rateCode)?.id ?? '');
+    setArrivalDate(arrival);
+    setDepartureDate(departure);
+    setNumberOfNights(editingBooking.nights);
+    setGuestData({ ...editingBooking.guest, roomRate: 0 });
+  }, [editingBooking, ratePlans]);
+
+  // A preview only holds for the stay it was priced for
+  useEffect(() => {
+    setAmendment(null);
+  }, [selectedRoomId, arrivalDate, departureDate, numberOfRooms]);
+
+  // Keep the number of rooms within what the selected room type can still sell for the stay
+  useEffect(() => {
+    const roomInventory = inventory.find(item => item.roomTypeId === selectedRoomId);
+    if (roomInventory && numberOfRooms > roomInventory.available) {
+      setNumberOfRooms(Math.max(roomInventory.available, 1));
+    }
+  }, [inventory, selectedRoomId, numberOfRooms]);
+
   // Calculate number of nights
   const calculateNights = (arrival: string, departure: string) => {
     if (arrival && departure) {
@@ -163,9 +271,22 @@ export default function Booking() {
     return rooms.filter(room => room.hotelId === selectedHotelId);
   };
   
-  // Get selected room details
+  // Get selected room details, with the count still sellable for the chosen stay
   const getSelectedRoom = () => {
-    return rooms.find(room => room.id === selectedRoomId);
+    const room = rooms.find(room => room.id === selectedRoomId);
+    return room && { ...room, availableCount: getAvailableCount(room) };
+  };
+
+  // Rooms of this type free on every night of the stay; the room type quantity until inventory has loaded
+  const getAvailableCount = (room: RoomOption) => {
+    const roomInventory = inventory.find(item => item.roomTypeId === room.id);
+    return roomInventory ? roomInventory.available : room.availableCount || 0;
+  };
+
+  // Nights of the stay on which the selected room type cannot take the requested number of rooms
+  const getSoldOutNights = () => {
+    const roomInventory = inventory.find(item => item.roomTypeId === selectedRoomId);
+    return roomInventory ? roomInventory.nights.filter(night => night.available < numberOfRooms) : [];
   };
   
   // Get selected hotel details
@@ -173,27 +294,263 @@ export default function Booking() {
     return hotels.find(hotel => hotel.id === selectedHotelId);
   };
   
+  // Rate plans the selected hotel still offers
+  const getHotelRatePlans = () => {
+    return ratePlans.filter(plan => plan.hotelId === selectedHotelId && plan.active);
+  };
+
+  const getSelectedRatePlan = () => {
+    return ratePlans.find(plan => plan.id === selectedRatePlanId);
+  };
+
+  const handleSelectRatePlan = (id: string) => {
+    const plan = ratePlans.find(candidate => candidate.id === id);
+    setSelectedRatePlanId(id);
+    setGuestData({ ...guestData, rateCode: plan ? plan.code : '' });
+  };
+
+  // The alternative price, when entered, replaces the room type's rate; otherwise the rate plan derives it
+  const getEffectiveRate = () => {
+    if (guestData.roomRate > 0) return guestData.roomRate;
+    const rate = getSelectedRoom()?.rate || 0;
+    const plan = getSelectedRatePlan();
+    return plan ? deriveRate(rate, plan) : rate;
+  };
+
+  // Price each night of the stay from the season covering it and the rate plan; an alternative price applies to every night
+  const getStayNightlyRates = () => {
+    const room = getSelectedRoom();
+    if (!room) return [];
+    return getNightlyRates(room.rate, room.seasonalPrices || [], arrivalDate, departureDate, {
+      ratePlan: getSelectedRatePlan(),
+      overrideRate: guestData.roomRate > 0 ? guestData.roomRate : undefined
+    });
+  };
+
+  // The rate lines the server will store for this stay, taxed with the hotel's taxes, as shown on the review step
+  const getStayRateLines = (): BookingRateLine[] => {
+    const room = getSelectedRoom();
+    if (!room) return [];
+    const rateCode = getSelectedRatePlan()?.code ?? (guestData.rateCode || null);
+    const hotelTaxes = taxes.filter(tax => tax.hotelId === selectedHotelId);
+    const pricesIncludeTax = getSelectedHotel()?.pricesIncludeTax ?? false;
+    return getStayNightlyRates().map(night => {
+      const taxed = applyTaxes(night.rate, 'room', night.date, hotelTaxes, pricesIncludeTax);
+      return {
+        date: night.date,
+        rateCode,
+        roomType: room.type,
+        price: taxed.net,
+        tax: taxed.tax,
+        taxes: taxed.taxes,
+        seasonal: night.seasonal
+      };
+    });
+  };
+
+  const getTotalTax = () => getRateLineTotals(getStayRateLines(), numberOfRooms).tax;
+
+  const getTotalAmount = () => getRateLineTotals(getStayRateLines(), numberOfRooms).total;
+
+  // Everything taken at booking, across however many methods the guest split it over
+  const getAmountPaid = () => roundMoney(paymentData.payments.reduce((sum, entry) => sum + entry.amount, 0));
+
+  // What stays on the folio after the payments taken now
+  const getRemainingBalance = () => roundMoney(Math.max(getTotalAmount() - getAmountPaid(), 0));
+
+  const addPaymentEntry = () => {
+    setPaymentData({
+      ...paymentData,
+      payments: [...paymentData.payments, { method: 'cash', amount: getRemainingBalance(), date: '', reference: '' }]
+    });
+  };
+
+  const updatePaymentEntry = (index: number, changes: Partial<PaymentEntryInput>) => {
+    setPaymentData({
+      ...paymentData,
+      payments: paymentData.payments.map((entry, i) => i === index ? { ...entry, ...changes } : entry)
+    });
+  };
+
+  const removePaymentEntry = (index: number) => {
+    setPaymentData({...paymentData, payments: paymentData.payments.filter((_, i) => i !== index)});
+  };
+
+  // The installments the remaining balance is split into on credit, as the server will store them
+  const getInstallmentPlan = () => {
+    const { startDate, completionDate, installments } = paymentData;
+    if (paymentData.method !== 'credit' || !startDate || !completionDate || startDate > completionDate) return [];
+    return buildInstallmentPlan(getRemainingBalance(), { count: installments, startDate, completionDate });
+  };
+  
   // Handle booking confirmation
-  const handleConfirmBooking = () => {
+  const handleConfirmBooking = async () => {
     const selectedRoom = getSelectedRoom();
-    if (selectedRoom) {
-      const newBooking: Booking = {
-        id: Date.now().toString(),
-        resId: guestData.resId || `RES${Date.now()}`,
-        guest: {
-          ...guestData,
-          arrival: arrivalDate,
-          departure: departureDate,
-          roomRate: selectedRoom.rate
-        },
-        room: selectedRoom,
-        numberOfRooms: numberOfRooms,
-        payment: paymentData,
-        status: 'confirmed',
-        createdAt: new Date().toISOString()
-      };
-      
-      setBookings([...bookings, newBooking]);
+    if (!selectedRoom) return;
+    if (getAmountPaid() > getTotalAmount()) {
+      setBookingError(`Payments of ${getAmountPaid()} SAR exceed the reservation total of ${getTotalAmount()} SAR`);
+      return;
+    }
+
+    const input = reservationInputSchema.safeParse({
+      hotelId: selectedHotelId,
+      roomTypeId: selectedRoom.id,
+      arrivalDate,
+      departureDate,
+      numberOfRooms,
+      ratePlanId: selectedRatePlanId || undefined,
+      roomRate: guestData.roomRate > 0 ? guestData.roomRate : undefined,
+      guest: {
+        fullName: guestData.fullName,
+        email: guestData.email,
+        guestClassification: guestData.guestClassification,
+        travelAgent: guestData.travelAgent,
+        company: guestData.company,
+        source: guestData.source,
+        group: guestData.group,
+        vip: guestData.vip,
+        nationality: guestData.nationality,
+        telephone: guestData.telephone,
+        roomNo: guestData.roomNo,
+        rateCode: guestData.rateCode,
+        profileId: guestData.profileId
+      },
+      payment: {
+        method: paymentData.method,
+        payments: paymentData.payments.map(entry => ({
+          method: entry.method,
+          amount: entry.amount,
+          date: entry.date || undefined,
+          reference: entry.reference || undefined
+        })),
+        startDate: paymentData.startDate || undefined,
+        completionDate: paymentData.completionDate || undefined,
+        installments: paymentData.installments,
+        deposit: depositData.enabled
+          ? {
+            amount: depositData.amount,
+            card: {
+              number: depositData.number.replace(/[\s-]/g, ''),
+              expiry: depositData.expiry,
+              cvc: depositData.cvc,
+              holder: depositData.holder || undefined
+            }
+          }
+          : undefined
+      }
+    });
+    if (!input.success) {
+      setBookingError(input.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setBookingError('');
+      setConfirmedResId('');
+      setAmendedResId('');
+
+      const response = await fetch('/api/reservations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input.data)
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        setBookingError(getBookingError(body, 'Failed to create reservation'));
+        return;
+      }
+      const data = bookingSchema.parse(body);
+
+      setBookings([data, ...bookings]);
+      setGuestData({ ...guestData, resId: data.resId, profileId: data.guest.profileId });
+      setConfirmedResId(data.resId);
+    } catch (error) {
+      console.error('Error creating reservation:', error);
+      setBookingError('Failed to create reservation');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+  
+  const handleEditBooking = (booking: BookingRecord) => {
+    setEditingBooking(booking);
+    setBookingError('');
+    setConfirmedResId('');
+    setAmendedResId('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleStopEditing = () => {
+    setEditingBooking(null);
+    setAmendment(null);
+    setBookingError('');
+  };
+
+  // Price the amended stay on the server without saving it, to compare it with the reservation as it stands
+  const handlePreviewAmendment = async () => {
+    if (!editingBooking) return;
+    const input = amendmentInputSchema.safeParse({ roomTypeId: selectedRoomId, arrivalDate, departureDate, numberOfRooms });
+    if (!input.success) {
+      setBookingError(input.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setBookingError('');
+      const response = await fetch(`/api/reservations/${editingBooking.id}/amendment/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input.data)
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setBookingError(getBookingError(body, 'Failed to price the changes'));
+        return;
+      }
+      setAmendment(amendmentSchema.parse(body));
+    } catch (error) {
+      console.error('Error previewing amendment:', error);
+      setBookingError('Failed to price the changes');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSaveAmendment = async () => {
+    if (!editingBooking || !amendment) return;
+
+    try {
+      setSubmitting(true);
+      setBookingError('');
+      const response = await fetch(`/api/reservations/${editingBooking.id}/amendment`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          roomTypeId: selectedRoomId,
+          arrivalDate,
+          departureDate,
+          numberOfRooms
+        })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setBookingError(getBookingError(body, 'Failed to amend reservation'));
+        return;
+      }
+      const data = bookingSchema.parse(body);
+
+      setBookings(bookings.map(booking => booking.id === data.id ? data : booking));
+      setEditingBooking(null);
+      setAmendment(null);
+      setAmendedResId(data.resId);
+    } catch (error) {
+      console.error('Error amending reservation:', error);
+      setBookingError('Failed to amend reservation');
+    } finally {
+      setSubmitting(false);
     }
   };
   
@@ -203,6 +560,7 @@ export default function Booking() {
       case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'confirmed': return 'bg-green-100 text-green-800 border-green-200';
       case 'checked-in': return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'checked-out': return 'bg-gray-100 text-gray-800 border-gray-200';
       case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
       case 'available': return 'bg-green-100 text-green-800 border-green-200';
       case 'occupied': return 'bg-red-100 text-red-800 border-red-200';
@@ -260,6 +618,22 @@ export default function Booking() {
                   {language === 'ar' ? 'اختيار الغرفة' : 'Room Selection'}
                 </h2>
               </div>
+
+              {editingBooking && (
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-6 px-4 py-3 bg-blue-50/80 border border-blue-200 rounded-xl text-sm text-blue-800">
+                  <span>
+                    {language === 'ar'
+                      ? `تعديل الحجز ${editingBooking.resId} للنزيل ${editingBooking.guest.fullName}`
+                      : `Amending reservation ${editingBooking.resId} for ${editingBooking.guest.fullName}: change the dates, room type or number of rooms, then review the new price below`}
+                  </span>
+                  <button
+                    onClick={handleStopEditing}
+                    className="font-medium text-blue-700 hover:text-blue-900"
+                  >
+                    {language === 'ar' ? 'إنهاء التعديل' : 'Stop editing'}
+                  </button>
+                </div>
+              )}
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {/* Hotel Selection */}
@@ -269,8 +643,14 @@ export default function Booking() {
                   </label>
                   <select
                     value={selectedHotelId}
-                    onChange={(e) => setSelectedHotelId(e.target.value)}
-                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                    onChange={(e) => {
+                      setSelectedHotelId(e.target.value);
+                      setSelectedRoomId('');
+                      setNumberOfRooms(1);
+                      handleSelectRatePlan('');
+                    }}
+                    disabled={!!editingBooking}
+                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <option value="">{language === 'ar' ? 'اختر الفندق' : 'Select Hotel'}</option>
                     {hotels.map((hotel) => (
@@ -299,7 +679,8 @@ export default function Booking() {
                             occupied: 'bg-red-100 border-red-300 text-red-800 cursor-not-allowed',
                             maintenance: 'bg-yellow-100 border-yellow-300 text-yellow-800 cursor-not-allowed'
                           };
-                          const isSelectable = room.status === 'available' && (room.availableCount || 0) > 0;
+                          const availableCount = getAvailableCount(room);
+                          const isSelectable = room.status === 'available' && availableCount > 0;
                           return (
                             <div
                               key={room.id}
@@ -315,7 +696,7 @@ export default function Booking() {
                                   <div className="text-xs mt-1">
                                     {room.status === 'available' ? (
                                       <span className="text-green-600 font-medium">
-                                        {language === 'ar' ? `${room.availableCount || 0} غرفة متاحة` : `${room.availableCount || 0} rooms available`}
+                                        {language === 'ar' ? `${availableCount} غرفة متاحة` : `${availableCount} rooms available`}
                                       </span>
                                     ) : (
                                       <span className="text-red-600 font-medium">
@@ -366,6 +747,12 @@ export default function Booking() {
                       }
                     </div>
                   )}
+                  {getSoldOutNights().length > 0 && (
+                    <div className="px-3 py-2 bg-yellow-50/80 border border-yellow-200 rounded-xl text-xs text-yellow-800">
+                      {language === 'ar' ? 'لا تتوفر غرف كافية في الليالي التالية: ' : 'Not enough rooms on these nights: '}
+                      {getSoldOutNights().map(night => `${night.date} (${night.available} ${language === 'ar' ? 'متاحة' : 'left'})`).join(', ')}
+                    </div>
+                  )}
                 </div>
                 
                 {/* Arrival Date */}
@@ -410,6 +797,49 @@ export default function Booking() {
                   </div>
                 </div>
                 
+                {/* Rate Plan */}
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {language === 'ar' ? 'خطة التعريفة' : 'Rate Plan'}
+                  </label>
+                  <select
+                    value={selectedRatePlanId}
+                    onChange={(e) => handleSelectRatePlan(e.target.value)}
+                    disabled={!selectedHotelId || !!editingBooking}
+                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <option value="">{language === 'ar' ? 'بدون خطة (أفضل سعر متاح)' : 'No plan (best available rate)'}</option>
+                    {getHotelRatePlans().map(plan => (
+                      <option key={plan.id} value={plan.id}>
+                        {plan.code} – {plan.name}
+                      </option>
+                    ))}
+                  </select>
+                  {(() => {
+                    const plan = getSelectedRatePlan();
+                    if (!plan) return null;
+                    const restriction = getRatePlanStayError(plan, arrivalDate, departureDate);
+                    return (
+                      <div className="text-xs text-gray-600 mt-1 space-y-1">
+                        {plan.boardType && (
+                          <div>{language === 'ar' ? 'نوع الإقامة:' : 'Board:'} {plan.boardType}</div>
+                        )}
+                        <div>
+                          {language === 'ar' ? 'سياسة الإلغاء:' : 'Cancellation:'}{' '}
+                          {CANCELLATION_TYPE_LABELS[plan.cancellationType][language === 'ar' ? 'ar' : 'en']}
+                          {plan.cancellationType === 'free-until' && ` ${plan.freeCancellationDays} ${language === 'ar' ? 'يوم قبل الوصول' : 'day(s) before arrival'}`}
+                          {plan.cancellationPolicy && ` - ${plan.cancellationPolicy}`}
+                        </div>
+                        {restriction && (
+                          <div className="px-3 py-2 bg-yellow-50/80 border border-yellow-200 rounded-xl text-yellow-800">
+                            {restriction}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
+                </div>
+                
                 {/* Alternative Price Input */}
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-gray-700">
@@ -454,16 +884,26 @@ export default function Booking() {
                                   {room?.status ? room.status.charAt(0).toUpperCase() + room.status.slice(1) : ''}
                                 </span>
                                 <span className="text-sm font-medium text-gray-700">
-                                  {language === 'ar' ? 'سعر الليلة:' : 'Room Rate:'} {room?.rate} {language === 'ar' ? 'ريال' : 'SAR'}/night
+                                  {language === 'ar' ? 'سعر الليلة:' : 'Room Rate:'} {getEffectiveRate()} {language === 'ar' ? 'ريال' : 'SAR'}/night
                                 </span>
                               </div>
                               <div className="text-lg font-bold text-blue-600">
-                                {language === 'ar' ? 'الإجمالي:' : 'Total:'} {(room?.rate || 0) * numberOfNights * numberOfRooms} {language === 'ar' ? 'ريال' : 'SAR'}
-                                {numberOfRooms > 1 && (
+                                {language === 'ar' ? 'الإجمالي:' : 'Total:'} {getTotalAmount()} {language === 'ar' ? 'ريال' : 'SAR'}
+                                {getTotalTax() > 0 && (
+                                  <div className="text-sm text-gray-600 font-normal">
+                                    {language === 'ar' ? `شامل ضرائب ${getTotalTax()} ريال` : `incl. ${getTotalTax()} SAR tax`}
+                                  </div>
+                                )}
+                                {getStayNightlyRates().some(night => night.seasonal) ? (
+                                  <div className="text-sm text-gray-600 font-normal">
+                                    {numberOfRooms > 1 && `${numberOfRooms} ${language === 'ar' ? 'غرف ×' : 'rooms ×'} `}
+                                    {getStayNightlyRates().map(night => `${night.date}: ${night.rate}`).join(' · ')} {language === 'ar' ? 'ريال' : 'SAR'}
+                                  </div>
+                                ) : numberOfRooms > 1 && (
                                   <div className="text-sm text-gray-600 font-normal">
                                     {language === 'ar' 
-                                      ? `(${numberOfRooms} غرف × ${numberOfNights} ليالي × ${room?.rate || 0} ريال)`
-                                      : `(${numberOfRooms} rooms × ${numberOfNights} nights × ${room?.rate || 0} SAR)`
+                                      ? `(${numberOfRooms} غرف × ${numberOfNights} ليالي × ${getEffectiveRate()} ريال)`
+                                      : `(${numberOfRooms} rooms × ${numberOfNights} nights × ${getEffectiveRate()} SAR)`
                                     }
                                   </div>
                                 )}
@@ -655,7 +1095,8 @@ export default function Booking() {
                     type="text"
                     value={guestData.rateCode}
                     onChange={(e) => setGuestData({...guestData, rateCode: e.target.value})}
-                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                    readOnly={selectedRatePlanId !== ''}
+                    className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm read-only:bg-gray-50/50"
                     placeholder={language === 'ar' ? 'أدخل كود التعريفة' : 'Enter rate code'}
                   />
                 </div>
@@ -784,35 +1225,148 @@ export default function Booking() {
                   </div>
                 </div>
                 
-                {/* Payment Details */}
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {/* Payment Date */}
-                  <div className="space-y-2">
+                {/* Payments Taken Now */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
                     <label className="block text-sm font-medium text-gray-700">
-                      {language === 'ar' ? 'تاريخ الدفع' : 'Payment Date'}
+                      {language === 'ar' ? 'المدفوعات الآن' : 'Payments Taken Now'}
                     </label>
-                    <input
-                      type="date"
-                      value={paymentData.date}
-                      onChange={(e) => setPaymentData({...paymentData, date: e.target.value})}
-                      className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
-                    />
+                    <button
+                      type="button"
+                      onClick={addPaymentEntry}
+                      className="px-3 py-1 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors"
+                    >
+                      {language === 'ar' ? '+ إضافة دفعة' : '+ Add Payment'}
+                    </button>
                   </div>
-                  
-                  {/* Amount Paid */}
-                  <div className="space-y-2">
-                    <label className="block text-sm font-medium text-gray-700">
-                      {language === 'ar' ? 'المبلغ المدفوع' : 'Amount Paid'}
-                    </label>
+                  {paymentData.payments.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      {language === 'ar' ? 'لا توجد دفعة عند الحجز' : 'No payment taken at booking'}
+                    </p>
+                  ) : (
+                    paymentData.payments.map((entry, index) => (
+                      <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-center">
+                        <select
+                          value={entry.method}
+                          onChange={(e) => updatePaymentEntry(index, { method: e.target.value as PaymentEntryInput['method'] })}
+                          className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                        >
+                          {PAYMENT_METHODS.map(method => (
+                            <option key={method} value={method}>{method.charAt(0).toUpperCase() + method.slice(1)}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={entry.amount}
+                          onChange={(e) => updatePaymentEntry(index, { amount: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                          placeholder={language === 'ar' ? 'المبلغ' : 'Amount'}
+                        />
+                        <input
+                          type="date"
+                          value={entry.date || ''}
+                          onChange={(e) => updatePaymentEntry(index, { date: e.target.value })}
+                          className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                        />
+                        <input
+                          type="text"
+                          value={entry.reference || ''}
+                          onChange={(e) => updatePaymentEntry(index, { reference: e.target.value })}
+                          className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                          placeholder={language === 'ar' ? 'آخر 4 أرقام / رقم الإيصال' : 'Card last four / receipt no.'}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removePaymentEntry(index)}
+                          className="px-3 py-2 text-sm text-red-600 hover:text-red-800 transition-colors"
+                        >
+                          {language === 'ar' ? 'إزالة' : 'Remove'}
+                        </button>
+                      </div>
+                    ))
+                  )}
+                  {getAmountPaid() > getTotalAmount() && (
+                    <p className="text-sm text-red-600">
+                      {language === 'ar'
+                        ? 'مجموع المدفوعات يتجاوز إجمالي الحجز'
+                        : 'The payments add up to more than the reservation total'}
+                    </p>
+                  )}
+                </div>
+
+                {/* Card Deposit Hold */}
+                <div className="space-y-3">
+                  <label className="flex items-center space-x-3 cursor-pointer">
                     <input
-                      type="number"
-                      value={paymentData.amount}
-                      onChange={(e) => setPaymentData({...paymentData, amount: parseFloat(e.target.value) || 0})}
-                      className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
-                      placeholder={language === 'ar' ? 'أدخل المبلغ' : 'Enter amount'}
+                      type="checkbox"
+                      checked={depositData.enabled}
+                      onChange={(e) => setDepositData({...depositData, enabled: e.target.checked, amount: depositData.amount || getRemainingBalance()})}
+                      className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
                     />
-                  </div>
-                  
+                    <span className="text-sm font-medium text-gray-700">
+                      {language === 'ar' ? 'حجز مبلغ تأمين على البطاقة' : 'Hold a deposit on the guest\'s card'}
+                    </span>
+                  </label>
+                  {depositData.enabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={depositData.amount}
+                        onChange={(e) => setDepositData({...depositData, amount: parseFloat(e.target.value) || 0})}
+                        className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                        placeholder={language === 'ar' ? 'مبلغ التأمين' : 'Deposit amount'}
+                      />
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="cc-number"
+                        value={depositData.number}
+                        onChange={(e) => setDepositData({...depositData, number: e.target.value})}
+                        className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                        placeholder={language === 'ar' ? 'رقم البطاقة' : 'Card number'}
+                      />
+                      <input
+                        type="text"
+                        autoComplete="cc-exp"
+                        value={depositData.expiry}
+                        onChange={(e) => setDepositData({...depositData, expiry: e.target.value})}
+                        className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                        placeholder="MM/YY"
+                      />
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="cc-csc"
+                        value={depositData.cvc}
+                        onChange={(e) => setDepositData({...depositData, cvc: e.target.value})}
+                        className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                        placeholder="CVC"
+                      />
+                      <input
+                        type="text"
+                        autoComplete="cc-name"
+                        value={depositData.holder}
+                        onChange={(e) => setDepositData({...depositData, holder: e.target.value})}
+                        className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+                        placeholder={language === 'ar' ? 'اسم حامل البطاقة' : 'Cardholder name'}
+                      />
+                    </div>
+                  )}
+                  {depositData.enabled && (
+                    <p className="text-xs text-gray-500">
+                      {language === 'ar'
+                        ? 'لا يتم خصم المبلغ حتى يتم تحصيله من صفحة الحساب'
+                        : 'Nothing is charged until the hold is captured from the folio'}
+                    </p>
+                  )}
+                </div>
+
+                {/* Payment Details */}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {/* Credit Payment Details */}
                   {paymentData.method === 'credit' && (
                     <>
@@ -839,39 +1393,67 @@ export default function Booking() {
                           className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
                         />
                       </div>
-                      
+
                       <div className="space-y-2">
                         <label className="block text-sm font-medium text-gray-700">
-                          {language === 'ar' ? 'المبلغ المدفوع اليوم' : 'Amount Paid Today'}
+                          {language === 'ar' ? 'عدد الأقساط' : 'Number of Installments'}
                         </label>
-                        <input
-                          type="number"
-                          value={paymentData.amountPaidToday || 0}
-                          onChange={(e) => {
-                            const paidToday = parseFloat(e.target.value) || 0;
-                            const remaining = paymentData.amount - paidToday;
-                            setPaymentData({
-                              ...paymentData,
-                              amountPaidToday: paidToday,
-                              remainingBalance: remaining > 0 ? remaining : 0
-                            });
-                          }}
+                        <select
+                          value={paymentData.installments}
+                          onChange={(e) => setPaymentData({...paymentData, installments: parseInt(e.target.value)})}
                           className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
-                          placeholder={language === 'ar' ? 'أدخل المبلغ المدفوع اليوم' : 'Enter amount paid today'}
-                        />
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <label className="block text-sm font-medium text-gray-700">
-                          {language === 'ar' ? 'الرصيد المتبقي' : 'Remaining Balance'}
-                        </label>
-                        <div className="w-full px-4 py-3 bg-gray-50/50 border border-gray-200/50 rounded-xl backdrop-blur-sm text-gray-700">
-                          {paymentData.remainingBalance || 0} SAR
-                        </div>
+                        >
+                          {Array.from({ length: MAX_INSTALLMENTS }, (_, index) => index + 1).map(count => (
+                            <option key={count} value={count}>{count}</option>
+                          ))}
+                        </select>
                       </div>
                     </>
                   )}
+
+                  {/* Remaining Balance */}
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {language === 'ar' ? 'الرصيد المتبقي' : 'Remaining Balance'}
+                    </label>
+                    <div className="w-full px-4 py-3 bg-gray-50/50 border border-gray-200/50 rounded-xl backdrop-blur-sm text-gray-700">
+                      {getRemainingBalance()} SAR
+                    </div>
+                  </div>
                 </div>
+
+                {/* Installment Plan */}
+                {paymentData.method === 'credit' && getRemainingBalance() > 0 && (
+                  <div className="p-4 bg-white/40 rounded-xl border border-gray-200/40">
+                    <h3 className="font-semibold text-gray-800 mb-3">
+                      {language === 'ar' ? 'جدول الأقساط' : 'Installment Plan'}
+                    </h3>
+                    {getInstallmentPlan().length === 0 ? (
+                      <p className="text-sm text-gray-500">
+                        {language === 'ar' ? 'اختر تاريخ البداية والإتمام لعرض الأقساط' : 'Pick the start and completion dates to see the installments'}
+                      </p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600">
+                            <th className="py-2">#</th>
+                            <th className="py-2">{language === 'ar' ? 'تاريخ الاستحقاق' : 'Due Date'}</th>
+                            <th className="py-2 text-right">{language === 'ar' ? 'المبلغ' : 'Amount'}</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200/50">
+                          {getInstallmentPlan().map(installment => (
+                            <tr key={installment.sequence}>
+                              <td className="py-2 text-gray-500">{installment.sequence}</td>
+                              <td className="py-2 text-gray-700">{installment.dueDate}</td>
+                              <td className="py-2 text-right text-gray-900">{installment.amount.toFixed(2)} SAR</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
             
@@ -897,16 +1479,20 @@ export default function Booking() {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                         <div><span className="font-medium">Hotel:</span> {hotel?.name} ({hotel?.code})</div>
                         <div><span className="font-medium">Room Type:</span> {room?.type}</div>
-                        <div><span className="font-medium">Board Type:</span> {room?.boardType}</div>
-                        <div><span className="font-medium">Rate:</span> {room?.rate} SAR/night</div>
+                        <div><span className="font-medium">Board Type:</span> {getSelectedRatePlan()?.boardType || room?.boardType}</div>
+                        <div><span className="font-medium">Rate:</span> {getEffectiveRate()} SAR/night</div>
                         <div><span className="font-medium">Arrival:</span> {arrivalDate}</div>
                         <div><span className="font-medium">Departure:</span> {departureDate}</div>
                         <div><span className="font-medium">Nights:</span> {numberOfNights}</div>
                         <div><span className="font-medium">Number of Rooms:</span> {numberOfRooms}</div>
-                        <div><span className="font-medium">Total:</span> {(room?.rate || 0) * numberOfNights * numberOfRooms} SAR</div>
+                        <div><span className="font-medium">Total:</span> {getTotalAmount()} SAR</div>
                       </div>
                     );
                   })()} 
+                  <h4 className="font-semibold text-gray-800 mt-4 mb-2">
+                    {language === 'ar' ? 'تفصيل الأسعار لكل ليلة' : 'Night-by-Night Rates'}
+                  </h4>
+                  <RateLinesTable lines={getStayRateLines()} numberOfRooms={numberOfRooms} language={language} />
                 </div>
                 
                 {/* Guest Summary */}
@@ -934,26 +1520,126 @@ export default function Booking() {
                   </h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                     <div><span className="font-medium">Method:</span> {paymentData.method.charAt(0).toUpperCase() + paymentData.method.slice(1)}</div>
-                    <div><span className="font-medium">Amount Paid:</span> {paymentData.amount} SAR</div>
-                    <div><span className="font-medium">Payment Date:</span> {paymentData.date}</div>
-                    {paymentData.method === 'credit' && (
-                      <>
-                        <div><span className="font-medium">Paid Today:</span> {paymentData.amountPaidToday || 0} SAR</div>
-                        <div><span className="font-medium">Remaining:</span> {paymentData.remainingBalance || 0} SAR</div>
-                      </>
+                    <div><span className="font-medium">Amount Paid Now:</span> {getAmountPaid()} SAR</div>
+                    {paymentData.payments.length > 0 && (
+                      <div><span className="font-medium">Payments:</span> {paymentData.payments.map(entry => `${entry.method} ${entry.amount} SAR${entry.reference ? ` (${entry.reference})` : ''}`).join(', ')}</div>
+                    )}
+                    <div><span className="font-medium">Remaining:</span> {getRemainingBalance()} SAR</div>
+                    {depositData.enabled && (
+                      <div><span className="font-medium">Card Deposit Hold:</span> {depositData.amount} SAR (•••• {depositData.number.slice(-4)})</div>
+                    )}
+                    {getInstallmentPlan().length > 0 && (
+                      <div><span className="font-medium">Installments:</span> {getInstallmentPlan().map(installment => `${installment.dueDate}: ${installment.amount} SAR`).join(', ')}</div>
                     )}
                   </div>
                 </div>
               </div>
               
+              {bookingError && (
+                <div className="mt-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                  {bookingError}
+                </div>
+              )}
+              {confirmedResId && (
+                <div className="mt-6 px-4 py-3 bg-green-50/80 border border-green-200 rounded-xl text-sm text-green-700">
+                  {language === 'ar' ? `تم تأكيد الحجز رقم ${confirmedResId}` : `Reservation ${confirmedResId} confirmed`}
+                </div>
+              )}
+              {amendedResId && (
+                <div className="mt-6 px-4 py-3 bg-green-50/80 border border-green-200 rounded-xl text-sm text-green-700">
+                  {language === 'ar' ? `تم تعديل الحجز رقم ${amendedResId}` : `Reservation ${amendedResId} amended`}
+                </div>
+              )}
+
+              {/* Amendment: the reservation as it stands against the stay chosen above */}
+              {editingBooking && amendment && (
+                <div className="mt-6 p-4 bg-gradient-to-r from-blue-50/80 to-purple-50/80 rounded-xl border border-blue-200/50 text-sm text-black">
+                  <h3 className="font-semibold text-gray-800 mb-3">
+                    {language === 'ar' ? `تعديل الحجز ${amendment.resId}` : `Changes to ${amendment.resId}`}
+                  </h3>
+                  <table className="w-full mb-4">
+                    <thead>
+                      <tr className="border-b border-gray-200/50 text-left text-gray-700">
+                        <th className="py-2 pr-4"></th>
+                        <th className="py-2 pr-4">{language === 'ar' ? 'الحالي' : 'Current'}</th>
+                        <th className="py-2">{language === 'ar' ? 'الجديد' : 'New'}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200/50">
+                      {[
+                        { label: language === 'ar' ? 'نوع الغرفة' : 'Room Type', before: amendment.before.roomType, after: amendment.after.roomType },
+                        { label: language === 'ar' ? 'الوصول' : 'Arrival', before: amendment.before.arrival, after: amendment.after.arrival },
+                        { label: language === 'ar' ? 'المغادرة' : 'Departure', before: amendment.before.departure, after: amendment.after.departure },
+                        { label: language === 'ar' ? 'الليالي' : 'Nights', before: String(amendment.before.nights), after: String(amendment.after.nights) },
+                        { label: language === 'ar' ? 'عدد الغرف' : 'Rooms', before: String(amendment.before.numberOfRooms), after: String(amendment.after.numberOfRooms) },
+                        { label: language === 'ar' ? 'الإجمالي' : 'Total', before: `${amendment.before.total} SAR`, after: `${amendment.after.total} SAR` },
+                      ].map(row => (
+                        <tr key={row.label} className={row.before !== row.after ? 'font-semibold text-blue-700' : ''}>
+                          <td className="py-2 pr-4 font-medium text-gray-700">{row.label}</td>
+                          <td className="py-2 pr-4">{row.before}</td>
+                          <td className="py-2">{row.after}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+                    <div>
+                      <span className="font-medium">{language === 'ar' ? 'الفرق:' : 'Difference:'}</span>{' '}
+                      <span className={amendment.difference > 0 ? 'text-red-600' : 'text-green-600'}>
+                        {amendment.difference > 0 ? '+' : ''}{amendment.difference} SAR
+                      </span>
+                    </div>
+                    <div>
+                      <span className="font-medium">
+                        {amendment.balance < 0
+                          ? (language === 'ar' ? 'المستحق للنزيل:' : 'Owed back to the guest:')
+                          : (language === 'ar' ? 'الرصيد بعد التعديل:' : 'Balance after the change:')}
+                      </span>{' '}
+                      {Math.abs(amendment.balance)} SAR
+                    </div>
+                    {amendment.repricedNights.length > 0 && (
+                      <div className="md:col-span-2">
+                        <span className="font-medium">{language === 'ar' ? 'ليالٍ بأسعار اليوم:' : 'Repriced at current rates:'}</span>{' '}
+                        {amendment.repricedNights.join(', ')}
+                      </div>
+                    )}
+                  </div>
+                  <RateLinesTable lines={amendment.rateLines} numberOfRooms={amendment.after.numberOfRooms} language={language} />
+                </div>
+              )}
+              
               {/* Confirm Booking Action */}
-              <div className="flex justify-center mt-6">
-                <button
-                  onClick={handleConfirmBooking}
-                  className="px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200"
-                >
-                  {language === 'ar' ? 'تأكيد الحجز' : 'Confirm Booking'}
-                </button>
+              <div className="flex justify-center gap-4 mt-6">
+                {editingBooking ? (
+                  <>
+                    <button
+                      onClick={handlePreviewAmendment}
+                      disabled={submitting || !selectedRoomId || numberOfNights < 1}
+                      className="px-8 py-3 bg-white/70 border border-purple-300 text-purple-700 font-semibold rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {language === 'ar' ? 'معاينة التغييرات' : 'Preview Changes'}
+                    </button>
+                    <button
+                      onClick={handleSaveAmendment}
+                      disabled={submitting || !amendment}
+                      className="px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {submitting
+                        ? (language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                        : (language === 'ar' ? 'حفظ التعديلات' : 'Save Changes')}
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={handleConfirmBooking}
+                    disabled={submitting || !selectedRoomId || numberOfNights < 1}
+                    className="px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting
+                      ? (language === 'ar' ? 'جاري التأكيد...' : 'Confirming...')
+                      : (language === 'ar' ? 'تأكيد الحجز' : 'Confirm Booking')}
+                  </button>
+                )}
               </div>
             </div>
             
@@ -978,10 +1664,11 @@ export default function Booking() {
                     className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
                   >
                     <option value="">{language === 'ar' ? 'جميع الحالات' : 'All Statuses'}</option>
-                    <option value="pending">{language === 'ar' ? 'في الانتظار' : 'Pending'}</option>
-                    <option value="confirmed">{language === 'ar' ? 'مؤكد' : 'Confirmed'}</option>
-                    <option value="checked-in">{language === 'ar' ? 'تم تسجيل الدخول' : 'Checked-in'}</option>
-                    <option value="cancelled">{language === 'ar' ? 'ملغي' : 'Cancelled'}</option>
+                    {BOOKING_STATUSES.map(status => (
+                      <option key={status} value={status}>
+                        {language === 'ar' ? BOOKING_STATUS_LABELS[status].ar : BOOKING_STATUS_LABELS[status].en}
+                      </option>
+                    ))}
                   </select>
                 </div>
                 
@@ -1095,28 +1782,22 @@ export default function Booking() {
                               >
                                 {language === 'ar' ? 'عرض' : 'View'}
                               </button>
-                              <button 
-                                onClick={() => {
-                                  // Edit booking
-                                  console.log('Edit booking:', booking.id);
-                                  alert(`Editing booking ${booking.resId}`);
-                                }}
-                                className="text-green-600 hover:text-green-800 text-sm font-medium"
-                              >
-                                {language === 'ar' ? 'تعديل' : 'Edit'}
-                              </button>
-                              <button 
-                                onClick={() => {
-                                  // Cancel booking
-                                  if (confirm(`Are you sure you want to cancel booking ${booking.resId}?`)) {
-                                    console.log('Cancel booking:', booking.id);
-                                    alert(`Booking ${booking.resId} has been cancelled`);
-                                  }
-                                }}
-                                className="text-red-600 hover:text-red-800 text-sm font-medium"
-                              >
-                                {language === 'ar' ? 'إلغاء' : 'Cancel'}
-                              </button>
+                              {canEdit && AMENDABLE_STATUSES.includes(booking.status) && (
+                                <button 
+                                  onClick={() => handleEditBooking(booking)}
+                                  className="text-green-600 hover:text-green-800 text-sm font-medium"
+                                >
+                                  {language === 'ar' ? 'تعديل' : 'Edit'}
+                                </button>
+                              )}
+                              {canCancel && canChangeStatus(booking.status, 'cancelled') && (
+                                <button 
+                                  onClick={() => setCancellingId(booking.id)}
+                                  className="text-red-600 hover:text-red-800 text-sm font-medium"
+                                >
+                                  {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                                </button>
+                              )}
                               <button 
                                 onClick={() => {
                                   // Print booking
@@ -1139,6 +1820,18 @@ export default function Booking() {
           </div>
         </div>
       </div>
+
+      {cancellingId && (
+        <CancelReservationDialog
+          bookingId={cancellingId}
+          language={language}
+          onCancelled={(updated) => {
+            setBookings(prev => prev.map(booking => booking.id === updated.id ? updated : booking));
+            setCancellingId('');
+          }}
+          onClose={() => setCancellingId('')}
+        />
+      )}
     </div>
   );
 }
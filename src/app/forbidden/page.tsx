@@ -0,0 +1,37 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+
+export default function ForbiddenPage() {
+  const [language] = useState('en');
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 text-center space-y-6">
+        <div className="w-16 h-16 mx-auto bg-gradient-to-br from-red-500 to-red-600 rounded-2xl flex items-center justify-center shadow-lg">
+          <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+          </svg>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-red-600">403</p>
+          <h1 className="text-2xl font-semibold text-gray-900">
+            {language === 'ar' ? 'غير مسموح بالوصول' : 'Access denied'}
+          </h1>
+          <p className="text-gray-600">
+            {language === 'ar'
+              ? 'ليس لديك صلاحية لعرض هذه الصفحة. تواصل مع مالك الفندق إذا كنت تحتاج إلى الوصول.'
+              : "You don't have permission to view this page. Contact the hotel owner if you need access."}
+          </p>
+        </div>
+        <Link
+          href="/"
+          className="inline-block bg-gradient-to-r from-green-600 to-green-700 text-white py-3 px-6 rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
+        >
+          {language === 'ar' ? 'العودة إلى الصفحة الرئيسية' : 'Back to home'}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+
+export default function ForgotPasswordPage() {
+  const [language, setLanguage] = useState('en');
+  const [identifier, setIdentifier] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ identifier }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to request password reset');
+      }
+      setSent(true);
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      setError(language === 'ar' ? 'تعذر إرسال الرابط، حاول مرة أخرى' : 'Unable to send the reset link, please try again');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 w-full max-w-md">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-6">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <div className="w-16 h-16 mx-auto bg-gradient-to-br from-apple-blue to-apple-purple rounded-2xl flex items-center justify-center shadow-lg">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+              </svg>
+            </div>
+            <h1 className="text-2xl font-semibold text-gray-900">
+              {language === 'ar' ? 'نسيت كلمة المرور' : 'Forgot Password'}
+            </h1>
+            <p className="text-sm text-gray-600">
+              {language === 'ar'
+                ? 'أدخل اسم المستخدم أو البريد الإلكتروني وسنرسل لك رابطًا لإعادة تعيين كلمة المرور'
+                : "Enter your username or email and we'll send you a link to reset your password"}
+            </p>
+          </div>
+
+          {sent ? (
+            <div className="px-4 py-3 bg-green-50/80 border border-green-200/50 rounded-xl text-sm text-green-800">
+              {language === 'ar'
+                ? 'إذا كان هناك حساب مطابق، فقد أرسلنا رابط إعادة التعيين إلى بريده الإلكتروني. الرابط صالح لمدة ساعة واحدة.'
+                : 'If an account matches, we have emailed it a reset link. The link is valid for one hour.'}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="px-4 py-3 bg-red-50/80 border border-red-200/50 rounded-xl text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'اسم المستخدم أو البريد الإلكتروني' : 'Username or Email'}
+                </label>
+                <input
+                  type="text"
+                  value={identifier}
+                  onChange={(e) => setIdentifier(e.target.value)}
+                  className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                  placeholder={language === 'ar' ? 'أدخل اسم المستخدم أو البريد الإلكتروني' : 'Enter your username or email'}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'اللغة' : 'Language'}
+                </label>
+                <select
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm appearance-none cursor-pointer"
+                >
+                  <option value="en">English</option>
+                  <option value="ar">العربية</option>
+                </select>
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-3 px-4 rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-green-600 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+              >
+                {submitting
+                  ? (language === 'ar' ? 'جارٍ الإرسال...' : 'Sending...')
+                  : (language === 'ar' ? 'إرسال رابط إعادة التعيين' : 'Send reset link')}
+              </button>
+            </form>
+          )}
+
+          <div className="text-center">
+            <Link href="/" className="text-sm text-apple-blue hover:text-apple-blue-dark transition-colors font-medium">
+              {language === 'ar' ? 'العودة إلى تسجيل الدخول' : 'Back to login'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,76 +1,22 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-
-interface Hotel {
-  id: string;
-  name: string;
-  code: string;
-}
-
-interface Guest {
-  id: string;
-  fullName: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  guestClassification: string;
-  telephone: string;
-  nationality: string;
-  passportNumber: string;
-  dateOfBirth: string;
-  gender: 'male' | 'female';
-  address: string;
-  city: string;
-  country: string;
-  company: string;
-  travelAgent: string;
-  source: string;
-  group: string;
-  vip: boolean;
-  profileId: string;
-  preferences: {
-    roomType: string;
-    bedType: string;
-    smokingPreference: 'smoking' | 'non-smoking';
-    floorPreference: string;
-    specialRequests: string[];
-  };
-  loyaltyProgram: {
-    member: boolean;
-    level: 'bronze' | 'silver' | 'gold' | 'platinum';
-    points: number;
-  };
-  emergencyContact: {
-    name: string;
-    relationship: string;
-    phone: string;
-  };
-  createdAt: string;
-  lastStay: string;
-  totalStays: number;
-  totalSpent: number;
-  notes: string;
-}
-
-interface Booking {
-  id: string;
-  resId: string;
-  guestId: string;
-  hotelId: string;
-  roomType: string;
-  checkIn: string;
-  checkOut: string;
-  status: 'pending' | 'confirmed' | 'checked-in' | 'checked-out' | 'cancelled';
-  totalAmount: number;
-}
+import { useCan } from '@/components/SessionProvider';
+import {
+  staticBookingListSchema,
+  staticHotelListSchema,
+  type GuestProfile,
+  type StaticBooking,
+  type StaticHotel,
+} from '@/lib/domain';
 
 export default function Guests() {
   const [language, setLanguage] = useState('en');
-  const [guests, setGuests] = useState<Guest[]>([]);
-  const [hotels, setHotels] = useState<Hotel[]>([]);
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [guests, setGuests] = useState<GuestProfile[]>([]);
+  const [hotels, setHotels] = useState<StaticHotel[]>([]);
+  const [bookings, setBookings] = useState<StaticBooking[]>([]);
   const [loading, setLoading] = useState(true);
+  const canExport = useCan('guests:export');
   
   // Filters and search
   const [searchQuery, setSearchQuery] = useState('');
@@ -91,7 +37,7 @@ export default function Guests() {
   
   // Modal states
   const [showGuestModal, setShowGuestModal] = useState(false);
-  const [selectedGuest, setSelectedGuest] = useState<Guest | null>(null);
+  const [selectedGuest, setSelectedGuest] = useState<GuestProfile | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   
   // Fetch data on component mount
@@ -102,16 +48,14 @@ export default function Guests() {
         
         // Fetch hotels
         const hotelsResponse = await fetch('/hotels.json');
-        const hotelsData = await hotelsResponse.json();
-        setHotels(hotelsData);
+        setHotels(staticHotelListSchema.parse(await hotelsResponse.json()));
         
         // Fetch bookings
         const bookingsResponse = await fetch('/bookings.json');
-        const bookingsData = await bookingsResponse.json();
-        setBookings(bookingsData);
+        setBookings(staticBookingListSchema.parse(await bookingsResponse.json()));
         
         // Generate sample guests data
-        const sampleGuests: Guest[] = [
+        const sampleGuests: GuestProfile[] = [
           {
             id: '1',
             fullName: 'Ahmed Al-Rashid',
@@ -352,8 +296,8 @@ export default function Guests() {
   };
   
   // Get guest bookings
-  const getGuestBookings = (guestId: string) => {
-    return bookings.filter(booking => booking.guestId === guestId);
+  const getGuestBookings = (profileId: string) => {
+    return bookings.filter(booking => booking.guest.profileId === profileId);
   };
   
   if (loading) {
@@ -466,12 +410,14 @@ export default function Guests() {
                 {viewMode === 'table' ? '👥' : '📋'}
               </button>
               
-              <button
-                onClick={exportToCSV}
-                className="px-4 py-3 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-all duration-200"
-              >
-                {language === 'ar' ? 'تصدير' : 'Export'}
-              </button>
+              {canExport && (
+                <button
+                  onClick={exportToCSV}
+                  className="px-4 py-3 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-all duration-200"
+                >
+                  {language === 'ar' ? 'تصدير' : 'Export'}
+                </button>
+              )}
             </div>
           </div>
           
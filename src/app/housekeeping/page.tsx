@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  housekeepingRoomListSchema,
+  housekeepingRoomSchema,
+  hotelListSchema,
+  type Hotel,
+  type HousekeepingRoom,
+  type HousekeepingStatus,
+} from '@/lib/domain';
+
+const getHousekeepingColor = (room: HousekeepingRoom) => {
+  if (room.status === 'maintenance') return 'bg-gray-100 text-gray-800 border-gray-200';
+  return room.housekeeping === 'dirty'
+    ? 'bg-yellow-100 text-yellow-800 border-yellow-200'
+    : 'bg-green-100 text-green-800 border-green-200';
+};
+
+export default function Housekeeping() {
+  const [language] = useState('en');
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [rooms, setRooms] = useState<HousekeepingRoom[]>([]);
+  const [hotelFilter, setHotelFilter] = useState('');
+  const [dirtyOnly, setDirtyOnly] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [updatingId, setUpdatingId] = useState('');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [hotelsResponse, roomsResponse] = await Promise.all([
+          fetch('/api/hotels'),
+          fetch('/api/housekeeping'),
+        ]);
+        if (!hotelsResponse.ok || !roomsResponse.ok) {
+          throw new Error('Failed to load rooms');
+        }
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
+        setRooms(housekeepingRoomListSchema.parse(await roomsResponse.json()));
+      } catch (error) {
+        console.error('Error fetching housekeeping:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load rooms');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const handleUpdate = async (room: HousekeepingRoom, housekeeping: HousekeepingStatus) => {
+    try {
+      setUpdatingId(room.id);
+      setError('');
+      const response = await fetch(`/api/housekeeping/${room.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ housekeeping }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to update room');
+      }
+      const updated = housekeepingRoomSchema.parse(data);
+      setRooms(prev => prev.map(item => item.id === updated.id ? updated : item));
+    } catch (error) {
+      console.error('Error updating housekeeping:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update room');
+    } finally {
+      setUpdatingId('');
+    }
+  };
+
+  const inHotel = rooms.filter(room => !hotelFilter || room.hotelId === hotelFilter);
+  const filteredRooms = inHotel.filter(room => !dirtyOnly || room.housekeeping === 'dirty');
+  const stats = {
+    dirty: inHotel.filter(room => room.housekeeping === 'dirty').length,
+    ready: inHotel.filter(room => room.housekeeping === 'clean' && room.status === 'available').length,
+    occupied: inHotel.filter(room => room.status === 'occupied').length,
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+              {language === 'ar' ? 'التدبير المنزلي' : 'Housekeeping'}
+            </h2>
+            <p className="text-gray-600">
+              {language === 'ar'
+                ? 'الغرف التي تحتاج إلى تنظيف بعد مغادرة النزلاء'
+                : 'Rooms to make up after guests check out; a room can only be assigned again once it is clean'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="p-4 bg-yellow-50/60 border border-yellow-200/50 rounded-xl">
+              <div className="text-sm text-yellow-700">{language === 'ar' ? 'بحاجة إلى تنظيف' : 'Dirty'}</div>
+              <div className="text-2xl font-semibold text-yellow-800">{stats.dirty}</div>
+            </div>
+            <div className="p-4 bg-green-50/60 border border-green-200/50 rounded-xl">
+              <div className="text-sm text-green-700">{language === 'ar' ? 'جاهزة' : 'Ready to sell'}</div>
+              <div className="text-2xl font-semibold text-green-800">{stats.ready}</div>
+            </div>
+            <div className="p-4 bg-white/50 border border-white/30 rounded-xl">
+              <div className="text-sm text-gray-600">{language === 'ar' ? 'مشغولة' : 'Occupied'}</div>
+              <div className="text-2xl font-semibold text-gray-900">{stats.occupied}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 items-end">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'الفندق' : 'Hotel'}
+              </label>
+              <select
+                value={hotelFilter}
+                onChange={(e) => setHotelFilter(e.target.value)}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              >
+                <option value="">{language === 'ar' ? 'كل الفنادق' : 'All Hotels'}</option>
+                {hotels.map(hotel => (
+                  <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center space-x-3 cursor-pointer py-3">
+              <input
+                type="checkbox"
+                checked={dirtyOnly}
+                onChange={(e) => setDirtyOnly(e.target.checked)}
+                className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+              />
+              <span className="text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'الغرف غير النظيفة فقط' : 'Dirty rooms only'}
+              </span>
+            </label>
+          </div>
+
+          {error && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full bg-white/50 backdrop-blur-sm rounded-xl border border-white/30">
+                <thead className="bg-gradient-to-r from-gray-50/80 to-gray-100/80">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الغرفة' : 'Room'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'النوع' : 'Type'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الفندق' : 'Hotel'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الإشغال' : 'Occupancy'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'النظافة' : 'Housekeeping'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الإجراءات' : 'Actions'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200/50">
+                  {filteredRooms.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                        {dirtyOnly
+                          ? (language === 'ar' ? 'كل الغرف نظيفة' : 'All rooms are clean')
+                          : (language === 'ar' ? 'لا توجد غرف' : 'No rooms found')}
+                      </td>
+                    </tr>
+                  ) : (
+                    filteredRooms.map(room => (
+                      <tr key={room.id} className="hover:bg-white/30 transition-all duration-200">
+                        <td className="px-4 py-3 text-sm font-semibold text-gray-900">{room.number}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{room.roomType}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{room.hotelName}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 capitalize">{room.status}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium border capitalize ${getHousekeepingColor(room)}`}>
+                            {room.housekeeping}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <button
+                            onClick={() => handleUpdate(room, room.housekeeping === 'dirty' ? 'clean' : 'dirty')}
+                            disabled={updatingId === room.id}
+                            className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                          >
+                            {room.housekeeping === 'dirty'
+                              ? (language === 'ar' ? 'تم التنظيف' : 'Mark clean')
+                              : (language === 'ar' ? 'بحاجة إلى تنظيف' : 'Mark dirty')}
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import QRCode from 'qrcode';
+import Bilingual from '@/components/Bilingual';
+import { useCan } from '@/components/SessionProvider';
+import { INVOICE_TYPE_LABELS, invoiceSchema, type Invoice } from '@/lib/domain';
+import { roundMoney } from '@/lib/pricing';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm';
+
+interface InvoicePageProps {
+  params: Promise<{ id: string }>;
+}
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+export default function InvoiceDetails({ params }: InvoicePageProps) {
+  const { id } = use(params);
+  const canCredit = useCan('invoices:credit');
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [qrImage, setQrImage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [creditForm, setCreditForm] = useState({ reason: '', amount: '' });
+  const [creditError, setCreditError] = useState('');
+  const [isCrediting, setIsCrediting] = useState(false);
+  const [creditNoteId, setCreditNoteId] = useState('');
+
+  useEffect(() => {
+    const fetchInvoice = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/invoices/${id}`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load invoice');
+        }
+        setInvoice(invoiceSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching invoice:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load invoice');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvoice();
+  }, [id]);
+
+  // The QR holds the TLV payload as issued; scanning it with the ZATCA app shows seller, VAT and totals
+  useEffect(() => {
+    if (!invoice) return;
+
+    QRCode.toDataURL(invoice.qrCode, { errorCorrectionLevel: 'M', margin: 1, width: 160 })
+      .then(setQrImage)
+      .catch(error => console.error('Error rendering QR code:', error));
+  }, [invoice]);
+
+  const handleCreditNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoice) return;
+
+    const remaining = roundMoney(invoice.total - invoice.credited);
+    const amount = creditForm.amount ? parseFloat(creditForm.amount) : undefined;
+    if (!confirm(`Issue a credit note of ${formatAmount(amount ?? remaining)} SAR against ${invoice.number}?`)) return;
+
+    try {
+      setIsCrediting(true);
+      setCreditError('');
+      const response = await fetch(`/api/invoices/${invoice.id}/credit-note`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: creditForm.reason, amount }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to issue credit note');
+      }
+
+      const creditNote = invoiceSchema.parse(data);
+      setInvoice({ ...invoice, credited: roundMoney(invoice.credited + creditNote.total) });
+      setCreditNoteId(creditNote.id);
+      setCreditForm({ reason: '', amount: '' });
+    } catch (error) {
+      console.error('Error issuing credit note:', error);
+      setCreditError(error instanceof Error ? error.message : 'Failed to issue credit note');
+    } finally {
+      setIsCrediting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+          {error || 'Invoice not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const { seller } = invoice;
+  const typeLabel = INVOICE_TYPE_LABELS[invoice.type];
+  const title = invoice.simplified
+    ? { en: `Simplified ${typeLabel.en}`, ar: `${typeLabel.ar} مبسطة` }
+    : typeLabel;
+  const sellerAddress = [seller.buildingNumber, seller.street, seller.city, seller.postalCode].filter(Boolean).join(', ');
+  const canIssueCredit = canCredit && invoice.type === 'invoice' && invoice.credited < invoice.total;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 print:p-0 print:bg-white">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Actions */}
+        <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+          <Link href="/invoices" className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+            ← Back to invoices
+          </Link>
+          <div className="flex gap-3">
+            <a
+              href={`/api/invoices/${invoice.id}/xml`}
+              className="px-4 py-2 bg-white/70 border border-gray-200/50 rounded-xl text-gray-700 font-medium hover:bg-white transition-all duration-200"
+            >
+              Download XML
+            </a>
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
+            >
+              Print / PDF
+            </button>
+          </div>
+        </div>
+
+        {/* Printable invoice */}
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-lg p-8 print:border-0 print:shadow-none print:rounded-none text-sm text-gray-800">
+          <div className="flex items-start justify-between gap-6 border-b border-gray-200 pb-6 mb-6">
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold text-gray-900">{title.en}</h1>
+              <h1 className="text-2xl font-bold text-gray-900" dir="rtl">{title.ar}</h1>
+              <div className="pt-2 space-y-1 w-72">
+                <Bilingual en={`No. ${invoice.number}`} ar="رقم الفاتورة" />
+                <Bilingual en={`Issued ${new Date(invoice.issuedAt).toLocaleString('en-GB')}`} ar="تاريخ الإصدار" />
+                <Bilingual en={`Stay ${invoice.arrival} → ${invoice.departure}`} ar="فترة الإقامة" />
+                <Bilingual en={`Reservation ${invoice.resId}`} ar="رقم الحجز" />
+                {invoice.originalNumber && (
+                  <Bilingual en={`Against ${invoice.originalNumber}`} ar="مرجع الفاتورة" />
+                )}
+              </div>
+            </div>
+            {qrImage && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={qrImage} alt="ZATCA QR code" className="w-40 h-40" />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-6 mb-6">
+            <div className="space-y-1">
+              <h2 className="font-semibold text-gray-900"><Bilingual en="Seller" ar="البائع" /></h2>
+              <div>{seller.name}</div>
+              <div dir="rtl">{seller.altName}</div>
+              {sellerAddress && <div>{sellerAddress}</div>}
+              <Bilingual en={`VAT No. ${seller.vatNumber ?? '-'}`} ar="الرقم الضريبي" />
+              {seller.crNumber && <Bilingual en={`CR No. ${seller.crNumber}`} ar="السجل التجاري" />}
+            </div>
+            <div className="space-y-1">
+              <h2 className="font-semibold text-gray-900"><Bilingual en="Buyer" ar="المشتري" /></h2>
+              <div>{invoice.buyerName || '-'}</div>
+              {invoice.buyerVatNumber && <Bilingual en={`VAT No. ${invoice.buyerVatNumber}`} ar="الرقم الضريبي" />}
+            </div>
+          </div>
+
+          {invoice.reason && (
+            <div className="mb-6 px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl">
+              <Bilingual en="Reason for credit note" ar="سبب الإشعار" />
+              <div className="mt-1 text-gray-900">{invoice.reason}</div>
+            </div>
+          )}
+
+          <table className="w-full mb-6">
+            <thead className="bg-gray-50 text-xs text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">#</th>
+                <th className="px-3 py-2 text-left"><div>Description</div><div dir="rtl">الوصف</div></th>
+                <th className="px-3 py-2 text-right"><div>Qty</div><div>الكمية</div></th>
+                <th className="px-3 py-2 text-right"><div>Unit Price</div><div>سعر الوحدة</div></th>
+                <th className="px-3 py-2 text-right"><div>Net</div><div>المبلغ الخاضع</div></th>
+                <th className="px-3 py-2 text-right"><div>VAT</div><div>الضريبة</div></th>
+                <th className="px-3 py-2 text-right"><div>Total</div><div>الإجمالي</div></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {invoice.lines.map(line => (
+                <tr key={line.position}>
+                  <td className="px-3 py-2 text-gray-500">{line.position}</td>
+                  <td className="px-3 py-2">
+                    <div>{line.description}</div>
+                    {line.altDescription && <div className="text-gray-500" dir="rtl">{line.altDescription}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-right">{line.quantity}</td>
+                  <td className="px-3 py-2 text-right">{formatAmount(line.unitPrice)}</td>
+                  <td className="px-3 py-2 text-right">{formatAmount(line.netAmount)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {formatAmount(line.vatAmount)}
+                    <div className="text-xs text-gray-500">{line.vatRate}%</div>
+                  </td>
+                  <td className="px-3 py-2 text-right font-medium">{formatAmount(line.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="ml-auto w-80 space-y-2">
+            <div className="flex justify-between gap-4">
+              <Bilingual en="Total excl. VAT" ar="الإجمالي غير شامل الضريبة" />
+              <span>{formatAmount(invoice.subtotal)}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <Bilingual en="VAT" ar="ضريبة القيمة المضافة" />
+              <span>{formatAmount(invoice.vatTotal)}</span>
+            </div>
+            <div className="flex justify-between gap-4 border-t border-gray-200 pt-2 font-bold text-gray-900">
+              <Bilingual en={`Total incl. VAT (${invoice.currency})`} ar="الإجمالي شامل الضريبة" />
+              <span>{formatAmount(invoice.total)}</span>
+            </div>
+            {invoice.type === 'invoice' && invoice.credited > 0 && (
+              <div className="flex justify-between gap-4 text-red-700">
+                <Bilingual en="Credited" ar="المسترد" />
+                <span>-{formatAmount(invoice.credited)}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-8 pt-4 border-t border-gray-200 text-xs text-gray-400 break-all">
+            UUID {invoice.uuid} · ICV {invoice.sequence} · Hash {invoice.hash}
+          </div>
+        </div>
+
+        {/* Credit note */}
+        {canIssueCredit && (
+          <form onSubmit={handleCreditNote} className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-4 print:hidden">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Issue Credit Note</h3>
+              <p className="text-sm text-gray-600">
+                Refund all or part of this invoice. {formatAmount(roundMoney(invoice.total - invoice.credited))} SAR can still be credited.
+              </p>
+            </div>
+            {creditError && (
+              <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                {creditError}
+              </div>
+            )}
+            {creditNoteId && (
+              <div className="px-4 py-3 bg-green-50/80 border border-green-200 rounded-xl text-sm text-green-700">
+                Credit note issued. <Link href={`/invoices/${creditNoteId}`} className="font-medium underline">View it</Link>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">Reason</label>
+                <input
+                  type="text"
+                  value={creditForm.reason}
+                  onChange={(e) => setCreditForm({ ...creditForm, reason: e.target.value })}
+                  placeholder="e.g. Refund for early departure"
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Amount incl. VAT (optional)</label>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  max={roundMoney(invoice.total - invoice.credited)}
+                  value={creditForm.amount}
+                  onChange={(e) => setCreditForm({ ...creditForm, amount: e.target.value })}
+                  placeholder="Whole invoice"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={isCrediting}
+              className="px-6 py-3 bg-red-600 text-white rounded-xl font-semibold hover:bg-red-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              {isCrediting ? 'Issuing...' : 'Issue Credit Note'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  INVOICE_TYPE_LABELS,
+  hotelListSchema,
+  invoiceListSchema,
+  type Hotel,
+  type Invoice,
+} from '@/lib/domain';
+
+export default function Invoices() {
+  const [language] = useState('en');
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [hotelFilter, setHotelFilter] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  // Fetch data on component mount
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [hotelsResponse, invoicesResponse] = await Promise.all([
+          fetch('/api/hotels'),
+          fetch('/api/invoices'),
+        ]);
+        if (!hotelsResponse.ok || !invoicesResponse.ok) {
+          throw new Error('Failed to load invoices');
+        }
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
+        setInvoices(invoiceListSchema.parse(await invoicesResponse.json()));
+      } catch (error) {
+        console.error('Error fetching invoices:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const filteredInvoices = invoices.filter(invoice => {
+    const hotelMatch = !hotelFilter || invoice.hotelId === hotelFilter;
+    const query = searchQuery.toLowerCase();
+    const searchMatch = !query
+      || invoice.number.toLowerCase().includes(query)
+      || invoice.resId.toLowerCase().includes(query)
+      || (invoice.buyerName ?? '').toLowerCase().includes(query);
+    return hotelMatch && searchMatch;
+  });
+
+  // Credit notes count against the totals, so these are net of refunds
+  const totals = filteredInvoices.reduce((sum, invoice) => {
+    const sign = invoice.type === 'credit-note' ? -1 : 1;
+    return { total: sum.total + sign * invoice.total, vat: sum.vat + sign * invoice.vatTotal };
+  }, { total: 0, vat: 0 });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+              {language === 'ar' ? 'الفواتير الضريبية' : 'Tax Invoices'}
+            </h2>
+            <p className="text-gray-600">
+              {language === 'ar'
+                ? 'الفواتير والإشعارات الدائنة الصادرة للإقامات المغادرة والحجوزات الملغاة أو غير الحاضرة'
+                : 'Invoices and credit notes issued for checked-out stays and cancelled or no-show reservations'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'الفندق' : 'Hotel'}
+              </label>
+              <select
+                value={hotelFilter}
+                onChange={(e) => setHotelFilter(e.target.value)}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              >
+                <option value="">{language === 'ar' ? 'كل الفنادق' : 'All Hotels'}</option>
+                {hotels.map(hotel => (
+                  <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'بحث' : 'Search'}
+              </label>
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder={language === 'ar' ? 'رقم الفاتورة أو الحجز أو المشتري' : 'Invoice number, reservation or buyer'}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              />
+            </div>
+
+            <div className="flex flex-col justify-end text-sm text-gray-700">
+              <div>{language === 'ar' ? 'الصافي بعد الإشعارات' : 'Net of credit notes'}: <span className="font-semibold">{totals.total.toFixed(2)} SAR</span></div>
+              <div className="text-gray-500">{language === 'ar' ? 'ضريبة القيمة المضافة' : 'VAT'}: {totals.vat.toFixed(2)} SAR</div>
+            </div>
+          </div>
+
+          {loadFailed && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {language === 'ar' ? 'تعذر تحميل الفواتير' : 'Failed to load invoices'}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full bg-white/50 backdrop-blur-sm rounded-xl border border-white/30">
+                <thead className="bg-gradient-to-r from-gray-50/80 to-gray-100/80">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'الرقم' : 'Number'}
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'النوع' : 'Type'}
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'الفندق' : 'Hotel'}
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'الحجز' : 'Reservation'}
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'المشتري' : 'Buyer'}
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'تاريخ الإصدار' : 'Issued'}
+                    </th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'الإجمالي' : 'Total'}
+                    </th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">
+                      {language === 'ar' ? 'المسترد' : 'Credited'}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200/50">
+                  {filteredInvoices.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                        {language === 'ar' ? 'لا توجد فواتير' : 'No invoices found'}
+                      </td>
+                    </tr>
+                  ) : (
+                    filteredInvoices.map(invoice => (
+                      <tr key={invoice.id} className="hover:bg-white/30 transition-all duration-200">
+                        <td className="px-4 py-3 text-sm font-medium">
+                          <Link href={`/invoices/${invoice.id}`} className="text-blue-600 hover:text-blue-800">
+                            {invoice.number}
+                          </Link>
+                          {invoice.originalNumber && (
+                            <div className="text-xs text-gray-500">
+                              {language === 'ar' ? 'على' : 'against'} {invoice.originalNumber}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium border ${invoice.type === 'credit-note' ? 'bg-red-100 text-red-800 border-red-200' : 'bg-green-100 text-green-800 border-green-200'}`}>
+                            {INVOICE_TYPE_LABELS[invoice.type][language === 'ar' ? 'ar' : 'en']}
+                          </span>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {invoice.simplified
+                              ? (language === 'ar' ? 'مبسطة' : 'Simplified')
+                              : (language === 'ar' ? 'قياسية' : 'Standard')}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{invoice.seller.name}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          <div>{invoice.resId}</div>
+                          <div className="text-xs text-gray-500">{invoice.arrival} → {invoice.departure}</div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{invoice.buyerName || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{new Date(invoice.issuedAt).toLocaleString()}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 text-right font-medium">
+                          {invoice.type === 'credit-note' ? '-' : ''}{invoice.total.toFixed(2)} SAR
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700 text-right">
+                          {invoice.type === 'invoice' && invoice.credited > 0 ? `${invoice.credited.toFixed(2)} SAR` : '-'}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
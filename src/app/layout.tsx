@@ -2,6 +2,10 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import LayoutWrapper from "../components/LayoutWrapper";
+import SessionProvider from "../components/SessionProvider";
+import { cookies } from "next/headers";
+import { getSession } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/session";
 
 
 // Optimized font loading with Apple-inspired configuration
@@ -26,19 +30,27 @@ export const metadata: Metadata = {
   description: "Connect pharmacists with pharmacy owners",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const session = await getSession();
+  const hasSessionCookie = (await cookies()).has(SESSION_COOKIE);
+  const user = session
+    ? { id: session.sub, username: session.username, name: session.name, role: session.role }
+    : null;
+
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <LayoutWrapper>
-          {children}
-        </LayoutWrapper>
+        <SessionProvider user={user} stale={hasSessionCookie && !session}>
+          <LayoutWrapper>
+            {children}
+          </LayoutWrapper>
+        </SessionProvider>
       </body>
     </html>
   );
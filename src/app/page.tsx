@@ -1,6 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+
+// Resolve `next` against this origin so `//host` and `/\host` (which browsers read as `//host`) can't leave the site
+function getSafeRedirect(next: string | null): string {
+  if (!next) return '/';
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
 
 export default function LoginPage() {
   const [language, setLanguage] = useState('en');
@@ -8,16 +19,47 @@ export default function LoginPage() {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signedOutReason, setSignedOutReason] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSignedOutReason(new URLSearchParams(window.location.search).get('reason'));
+  }, []);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Handle login logic here
-    console.log('Login attempt:', { username, password, language });
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password, remember: rememberMe }),
+      });
+
+      if (!response.ok) {
+        setError(response.status === 401
+          ? (language === 'ar' ? 'اسم المستخدم أو كلمة المرور غير صحيحة' : 'Invalid username or password')
+          : (language === 'ar' ? 'تعذر تسجيل الدخول، حاول مرة أخرى' : 'Unable to sign in, please try again'));
+        return;
+      }
+
+      // Only follow same-origin paths handed over by the middleware redirect; otherwise reload `/`
+      // and let the middleware pick the landing page for this role
+      const next = new URLSearchParams(window.location.search).get('next');
+      window.location.href = getSafeRedirect(next);
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError(language === 'ar' ? 'تعذر تسجيل الدخول، حاول مرة أخرى' : 'Unable to sign in, please try again');
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const handleForgotPassword = () => {
-    // Handle forgot password logic
-    console.log('Forgot password clicked');
+    window.location.href = '/forgot-password';
   };
 
   const handleExit = () => {
@@ -54,6 +96,20 @@ export default function LoginPage() {
 
           {/* Login Form */}
           <form onSubmit={handleLogin} className="space-y-4">
+            {!error && signedOutReason && (
+              <div className="px-4 py-3 bg-yellow-50/80 border border-yellow-200/50 rounded-xl text-sm text-yellow-800">
+                {signedOutReason === 'idle'
+                  ? (language === 'ar' ? 'تم تسجيل خروجك بسبب عدم النشاط' : 'You were signed out because of inactivity')
+                  : (language === 'ar' ? 'انتهت جلستك، يرجى تسجيل الدخول مرة أخرى' : 'Your session has ended, please sign in again')}
+              </div>
+            )}
+
+            {error && (
+              <div className="px-4 py-3 bg-red-50/80 border border-red-200/50 rounded-xl text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
             {/* Login Name Field */}
             <div className="space-y-2">
               <label className="block text-sm font-medium text-gray-700">
@@ -160,9 +216,12 @@ export default function LoginPage() {
             <div className="flex space-x-4">
               <button
                 type="submit"
-                className="flex-1 bg-gradient-to-r from-green-600 to-green-700 text-white py-3 px-4 rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-green-600 focus:ring-offset-2"
+                disabled={submitting}
+                className="flex-1 bg-gradient-to-r from-green-600 to-green-700 text-white py-3 px-4 rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-green-600 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
               >
-                {language === 'ar' ? 'تسجيل الدخول' : 'login'}
+                {submitting
+                  ? (language === 'ar' ? 'جارٍ تسجيل الدخول...' : 'Signing in...')
+                  : (language === 'ar' ? 'تسجيل الدخول' : 'login')}
               </button>
               <button
                 type="button"
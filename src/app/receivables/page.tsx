@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { addDays, formatDateOnly } from '@/lib/dates';
+import {
+  INSTALLMENT_STATUS_LABELS,
+  hotelListSchema,
+  receivableListSchema,
+  type Hotel,
+  type InstallmentStatus,
+  type Receivable,
+} from '@/lib/domain';
+import { roundMoney } from '@/lib/pricing';
+
+// How far ahead the "due soon" total looks
+const DUE_SOON_DAYS = 30;
+
+const getStatusColor = (status: InstallmentStatus) => {
+  switch (status) {
+    case 'overdue': return 'bg-red-100 text-red-800 border-red-200';
+    case 'partial': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'paid': return 'bg-green-100 text-green-800 border-green-200';
+    default: return 'bg-blue-100 text-blue-800 border-blue-200';
+  }
+};
+
+export default function Receivables() {
+  const [language] = useState('en');
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [hotelFilter, setHotelFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'' | 'overdue' | 'upcoming'>('');
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  // Fetch data on component mount
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [hotelsResponse, receivablesResponse] = await Promise.all([
+          fetch('/api/hotels'),
+          fetch('/api/receivables'),
+        ]);
+        if (!hotelsResponse.ok || !receivablesResponse.ok) {
+          throw new Error('Failed to load receivables');
+        }
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
+        setReceivables(receivableListSchema.parse(await receivablesResponse.json()));
+      } catch (error) {
+        console.error('Error fetching receivables:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const filteredReceivables = receivables.filter(receivable => {
+    const hotelMatch = !hotelFilter || receivable.hotelId === hotelFilter;
+    const statusMatch = !statusFilter
+      || (statusFilter === 'overdue' ? receivable.status === 'overdue' : receivable.status !== 'overdue');
+    return hotelMatch && statusMatch;
+  });
+
+  const dueSoonBy = formatDateOnly(addDays(new Date(), DUE_SOON_DAYS));
+  const sumOutstanding = (items: Receivable[]) => roundMoney(items.reduce((sum, item) => sum + item.outstanding, 0));
+  const inHotel = receivables.filter(receivable => !hotelFilter || receivable.hotelId === hotelFilter);
+  const stats = {
+    overdue: sumOutstanding(inHotel.filter(receivable => receivable.status === 'overdue')),
+    dueSoon: sumOutstanding(inHotel.filter(receivable => receivable.status !== 'overdue' && receivable.dueDate <= dueSoonBy)),
+    total: sumOutstanding(inHotel),
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+              {language === 'ar' ? 'الذمم المدينة' : 'Receivables'}
+            </h2>
+            <p className="text-gray-600">
+              {language === 'ar'
+                ? 'الأقساط القادمة والمتأخرة لكل الحجوزات الآجلة'
+                : 'Upcoming and late installments across all credit reservations'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="p-4 bg-red-50/60 border border-red-200/50 rounded-xl">
+              <div className="text-sm text-red-700">{language === 'ar' ? 'متأخر' : 'Overdue'}</div>
+              <div className="text-2xl font-semibold text-red-800">{stats.overdue.toFixed(2)} SAR</div>
+            </div>
+            <div className="p-4 bg-blue-50/60 border border-blue-200/50 rounded-xl">
+              <div className="text-sm text-blue-700">
+                {language === 'ar' ? `مستحق خلال ${DUE_SOON_DAYS} يوماً` : `Due in the next ${DUE_SOON_DAYS} days`}
+              </div>
+              <div className="text-2xl font-semibold text-blue-800">{stats.dueSoon.toFixed(2)} SAR</div>
+            </div>
+            <div className="p-4 bg-white/50 border border-white/30 rounded-xl">
+              <div className="text-sm text-gray-600">{language === 'ar' ? 'إجمالي المستحق' : 'Total outstanding'}</div>
+              <div className="text-2xl font-semibold text-gray-900">{stats.total.toFixed(2)} SAR</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'الفندق' : 'Hotel'}
+              </label>
+              <select
+                value={hotelFilter}
+                onChange={(e) => setHotelFilter(e.target.value)}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              >
+                <option value="">{language === 'ar' ? 'كل الفنادق' : 'All Hotels'}</option>
+                {hotels.map(hotel => (
+                  <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'الحالة' : 'Status'}
+              </label>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              >
+                <option value="">{language === 'ar' ? 'الكل' : 'All'}</option>
+                <option value="overdue">{language === 'ar' ? 'متأخر' : 'Overdue'}</option>
+                <option value="upcoming">{language === 'ar' ? 'قادم' : 'Upcoming'}</option>
+              </select>
+            </div>
+          </div>
+
+          {loadFailed && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {language === 'ar' ? 'تعذر تحميل الذمم المدينة' : 'Failed to load receivables'}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full bg-white/50 backdrop-blur-sm rounded-xl border border-white/30">
+                <thead className="bg-gradient-to-r from-gray-50/80 to-gray-100/80">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'تاريخ الاستحقاق' : 'Due Date'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الحجز' : 'Reservation'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'النزيل' : 'Guest'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الفندق' : 'Hotel'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'القسط' : 'Installment'}</th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'المبلغ' : 'Amount'}</th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'المتبقي' : 'Outstanding'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الحالة' : 'Status'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200/50">
+                  {filteredReceivables.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                        {language === 'ar' ? 'لا توجد أقساط مستحقة' : 'No installments outstanding'}
+                      </td>
+                    </tr>
+                  ) : (
+                    filteredReceivables.map(receivable => (
+                      <tr key={receivable.id} className="hover:bg-white/30 transition-all duration-200">
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          <div>{receivable.dueDate}</div>
+                          {receivable.daysOverdue > 0 && (
+                            <div className="text-xs text-red-600">
+                              {language === 'ar' ? `متأخر ${receivable.daysOverdue} يوم` : `${receivable.daysOverdue} days late`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-medium">
+                          <Link href={`/reservations/${receivable.bookingId}/folio`} className="text-blue-600 hover:text-blue-800">
+                            {receivable.resId}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          <div>{receivable.guestName}</div>
+                          <div className="text-xs text-gray-500">{receivable.telephone}</div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{receivable.hotelName}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">#{receivable.sequence}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 text-right">{receivable.amount.toFixed(2)} SAR</td>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900 text-right">{receivable.outstanding.toFixed(2)} SAR</td>
+                        <td className="px-4 py-3">
+                          <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(receivable.status)}`}>
+                            {INSTALLMENT_STATUS_LABELS[receivable.status][language === 'ar' ? 'ar' : 'en']}
+                          </span>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,514 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCan } from '@/components/SessionProvider';
+import { formatDateOnly } from '@/lib/dates';
+import {
+  BOOKING_STATUS_LABELS,
+  ID_TYPES,
+  ID_TYPE_LABELS,
+  PAYMENT_METHODS,
+  registrationSchema,
+  type CheckInRoom,
+  type IdType,
+  type PaymentMethod,
+  type Registration,
+} from '@/lib/domain';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm';
+
+interface CheckInPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const getRoomColor = (room: CheckInRoom, selected: boolean) => {
+  if (selected) return 'bg-blue-500 border-blue-600 text-white';
+  if (room.assignable) return 'bg-green-50 border-green-300 text-green-800 hover:bg-green-100';
+  if (room.status === 'occupied') return 'bg-red-50 border-red-200 text-red-700 cursor-not-allowed';
+  return 'bg-yellow-50 border-yellow-300 text-yellow-800 cursor-not-allowed';
+};
+
+export default function CheckIn({ params }: CheckInPageProps) {
+  const { id } = use(params);
+  const router = useRouter();
+  const canCheckIn = useCan('reservations:check-in');
+  const [language] = useState('en');
+  const [registration, setRegistration] = useState<Registration | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [roomIds, setRoomIds] = useState<string[]>([]);
+  const [identity, setIdentity] = useState({
+    idType: 'passport' as IdType,
+    idNumber: '',
+    idCountry: '',
+    idExpiry: '',
+    dateOfBirth: '',
+    nationality: '',
+  });
+  const [paymentData, setPaymentData] = useState({
+    enabled: false,
+    method: 'cash' as PaymentMethod,
+    amount: 0,
+    reference: ''
+  });
+  // A hold on the guest's card against the stay and incidentals; nothing is charged until it is captured
+  const [depositData, setDepositData] = useState({
+    enabled: false,
+    amount: 0,
+    number: '',
+    expiry: '',
+    cvc: '',
+    holder: ''
+  });
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchRegistration = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/reservations/${id}/check-in`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load reservation');
+        }
+        const data = registrationSchema.parse(await response.json());
+        setRegistration(data);
+        // Keep rooms already assigned to the reservation when they are still free, else offer the first free ones
+        setRoomIds(data.rooms.filter(room => room.assignable).slice(0, data.booking.numberOfRooms).map(room => room.id));
+        setIdentity(prev => ({
+          idType: data.identity.idType ?? prev.idType,
+          idNumber: data.identity.idNumber ?? '',
+          idCountry: data.identity.idCountry ?? '',
+          idExpiry: data.identity.idExpiry ?? '',
+          dateOfBirth: data.identity.dateOfBirth ?? '',
+          nationality: data.identity.nationality ?? data.booking.guest.nationality,
+        }));
+        setPaymentData(prev => ({ ...prev, amount: data.booking.payment.remainingBalance }));
+      } catch (error) {
+        console.error('Error fetching reservation:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load reservation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRegistration();
+  }, [id]);
+
+  const roomsNeeded = registration?.booking.numberOfRooms ?? 1;
+
+  // A single room is swapped for the one clicked; with several rooms booked each click adds or removes one
+  const handleRoomClick = (roomId: string) => {
+    if (roomIds.includes(roomId)) {
+      setRoomIds(roomIds.filter(id => id !== roomId));
+    } else if (roomsNeeded === 1) {
+      setRoomIds([roomId]);
+    } else if (roomIds.length < roomsNeeded) {
+      setRoomIds([...roomIds, roomId]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (roomIds.length !== roomsNeeded) {
+      setError(language === 'ar' ? `اختر ${roomsNeeded} غرفة` : `Pick ${roomsNeeded} room(s)`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const response = await fetch(`/api/reservations/${id}/check-in`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          roomIds,
+          identity: {
+            idType: identity.idType,
+            idNumber: identity.idNumber,
+            idCountry: identity.idCountry,
+            idExpiry: identity.idExpiry || undefined,
+            dateOfBirth: identity.dateOfBirth || undefined,
+            nationality: identity.nationality || undefined,
+          },
+          payment: paymentData.enabled && paymentData.amount > 0
+            ? { method: paymentData.method, amount: paymentData.amount, reference: paymentData.reference || undefined }
+            : undefined,
+          deposit: depositData.enabled
+            ? {
+              amount: depositData.amount,
+              card: {
+                number: depositData.number.replace(/[\s-]/g, ''),
+                expiry: depositData.expiry,
+                cvc: depositData.cvc,
+                holder: depositData.holder || undefined
+              }
+            }
+            : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to check in');
+      }
+
+      router.push(`/reservations/${id}/registration`);
+    } catch (error) {
+      console.error('Error checking in:', error);
+      setError(error instanceof Error ? error.message : 'Failed to check in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!registration) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+          {loadError || 'Reservation not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const { booking } = registration;
+  const today = formatDateOnly(new Date());
+  const awaitingArrival = booking.status === 'pending' || booking.status === 'confirmed';
+  // Why the reservation cannot be checked in right now, if it cannot
+  const getNotice = () => {
+    if (!awaitingArrival) {
+      return language === 'ar'
+        ? 'لا يمكن تسجيل دخول هذا الحجز'
+        : `This reservation is ${BOOKING_STATUS_LABELS[booking.status].en.toLowerCase()} and cannot be checked in`;
+    }
+    if (today < booking.guest.arrival) {
+      return language === 'ar'
+        ? `يبدأ تسجيل الدخول في ${booking.guest.arrival}`
+        : `Check-in opens on the arrival date, ${booking.guest.arrival}`;
+    }
+    if (today >= booking.guest.departure) {
+      return language === 'ar'
+        ? `كان موعد المغادرة ${booking.guest.departure}`
+        : `This reservation was due to depart on ${booking.guest.departure}`;
+    }
+    return '';
+  };
+  const notice = getNotice();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="relative z-10 max-w-5xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <Link href="/reservations" className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+            {language === 'ar' ? '→ العودة إلى الحجوزات' : '← Back to reservations'}
+          </Link>
+          <div className="flex flex-wrap items-start justify-between gap-4 mt-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+                {language === 'ar' ? 'تسجيل الدخول' : 'Check In'} {booking.resId}
+              </h2>
+              <p className="text-gray-600">
+                {booking.guest.fullName} · {registration.hotelName} · {booking.room.type} · {booking.guest.arrival} → {booking.guest.departure}
+              </p>
+            </div>
+            <span className="inline-block px-3 py-1 rounded-full text-sm font-medium border bg-gray-100 text-gray-800 border-gray-200">
+              {BOOKING_STATUS_LABELS[booking.status][language === 'ar' ? 'ar' : 'en']}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-white/50 border border-white/30 rounded-xl">
+              <div className="text-sm text-gray-600">{language === 'ar' ? 'الإجمالي' : 'Total'}</div>
+              <div className="text-xl font-semibold text-gray-900">{booking.totalAmount.toFixed(2)} SAR</div>
+            </div>
+            <div className="p-4 bg-white/50 border border-white/30 rounded-xl">
+              <div className="text-sm text-gray-600">{language === 'ar' ? 'المدفوع' : 'Paid'}</div>
+              <div className="text-xl font-semibold text-green-700">{booking.payment.amount.toFixed(2)} SAR</div>
+            </div>
+            <div className="p-4 bg-white/50 border border-white/30 rounded-xl">
+              <div className="text-sm text-gray-600">{language === 'ar' ? 'الرصيد' : 'Balance'}</div>
+              <div className={`text-xl font-semibold ${booking.payment.remainingBalance > 0 ? 'text-orange-600' : 'text-green-700'}`}>
+                {booking.payment.remainingBalance.toFixed(2)} SAR
+              </div>
+            </div>
+          </div>
+
+          {booking.status === 'checked-in' && (
+            <div className="mt-6 px-4 py-3 bg-green-50/80 border border-green-200 rounded-xl text-sm text-green-700">
+              {language === 'ar' ? 'تم تسجيل دخول النزيل.' : `Checked in to ${booking.numberOfRooms > 1 ? 'rooms' : 'room'} ${booking.guest.roomNo}.`}{' '}
+              <Link href={`/reservations/${id}/registration`} className="font-medium underline">
+                {language === 'ar' ? 'بطاقة التسجيل' : 'Registration card'}
+              </Link>
+            </div>
+          )}
+          {notice && booking.status !== 'checked-in' && (
+            <div className="mt-6 px-4 py-3 bg-yellow-50/80 border border-yellow-200 rounded-xl text-sm text-yellow-800">
+              {notice}
+            </div>
+          )}
+        </div>
+
+        {awaitingArrival && canCheckIn && (
+          <>
+            {/* Room assignment */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{language === 'ar' ? 'تخصيص الغرفة' : 'Room Assignment'}</h3>
+                <p className="text-sm text-gray-600">
+                  {language === 'ar'
+                    ? 'يمكن تخصيص الغرف الشاغرة والنظيفة فقط'
+                    : `Only vacant, clean ${booking.room.type} rooms can be assigned`}
+                  {roomsNeeded > 1 && (language === 'ar'
+                    ? ` · اختر ${roomsNeeded} غرف (${roomIds.length} مختارة)`
+                    : ` · pick ${roomsNeeded} rooms (${roomIds.length} picked)`)}
+                </p>
+              </div>
+              {registration.rooms.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {language === 'ar' ? 'لا توجد أرقام غرف لهذا النوع' : 'No room numbers have been set up for this room type'}
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                  {registration.rooms.map(room => (
+                    <button
+                      key={room.id}
+                      type="button"
+                      disabled={!room.assignable}
+                      onClick={() => handleRoomClick(room.id)}
+                      className={`p-3 border-2 rounded-xl text-center transition-all duration-200 ${getRoomColor(room, roomIds.includes(room.id))}`}
+                    >
+                      <div className="text-lg font-semibold">{room.number}</div>
+                      <div className="text-xs capitalize">
+                        {room.status === 'available' ? room.housekeeping : room.status}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Identity document */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">{language === 'ar' ? 'وثيقة الهوية' : 'Identity Document'}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'نوع الوثيقة' : 'Document Type'}</label>
+                  <select
+                    value={identity.idType}
+                    onChange={(e) => setIdentity({ ...identity, idType: e.target.value as IdType })}
+                    className={inputClassName}
+                  >
+                    {ID_TYPES.map(type => (
+                      <option key={type} value={type}>{ID_TYPE_LABELS[type][language === 'ar' ? 'ar' : 'en']}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'رقم الوثيقة' : 'Document Number'}</label>
+                  <input
+                    type="text"
+                    value={identity.idNumber}
+                    onChange={(e) => setIdentity({ ...identity, idNumber: e.target.value })}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'بلد الإصدار' : 'Issuing Country'}</label>
+                  <input
+                    type="text"
+                    value={identity.idCountry}
+                    onChange={(e) => setIdentity({ ...identity, idCountry: e.target.value })}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'تاريخ الانتهاء' : 'Expiry Date'}</label>
+                  <input
+                    type="date"
+                    min={today}
+                    value={identity.idExpiry}
+                    onChange={(e) => setIdentity({ ...identity, idExpiry: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'تاريخ الميلاد' : 'Date of Birth'}</label>
+                  <input
+                    type="date"
+                    max={today}
+                    value={identity.dateOfBirth}
+                    onChange={(e) => setIdentity({ ...identity, dateOfBirth: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'الجنسية' : 'Nationality'}</label>
+                  <input
+                    type="text"
+                    value={identity.nationality}
+                    onChange={(e) => setIdentity({ ...identity, nationality: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Payment and deposit */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-6">
+              <h3 className="text-lg font-semibold text-gray-900">{language === 'ar' ? 'الدفع والتأمين' : 'Payment & Deposit'}</h3>
+
+              {booking.payment.remainingBalance > 0 && (
+                <div className="space-y-3">
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={paymentData.enabled}
+                      onChange={(e) => setPaymentData({ ...paymentData, enabled: e.target.checked })}
+                      className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+                    />
+                    <span className="text-sm font-medium text-gray-700">
+                      {language === 'ar' ? 'تحصيل دفعة الآن' : 'Take a payment now'}
+                    </span>
+                  </label>
+                  {paymentData.enabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <select
+                        value={paymentData.method}
+                        onChange={(e) => setPaymentData({ ...paymentData, method: e.target.value as PaymentMethod })}
+                        className={inputClassName}
+                      >
+                        {PAYMENT_METHODS.filter(method => method !== 'credit').map(method => (
+                          <option key={method} value={method}>{method.charAt(0).toUpperCase() + method.slice(1)}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        max={booking.payment.remainingBalance}
+                        value={paymentData.amount}
+                        onChange={(e) => setPaymentData({ ...paymentData, amount: parseFloat(e.target.value) || 0 })}
+                        className={inputClassName}
+                        placeholder={language === 'ar' ? 'المبلغ' : 'Amount'}
+                      />
+                      <input
+                        type="text"
+                        value={paymentData.reference}
+                        onChange={(e) => setPaymentData({ ...paymentData, reference: e.target.value })}
+                        className={inputClassName}
+                        placeholder={language === 'ar' ? 'المرجع' : 'Reference'}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={depositData.enabled}
+                    onChange={(e) => setDepositData({ ...depositData, enabled: e.target.checked })}
+                    className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    {language === 'ar' ? 'حجز مبلغ تأمين على البطاقة' : 'Hold a deposit on the guest\'s card'}
+                  </span>
+                </label>
+                {depositData.enabled && (
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={depositData.amount}
+                      onChange={(e) => setDepositData({ ...depositData, amount: parseFloat(e.target.value) || 0 })}
+                      className={inputClassName}
+                      placeholder={language === 'ar' ? 'مبلغ التأمين' : 'Deposit amount'}
+                    />
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="cc-number"
+                      value={depositData.number}
+                      onChange={(e) => setDepositData({ ...depositData, number: e.target.value })}
+                      className={inputClassName}
+                      placeholder={language === 'ar' ? 'رقم البطاقة' : 'Card number'}
+                    />
+                    <input
+                      type="text"
+                      autoComplete="cc-exp"
+                      value={depositData.expiry}
+                      onChange={(e) => setDepositData({ ...depositData, expiry: e.target.value })}
+                      className={inputClassName}
+                      placeholder="MM/YY"
+                    />
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="cc-csc"
+                      value={depositData.cvc}
+                      onChange={(e) => setDepositData({ ...depositData, cvc: e.target.value })}
+                      className={inputClassName}
+                      placeholder="CVC"
+                    />
+                    <input
+                      type="text"
+                      autoComplete="cc-name"
+                      value={depositData.holder}
+                      onChange={(e) => setDepositData({ ...depositData, holder: e.target.value })}
+                      className={inputClassName}
+                      placeholder={language === 'ar' ? 'اسم حامل البطاقة' : 'Cardholder name'}
+                    />
+                  </div>
+                )}
+                {depositData.enabled && (
+                  <p className="text-xs text-gray-500">
+                    {language === 'ar'
+                      ? 'لا يتم خصم المبلغ حتى يتم تحصيله من صفحة الحساب'
+                      : 'Nothing is charged until the hold is captured from the folio'}
+                  </p>
+                )}
+              </div>
+
+              {error && (
+                <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting || !!notice || roomIds.length !== roomsNeeded}
+                className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting
+                  ? (language === 'ar' ? 'جاري تسجيل الدخول...' : 'Checking in...')
+                  : (language === 'ar' ? 'تسجيل الدخول' : 'Check In')}
+              </button>
+            </div>
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { useCan } from '@/components/SessionProvider';
+import { formatDateOnly } from '@/lib/dates';
+import { roundMoney } from '@/lib/pricing';
+import {
+  BOOKING_STATUS_LABELS,
+  checkOutPlanSchema,
+  checkOutResultSchema,
+  type CheckOutPlan,
+  type CheckOutResult,
+} from '@/lib/domain';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm';
+
+interface CheckOutPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// How what the guest still owes is closed off: taken at the desk, billed to a company, or left on the installment plan
+type SettleBy = 'desk' | 'city-ledger' | 'installments';
+
+const formatTime = (date: Date) => `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export default function CheckOut({ params }: CheckOutPageProps) {
+  const { id } = use(params);
+  const canCheckOut = useCan('reservations:check-out');
+  const canRefund = useCan('folio:refund');
+  const canTransfer = useCan('folio:city-ledger');
+  const [language] = useState('en');
+  const [plan, setPlan] = useState<CheckOutPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [late, setLate] = useState(false);
+  const [settleBy, setSettleBy] = useState<SettleBy>('desk');
+  const [settlementData, setSettlementData] = useState({ method: 'cash' as 'cash' | 'visa', reference: '' });
+  const [account, setAccount] = useState('');
+  const [invoiceData, setInvoiceData] = useState({ buyerName: '', buyerVatNumber: '' });
+  const [result, setResult] = useState<CheckOutResult | null>(null);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchPlan = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/reservations/${id}/check-out`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load reservation');
+        }
+        const data = checkOutPlanSchema.parse(await response.json());
+        setPlan(data);
+        // A guest still in the room past check-out time on their departure day is leaving late
+        const now = new Date();
+        setLate(data.overstay || (formatDateOnly(now) === data.departure && formatTime(now) > data.checkOutTime));
+        setAccount(data.company ?? '');
+        setInvoiceData(prev => ({ ...prev, buyerName: data.company ?? data.guestName }));
+      } catch (error) {
+        console.error('Error fetching check-out:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load reservation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlan();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+          {loadError || 'Reservation not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const lateFee = late || plan.overstay ? plan.lateFee : 0;
+  const due = roundMoney(plan.balance - plan.releasedCharges + plan.earlyFee + lateFee);
+  const canDefer = due > 0 && due <= plan.scheduled;
+  const settlement = due > 0 && settleBy === 'desk'
+    ? { type: 'payment', amount: due }
+    : due < 0 ? { type: 'refund', amount: -due } : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const response = await fetch(`/api/reservations/${id}/check-out`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          late,
+          settlement: settlement
+            ? { ...settlement, method: settlementData.method, reference: settlementData.reference || undefined }
+            : undefined,
+          cityLedger: due > 0 && settleBy === 'city-ledger' ? { account } : undefined,
+          invoice: {
+            buyerName: invoiceData.buyerName || undefined,
+            buyerVatNumber: invoiceData.buyerVatNumber || undefined,
+          },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to check out');
+      }
+      setResult(checkOutResultSchema.parse(data));
+    } catch (error) {
+      console.error('Error checking out:', error);
+      setError(error instanceof Error ? error.message : 'Failed to check out');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const status = result?.booking.status ?? plan.status;
+  const isCheckedIn = status === 'checked-in';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="relative z-10 max-w-5xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <Link href="/reservations" className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+            {language === 'ar' ? '→ العودة إلى الحجوزات' : '← Back to reservations'}
+          </Link>
+          <div className="flex flex-wrap items-start justify-between gap-4 mt-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+                {language === 'ar' ? 'تسجيل الخروج' : 'Check Out'} {plan.resId}
+              </h2>
+              <p className="text-gray-600">
+                {plan.guestName} · {plan.hotelName} · {language === 'ar' ? 'غرفة' : 'Room'} {plan.roomNo ?? '-'} · {plan.arrival} → {plan.departure}
+              </p>
+            </div>
+            <span className="inline-block px-3 py-1 rounded-full text-sm font-medium border bg-gray-100 text-gray-800 border-gray-200">
+              {BOOKING_STATUS_LABELS[status][language === 'ar' ? 'ar' : 'en']}
+            </span>
+          </div>
+
+          {result ? (
+            <div className="px-4 py-3 bg-green-50/80 border border-green-200 rounded-xl text-sm text-green-700">
+              {language === 'ar' ? 'تم تسجيل خروج النزيل.' : `Checked out. Room ${plan.roomNo ?? ''} is waiting for housekeeping.`}{' '}
+              {result.invoiceId && (
+                <Link href={`/invoices/${result.invoiceId}`} className="font-medium underline mr-3">
+                  {language === 'ar' ? 'الفاتورة' : 'Invoice'}
+                </Link>
+              )}
+              <Link href={`/reservations/${id}/folio`} className="font-medium underline">
+                {language === 'ar' ? 'الحساب' : 'Folio'}
+              </Link>
+            </div>
+          ) : !isCheckedIn && (
+            <div className="px-4 py-3 bg-yellow-50/80 border border-yellow-200 rounded-xl text-sm text-yellow-800">
+              {language === 'ar'
+                ? 'لا يمكن تسجيل خروج هذا الحجز'
+                : `This reservation is ${BOOKING_STATUS_LABELS[status].en.toLowerCase()} and cannot be checked out`}
+            </div>
+          )}
+        </div>
+
+        {isCheckedIn && canCheckOut && (
+          <>
+            {/* Stay and charges */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">{language === 'ar' ? 'الإقامة والرسوم' : 'Stay & Charges'}</h3>
+              {plan.early && (
+                <div className="px-4 py-3 bg-yellow-50/80 border border-yellow-200 rounded-xl text-sm text-yellow-800">
+                  {language === 'ar'
+                    ? `مغادرة مبكرة في ${plan.checkOutDate}`
+                    : `Early departure on ${plan.checkOutDate}: ${plan.releasedNights.length} night(s) come off the folio`}
+                </div>
+              )}
+              {plan.overstay && (
+                <div className="px-4 py-3 bg-yellow-50/80 border border-yellow-200 rounded-xl text-sm text-yellow-800">
+                  {language === 'ar'
+                    ? `كان موعد المغادرة ${plan.departure}`
+                    : `The guest was due to depart on ${plan.departure}; the late check-out fee applies`}
+                </div>
+              )}
+              <div className="space-y-2 text-sm text-gray-700">
+                <div className="flex justify-between gap-4">
+                  <span>{language === 'ar' ? 'الرصيد الحالي' : 'Current balance'}</span>
+                  <span>{plan.balance.toFixed(2)} SAR</span>
+                </div>
+                {plan.releasedCharges > 0 && (
+                  <div className="flex justify-between gap-4">
+                    <span>{language === 'ar' ? 'ليالٍ غير مستخدمة' : `Nights not stayed (${plan.releasedNights.join(', ')})`}</span>
+                    <span>-{plan.releasedCharges.toFixed(2)} SAR</span>
+                  </div>
+                )}
+                {plan.earlyFee > 0 && (
+                  <div className="flex justify-between gap-4">
+                    <span>{language === 'ar' ? 'رسوم المغادرة المبكرة' : 'Early check-out fee'}</span>
+                    <span>{plan.earlyFee.toFixed(2)} SAR</span>
+                  </div>
+                )}
+                {lateFee > 0 && (
+                  <div className="flex justify-between gap-4">
+                    <span>{language === 'ar' ? 'رسوم المغادرة المتأخرة' : 'Late check-out fee'}</span>
+                    <span>{lateFee.toFixed(2)} SAR</span>
+                  </div>
+                )}
+                <div className="flex justify-between gap-4 border-t border-gray-200 pt-2 font-semibold text-gray-900">
+                  <span>{due < 0 ? (language === 'ar' ? 'المستحق للنزيل' : 'Owed to the guest') : (language === 'ar' ? 'المستحق' : 'Balance due')}</span>
+                  <span>{Math.abs(due).toFixed(2)} SAR</span>
+                </div>
+              </div>
+              {plan.lateFee > 0 && (
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={late || plan.overstay}
+                    disabled={plan.overstay}
+                    onChange={(e) => setLate(e.target.checked)}
+                    className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    {language === 'ar'
+                      ? `مغادرة متأخرة (بعد ${plan.checkOutTime})`
+                      : `Late check-out (after ${plan.checkOutTime})`}
+                  </span>
+                </label>
+              )}
+            </div>
+
+            {/* Settlement */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">{language === 'ar' ? 'التسوية' : 'Settlement'}</h3>
+
+              {due === 0 && (
+                <p className="text-sm text-gray-600">{language === 'ar' ? 'الحساب مسدد بالكامل' : 'The folio is settled'}</p>
+              )}
+
+              {due > 0 && (
+                <div className="space-y-2">
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="radio"
+                      checked={settleBy === 'desk'}
+                      onChange={() => setSettleBy('desk')}
+                      className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 focus:ring-blue-500 focus:ring-2"
+                    />
+                    <span className="text-sm font-medium text-gray-700">
+                      {language === 'ar' ? 'تحصيل المبلغ الآن' : `Take ${due.toFixed(2)} SAR now`}
+                    </span>
+                  </label>
+                  {canTransfer && (
+                    <label className="flex items-center space-x-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={settleBy === 'city-ledger'}
+                        onChange={() => setSettleBy('city-ledger')}
+                        className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 focus:ring-blue-500 focus:ring-2"
+                      />
+                      <span className="text-sm font-medium text-gray-700">
+                        {language === 'ar' ? 'تحويل إلى حساب الشركة' : 'Transfer to a city ledger account'}
+                      </span>
+                    </label>
+                  )}
+                  {canDefer && (
+                    <label className="flex items-center space-x-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={settleBy === 'installments'}
+                        onChange={() => setSettleBy('installments')}
+                        className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 focus:ring-blue-500 focus:ring-2"
+                      />
+                      <span className="text-sm font-medium text-gray-700">
+                        {language === 'ar' ? 'إبقاء المبلغ على خطة الأقساط' : 'Leave it on the installment plan'}
+                      </span>
+                    </label>
+                  )}
+                </div>
+              )}
+
+              {due < 0 && !canRefund && (
+                <div className="px-4 py-3 bg-yellow-50/80 border border-yellow-200 rounded-xl text-sm text-yellow-800">
+                  {language === 'ar'
+                    ? 'يحتاج استرداد المبلغ إلى موافقة المحاسب'
+                    : `${(-due).toFixed(2)} SAR is owed back to the guest; ask an accountant to refund it`}
+                </div>
+              )}
+
+              {settlement && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <select
+                    value={settlementData.method}
+                    onChange={(e) => setSettlementData({ ...settlementData, method: e.target.value as 'cash' | 'visa' })}
+                    className={inputClassName}
+                  >
+                    <option value="cash">{language === 'ar' ? 'نقدي' : 'Cash'}</option>
+                    <option value="visa">{language === 'ar' ? 'بطاقة' : 'Visa'}</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={settlementData.reference}
+                    onChange={(e) => setSettlementData({ ...settlementData, reference: e.target.value })}
+                    className={inputClassName}
+                    placeholder={language === 'ar' ? 'المرجع' : 'Reference'}
+                  />
+                </div>
+              )}
+
+              {due > 0 && settleBy === 'city-ledger' && (
+                <input
+                  type="text"
+                  value={account}
+                  onChange={(e) => setAccount(e.target.value)}
+                  className={inputClassName}
+                  placeholder={language === 'ar' ? 'حساب الشركة' : 'City ledger account'}
+                  required
+                />
+              )}
+            </div>
+
+            {/* Final invoice */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{language === 'ar' ? 'الفاتورة النهائية' : 'Final Invoice'}</h3>
+                {!plan.canInvoice && (
+                  <p className="text-sm text-gray-600">
+                    {language === 'ar'
+                      ? 'لا يمكن إصدار فاتورة ضريبية دون الرقم الضريبي للفندق'
+                      : `No tax invoice is issued until ${plan.hotelName}'s VAT number is set up`}
+                  </p>
+                )}
+              </div>
+              {plan.canInvoice && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'اسم المشتري' : 'Buyer Name'}</label>
+                    <input
+                      type="text"
+                      value={invoiceData.buyerName}
+                      onChange={(e) => setInvoiceData({ ...invoiceData, buyerName: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'الرقم الضريبي للمشتري' : 'Buyer VAT Number'}</label>
+                    <input
+                      type="text"
+                      value={invoiceData.buyerVatNumber}
+                      onChange={(e) => setInvoiceData({ ...invoiceData, buyerVatNumber: e.target.value })}
+                      className={inputClassName}
+                      placeholder={language === 'ar' ? 'للفاتورة الضريبية القياسية' : 'For a standard (B2B) tax invoice'}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {error && (
+                <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting || (due < 0 && !canRefund)}
+                className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting
+                  ? (language === 'ar' ? 'جاري تسجيل الخروج...' : 'Checking out...')
+                  : (language === 'ar' ? 'تسجيل الخروج' : 'Check Out')}
+              </button>
+            </div>
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
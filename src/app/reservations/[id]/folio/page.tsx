@@ -0,0 +1,742 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { useCan } from '@/components/SessionProvider';
+import {
+  AUTHORIZATION_STATUS_LABELS,
+  BOOKING_STATUS_LABELS,
+  CHARGE_TYPES,
+  CHARGE_TYPE_LABELS,
+  FOLIO_ENTRY_TYPE_LABELS,
+  INSTALLMENT_STATUS_LABELS,
+  MAX_INSTALLMENTS,
+  PAYMENT_METHODS,
+  folioEntryInputSchema,
+  folioSchema,
+  installmentPlanSchema,
+  type AuthorizationStatus,
+  type ChargeType,
+  type Folio,
+  type FolioEntryType,
+  type InstallmentStatus,
+  type PaymentMethod,
+} from '@/lib/domain';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm';
+
+const emptyForm = {
+  type: 'charge' as FolioEntryType,
+  chargeType: 'food-beverage' as ChargeType,
+  description: '',
+  date: '',
+  quantity: '1',
+  unitPrice: '',
+  method: 'cash' as PaymentMethod,
+  amount: '',
+  reference: '',
+};
+
+const emptyPlan = {
+  count: '3',
+  startDate: '',
+  completionDate: '',
+};
+
+interface FolioPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const getEntryColor = (type: FolioEntryType) => {
+  switch (type) {
+    case 'charge': return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'payment': return 'bg-green-100 text-green-800 border-green-200';
+    case 'transfer': return 'bg-purple-100 text-purple-800 border-purple-200';
+    default: return 'bg-red-100 text-red-800 border-red-200';
+  }
+};
+
+const getAuthorizationColor = (status: AuthorizationStatus) => {
+  switch (status) {
+    case 'authorized': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'captured': return 'bg-green-100 text-green-800 border-green-200';
+    case 'declined': return 'bg-red-100 text-red-800 border-red-200';
+    default: return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+const getInstallmentColor = (status: InstallmentStatus) => {
+  switch (status) {
+    case 'paid': return 'bg-green-100 text-green-800 border-green-200';
+    case 'overdue': return 'bg-red-100 text-red-800 border-red-200';
+    case 'partial': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    default: return 'bg-blue-100 text-blue-800 border-blue-200';
+  }
+};
+
+export default function FolioDetails({ params }: FolioPageProps) {
+  const { id } = use(params);
+  const canPost = useCan('folio:write');
+  const canRefund = useCan('folio:refund');
+  const [language] = useState('en');
+  const [folio, setFolio] = useState<Folio | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [plan, setPlan] = useState(emptyPlan);
+  const [planSaving, setPlanSaving] = useState(false);
+  const [planError, setPlanError] = useState('');
+  const [busyAuthorizationId, setBusyAuthorizationId] = useState('');
+  const [authorizationError, setAuthorizationError] = useState('');
+  const [refundForm, setRefundForm] = useState({ authorizationId: '', amount: '', reason: '' });
+
+  useEffect(() => {
+    const fetchFolio = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/reservations/${id}/folio`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load folio');
+        }
+        setFolio(folioSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching folio:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load folio');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFolio();
+  }, [id]);
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = folioEntryInputSchema.safeParse(form.type === 'charge'
+      ? {
+        type: 'charge',
+        chargeType: form.chargeType,
+        description: form.description,
+        date: form.date || undefined,
+        quantity: parseInt(form.quantity) || 1,
+        unitPrice: parseFloat(form.unitPrice) || 0,
+      }
+      : {
+        type: form.type,
+        method: form.method,
+        amount: parseFloat(form.amount) || 0,
+        date: form.date || undefined,
+        reference: form.reference,
+      });
+    if (!input.success) {
+      setError(input.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await fetch(`/api/reservations/${id}/folio`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input.data),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to post to folio');
+      }
+      setFolio(folioSchema.parse(body));
+      setForm({ ...emptyForm, type: form.type });
+    } catch (error) {
+      console.error('Error posting to folio:', error);
+      setError(error instanceof Error ? error.message : 'Failed to post to folio');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = installmentPlanSchema.safeParse({
+      count: parseInt(plan.count) || 1,
+      startDate: plan.startDate,
+      completionDate: plan.completionDate,
+    });
+    if (!input.success) {
+      setPlanError(input.error.issues[0].message);
+      return;
+    }
+
+    try {
+      setPlanSaving(true);
+      setPlanError('');
+      const response = await fetch(`/api/reservations/${id}/installments`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input.data),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to schedule installments');
+      }
+      setFolio(folioSchema.parse(body));
+      setPlan(emptyPlan);
+    } catch (error) {
+      console.error('Error scheduling installments:', error);
+      setPlanError(error instanceof Error ? error.message : 'Failed to schedule installments');
+    } finally {
+      setPlanSaving(false);
+    }
+  };
+
+  // Capture, release or refund a card hold through the payment provider
+  const handleAuthorizationAction = async (authorizationId: string, action: 'capture' | 'void' | 'refund', payload: object = {}) => {
+    try {
+      setBusyAuthorizationId(authorizationId);
+      setAuthorizationError('');
+      const response = await fetch(`/api/payments/authorizations/${authorizationId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Card payment request failed');
+      }
+      setFolio(folioSchema.parse(body));
+      setRefundForm({ authorizationId: '', amount: '', reason: '' });
+    } catch (error) {
+      console.error('Error updating card authorization:', error);
+      setAuthorizationError(error instanceof Error ? error.message : 'Card payment request failed');
+    } finally {
+      setBusyAuthorizationId('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!folio) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+          {loadError || 'Reservation not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const entryTypes = (['charge', 'payment', 'refund'] as FolioEntryType[])
+    .filter(type => type !== 'refund' || canRefund);
+  const summary = [
+    { label: language === 'ar' ? 'الرسوم' : 'Charges', value: folio.totals.charges, color: 'text-gray-900' },
+    { label: language === 'ar' ? 'منها ضرائب' : 'of which tax', value: folio.totals.tax, color: 'text-gray-500' },
+    { label: language === 'ar' ? 'المدفوعات' : 'Payments', value: folio.totals.payments, color: 'text-green-700' },
+    { label: language === 'ar' ? 'المبالغ المستردة' : 'Refunds', value: folio.totals.refunds, color: 'text-red-700' },
+    ...(folio.totals.transfers > 0
+      ? [{ label: language === 'ar' ? 'حساب المدينة' : 'City ledger', value: folio.totals.transfers, color: 'text-purple-700' }]
+      : []),
+    { label: language === 'ar' ? 'الرصيد' : 'Balance', value: folio.totals.balance, color: folio.totals.balance > 0 ? 'text-orange-600' : 'text-green-700' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <Link href="/reservations" className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+            {language === 'ar' ? '→ العودة إلى الحجوزات' : '← Back to reservations'}
+          </Link>
+          <div className="flex flex-wrap items-start justify-between gap-4 mt-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+                {language === 'ar' ? 'حساب النزيل' : 'Guest Folio'} {folio.resId}
+              </h2>
+              <p className="text-gray-600">
+                {folio.guestName} · {folio.hotelName} · {folio.arrival} → {folio.departure}
+              </p>
+            </div>
+            <span className="inline-block px-3 py-1 rounded-full text-sm font-medium border bg-gray-100 text-gray-800 border-gray-200">
+              {BOOKING_STATUS_LABELS[folio.status][language === 'ar' ? 'ar' : 'en']}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+            {summary.map(item => (
+              <div key={item.label} className="p-4 bg-white/50 border border-white/30 rounded-xl">
+                <div className="text-sm text-gray-600">{item.label}</div>
+                <div className={`text-xl font-semibold ${item.color}`}>{item.value.toFixed(2)} SAR</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full bg-white/50 backdrop-blur-sm rounded-xl border border-white/30">
+              <thead className="bg-gradient-to-r from-gray-50/80 to-gray-100/80">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'التاريخ' : 'Date'}</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'النوع' : 'Type'}</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الوصف' : 'Description'}</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'الكمية' : 'Qty'}</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'الصافي' : 'Net'}</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'الضريبة' : 'Tax'}</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'مدين' : 'Debit'}</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'دائن' : 'Credit'}</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'الرصيد' : 'Balance'}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200/50">
+                {folio.entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                      {language === 'ar' ? 'لا توجد قيود' : 'Nothing posted yet'}
+                    </td>
+                  </tr>
+                ) : (
+                  folio.entries.map(entry => (
+                    <tr key={entry.id} className="hover:bg-white/30 transition-all duration-200">
+                      <td className="px-4 py-3 text-sm text-gray-700">{entry.date}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium border ${getEntryColor(entry.type)}`}>
+                          {FOLIO_ENTRY_TYPE_LABELS[entry.type][language === 'ar' ? 'ar' : 'en']}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        <div>{entry.description}</div>
+                        <div className="text-xs text-gray-500">
+                          {[
+                            entry.chargeType && CHARGE_TYPE_LABELS[entry.chargeType][language === 'ar' ? 'ar' : 'en'],
+                            entry.method && entry.method.charAt(0).toUpperCase() + entry.method.slice(1),
+                            entry.reference,
+                            ...entry.taxes.map(tax => `${tax.code} ${tax.rate}%`),
+                            entry.postedBy,
+                          ].filter(Boolean).join(' · ')}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">{entry.type === 'charge' ? entry.quantity : ''}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">{entry.type === 'charge' ? entry.amount.toFixed(2) : ''}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">{entry.type === 'charge' ? entry.tax.toFixed(2) : ''}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 text-right">{entry.type === 'charge' || entry.type === 'refund' ? entry.total.toFixed(2) : ''}</td>
+                      <td className="px-4 py-3 text-sm text-green-700 text-right">{entry.type === 'payment' || entry.type === 'transfer' ? entry.total.toFixed(2) : ''}</td>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 text-right">{entry.balance.toFixed(2)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Installment plan */}
+        {(folio.installments.length > 0 || (canPost && folio.status !== 'cancelled' && folio.totals.balance > 0)) && (
+          <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-6">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {language === 'ar' ? 'خطة الأقساط' : 'Installment Plan'}
+            </h3>
+
+            {folio.installments.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full bg-white/50 backdrop-blur-sm rounded-xl border border-white/30">
+                  <thead className="bg-gradient-to-r from-gray-50/80 to-gray-100/80">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">#</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'تاريخ الاستحقاق' : 'Due Date'}</th>
+                      <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'المبلغ' : 'Amount'}</th>
+                      <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'المتبقي' : 'Outstanding'}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الحالة' : 'Status'}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200/50">
+                    {folio.installments.map(installment => (
+                      <tr key={installment.id} className="hover:bg-white/30 transition-all duration-200">
+                        <td className="px-4 py-3 text-sm text-gray-700">{installment.sequence}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{installment.dueDate}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 text-right">{installment.amount.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900 text-right">{installment.outstanding.toFixed(2)}</td>
+                        <td className="px-4 py-3">
+                          <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium border ${getInstallmentColor(installment.status)}`}>
+                            {INSTALLMENT_STATUS_LABELS[installment.status][language === 'ar' ? 'ar' : 'en']}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {canPost && folio.status !== 'cancelled' && folio.totals.balance > 0 && (
+              <form onSubmit={handleSchedule} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  {folio.installments.length > 0
+                    ? (language === 'ar'
+                      ? `إعادة جدولة الرصيد المتبقي (${folio.totals.balance.toFixed(2)} ريال) تستبدل الخطة الحالية`
+                      : `Rescheduling spreads the current balance of ${folio.totals.balance.toFixed(2)} SAR over a new plan, replacing this one`)
+                    : (language === 'ar'
+                      ? `تقسيط الرصيد المتبقي (${folio.totals.balance.toFixed(2)} ريال)`
+                      : `Spread the balance of ${folio.totals.balance.toFixed(2)} SAR over installments`)}
+                </p>
+
+                {planError && (
+                  <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                    {planError}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'عدد الأقساط' : 'Installments'}</label>
+                    <select
+                      value={plan.count}
+                      onChange={(e) => setPlan({ ...plan, count: e.target.value })}
+                      className={inputClassName}
+                    >
+                      {Array.from({ length: MAX_INSTALLMENTS }, (_, index) => index + 1).map(count => (
+                        <option key={count} value={count}>{count}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'تاريخ البدء' : 'First Due'}</label>
+                    <input
+                      type="date"
+                      value={plan.startDate}
+                      onChange={(e) => setPlan({ ...plan, startDate: e.target.value })}
+                      className={inputClassName}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'تاريخ الإكمال' : 'Last Due'}</label>
+                    <input
+                      type="date"
+                      value={plan.completionDate}
+                      onChange={(e) => setPlan({ ...plan, completionDate: e.target.value })}
+                      className={inputClassName}
+                      required
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={planSaving}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {planSaving
+                      ? (language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                      : folio.installments.length > 0
+                        ? (language === 'ar' ? 'إعادة الجدولة' : 'Reschedule')
+                        : (language === 'ar' ? 'إنشاء خطة' : 'Set Up Plan')}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+
+        {/* Card authorizations */}
+        {folio.authorizations.length > 0 && (
+          <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-6">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {language === 'ar' ? 'تفويضات البطاقة' : 'Card Authorizations'}
+            </h3>
+
+            {authorizationError && (
+              <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                {authorizationError}
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full bg-white/50 backdrop-blur-sm rounded-xl border border-white/30">
+                <thead className="bg-gradient-to-r from-gray-50/80 to-gray-100/80">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'البطاقة' : 'Card'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'المرجع' : 'Reference'}</th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'المحجوز' : 'Held'}</th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'المحصل' : 'Captured'}</th>
+                    <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'المسترد' : 'Refunded'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الحالة' : 'Status'}</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الإجراءات' : 'Actions'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200/50">
+                  {folio.authorizations.map(authorization => (
+                    <tr key={authorization.id} className="hover:bg-white/30 transition-all duration-200">
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {authorization.cardBrand ?? 'Card'} {authorization.cardLast4 ? `•••• ${authorization.cardLast4}` : ''}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-500">{authorization.provider} · {authorization.reference}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">{authorization.amount.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">{authorization.captured.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">{authorization.refunded.toFixed(2)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium border ${getAuthorizationColor(authorization.status)}`}>
+                          {AUTHORIZATION_STATUS_LABELS[authorization.status][language === 'ar' ? 'ar' : 'en']}
+                        </span>
+                        {authorization.declineReason && (
+                          <div className="text-xs text-red-600 mt-1">{authorization.declineReason}</div>
+                        )}
+                        {authorization.overpaid > authorization.refunded && (
+                          <div className="text-xs text-orange-600 mt-1">
+                            {language === 'ar'
+                              ? `مبلغ زائد للاسترداد: ${(authorization.overpaid - authorization.refunded).toFixed(2)} ريال`
+                              : `Overpaid, refund ${(authorization.overpaid - authorization.refunded).toFixed(2)} SAR`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm space-x-3">
+                        {canPost && authorization.status === 'authorized' && folio.totals.balance > 0 && (
+                          <button
+                            onClick={() => handleAuthorizationAction(authorization.id, 'capture', {
+                              amount: Math.min(authorization.amount, folio.totals.balance),
+                            })}
+                            disabled={busyAuthorizationId === authorization.id}
+                            className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                          >
+                            {language === 'ar' ? 'تحصيل' : 'Capture'}
+                          </button>
+                        )}
+                        {canPost && authorization.status === 'authorized' && (
+                          <button
+                            onClick={() => handleAuthorizationAction(authorization.id, 'void')}
+                            disabled={busyAuthorizationId === authorization.id}
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            {language === 'ar' ? 'إلغاء الحجز' : 'Release'}
+                          </button>
+                        )}
+                        {canRefund && authorization.status === 'captured' && (
+                          <button
+                            onClick={() => setRefundForm({
+                              authorizationId: authorization.id,
+                              amount: (authorization.overpaid > authorization.refunded
+                                ? authorization.overpaid - authorization.refunded
+                                : authorization.captured - authorization.refunded).toFixed(2),
+                              reason: authorization.overpaid > authorization.refunded ? 'Overpayment' : '',
+                            })}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {language === 'ar' ? 'استرداد' : 'Refund'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {refundForm.authorizationId && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleAuthorizationAction(refundForm.authorizationId, 'refund', {
+                    amount: parseFloat(refundForm.amount) || 0,
+                    reason: refundForm.reason,
+                  });
+                }}
+                className="flex flex-wrap items-end gap-4"
+              >
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'المبلغ' : 'Amount'}</label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={refundForm.amount}
+                    onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div className="space-y-2 flex-1">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'سبب الاسترداد' : 'Reason'}</label>
+                  <input
+                    type="text"
+                    value={refundForm.reason}
+                    onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+                    placeholder={language === 'ar' ? 'مثال: مغادرة مبكرة' : 'e.g. Early departure'}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={busyAuthorizationId === refundForm.authorizationId}
+                  className="px-6 py-3 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {language === 'ar' ? 'استرداد إلى البطاقة' : 'Refund to Card'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRefundForm({ authorizationId: '', amount: '', reason: '' })}
+                  className="px-6 py-3 bg-white/50 border border-gray-200/50 text-gray-700 rounded-xl font-semibold hover:bg-white/70 transition-all duration-200"
+                >
+                  {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {/* Post to folio */}
+        {canPost && (
+          <form onSubmit={handlePost} className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {language === 'ar' ? 'إضافة قيد' : 'Post to Folio'}
+              </h3>
+              <div className="flex gap-2">
+                {entryTypes.map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setForm({ ...form, type })}
+                    className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors ${form.type === type ? 'bg-blue-500 text-white' : 'bg-white/50 border border-gray-200/50 text-gray-700 hover:bg-white/70'}`}
+                  >
+                    {FOLIO_ENTRY_TYPE_LABELS[type][language === 'ar' ? 'ar' : 'en']}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {error && (
+              <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            {form.type === 'charge' ? (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'نوع الرسوم' : 'Charge Type'}</label>
+                  <select
+                    value={form.chargeType}
+                    onChange={(e) => setForm({ ...form, chargeType: e.target.value as ChargeType })}
+                    className={inputClassName}
+                  >
+                    {CHARGE_TYPES.map(type => (
+                      <option key={type} value={type}>{CHARGE_TYPE_LABELS[type][language === 'ar' ? 'ar' : 'en']}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'الوصف' : 'Description'}</label>
+                  <input
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder={language === 'ar' ? 'مثال: عشاء في المطعم' : 'e.g. Dinner at the restaurant'}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'الكمية' : 'Quantity'}</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.quantity}
+                    onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'سعر الوحدة' : 'Unit Price'}</label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={form.unitPrice}
+                    onChange={(e) => setForm({ ...form, unitPrice: e.target.value })}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'طريقة الدفع' : 'Method'}</label>
+                  <select
+                    value={form.method}
+                    onChange={(e) => setForm({ ...form, method: e.target.value as PaymentMethod })}
+                    className={inputClassName}
+                  >
+                    {PAYMENT_METHODS.map(method => (
+                      <option key={method} value={method}>{method.charAt(0).toUpperCase() + method.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'المبلغ' : 'Amount'}</label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    placeholder={form.type === 'payment' && folio.totals.balance > 0 ? folio.totals.balance.toFixed(2) : ''}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {form.type === 'refund'
+                      ? (language === 'ar' ? 'سبب الاسترداد' : 'Reason')
+                      : (language === 'ar' ? 'المرجع' : 'Reference')}
+                  </label>
+                  <input
+                    type="text"
+                    value={form.reference}
+                    onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                    placeholder={form.type === 'refund'
+                      ? (language === 'ar' ? 'مثال: مغادرة مبكرة' : 'e.g. Early departure')
+                      : (language === 'ar' ? 'مثال: رقم الإيصال' : 'e.g. Receipt number')}
+                    className={inputClassName}
+                    required={form.type === 'refund'}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">{language === 'ar' ? 'التاريخ' : 'Date'}</label>
+                <input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-3 bg-gradient-to-r from-green-600 to-green-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving
+                  ? (language === 'ar' ? 'جاري الحفظ...' : 'Posting...')
+                  : (language === 'ar' ? 'إضافة' : 'Post')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
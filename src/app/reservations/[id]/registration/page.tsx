@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import Bilingual from '@/components/Bilingual';
+import { ID_TYPE_LABELS, registrationSchema, type Registration } from '@/lib/domain';
+
+interface RegistrationPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+// One filled-in line of the card: the printed label on the left, what was recorded on the right
+const Field = ({ en, ar, value }: { en: string; ar: string; value: string }) => (
+  <div className="grid grid-cols-2 gap-4 py-1 border-b border-gray-100">
+    <Bilingual en={en} ar={ar} />
+    <span className="font-medium text-gray-900">{value || '-'}</span>
+  </div>
+);
+
+export default function RegistrationCard({ params }: RegistrationPageProps) {
+  const { id } = use(params);
+  const [registration, setRegistration] = useState<Registration | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchRegistration = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/reservations/${id}/check-in`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load registration card');
+        }
+        setRegistration(registrationSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching registration card:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load registration card');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRegistration();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!registration) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+          {error || 'Reservation not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const { booking, identity } = registration;
+  const holds = registration.authorizations.filter(authorization => authorization.status === 'authorized');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 print:p-0 print:bg-white">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Actions */}
+        <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+          <Link href={`/reservations/${booking.id}/folio`} className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+            ← Folio
+          </Link>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
+          >
+            Print / PDF
+          </button>
+        </div>
+
+        {/* Printable registration card */}
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-lg p-8 print:border-0 print:shadow-none print:rounded-none text-sm text-gray-800">
+          <div className="flex items-start justify-between gap-6 border-b border-gray-200 pb-6 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Guest Registration Card</h1>
+              <h1 className="text-2xl font-bold text-gray-900" dir="rtl">بطاقة تسجيل النزيل</h1>
+            </div>
+            <div className="text-right">
+              <div className="font-semibold text-gray-900">{registration.hotelName}</div>
+              <div dir="rtl">{registration.hotelAltName}</div>
+              {registration.hotelLocation && <div className="text-gray-500">{registration.hotelLocation}</div>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-8 mb-6">
+            <div>
+              <h2 className="font-semibold text-gray-900 mb-2"><Bilingual en="Stay" ar="الإقامة" /></h2>
+              <Field en="Reservation" ar="رقم الحجز" value={booking.resId} />
+              <Field en="Room" ar="رقم الغرفة" value={booking.guest.roomNo} />
+              <Field en="Room type" ar="نوع الغرفة" value={`${booking.room.type} (${booking.room.boardType})`} />
+              <Field en="Arrival" ar="تاريخ الوصول" value={booking.guest.arrival} />
+              <Field en="Departure" ar="تاريخ المغادرة" value={booking.guest.departure} />
+              <Field en="Nights" ar="عدد الليالي" value={String(booking.nights)} />
+              <Field
+                en="Checked in"
+                ar="وقت تسجيل الدخول"
+                value={registration.checkedInAt ? new Date(registration.checkedInAt).toLocaleString('en-GB') : ''}
+              />
+            </div>
+            <div>
+              <h2 className="font-semibold text-gray-900 mb-2"><Bilingual en="Guest" ar="النزيل" /></h2>
+              <Field en="Name" ar="الاسم" value={booking.guest.fullName} />
+              <Field en="Nationality" ar="الجنسية" value={identity.nationality ?? ''} />
+              <Field en="Date of birth" ar="تاريخ الميلاد" value={identity.dateOfBirth ?? ''} />
+              <Field en="ID type" ar="نوع الهوية" value={identity.idType ? ID_TYPE_LABELS[identity.idType].en : ''} />
+              <Field en="ID number" ar="رقم الهوية" value={identity.idNumber ?? ''} />
+              <Field en="Issued by" ar="جهة الإصدار" value={identity.idCountry ?? ''} />
+              <Field en="ID expiry" ar="تاريخ انتهاء الهوية" value={identity.idExpiry ?? ''} />
+              <Field en="Telephone" ar="الهاتف" value={booking.guest.telephone} />
+              <Field en="Email" ar="البريد الإلكتروني" value={booking.guest.email} />
+              <Field en="Company" ar="الشركة" value={booking.guest.company} />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <h2 className="font-semibold text-gray-900 mb-2"><Bilingual en="Charges & Payment" ar="الرسوم والدفع" /></h2>
+            <div className="grid grid-cols-2 gap-8">
+              <div>
+                <Field en="Total (SAR)" ar="الإجمالي" value={formatAmount(booking.totalAmount)} />
+                <Field en="Paid (SAR)" ar="المدفوع" value={formatAmount(booking.payment.amount)} />
+                <Field en="Balance (SAR)" ar="الرصيد" value={formatAmount(booking.payment.remainingBalance)} />
+              </div>
+              <div>
+                <Field en="Settlement" ar="طريقة التسوية" value={booking.payment.method} />
+                {holds.map(hold => (
+                  <Field
+                    key={hold.id}
+                    en="Deposit held (SAR)"
+                    ar="مبلغ التأمين"
+                    value={`${formatAmount(hold.amount)} · ${hold.cardBrand ?? 'Card'} •••• ${hold.cardLast4 ?? ''}`}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-8 text-xs text-gray-600 mb-12">
+            <p>
+              I agree to settle all charges incurred during my stay. Check-out is by {registration.checkOutTime}; the hotel is
+              not responsible for valuables not deposited in the safe.
+            </p>
+            <p dir="rtl">
+              أوافق على سداد جميع الرسوم المترتبة خلال إقامتي. موعد تسجيل الخروج الساعة {registration.checkOutTime}، والفندق غير مسؤول عن
+              المقتنيات الثمينة غير المودعة في الخزنة.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-8">
+            <div className="border-t border-gray-400 pt-2"><Bilingual en="Guest signature" ar="توقيع النزيل" /></div>
+            <div className="border-t border-gray-400 pt-2"><Bilingual en="Front desk" ar="موظف الاستقبال" /></div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
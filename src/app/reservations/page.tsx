@@ -1,71 +1,51 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-
-interface Hotel {
-  id: string;
-  name: string;
-  code: string;
-}
-
-interface Room {
-  id: string;
-  hotelId: string;
-  type: string;
-  boardType: 'Room only' | 'Bed & breakfast' | 'Half board' | 'Full board';
-  description: string;
-  rate: number;
-  available: boolean;
-  status: 'available' | 'occupied' | 'maintenance';
-}
-
-interface Guest {
-  fullName: string;
-  email: string;
-  guestClassification: string;
-  travelAgent: string;
-  company: string;
-  source: string;
-  group: string;
-  arrival: string;
-  departure: string;
-  vip: boolean;
-  nationality: string;
-  telephone: string;
-  roomNo: string;
-  rateCode: string;
-  roomRate: number;
-  payment: string;
-  resId: string;
-  profileId: string;
-}
-
-interface Payment {
-  method: 'cash' | 'credit' | 'visa';
-  amount: number;
-  date: string;
-  startDate?: string;
-  completionDate?: string;
-  amountPaidToday?: number;
-  remainingBalance?: number;
-}
-
-interface Booking {
-  id: string;
-  resId: string;
-  guest: Guest;
-  room: Room;
-  payment: Payment;
-  status: 'pending' | 'confirmed' | 'checked-in' | 'checked-out' | 'cancelled';
-  createdAt: string;
-}
+import Link from 'next/link';
+import { useCan } from '@/components/SessionProvider';
+import RateLinesTable from '@/components/RateLinesTable';
+import CancelReservationDialog from '@/components/CancelReservationDialog';
+import {
+  AMENDABLE_STATUSES,
+  BOOKING_STATUSES,
+  BOOKING_STATUS_LABELS,
+  CANCELLATION_REASONS,
+  CANCELLATION_REASON_LABELS,
+  INVOICEABLE_STATUSES,
+  INVOICE_TYPE_LABELS,
+  PAYMENT_METHODS,
+  bookingListSchema,
+  bookingSchema,
+  canChangeStatus,
+  hotelListSchema,
+  invoiceListSchema,
+  invoiceSchema,
+  roomTypeListSchema,
+  statusHistorySchema,
+  type Booking,
+  type CancellationInput,
+  type CancellationReason,
+  type Hotel,
+  type Invoice,
+  type RoomType,
+  type StatusChange,
+  type StatusChangeInput,
+} from '@/lib/domain';
+import { getRateLineTotals, roundMoney } from '@/lib/pricing';
+import { getTaxBreakdown } from '@/lib/taxes';
 
 export default function Reservations() {
   const [language, setLanguage] = useState('en');
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [hotels, setHotels] = useState<Hotel[]>([]);
-  const [rooms, setRooms] = useState<Room[]>([]);
+  const [rooms, setRooms] = useState<RoomType[]>([]);
   const [loading, setLoading] = useState(true);
+  const canEdit = useCan('reservations:write');
+  const canCancel = useCan('reservations:cancel');
+  const canCheckIn = useCan('reservations:check-in');
+  const canCheckOut = useCan('reservations:check-out');
+  const canExport = useCan('guests:export');
+  const canInvoice = useCan('invoices:write');
   
   // Filters
   const [statusFilter, setStatusFilter] = useState('');
@@ -73,6 +53,12 @@ export default function Reservations() {
   const [dateRangeFilter, setDateRangeFilter] = useState({ start: '', end: '' });
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedBookings, setSelectedBookings] = useState<string[]>([]);
+  const [viewingBooking, setViewingBooking] = useState<Booking | null>(null);
+  const [cancellingId, setCancellingId] = useState('');
+  const [bulkCancelReason, setBulkCancelReason] = useState<CancellationReason | ''>('');
+  const [bookingInvoices, setBookingInvoices] = useState<Invoice[]>([]);
+  const [statusHistory, setStatusHistory] = useState<StatusChange[]>([]);
+  const [isInvoicing, setIsInvoicing] = useState(false);
   
   // View options
   const [viewMode, setViewMode] = useState<'table' | 'cards'>('table');
@@ -90,19 +76,16 @@ export default function Reservations() {
         setLoading(true);
         
         // Fetch hotels
-        const hotelsResponse = await fetch('/hotels.json');
-        const hotelsData = await hotelsResponse.json();
-        setHotels(hotelsData);
+        const hotelsResponse = await fetch('/api/hotels');
+        setHotels(hotelListSchema.parse(await hotelsResponse.json()));
         
         // Fetch rooms
-        const roomsResponse = await fetch('/rooms.json');
-        const roomsData = await roomsResponse.json();
-        setRooms(roomsData);
+        const roomsResponse = await fetch('/api/rooms');
+        setRooms(roomTypeListSchema.parse(await roomsResponse.json()));
         
         // Fetch bookings
-        const bookingsResponse = await fetch('/bookings.json');
-        const bookingsData = await bookingsResponse.json();
-        setBookings(bookingsData);
+        const bookingsResponse = await fetch('/api/reservations');
+        setBookings(bookingListSchema.parse(await bookingsResponse.json()));
         
       } catch (error) {
         console.error('Error fetching data:', error);
@@ -113,6 +96,40 @@ export default function Reservations() {
     
     fetchData();
   }, []);
+
+  // Load the invoices and status timeline of the reservation shown in the details modal
+  useEffect(() => {
+    setBookingInvoices([]);
+    setStatusHistory([]);
+    if (!viewingBooking) return;
+
+    const fetchInvoices = async () => {
+      try {
+        const response = await fetch(`/api/invoices?bookingId=${viewingBooking.id}`);
+        if (!response.ok) {
+          throw new Error('Failed to load invoices');
+        }
+        setBookingInvoices(invoiceListSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching invoices:', error);
+      }
+    };
+
+    const fetchStatusHistory = async () => {
+      try {
+        const response = await fetch(`/api/reservations/${viewingBooking.id}/status`);
+        if (!response.ok) {
+          throw new Error('Failed to load status history');
+        }
+        setStatusHistory(statusHistorySchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching status history:', error);
+      }
+    };
+
+    fetchInvoices();
+    fetchStatusHistory();
+  }, [viewingBooking]);
   
   // Get status color
   const getStatusColor = (status: string) => {
@@ -122,6 +139,7 @@ export default function Reservations() {
       case 'checked-in': return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'checked-out': return 'bg-purple-100 text-purple-800 border-purple-200';
       case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+      case 'no-show': return 'bg-orange-100 text-orange-800 border-orange-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
@@ -182,33 +200,144 @@ export default function Reservations() {
     checkedOut: bookings.filter(b => b.status === 'checked-out').length,
     cancelled: bookings.filter(b => b.status === 'cancelled').length,
     totalRevenue: bookings.reduce((sum, b) => sum + b.payment.amount, 0),
-    pendingPayments: bookings.reduce((sum, b) => sum + (b.payment.remainingBalance || 0), 0)
+    // Tax charged on the reservations that still stand, from their rate lines
+    totalTax: roundMoney(bookings
+      .filter(b => b.status !== 'cancelled')
+      .reduce((sum, b) => sum + getRateLineTotals(b.rateLines, b.numberOfRooms).tax, 0)),
+    pendingPayments: bookings.reduce((sum, b) => sum + (b.payment.remainingBalance || 0), 0),
+    // Revenue split by how it was paid, net of refunds
+    byMethod: PAYMENT_METHODS.map(method => ({
+      method,
+      amount: roundMoney(bookings.reduce((sum, b) => sum + (b.payment.byMethod.find(total => total.method === method)?.amount || 0), 0))
+    }))
   };
   
   // Handle bulk operations
-  const handleBulkStatusChange = (newStatus: string) => {
-    setBookings(bookings.map(booking => 
-      selectedBookings.includes(booking.id) 
-        ? { ...booking, status: newStatus as any }
-        : booking
-    ));
+  const changeBookingStatus = async (id: string, input: StatusChangeInput) => {
+    const response = await fetch(`/api/reservations/${id}/status`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Failed to change reservation status');
+    }
+
+    const updated = bookingSchema.parse(await response.json());
+    setBookings(prev => prev.map(booking => booking.id === updated.id ? updated : booking));
+  };
+
+  // Only reservations the state machine lets into the new status are sent; the server checks again
+  const handleBulkStatusChange = async (status: StatusChangeInput['status']) => {
+    const eligible = bookings.filter(booking => selectedBookings.includes(booking.id) && canChangeStatus(booking.status, status));
+    const skipped = selectedBookings.length - eligible.length;
+    const reason = prompt(`Reason for marking ${eligible.length} reservation(s) ${BOOKING_STATUS_LABELS[status].en.toLowerCase()} (optional)`);
+    if (reason === null) return;
+
+    const results = await Promise.allSettled(eligible.map(booking => changeBookingStatus(booking.id, {
+      status,
+      reason: reason || undefined,
+    })));
+    const failed = results.filter(result => result.status === 'rejected').length;
+    if (failed + skipped > 0) {
+      alert(`${failed + skipped} reservation(s) could not be marked ${BOOKING_STATUS_LABELS[status].en.toLowerCase()}`);
+    }
+    setSelectedBookings([]);
+  };
+
+  const cancelBooking = async (id: string, input: CancellationInput) => {
+    const response = await fetch(`/api/reservations/${id}/cancel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Failed to cancel reservation');
+    }
+
+    const updated = bookingSchema.parse(await response.json());
+    setBookings(prev => prev.map(booking => booking.id === updated.id ? updated : booking));
+  };
+
+  const handleCancelled = (updated: Booking) => {
+    setBookings(prev => prev.map(booking => booking.id === updated.id ? updated : booking));
+    setCancellingId('');
+  };
+
+  const handleIssueInvoice = async (booking: Booking) => {
+    if (!confirm(`Issue the tax invoice for reservation ${booking.resId}?`)) return;
+
+    try {
+      setIsInvoicing(true);
+      const response = await fetch(`/api/reservations/${booking.id}/invoice`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to issue invoice');
+      }
+      const invoice = invoiceSchema.parse(data);
+      setBookingInvoices(prev => [invoice, ...prev]);
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      alert(error instanceof Error ? error.message : 'Failed to issue invoice');
+    } finally {
+      setIsInvoicing(false);
+    }
+  };
+
+  // Bulk cancellation applies each reservation's policy without refunding; refunds are made from the folios afterwards
+  const handleBulkCancel = async () => {
+    if (!bulkCancelReason) {
+      alert('Select a cancellation reason first');
+      return;
+    }
+    const reason = prompt(`Note for cancelling ${selectedBookings.length} reservation(s) (optional)`);
+    if (reason === null) return;
+
+    const results = await Promise.allSettled(selectedBookings.map(id => cancelBooking(id, {
+      reasonCode: bulkCancelReason,
+      reason: reason || undefined,
+    })));
+    const failed = results.filter(result => result.status === 'rejected').length;
+    if (failed > 0) {
+      alert(`${failed} reservation(s) could not be cancelled`);
+    }
     setSelectedBookings([]);
   };
   
   // Export functionality
   const exportToCSV = () => {
-    const headers = ['Reservation ID', 'Guest Name', 'Hotel', 'Room', 'Check-in', 'Check-out', 'Status', 'Amount', 'Balance'];
-    const csvData = filteredAndSortedBookings.map(booking => [
-      booking.resId,
-      booking.guest.fullName,
-      hotels.find(h => h.id === booking.room.hotelId)?.name || '',
-      booking.room.type,
-      booking.guest.arrival,
-      booking.guest.departure,
-      booking.status,
-      booking.payment.amount,
-      booking.payment.remainingBalance || 0
-    ]);
+    // One column per tax code charged on any exported reservation, e.g. MUN and VAT
+    const taxCodes = getTaxBreakdown(filteredAndSortedBookings.flatMap(booking => booking.rateLines))
+      .map(tax => tax.code)
+      .filter((code, index, codes) => codes.indexOf(code) === index);
+    const headers = ['Reservation ID', 'Guest Name', 'Hotel', 'Room', 'Check-in', 'Check-out', 'Nights', 'Status', 'Room Charges', ...taxCodes, 'Tax', 'Total', 'Balance'];
+    const csvData = filteredAndSortedBookings.map(booking => {
+      const totals = getRateLineTotals(booking.rateLines, booking.numberOfRooms);
+      const taxes = getTaxBreakdown(booking.rateLines, booking.numberOfRooms);
+      return [
+        booking.resId,
+        booking.guest.fullName,
+        hotels.find(h => h.id === booking.room.hotelId)?.name || '',
+        booking.room.type,
+        booking.guest.arrival,
+        booking.guest.departure,
+        booking.rateLines.length,
+        booking.status,
+        totals.charges,
+        ...taxCodes.map(code => roundMoney(taxes
+          .filter(tax => tax.code === code)
+          .reduce((sum, tax) => sum + tax.amount, 0))),
+        totals.tax,
+        totals.total,
+        booking.payment.remainingBalance || 0
+      ];
+    });
     
     const csvContent = [headers, ...csvData].map(row => row.join(',')).join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -293,12 +422,27 @@ export default function Reservations() {
             <div className="bg-gradient-to-r from-emerald-50 to-emerald-100 p-4 rounded-xl border border-emerald-200">
               <div className="text-2xl font-bold text-emerald-600">{stats.totalRevenue} SAR</div>
               <div className="text-sm text-emerald-700">{language === 'ar' ? 'إجمالي الإيرادات' : 'Total Revenue'}</div>
+              <div className="text-xs text-emerald-600 mt-1">
+                {language === 'ar' ? `الضرائب على الحجوزات: ${stats.totalTax} ريال` : `Tax on bookings: ${stats.totalTax} SAR`}
+              </div>
             </div>
             <div className="bg-gradient-to-r from-orange-50 to-orange-100 p-4 rounded-xl border border-orange-200">
               <div className="text-2xl font-bold text-orange-600">{stats.pendingPayments} SAR</div>
               <div className="text-sm text-orange-700">{language === 'ar' ? 'مدفوعات معلقة' : 'Pending Payments'}</div>
             </div>
           </div>
+
+          {/* Revenue by Payment Method */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            {stats.byMethod.map(({ method, amount }) => (
+              <div key={method} className="flex items-center justify-between bg-white/50 p-4 rounded-xl border border-gray-200/50">
+                <span className="text-sm text-gray-700">
+                  {language === 'ar' ? 'مدفوع' : 'Paid by'} {method.charAt(0).toUpperCase() + method.slice(1)}
+                </span>
+                <span className="text-lg font-semibold text-gray-900">{amount} SAR</span>
+              </div>
+            ))}
+          </div>
         </div>
         
         {/* Filters and Controls */}
@@ -323,12 +467,14 @@ export default function Reservations() {
                 {viewMode === 'table' ? '📋' : '📊'}
               </button>
               
-              <button
-                onClick={exportToCSV}
-                className="px-4 py-3 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-all duration-200"
-              >
-                {language === 'ar' ? 'تصدير' : 'Export'}
-              </button>
+              {canExport && (
+                <button
+                  onClick={exportToCSV}
+                  className="px-4 py-3 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-all duration-200"
+                >
+                  {language === 'ar' ? 'تصدير' : 'Export'}
+                </button>
+              )}
             </div>
           </div>
           
@@ -344,11 +490,11 @@ export default function Reservations() {
                 className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
               >
                 <option value="">{language === 'ar' ? 'جميع الحالات' : 'All Statuses'}</option>
-                <option value="pending">{language === 'ar' ? 'في الانتظار' : 'Pending'}</option>
-                <option value="confirmed">{language === 'ar' ? 'مؤكد' : 'Confirmed'}</option>
-                <option value="checked-in">{language === 'ar' ? 'تم تسجيل الدخول' : 'Checked-in'}</option>
-                <option value="checked-out">{language === 'ar' ? 'تم تسجيل الخروج' : 'Checked-out'}</option>
-                <option value="cancelled">{language === 'ar' ? 'ملغي' : 'Cancelled'}</option>
+                {BOOKING_STATUSES.map(status => (
+                  <option key={status} value={status}>
+                    {language === 'ar' ? BOOKING_STATUS_LABELS[status].ar : BOOKING_STATUS_LABELS[status].en}
+                  </option>
+                ))}
               </select>
             </div>
             
@@ -424,18 +570,42 @@ export default function Reservations() {
                 {selectedBookings.length} {language === 'ar' ? 'حجز محدد' : 'selected'}
               </span>
               <div className="flex gap-2">
-                <button
-                  onClick={() => handleBulkStatusChange('confirmed')}
-                  className="px-3 py-1 bg-green-500 text-white text-sm rounded-lg hover:bg-green-600 transition-colors"
-                >
-                  {language === 'ar' ? 'تأكيد' : 'Confirm'}
-                </button>
-                <button
-                  onClick={() => handleBulkStatusChange('cancelled')}
-                  className="px-3 py-1 bg-red-500 text-white text-sm rounded-lg hover:bg-red-600 transition-colors"
-                >
-                  {language === 'ar' ? 'إلغاء' : 'Cancel'}
-                </button>
+                {canEdit && (
+                  <>
+                    <button
+                      onClick={() => handleBulkStatusChange('confirmed')}
+                      className="px-3 py-1 bg-green-500 text-white text-sm rounded-lg hover:bg-green-600 transition-colors"
+                    >
+                      {language === 'ar' ? 'تأكيد' : 'Confirm'}
+                    </button>
+                    <button
+                      onClick={() => handleBulkStatusChange('no-show')}
+                      className="px-3 py-1 bg-orange-500 text-white text-sm rounded-lg hover:bg-orange-600 transition-colors"
+                    >
+                      {language === 'ar' ? 'لم يحضر' : 'No-show'}
+                    </button>
+                  </>
+                )}
+                {canCancel && (
+                  <>
+                    <select
+                      value={bulkCancelReason}
+                      onChange={(e) => setBulkCancelReason(e.target.value as CancellationReason | '')}
+                      className="px-3 py-1 bg-white/50 border border-gray-200/50 text-sm rounded-lg"
+                    >
+                      <option value="">{language === 'ar' ? 'سبب الإلغاء' : 'Cancellation reason'}</option>
+                      {CANCELLATION_REASONS.map(code => (
+                        <option key={code} value={code}>{CANCELLATION_REASON_LABELS[code][language === 'ar' ? 'ar' : 'en']}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleBulkCancel}
+                      className="px-3 py-1 bg-red-500 text-white text-sm rounded-lg hover:bg-red-600 transition-colors"
+                    >
+                      {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                    </button>
+                  </>
+                )}
                 <button
                   onClick={() => setSelectedBookings([])}
                   className="px-3 py-1 bg-gray-500 text-white text-sm rounded-lg hover:bg-gray-600 transition-colors"
@@ -564,36 +734,57 @@ export default function Reservations() {
                         <td className="px-4 py-3">
                           <div className="flex space-x-2">
                             <button 
-                              onClick={() => {
-                                // Add view functionality here
-                                console.log('View booking:', booking.id);
-                              }}
+                              onClick={() => setViewingBooking(booking)}
                               className="text-blue-600 hover:text-blue-800 text-sm font-medium"
                             >
                               {language === 'ar' ? 'عرض' : 'View'}
                             </button>
-                            <button 
-                              onClick={() => {
-                                // Edit reservation
-                                console.log('Edit reservation:', booking.id);
-                                alert(`Editing reservation ${booking.resId}`);
-                              }}
-                              className="text-green-600 hover:text-green-800 text-sm font-medium"
-                            >
-                              {language === 'ar' ? 'تعديل' : 'Edit'}
-                            </button>
-                            <button 
-                              onClick={() => {
-                                // Cancel reservation
-                                if (confirm(`Are you sure you want to cancel reservation ${booking.resId}?`)) {
-                                  console.log('Cancel reservation:', booking.id);
-                                  alert(`Reservation ${booking.resId} has been cancelled`);
-                                }
-                              }}
-                              className="text-red-600 hover:text-red-800 text-sm font-medium"
+                            <Link
+                              href={`/reservations/${booking.id}/folio`}
+                              className="text-purple-600 hover:text-purple-800 text-sm font-medium"
                             >
-                              {language === 'ar' ? 'إلغاء' : 'Cancel'}
-                            </button>
+                              {language === 'ar' ? 'الحساب' : 'Folio'}
+                            </Link>
+                            {canCheckIn && (booking.status === 'pending' || booking.status === 'confirmed') && (
+                              <Link
+                                href={`/reservations/${booking.id}/check-in`}
+                                className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                              >
+                                {language === 'ar' ? 'تسجيل الدخول' : 'Check In'}
+                              </Link>
+                            )}
+                            {booking.status === 'checked-in' && (
+                              <Link
+                                href={`/reservations/${booking.id}/registration`}
+                                className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                              >
+                                {language === 'ar' ? 'بطاقة التسجيل' : 'Reg. Card'}
+                              </Link>
+                            )}
+                            {canCheckOut && booking.status === 'checked-in' && (
+                              <Link
+                                href={`/reservations/${booking.id}/check-out`}
+                                className="text-orange-600 hover:text-orange-800 text-sm font-medium"
+                              >
+                                {language === 'ar' ? 'تسجيل الخروج' : 'Check Out'}
+                              </Link>
+                            )}
+                            {canEdit && AMENDABLE_STATUSES.includes(booking.status) && (
+                              <Link
+                                href={`/booking?edit=${booking.id}`}
+                                className="text-green-600 hover:text-green-800 text-sm font-medium"
+                              >
+                                {language === 'ar' ? 'تعديل' : 'Edit'}
+                              </Link>
+                            )}
+                            {canCancel && canChangeStatus(booking.status, 'cancelled') && (
+                              <button 
+                                onClick={() => setCancellingId(booking.id)}
+                                className="text-red-600 hover:text-red-800 text-sm font-medium"
+                              >
+                                {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                              </button>
+                            )}
                             <button 
                               onClick={() => {
                                 // Print reservation
@@ -641,24 +832,25 @@ export default function Reservations() {
                   
                   <div className="flex space-x-2">
                     <button 
-                      onClick={() => {
-                        // Add view functionality here
-                        console.log('View booking:', booking.id);
-                      }}
+                      onClick={() => setViewingBooking(booking)}
                       className="flex-1 px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors"
                     >
                       {language === 'ar' ? 'عرض' : 'View'}
                     </button>
-                    <button 
-                      onClick={() => {
-                        // Edit reservation
-                        console.log('Edit reservation:', booking.id);
-                        alert(`Editing reservation ${booking.resId}`);
-                      }}
-                      className="flex-1 px-3 py-2 bg-green-500 text-white text-sm rounded-lg hover:bg-green-600 transition-colors"
+                    <Link
+                      href={`/reservations/${booking.id}/folio`}
+                      className="flex-1 px-3 py-2 bg-purple-500 text-white text-sm text-center rounded-lg hover:bg-purple-600 transition-colors"
                     >
-                      {language === 'ar' ? 'تعديل' : 'Edit'}
-                    </button>
+                      {language === 'ar' ? 'الحساب' : 'Folio'}
+                    </Link>
+                    {canEdit && AMENDABLE_STATUSES.includes(booking.status) && (
+                      <Link
+                        href={`/booking?edit=${booking.id}`}
+                        className="flex-1 px-3 py-2 bg-green-500 text-white text-sm text-center rounded-lg hover:bg-green-600 transition-colors"
+                      >
+                        {language === 'ar' ? 'تعديل' : 'Edit'}
+                      </Link>
+                    )}
                   </div>
                 </div>
               ))}
@@ -714,6 +906,115 @@ export default function Reservations() {
           )}
         </div>
       </div>
+
+      {/* Cancel Reservation Dialog */}
+      {cancellingId && (
+        <CancelReservationDialog
+          bookingId={cancellingId}
+          language={language}
+          onCancelled={handleCancelled}
+          onClose={() => setCancellingId('')}
+        />
+      )}
+
+      {/* Reservation Details Modal */}
+      {viewingBooking && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white/90 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {language === 'ar' ? 'تفاصيل الحجز' : 'Reservation Details'} {viewingBooking.resId}
+              </h3>
+              <button
+                onClick={() => setViewingBooking(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-700 mb-6">
+              <div><span className="font-medium">{language === 'ar' ? 'النزيل' : 'Guest'}:</span> {viewingBooking.guest.fullName}</div>
+              <div><span className="font-medium">{language === 'ar' ? 'الفندق' : 'Hotel'}:</span> {hotels.find(h => h.id === viewingBooking.room.hotelId)?.name}</div>
+              <div><span className="font-medium">{language === 'ar' ? 'الغرفة' : 'Room'}:</span> {viewingBooking.room.type} ({viewingBooking.room.boardType})</div>
+              <div><span className="font-medium">{language === 'ar' ? 'عدد الغرف' : 'Rooms'}:</span> {viewingBooking.numberOfRooms}</div>
+              <div><span className="font-medium">{language === 'ar' ? 'التواريخ' : 'Dates'}:</span> {viewingBooking.guest.arrival} - {viewingBooking.guest.departure}</div>
+              <div><span className="font-medium">{language === 'ar' ? 'الليالي' : 'Nights'}:</span> {viewingBooking.nights}</div>
+              <div><span className="font-medium">{language === 'ar' ? 'الحالة' : 'Status'}:</span> {language === 'ar' ? BOOKING_STATUS_LABELS[viewingBooking.status].ar : BOOKING_STATUS_LABELS[viewingBooking.status].en}</div>
+              <div><span className="font-medium">{language === 'ar' ? 'الرصيد المتبقي' : 'Balance'}:</span> {viewingBooking.payment.remainingBalance || 0} SAR</div>
+              <div>
+                <span className="font-medium">{language === 'ar' ? 'المدفوع' : 'Paid'}:</span> {viewingBooking.payment.amount} SAR
+                {viewingBooking.payment.byMethod.length > 0 && (
+                  <span className="text-gray-500"> ({viewingBooking.payment.byMethod.map(total => `${total.method} ${total.amount}`).join(', ')})</span>
+                )}
+              </div>
+            </div>
+            <h4 className="font-semibold text-gray-800 mb-2">
+              {language === 'ar' ? 'سجل الحالة' : 'Status Timeline'}
+            </h4>
+            <ol className="relative border-l-2 border-gray-200 ml-2 mb-6 space-y-3 text-sm">
+              {statusHistory.map(change => (
+                <li key={change.id} className="ml-4">
+                  <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border ${getStatusColor(change.toStatus)}`}></span>
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span className="font-medium text-gray-900">
+                      {change.event === 'amendment'
+                        ? (language === 'ar' ? 'عُدّل ' : 'Amended ')
+                        : change.fromStatus
+                          ? `${BOOKING_STATUS_LABELS[change.fromStatus][language === 'ar' ? 'ar' : 'en']} → `
+                          : (language === 'ar' ? 'أنشئ ' : 'Created ')}
+                      {BOOKING_STATUS_LABELS[change.toStatus][language === 'ar' ? 'ar' : 'en']}
+                    </span>
+                    <span className="text-gray-500">
+                      {new Date(change.createdAt).toLocaleString('en-GB')}
+                      {change.changedBy && ` · ${change.changedBy}`}
+                    </span>
+                  </div>
+                  {change.reason && <div className="text-gray-600">{change.reason}</div>}
+                </li>
+              ))}
+            </ol>
+            <h4 className="font-semibold text-gray-800 mb-2">
+              {language === 'ar' ? 'تفصيل الأسعار لكل ليلة' : 'Night-by-Night Rates'}
+            </h4>
+            <RateLinesTable lines={viewingBooking.rateLines} numberOfRooms={viewingBooking.numberOfRooms} language={language} />
+            <div className="flex items-center justify-between mt-6 mb-2">
+              <h4 className="font-semibold text-gray-800">
+                {language === 'ar' ? 'الفواتير' : 'Invoices'}
+              </h4>
+              {/* A stay is invoiced once its charges are final; a fully credited invoice can be reissued */}
+              {canInvoice && INVOICEABLE_STATUSES.includes(viewingBooking.status)
+                && !bookingInvoices.some(invoice => invoice.type === 'invoice' && invoice.credited < invoice.total) && (
+                <button
+                  onClick={() => handleIssueInvoice(viewingBooking)}
+                  disabled={isInvoicing}
+                  className="px-3 py-1 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                  {language === 'ar' ? 'إصدار فاتورة' : 'Issue Invoice'}
+                </button>
+              )}
+            </div>
+            {bookingInvoices.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {language === 'ar' ? 'لم تصدر فواتير لهذا الحجز' : 'No invoices issued for this reservation'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200/50 text-sm">
+                {bookingInvoices.map(invoice => (
+                  <li key={invoice.id} className="flex items-center justify-between py-2">
+                    <Link href={`/invoices/${invoice.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                      {invoice.number}
+                    </Link>
+                    <span className="text-gray-600">{INVOICE_TYPE_LABELS[invoice.type][language === 'ar' ? 'ar' : 'en']}</span>
+                    <span className="text-gray-900">{invoice.type === 'credit-note' ? '-' : ''}{invoice.total.toFixed(2)} SAR</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
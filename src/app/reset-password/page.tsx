@@ -0,0 +1,171 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+export default function ResetPasswordPage() {
+  const [language, setLanguage] = useState('en');
+  // undefined until the query string has been read, null when the link carries no token
+  const [token, setToken] = useState<string | null | undefined>(undefined);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the token on the client so the page needs no Suspense boundary for useSearchParams
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token'));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password.length < 8) {
+      setError(language === 'ar' ? 'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل' : 'Password must be at least 8 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(language === 'ar' ? 'كلمتا المرور غير متطابقتين' : 'Passwords do not match');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.code === 'INVALID_RESET_TOKEN'
+          ? (language === 'ar' ? 'رابط إعادة التعيين غير صالح أو منتهي الصلاحية' : 'This reset link is invalid or has expired')
+          : (language === 'ar' ? 'تعذر تحديث كلمة المرور، حاول مرة أخرى' : 'Unable to update the password, please try again'));
+        return;
+      }
+      setDone(true);
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      setError(language === 'ar' ? 'تعذر تحديث كلمة المرور، حاول مرة أخرى' : 'Unable to update the password, please try again');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 w-full max-w-md">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-6">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <div className="w-16 h-16 mx-auto bg-gradient-to-br from-apple-blue to-apple-purple rounded-2xl flex items-center justify-center shadow-lg">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            </div>
+            <h1 className="text-2xl font-semibold text-gray-900">
+              {language === 'ar' ? 'تعيين كلمة مرور جديدة' : 'Set a New Password'}
+            </h1>
+          </div>
+
+          {done ? (
+            <div className="px-4 py-3 bg-green-50/80 border border-green-200/50 rounded-xl text-sm text-green-800">
+              {language === 'ar'
+                ? 'تم تحديث كلمة المرور. تم تسجيل خروجك من جميع الأجهزة، يمكنك الآن تسجيل الدخول بكلمة المرور الجديدة.'
+                : 'Your password has been updated and all devices were signed out. You can now log in with the new password.'}
+            </div>
+          ) : token === null || token === '' ? (
+            <div className="px-4 py-3 bg-red-50/80 border border-red-200/50 rounded-xl text-sm text-red-700">
+              {language === 'ar' ? 'رابط إعادة التعيين غير صالح' : 'This reset link is invalid'}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="px-4 py-3 bg-red-50/80 border border-red-200/50 rounded-xl text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'كلمة المرور الجديدة' : 'New Password'}
+                </label>
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                  placeholder={language === 'ar' ? '8 أحرف على الأقل' : 'At least 8 characters'}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {language === 'ar' ? 'تأكيد كلمة المرور' : 'Confirm Password'}
+                </label>
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-apple-blue focus:border-transparent transition-all duration-200 backdrop-blur-sm placeholder-gray-400"
+                  placeholder={language === 'ar' ? 'أعد إدخال كلمة المرور' : 'Re-enter the password'}
+                  required
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    id="show-password"
+                    type="checkbox"
+                    checked={showPassword}
+                    onChange={(e) => setShowPassword(e.target.checked)}
+                    className="h-4 w-4 text-apple-blue focus:ring-apple-blue border-gray-300 rounded"
+                  />
+                  <label htmlFor="show-password" className="ml-2 block text-sm text-gray-700">
+                    {language === 'ar' ? 'إظهار كلمة المرور' : 'show password'}
+                  </label>
+                </div>
+                <select
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  className="px-3 py-1 bg-white/50 border border-gray-200/50 rounded-lg text-sm cursor-pointer"
+                >
+                  <option value="en">English</option>
+                  <option value="ar">العربية</option>
+                </select>
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting || !token}
+                className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-3 px-4 rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-200 focus:ring-2 focus:ring-green-600 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+              >
+                {submitting
+                  ? (language === 'ar' ? 'جارٍ الحفظ...' : 'Saving...')
+                  : (language === 'ar' ? 'تحديث كلمة المرور' : 'Update password')}
+              </button>
+            </form>
+          )}
+
+          <div className="text-center">
+            <Link href="/" className="text-sm text-apple-blue hover:text-apple-blue-dark transition-colors font-medium">
+              {language === 'ar' ? 'العودة إلى تسجيل الدخول' : 'Back to login'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { useCan } from '@/components/SessionProvider';
+import { FOLIO_ENTRY_TYPE_LABELS, shiftReportSchema, type ShiftDrawer, type ShiftReport } from '@/lib/domain';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm';
+
+interface ShiftPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const formatAmount = (value: number | null) => value === null ? '-' : value.toFixed(2);
+
+const DrawerSummary = ({ title, drawer, float }: { title: string; drawer: ShiftDrawer; float?: number }) => (
+  <div className="space-y-2">
+    <h2 className="font-semibold text-gray-900">{title}</h2>
+    {float !== undefined && (
+      <div className="flex justify-between gap-4"><span>Opening float</span><span>{formatAmount(float)}</span></div>
+    )}
+    <div className="flex justify-between gap-4"><span>Payments</span><span>{formatAmount(drawer.payments)}</span></div>
+    <div className="flex justify-between gap-4"><span>Refunds</span><span>-{formatAmount(drawer.refunds)}</span></div>
+    <div className="flex justify-between gap-4 border-t border-gray-200 pt-2 font-semibold text-gray-900">
+      <span>Expected</span><span>{formatAmount(drawer.expected)}</span>
+    </div>
+    <div className="flex justify-between gap-4"><span>Counted</span><span>{formatAmount(drawer.counted)}</span></div>
+    <div className={`flex justify-between gap-4 font-bold ${drawer.variance ? 'text-red-700' : 'text-gray-900'}`}>
+      <span>Over / (short)</span><span>{formatAmount(drawer.variance)}</span>
+    </div>
+  </div>
+);
+
+export default function ShiftDetails({ params }: ShiftPageProps) {
+  const { id } = use(params);
+  const canReview = useCan('shifts:review');
+  const [shift, setShift] = useState<ShiftReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [closeForm, setCloseForm] = useState({ countedCash: '', countedCard: '', notes: '' });
+  const [closeError, setCloseError] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+
+  useEffect(() => {
+    const fetchShift = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/shifts/${id}`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load shift');
+        }
+        setShift(shiftReportSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching shift:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load shift');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchShift();
+  }, [id]);
+
+  // Lets an accountant close a shift the cashier left open, once the drawer has been counted
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shift) return;
+    if (!confirm(`Close ${shift.cashier}'s shift? This cannot be undone.`)) return;
+
+    try {
+      setIsClosing(true);
+      setCloseError('');
+      const response = await fetch(`/api/shifts/${shift.id}/close`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          countedCash: parseFloat(closeForm.countedCash) || 0,
+          countedCard: parseFloat(closeForm.countedCard) || 0,
+          notes: closeForm.notes || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to close shift');
+      }
+      setShift(shiftReportSchema.parse(data));
+    } catch (error) {
+      console.error('Error closing shift:', error);
+      setCloseError(error instanceof Error ? error.message : 'Failed to close shift');
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!shift) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+          {error || 'Shift not found'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 print:p-0 print:bg-white">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Actions */}
+        <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+          <Link href="/shifts" className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+            ← Back to shifts
+          </Link>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
+          >
+            Print / PDF
+          </button>
+        </div>
+
+        {/* Printable reconciliation */}
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-lg p-8 print:border-0 print:shadow-none print:rounded-none text-sm text-gray-800">
+          <div className="border-b border-gray-200 pb-6 mb-6 space-y-1">
+            <h1 className="text-2xl font-bold text-gray-900">Shift Reconciliation</h1>
+            <div>Cashier: {shift.cashier}</div>
+            <div>Opened: {new Date(shift.openedAt).toLocaleString('en-GB')}</div>
+            <div>
+              Closed: {shift.closedAt ? new Date(shift.closedAt).toLocaleString('en-GB') : 'Still open — expected amounts are as of now'}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6 mb-6">
+            <DrawerSummary title="Cash Drawer" drawer={shift.cash} float={shift.openingFloat} />
+            <DrawerSummary title="Card Terminal" drawer={shift.card} />
+          </div>
+
+          {shift.notes && (
+            <div className="mb-6 px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl">
+              <div className="text-gray-600">Notes</div>
+              <div className="mt-1 text-gray-900">{shift.notes}</div>
+            </div>
+          )}
+
+          <table className="w-full">
+            <thead className="bg-gray-50 text-xs text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">Time</th>
+                <th className="px-3 py-2 text-left">Reservation</th>
+                <th className="px-3 py-2 text-left">Guest</th>
+                <th className="px-3 py-2 text-left">Type</th>
+                <th className="px-3 py-2 text-left">Method</th>
+                <th className="px-3 py-2 text-left">Reference</th>
+                <th className="px-3 py-2 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {shift.transactions.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-3 py-6 text-center text-gray-500">No transactions on this shift</td>
+                </tr>
+              ) : (
+                shift.transactions.map(transaction => (
+                  <tr key={transaction.id}>
+                    <td className="px-3 py-2 text-gray-500">{new Date(transaction.createdAt).toLocaleTimeString('en-GB')}</td>
+                    <td className="px-3 py-2">
+                      <Link href={`/reservations/${transaction.bookingId}/folio`} className="text-blue-600 hover:text-blue-800 print:text-gray-800">
+                        {transaction.resId}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">{transaction.guestName}</td>
+                    <td className="px-3 py-2">{FOLIO_ENTRY_TYPE_LABELS[transaction.type].en}</td>
+                    <td className="px-3 py-2">
+                      {transaction.method && transaction.method.charAt(0).toUpperCase() + transaction.method.slice(1)}
+                    </td>
+                    <td className="px-3 py-2 text-gray-500">{transaction.reference || '-'}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${transaction.type === 'refund' ? 'text-red-700' : ''}`}>
+                      {transaction.type === 'refund' ? '-' : ''}{formatAmount(transaction.amount)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Close on the cashier's behalf */}
+        {canReview && shift.status === 'open' && (
+          <form onSubmit={handleClose} className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-4 print:hidden">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Close Shift</h3>
+              <p className="text-sm text-gray-600">Enter the drawer count and the card terminal settlement total.</p>
+            </div>
+            {closeError && (
+              <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                {closeError}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Counted Cash</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={closeForm.countedCash}
+                  onChange={(e) => setCloseForm({ ...closeForm, countedCash: e.target.value })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Card Terminal Total</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={closeForm.countedCard}
+                  onChange={(e) => setCloseForm({ ...closeForm, countedCard: e.target.value })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Notes</label>
+                <input
+                  type="text"
+                  value={closeForm.notes}
+                  onChange={(e) => setCloseForm({ ...closeForm, notes: e.target.value })}
+                  placeholder="e.g. Closed by accountant"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={isClosing}
+              className="px-6 py-3 bg-red-600 text-white rounded-xl font-semibold hover:bg-red-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              {isClosing ? 'Closing...' : 'Close Shift'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useCan } from '@/components/SessionProvider';
+import {
+  shiftListSchema,
+  shiftReportSchema,
+  shiftSchema,
+  type Shift,
+  type ShiftDrawer,
+  type ShiftReport,
+} from '@/lib/domain';
+import { roundMoney } from '@/lib/pricing';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm';
+
+const emptyCloseForm = { countedCash: '', countedCard: '', notes: '' };
+
+const getVarianceColor = (variance: number | null) => {
+  if (variance === null || variance === 0) return 'text-gray-700';
+  return variance < 0 ? 'text-red-600' : 'text-orange-600';
+};
+
+const formatDrawer = (drawer: ShiftDrawer) =>
+  `${drawer.expected.toFixed(2)} / ${drawer.counted === null ? '-' : drawer.counted.toFixed(2)}`;
+
+export default function Shifts() {
+  const canReview = useCan('shifts:review');
+  const [language] = useState('en');
+  const [current, setCurrent] = useState<ShiftReport | null>(null);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [closeForm, setCloseForm] = useState(emptyCloseForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Fetch data on component mount
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [currentResponse, shiftsResponse] = await Promise.all([
+          fetch('/api/shifts/current'),
+          fetch('/api/shifts'),
+        ]);
+        if (!currentResponse.ok || !shiftsResponse.ok) {
+          throw new Error('Failed to load shifts');
+        }
+        setCurrent(shiftReportSchema.nullable().parse(await currentResponse.json()));
+        setShifts(shiftListSchema.parse(await shiftsResponse.json()));
+      } catch (error) {
+        console.error('Error fetching shifts:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError('');
+      const response = await fetch('/api/shifts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ openingFloat: parseFloat(openingFloat) || 0 }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to open shift');
+      }
+      const shift = shiftSchema.parse(body);
+      setCurrent({ ...shift, transactions: [] });
+      setShifts([shift, ...shifts]);
+      setOpeningFloat('');
+    } catch (error) {
+      console.error('Error opening shift:', error);
+      setError(error instanceof Error ? error.message : 'Failed to open shift');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    if (!confirm(language === 'ar' ? 'إغلاق الوردية؟ لا يمكن التراجع عن ذلك.' : 'Close this shift? This cannot be undone.')) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await fetch(`/api/shifts/${current.id}/close`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          countedCash: parseFloat(closeForm.countedCash) || 0,
+          countedCard: parseFloat(closeForm.countedCard) || 0,
+          notes: closeForm.notes || undefined,
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to close shift');
+      }
+      const shift = shiftSchema.parse(body);
+      setShifts(shifts.map(item => item.id === shift.id ? shift : item));
+      setCurrent(null);
+      setCloseForm(emptyCloseForm);
+    } catch (error) {
+      console.error('Error closing shift:', error);
+      setError(error instanceof Error ? error.message : 'Failed to close shift');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // What the count entered so far would leave the drawers over or short by
+  const cashVariance = current && closeForm.countedCash !== ''
+    ? roundMoney((parseFloat(closeForm.countedCash) || 0) - current.cash.expected)
+    : null;
+  const cardVariance = current && closeForm.countedCard !== ''
+    ? roundMoney((parseFloat(closeForm.countedCard) || 0) - current.card.expected)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            {/* Current shift */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8 space-y-6">
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+                  {language === 'ar' ? 'وردية الصندوق' : 'Cashier Shift'}
+                </h2>
+                <p className="text-gray-600">
+                  {language === 'ar'
+                    ? 'تُسجل المدفوعات النقدية ومدفوعات البطاقات على ورديتك المفتوحة'
+                    : 'Cash and card payments you take are recorded on your open shift'}
+                </p>
+              </div>
+
+              {loadFailed && (
+                <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                  {language === 'ar' ? 'تعذر تحميل الورديات' : 'Failed to load shifts'}
+                </div>
+              )}
+
+              {error && (
+                <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+
+              {!current ? (
+                <form onSubmit={handleOpen} className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {language === 'ar' ? 'الرصيد الافتتاحي للصندوق' : 'Opening Float'}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={openingFloat}
+                      onChange={(e) => setOpeningFloat(e.target.value)}
+                      placeholder="0.00"
+                      className={inputClassName}
+                      required
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-6 py-3 bg-gradient-to-r from-green-600 to-green-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving
+                      ? (language === 'ar' ? 'جاري الفتح...' : 'Opening...')
+                      : (language === 'ar' ? 'فتح الوردية' : 'Open Shift')}
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="p-4 bg-white/50 border border-white/30 rounded-xl">
+                      <div className="text-sm text-gray-600">{language === 'ar' ? 'بدأت' : 'Opened'}</div>
+                      <div className="text-lg font-semibold text-gray-900">{new Date(current.openedAt).toLocaleString('en-GB')}</div>
+                    </div>
+                    <div className="p-4 bg-white/50 border border-white/30 rounded-xl">
+                      <div className="text-sm text-gray-600">{language === 'ar' ? 'الرصيد الافتتاحي' : 'Opening float'}</div>
+                      <div className="text-lg font-semibold text-gray-900">{current.openingFloat.toFixed(2)} SAR</div>
+                    </div>
+                    <div className="p-4 bg-green-50/60 border border-green-200/50 rounded-xl">
+                      <div className="text-sm text-green-700">{language === 'ar' ? 'النقد المتوقع في الصندوق' : 'Cash expected in drawer'}</div>
+                      <div className="text-lg font-semibold text-green-800">{current.cash.expected.toFixed(2)} SAR</div>
+                    </div>
+                    <div className="p-4 bg-blue-50/60 border border-blue-200/50 rounded-xl">
+                      <div className="text-sm text-blue-700">{language === 'ar' ? 'البطاقات المتوقعة' : 'Card expected'}</div>
+                      <div className="text-lg font-semibold text-blue-800">{current.card.expected.toFixed(2)} SAR</div>
+                    </div>
+                  </div>
+
+                  <div className="text-sm text-gray-600">
+                    {language === 'ar'
+                      ? `${current.transactionCount} معاملة على هذه الوردية`
+                      : `${current.transactionCount} transactions on this shift`}
+                    {' · '}
+                    <Link href={`/shifts/${current.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                      {language === 'ar' ? 'عرض التقرير' : 'View report'}
+                    </Link>
+                  </div>
+
+                  <form onSubmit={handleClose} className="space-y-4 pt-4 border-t border-gray-200/50">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {language === 'ar' ? 'إغلاق الوردية' : 'Close Shift'}
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          {language === 'ar' ? 'النقد المعدود' : 'Counted Cash'}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={closeForm.countedCash}
+                          onChange={(e) => setCloseForm({ ...closeForm, countedCash: e.target.value })}
+                          className={inputClassName}
+                          required
+                        />
+                        {cashVariance !== null && (
+                          <div className={`text-xs ${getVarianceColor(cashVariance)}`}>
+                            {language === 'ar' ? 'الفرق' : 'Variance'}: {cashVariance.toFixed(2)} SAR
+                          </div>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          {language === 'ar' ? 'إجمالي جهاز البطاقات' : 'Card Terminal Total'}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={closeForm.countedCard}
+                          onChange={(e) => setCloseForm({ ...closeForm, countedCard: e.target.value })}
+                          className={inputClassName}
+                          required
+                        />
+                        {cardVariance !== null && (
+                          <div className={`text-xs ${getVarianceColor(cardVariance)}`}>
+                            {language === 'ar' ? 'الفرق' : 'Variance'}: {cardVariance.toFixed(2)} SAR
+                          </div>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          {language === 'ar' ? 'ملاحظات' : 'Notes'}
+                        </label>
+                        <input
+                          type="text"
+                          value={closeForm.notes}
+                          onChange={(e) => setCloseForm({ ...closeForm, notes: e.target.value })}
+                          placeholder={language === 'ar' ? 'مثال: سبب الفرق' : 'e.g. Reason for a variance'}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={saving}
+                      className="px-6 py-3 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {saving
+                        ? (language === 'ar' ? 'جاري الإغلاق...' : 'Closing...')
+                        : (language === 'ar' ? 'إغلاق الوردية' : 'Close Shift')}
+                    </button>
+                  </form>
+                </>
+              )}
+            </div>
+
+            {/* Shift history */}
+            <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+              <h3 className="text-lg font-semibold text-gray-900 mb-6">
+                {canReview
+                  ? (language === 'ar' ? 'سجل الورديات' : 'Shift History')
+                  : (language === 'ar' ? 'وردياتي' : 'My Shifts')}
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full bg-white/50 backdrop-blur-sm rounded-xl border border-white/30">
+                  <thead className="bg-gradient-to-r from-gray-50/80 to-gray-100/80">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'أمين الصندوق' : 'Cashier'}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'الفترة' : 'Period'}</th>
+                      <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'الرصيد الافتتاحي' : 'Float'}</th>
+                      <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'النقد متوقع / معدود' : 'Cash Expected / Counted'}</th>
+                      <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'البطاقات متوقع / معدود' : 'Card Expected / Counted'}</th>
+                      <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">{language === 'ar' ? 'الفرق' : 'Variance'}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">{language === 'ar' ? 'التقرير' : 'Report'}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200/50">
+                    {shifts.length === 0 ? (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                          {language === 'ar' ? 'لا توجد ورديات' : 'No shifts yet'}
+                        </td>
+                      </tr>
+                    ) : (
+                      shifts.map(shift => {
+                        const variance = shift.cash.variance === null || shift.card.variance === null
+                          ? null
+                          : roundMoney(shift.cash.variance + shift.card.variance);
+                        return (
+                          <tr key={shift.id} className="hover:bg-white/30 transition-all duration-200">
+                            <td className="px-4 py-3 text-sm font-medium text-gray-900">{shift.cashier}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">
+                              <div>{new Date(shift.openedAt).toLocaleString('en-GB')}</div>
+                              <div className="text-xs text-gray-500">
+                                {shift.closedAt
+                                  ? `→ ${new Date(shift.closedAt).toLocaleString('en-GB')}`
+                                  : (language === 'ar' ? 'مفتوحة' : 'Open')}
+                              </div>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-700 text-right">{shift.openingFloat.toFixed(2)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700 text-right">{formatDrawer(shift.cash)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700 text-right">{formatDrawer(shift.card)}</td>
+                            <td className={`px-4 py-3 text-sm font-medium text-right ${getVarianceColor(variance)}`}>
+                              {variance === null ? '-' : variance.toFixed(2)}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <Link href={`/shifts/${shift.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                                {language === 'ar' ? 'عرض' : 'View'}
+                              </Link>
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
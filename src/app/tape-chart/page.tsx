@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useCan } from '@/components/SessionProvider';
+import { addDays, formatDateOnly, parseDateOnly } from '@/lib/dates';
+import {
+  BOOKING_STATUS_LABELS,
+  hotelListSchema,
+  tapeChartSchema,
+  type BookingStatus,
+  type Hotel,
+  type TapeChart as TapeChartData,
+  type TapeChartBar,
+  type TapeChartRoomType,
+  type TapeChartRow,
+} from '@/lib/domain';
+
+const DAY_OPTIONS = [7, 14, 30];
+const LABEL_WIDTH = 140;
+const CELL_WIDTH = 56;
+
+const getBarColor = (status: BookingStatus) => {
+  switch (status) {
+    case 'pending': return 'bg-yellow-400/90 text-yellow-950';
+    case 'confirmed': return 'bg-green-500/90 text-white';
+    case 'checked-in': return 'bg-blue-500/90 text-white';
+    case 'checked-out': return 'bg-purple-400/90 text-white';
+    default: return 'bg-gray-400/90 text-white';
+  }
+};
+
+const shiftDate = (date: string, days: number) => formatDateOnly(addDays(parseDateOnly(date), days));
+
+export default function TapeChart() {
+  const router = useRouter();
+  const canBook = useCan('reservations:write');
+  const [language] = useState('en');
+  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [hotelId, setHotelId] = useState('');
+  const [from, setFrom] = useState(() => formatDateOnly(new Date()));
+  const [days, setDays] = useState(14);
+  const [chart, setChart] = useState<TapeChartData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Fetch hotels on component mount
+  useEffect(() => {
+    const fetchHotels = async () => {
+      try {
+        const response = await fetch('/api/hotels');
+        if (!response.ok) {
+          throw new Error('Failed to load hotels');
+        }
+        const data = hotelListSchema.parse(await response.json());
+        setHotels(data);
+        if (data.length > 0) {
+          setHotelId(data[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (error) {
+        console.error('Error fetching hotels:', error);
+        setError('Failed to load hotels');
+        setLoading(false);
+      }
+    };
+
+    fetchHotels();
+  }, []);
+
+  // Fetch the chart whenever the hotel or the window changes
+  useEffect(() => {
+    if (!hotelId) return;
+
+    const fetchChart = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const params = new URLSearchParams({ hotelId, from, days: String(days) });
+        const response = await fetch(`/api/tape-chart?${params}`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load tape chart');
+        }
+        setChart(tapeChartSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching tape chart:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load tape chart');
+        setChart(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchChart();
+  }, [hotelId, from, days]);
+
+  const isOccupied = (row: TapeChartRow, index: number) =>
+    row.bars.some(bar => bar.startIndex <= index && index < bar.endIndex);
+
+  // Start a one-night booking on an empty cell; the booking screen lets staff extend the stay
+  const handleCellClick = (roomType: TapeChartRoomType, row: TapeChartRow, date: string) => {
+    const params = new URLSearchParams({
+      hotelId,
+      roomTypeId: roomType.id,
+      arrival: date,
+      departure: shiftDate(date, 1),
+    });
+    if (row.roomId) {
+      params.set('roomNo', row.label);
+    }
+    router.push(`/booking?${params}`);
+  };
+
+  const formatDayLabel = (date: string) => {
+    const day = parseDateOnly(date);
+    return {
+      weekday: day.toLocaleDateString(language === 'ar' ? 'ar' : 'en', { weekday: 'short', timeZone: 'UTC' }),
+      day: day.getUTCDate(),
+    };
+  };
+
+  const renderBar = (bar: TapeChartBar, rowIndex: number) => {
+    // Arrivals start half way through their first night and departures end half way through the last
+    const left = (bar.startIndex + (bar.startsBefore ? 0 : 0.5)) * CELL_WIDTH;
+    const right = (bar.endIndex + (bar.endsAfter ? 0 : 0.5)) * CELL_WIDTH;
+
+    return (
+      <div
+        key={`${bar.bookingId}-${rowIndex}-${bar.startIndex}`}
+        title={`${bar.guestName} · ${bar.resId}\n${bar.checkIn} → ${bar.checkOut}`}
+        className={`absolute top-1.5 bottom-1.5 px-2 flex items-center text-xs font-medium truncate shadow-sm pointer-events-auto ${getBarColor(bar.status)} ${bar.startsBefore ? 'rounded-l-none' : 'rounded-l-lg'} ${bar.endsAfter ? 'rounded-r-none' : 'rounded-r-lg'}`}
+        style={{ left: LABEL_WIDTH + left, width: Math.max(right - left - 2, 8) }}
+      >
+        {bar.guestName}
+      </div>
+    );
+  };
+
+  const gridWidth = LABEL_WIDTH + (chart ? chart.dates.length : 0) * CELL_WIDTH;
+  const today = formatDateOnly(new Date());
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6 relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-gradient-to-br from-apple-blue/20 to-apple-purple/20 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-gradient-to-tr from-apple-green/20 to-apple-teal/20 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="relative z-10 max-w-7xl mx-auto space-y-8">
+        <div className="backdrop-blur-xl bg-white/70 border border-white/20 rounded-3xl shadow-2xl p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+              {language === 'ar' ? 'مخطط الإشغال' : 'Tape Chart'}
+            </h2>
+            <p className="text-gray-600">
+              {language === 'ar'
+                ? 'إشغال الغرف يوماً بيوم لكل فندق'
+                : 'Room occupancy night by night for each hotel'}
+            </p>
+          </div>
+
+          {/* Controls */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'الفندق' : 'Hotel'}
+              </label>
+              <select
+                value={hotelId}
+                onChange={(e) => setHotelId(e.target.value)}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              >
+                {hotels.map(hotel => (
+                  <option key={hotel.id} value={hotel.id}>{hotel.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'من تاريخ' : 'From'}
+              </label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => e.target.value && setFrom(e.target.value)}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'عدد الأيام' : 'Days'}
+              </label>
+              <select
+                value={days}
+                onChange={(e) => setDays(parseInt(e.target.value))}
+                className="w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm"
+              >
+                {DAY_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-end space-x-2">
+              <button
+                onClick={() => setFrom(shiftDate(from, -days))}
+                className="flex-1 px-4 py-3 bg-white/70 border border-gray-200/50 rounded-xl text-gray-700 font-medium hover:bg-white transition-all duration-200"
+              >
+                {language === 'ar' ? 'السابق' : '← Prev'}
+              </button>
+              <button
+                onClick={() => setFrom(today)}
+                className="flex-1 px-4 py-3 bg-white/70 border border-gray-200/50 rounded-xl text-gray-700 font-medium hover:bg-white transition-all duration-200"
+              >
+                {language === 'ar' ? 'اليوم' : 'Today'}
+              </button>
+              <button
+                onClick={() => setFrom(shiftDate(from, days))}
+                className="flex-1 px-4 py-3 bg-white/70 border border-gray-200/50 rounded-xl text-gray-700 font-medium hover:bg-white transition-all duration-200"
+              >
+                {language === 'ar' ? 'التالي' : 'Next →'}
+              </button>
+            </div>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap items-center gap-4 mb-6 text-sm text-gray-600">
+            {(['pending', 'confirmed', 'checked-in', 'checked-out'] as BookingStatus[]).map(status => (
+              <div key={status} className="flex items-center space-x-2">
+                <span className={`inline-block w-4 h-4 rounded ${getBarColor(status)}`}></span>
+                <span>{BOOKING_STATUS_LABELS[status][language === 'ar' ? 'ar' : 'en']}</span>
+              </div>
+            ))}
+            <div className="flex items-center space-x-2">
+              <span className="inline-block w-4 h-4 rounded bg-gray-200"></span>
+              <span>{language === 'ar' ? 'صيانة' : 'Maintenance'}</span>
+            </div>
+            {canBook && (
+              <span className="text-gray-500">
+                {language === 'ar' ? 'انقر على خانة فارغة لبدء حجز' : 'Click an empty cell to start a booking'}
+              </span>
+            )}
+          </div>
+
+          {error && (
+            <div className="mb-6 px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex items-center justify-center space-x-4 py-12">
+              <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+              <span className="text-lg font-medium text-gray-700">
+                {language === 'ar' ? 'جاري تحميل المخطط...' : 'Loading tape chart...'}
+              </span>
+            </div>
+          )}
+
+          {!loading && !error && hotels.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              {language === 'ar' ? 'لا توجد فنادق' : 'No hotels found'}
+            </div>
+          )}
+
+          {!loading && chart && (
+            <div className="overflow-x-auto bg-white/50 border border-gray-200/50 rounded-2xl">
+              <div style={{ width: gridWidth }}>
+                {/* Date header */}
+                <div className="flex border-b border-gray-200/50 sticky top-0 bg-white/80">
+                  <div className="shrink-0 px-3 py-2 text-sm font-semibold text-gray-700" style={{ width: LABEL_WIDTH }}>
+                    {language === 'ar' ? 'الغرفة' : 'Room'}
+                  </div>
+                  {chart.dates.map(date => {
+                    const label = formatDayLabel(date);
+                    return (
+                      <div
+                        key={date}
+                        className={`shrink-0 py-2 text-center text-xs border-l border-gray-100 ${date === today ? 'bg-blue-50 text-blue-700 font-semibold' : 'text-gray-600'}`}
+                        style={{ width: CELL_WIDTH }}
+                      >
+                        <div>{label.weekday}</div>
+                        <div className="text-sm font-medium">{label.day}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {chart.roomTypes.length === 0 && (
+                  <div className="text-center py-12 text-gray-500">
+                    {language === 'ar' ? 'لا توجد أنواع غرف لهذا الفندق' : 'No room types for this hotel'}
+                  </div>
+                )}
+
+                {chart.roomTypes.map(roomType => (
+                  <div key={roomType.id}>
+                    {/* Room type summary: rooms left per night */}
+                    <div className="flex bg-gray-50/80 border-b border-gray-200/50">
+                      <div className="shrink-0 px-3 py-2 text-sm font-semibold text-gray-900 truncate" style={{ width: LABEL_WIDTH }}>
+                        {roomType.name}
+                      </div>
+                      {roomType.sold.map((sold, index) => {
+                        const left = roomType.quantity - sold;
+                        return (
+                          <div
+                            key={chart.dates[index]}
+                            title={`${sold} / ${roomType.quantity}`}
+                            className={`shrink-0 py-2 text-center text-xs font-medium border-l border-gray-100 ${left <= 0 ? 'text-red-600' : 'text-gray-600'}`}
+                            style={{ width: CELL_WIDTH }}
+                          >
+                            {left}
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {roomType.rows.length === 0 && (
+                      <div className="px-3 py-2 text-xs text-gray-500 border-b border-gray-100">
+                        {language === 'ar' ? 'لم تتم إضافة أرقام الغرف' : 'No numbered rooms yet'}
+                      </div>
+                    )}
+
+                    {roomType.rows.map((row, rowIndex) => (
+                      <div key={row.roomId ?? `unassigned-${rowIndex}`} className="relative flex h-10 border-b border-gray-100">
+                        <div
+                          className={`shrink-0 px-3 flex items-center text-sm ${row.roomId ? 'text-gray-800' : 'text-gray-500 italic'}`}
+                          style={{ width: LABEL_WIDTH }}
+                        >
+                          {row.roomId ? row.label : (language === 'ar' ? 'غير مخصص' : row.label)}
+                        </div>
+                        {chart.dates.map((date, index) => {
+                          const blocked = row.status === 'maintenance';
+                          const clickable = canBook && !blocked && !isOccupied(row, index);
+                          return (
+                            <div
+                              key={date}
+                              onClick={() => clickable && handleCellClick(roomType, row, date)}
+                              className={`shrink-0 border-l border-gray-100 ${blocked ? 'bg-gray-200' : date === today ? 'bg-blue-50/50' : ''} ${clickable ? 'cursor-pointer hover:bg-blue-100/60' : ''}`}
+                              style={{ width: CELL_WIDTH }}
+                            ></div>
+                          );
+                        })}
+                        <div className="absolute inset-0 pointer-events-none">
+                          {row.bars.map(bar => renderBar(bar, rowIndex))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
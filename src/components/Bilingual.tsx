@@ -0,0 +1,9 @@
+// A label printed in both languages on documents handed to guests, as ZATCA expects on invoices issued in the Kingdom
+const Bilingual = ({ en, ar }: { en: string; ar: string }) => (
+  <span className="flex justify-between gap-4">
+    <span>{en}</span>
+    <span dir="rtl">{ar}</span>
+  </span>
+);
+
+export default Bilingual;
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useCan } from '@/components/SessionProvider';
+import {
+  CANCELLATION_REASONS,
+  CANCELLATION_REASON_LABELS,
+  CANCELLATION_TYPE_LABELS,
+  bookingSchema,
+  cancellationQuoteSchema,
+  type Booking,
+  type CancellationQuote,
+  type CancellationReason,
+} from '@/lib/domain';
+
+const inputClassName = 'w-full px-4 py-3 bg-white/50 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 backdrop-blur-sm';
+
+interface CancelReservationDialogProps {
+  bookingId: string;
+  language: string;
+  onCancelled: (booking: Booking) => void;
+  onClose: () => void;
+}
+
+// Shows what cancelling costs under the rate plan's policy and takes the reason, shared by the booking and reservations screens
+const CancelReservationDialog = ({ bookingId, language, onCancelled, onClose }: CancelReservationDialogProps) => {
+  const canRefund = useCan('folio:refund');
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reasonCode, setReasonCode] = useState<CancellationReason | ''>('');
+  const [reason, setReason] = useState('');
+  const [refundNow, setRefundNow] = useState(true);
+  const [refundData, setRefundData] = useState({ method: 'cash' as 'cash' | 'visa', reference: '' });
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchQuote = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/reservations/${bookingId}/cancel`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to load cancellation policy');
+        }
+        setQuote(cancellationQuoteSchema.parse(await response.json()));
+      } catch (error) {
+        console.error('Error fetching cancellation:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load cancellation policy');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQuote();
+  }, [bookingId]);
+
+  const refund = quote && quote.refund > 0 && canRefund && refundNow
+    ? { method: refundData.method, reference: refundData.reference || undefined }
+    : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const response = await fetch(`/api/reservations/${bookingId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reasonCode, reason: reason || undefined, refund }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to cancel reservation');
+      }
+      onCancelled(bookingSchema.parse(data));
+    } catch (error) {
+      console.error('Error cancelling reservation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel reservation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const policyText = (value: CancellationQuote) => {
+    const label = CANCELLATION_TYPE_LABELS[value.cancellationType][language === 'ar' ? 'ar' : 'en'];
+    return value.cancellationType === 'free-until'
+      ? `${label} ${value.freeCancellationDays} ${language === 'ar' ? 'يوم قبل الوصول' : 'day(s) before arrival'}`
+      : label;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white/90 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl p-6 w-full max-w-xl max-h-[90vh] overflow-y-auto space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-gray-900">
+            {language === 'ar' ? 'إلغاء الحجز' : 'Cancel Reservation'} {quote?.resId}
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+          </div>
+        ) : quote && (
+          <>
+            <div className="p-4 bg-white/50 border border-white/30 rounded-xl text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">{language === 'ar' ? 'النزيل' : 'Guest'}</span>
+                <span className="font-medium text-gray-900">{quote.guestName}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">{language === 'ar' ? 'الإقامة' : 'Stay'}</span>
+                <span className="font-medium text-gray-900">{quote.arrival} → {quote.departure}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">{language === 'ar' ? 'خطة الأسعار' : 'Rate plan'}</span>
+                <span className="font-medium text-gray-900">{quote.ratePlanName ?? (language === 'ar' ? 'بدون' : 'None')}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">{language === 'ar' ? 'سياسة الإلغاء' : 'Cancellation policy'}</span>
+                <span className="font-medium text-gray-900">{policyText(quote)}</span>
+              </div>
+              {quote.cancellationPolicy && (
+                <p className="text-gray-600 pt-1">{quote.cancellationPolicy}</p>
+              )}
+            </div>
+
+            <div className="p-4 bg-white/50 border border-white/30 rounded-xl text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">{language === 'ar' ? 'أيام قبل الوصول' : 'Days before arrival'}</span>
+                <span className="font-medium text-gray-900">{quote.daysBeforeArrival}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">
+                  {language === 'ar' ? 'غرامة الإلغاء' : 'Cancellation penalty'}
+                  {quote.penaltyNights.length > 0 && ` (${quote.penaltyNights.length} ${language === 'ar' ? 'ليلة' : 'night(s)'})`}
+                </span>
+                <span className={`font-medium ${quote.penalty > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {quote.penalty.toFixed(2)} SAR
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">{language === 'ar' ? 'رسوم الغرف المحذوفة' : 'Room charges released'}</span>
+                <span className="font-medium text-gray-900">{quote.releasedCharges.toFixed(2)} SAR</span>
+              </div>
+              <div className="flex justify-between border-t border-gray-200/50 pt-1">
+                <span className="text-gray-600">
+                  {quote.balance < 0
+                    ? (language === 'ar' ? 'المستحق للنزيل' : 'Owed back to the guest')
+                    : (language === 'ar' ? 'الرصيد المتبقي' : 'Balance left on the folio')}
+                </span>
+                <span className="font-semibold text-gray-900">{Math.abs(quote.balance).toFixed(2)} SAR</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                {language === 'ar' ? 'سبب الإلغاء' : 'Reason'} *
+              </label>
+              <select
+                value={reasonCode}
+                onChange={(e) => setReasonCode(e.target.value as CancellationReason | '')}
+                className={inputClassName}
+                required
+              >
+                <option value="">{language === 'ar' ? 'اختر السبب' : 'Select a reason'}</option>
+                {CANCELLATION_REASONS.map(code => (
+                  <option key={code} value={code}>{CANCELLATION_REASON_LABELS[code][language === 'ar' ? 'ar' : 'en']}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className={inputClassName}
+                placeholder={language === 'ar' ? 'ملاحظة (اختياري)' : 'Note (optional)'}
+                maxLength={500}
+              />
+            </div>
+
+            {quote.refund > 0 && (canRefund ? (
+              <div className="space-y-3">
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={refundNow}
+                    onChange={(e) => setRefundNow(e.target.checked)}
+                    className="w-5 h-5 text-blue-600 bg-white/50 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    {language === 'ar' ? 'استرداد' : 'Refund'} {quote.refund.toFixed(2)} SAR {language === 'ar' ? 'الآن' : 'now'}
+                  </span>
+                </label>
+                {refundNow && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <select
+                      value={refundData.method}
+                      onChange={(e) => setRefundData({ ...refundData, method: e.target.value as 'cash' | 'visa' })}
+                      className={inputClassName}
+                    >
+                      <option value="cash">{language === 'ar' ? 'نقدي' : 'Cash'}</option>
+                      <option value="visa">{language === 'ar' ? 'بطاقة' : 'Visa'}</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={refundData.reference}
+                      onChange={(e) => setRefundData({ ...refundData, reference: e.target.value })}
+                      className={inputClassName}
+                      placeholder={language === 'ar' ? 'المرجع' : 'Reference'}
+                    />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="px-4 py-3 bg-yellow-50/80 border border-yellow-200 rounded-xl text-sm text-yellow-800">
+                {language === 'ar'
+                  ? 'يحتاج استرداد المبلغ إلى موافقة المحاسب'
+                  : `${quote.refund.toFixed(2)} SAR will be owed back to the guest; ask an accountant to refund it from the folio`}
+              </div>
+            ))}
+          </>
+        )}
+
+        {error && (
+          <div className="px-4 py-3 bg-red-50/80 border border-red-200 rounded-xl text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-white/50 border border-gray-200/50 text-gray-700 rounded-xl font-medium hover:bg-white/80 transition-all duration-200"
+          >
+            {language === 'ar' ? 'رجوع' : 'Back'}
+          </button>
+          <button
+            type="submit"
+            disabled={!quote || !reasonCode || isSubmitting}
+            className="px-4 py-2 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting
+              ? (language === 'ar' ? 'جاري الإلغاء...' : 'Cancelling...')
+              : (language === 'ar' ? 'إلغاء الحجز' : 'Cancel Reservation')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CancelReservationDialog;
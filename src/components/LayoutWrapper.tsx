@@ -1,7 +1,23 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Sidebar from './Sidebar';
+import { signOut, useSessionUser } from './SessionProvider';
+import { ACTIVITY_PING_MS, IDLE_TIMEOUT_MS, IDLE_WARNING_MS } from '@/lib/session';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Latest input time across all open tabs, so a tab left in the background doesn't log out the one in use
+const ACTIVITY_STORAGE_KEY = 'lastActivityAt';
+
+function readSharedActivity() {
+  const value = Number(window.localStorage.getItem(ACTIVITY_STORAGE_KEY));
+  return Number.isFinite(value) ? value : 0;
+}
+
+function writeSharedActivity(at: number) {
+  window.localStorage.setItem(ACTIVITY_STORAGE_KEY, String(at));
+}
 
 interface LayoutWrapperProps {
   children: React.ReactNode;
@@ -9,20 +25,99 @@ interface LayoutWrapperProps {
 
 const LayoutWrapper = ({ children }: LayoutWrapperProps) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const user = useSessionUser();
+
+  // Idle timeout: input resets the clock until the warning is up, after that only "Stay signed in" does
+  const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const lastPingRef = useRef(0);
+  const warningShownRef = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    lastActivityRef.current = Date.now();
+    const markActive = () => {
+      if (!warningShownRef.current) {
+        lastActivityRef.current = Date.now();
+      }
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const interval = setInterval(() => {
+      const sharedActivity = readSharedActivity();
+      if (lastActivityRef.current > sharedActivity) {
+        writeSharedActivity(lastActivityRef.current);
+      } else {
+        lastActivityRef.current = sharedActivity;
+      }
+
+      // The server counts a session idle on its own clock, so report fresh input now and then
+      const now = Date.now();
+      if (!warningShownRef.current && lastActivityRef.current > lastPingRef.current && now - lastPingRef.current >= ACTIVITY_PING_MS) {
+        lastPingRef.current = now;
+        fetch('/api/auth/session')
+          .then(response => {
+            if (response.status === 401) {
+              clearInterval(interval);
+              signOut('revoked');
+            }
+          })
+          .catch(error => console.error('Error refreshing session:', error));
+      }
+
+      const idleFor = now - lastActivityRef.current;
+      if (idleFor >= IDLE_TIMEOUT_MS) {
+        clearInterval(interval);
+        signOut('idle');
+      } else if (idleFor >= IDLE_TIMEOUT_MS - IDLE_WARNING_MS) {
+        warningShownRef.current = true;
+        setIdleSecondsLeft(Math.ceil((IDLE_TIMEOUT_MS - idleFor) / 1000));
+      } else if (warningShownRef.current) {
+        // "Stay signed in" was pressed in another tab
+        warningShownRef.current = false;
+        setIdleSecondsLeft(null);
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+    };
+  }, [user]);
+
+  const handleStaySignedIn = async () => {
+    try {
+      const response = await fetch('/api/auth/session');
+      if (!response.ok) {
+        signOut('revoked');
+        return;
+      }
+    } catch (error) {
+      console.error('Error refreshing session:', error);
+    }
+
+    const now = Date.now();
+    lastActivityRef.current = now;
+    lastPingRef.current = now;
+    writeSharedActivity(now);
+    warningShownRef.current = false;
+    setIdleSecondsLeft(null);
+  };
 
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
   };
 
   return (
-    <div className="flex h-screen bg-gray-50">
+    <div className="flex h-screen bg-gray-50 print:block print:h-auto">
       {/* Sidebar */}
       <Sidebar isOpen={sidebarOpen} onToggle={toggleSidebar} />
       
       {/* Main Content */}
       <div className="flex-1 flex flex-col lg:ml-0">
         {/* Mobile Header */}
-        <header className="lg:hidden bg-white shadow-sm border-b border-gray-200 p-4">
+        <header className="lg:hidden print:hidden bg-white shadow-sm border-b border-gray-200 p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <button
@@ -39,10 +134,41 @@ const LayoutWrapper = ({ children }: LayoutWrapperProps) => {
         </header>
         
         {/* Page Content */}
-        <main className="flex-1 overflow-auto">
+        <main className="flex-1 overflow-auto print:overflow-visible">
           {children}
         </main>
       </div>
+
+      {/* Idle Timeout Warning */}
+      {user && idleSecondsLeft !== null && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+          <div className="w-full max-w-sm backdrop-blur-xl bg-white/90 border border-white/20 rounded-3xl shadow-2xl p-6 space-y-4 text-center">
+            <div className="w-12 h-12 mx-auto bg-gradient-to-br from-yellow-500 to-yellow-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900">Are you still there?</h2>
+            <p className="text-sm text-gray-600">
+              You will be signed out in {Math.floor(idleSecondsLeft / 60)}:{String(idleSecondsLeft % 60).padStart(2, '0')} because of inactivity.
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={handleStaySignedIn}
+                className="flex-1 bg-gradient-to-r from-green-600 to-green-700 text-white py-2 px-4 rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
+              >
+                Stay signed in
+              </button>
+              <button
+                onClick={() => signOut()}
+                className="flex-1 bg-red-600 text-white py-2 px-4 rounded-xl font-semibold hover:bg-red-700 transition-colors duration-200"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
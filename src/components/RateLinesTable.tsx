@@ -0,0 +1,87 @@
+'use client';
+
+import { getRateLineTotals } from '@/lib/pricing';
+import { getTaxBreakdown } from '@/lib/taxes';
+import type { BookingRateLine } from '@/lib/domain';
+
+interface RateLinesTableProps {
+  lines: BookingRateLine[];
+  numberOfRooms: number;
+  language: string;
+}
+
+// Night-by-night price breakdown of a stay, shared by the booking review step and the reservation details
+const RateLinesTable = ({ lines, numberOfRooms, language }: RateLinesTableProps) => {
+  const totals = getRateLineTotals(lines, numberOfRooms);
+  const taxBreakdown = getTaxBreakdown(lines, numberOfRooms);
+
+  if (lines.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        {language === 'ar' ? 'لا يوجد تفصيل لليالي' : 'No night-by-night breakdown'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200/50 text-left text-gray-700">
+            <th className="py-2 pr-4 font-semibold">{language === 'ar' ? 'الليلة' : 'Night'}</th>
+            <th className="py-2 pr-4 font-semibold">{language === 'ar' ? 'كود التعريفة' : 'Rate Code'}</th>
+            <th className="py-2 pr-4 font-semibold">{language === 'ar' ? 'نوع الغرفة' : 'Room Type'}</th>
+            <th className="py-2 pr-4 font-semibold text-right">{language === 'ar' ? 'السعر / غرفة' : 'Price / Room'}</th>
+            <th className="py-2 pr-4 font-semibold text-right">{language === 'ar' ? 'الضريبة / غرفة' : 'Tax / Room'}</th>
+            <th className="py-2 font-semibold text-right">{language === 'ar' ? 'المبلغ' : 'Amount'}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr key={line.date} className="border-b border-gray-100/50">
+              <td className="py-2 pr-4 text-gray-800">{line.date}</td>
+              <td className="py-2 pr-4 text-gray-800">
+                {line.rateCode || '—'}
+                {line.seasonal && (
+                  <span className="ml-2 px-2 py-0.5 bg-purple-100 text-purple-700 text-xs rounded-full">
+                    {language === 'ar' ? 'موسمي' : 'Seasonal'}
+                  </span>
+                )}
+              </td>
+              <td className="py-2 pr-4 text-gray-800">{line.roomType}</td>
+              <td className="py-2 pr-4 text-right text-gray-800">{line.price} SAR</td>
+              <td className="py-2 pr-4 text-right text-gray-800">{line.tax} SAR</td>
+              <td className="py-2 text-right text-gray-800">{(line.price + line.tax) * numberOfRooms} SAR</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="text-gray-900">
+          <tr>
+            <td colSpan={5} className="pt-3 pr-4 text-right">{language === 'ar' ? 'الرسوم' : 'Room charges'}</td>
+            <td className="pt-3 text-right">{totals.charges} SAR</td>
+          </tr>
+          {taxBreakdown.length > 0 ? taxBreakdown.map(tax => (
+            <tr key={`${tax.code}-${tax.rate}`}>
+              <td colSpan={5} className="pr-4 text-right">{tax.name} ({tax.code} {tax.rate}%)</td>
+              <td className="text-right">{tax.amount} SAR</td>
+            </tr>
+          )) : (
+            <tr>
+              <td colSpan={5} className="pr-4 text-right">{language === 'ar' ? 'الضريبة' : 'Tax'}</td>
+              <td className="text-right">{totals.tax} SAR</td>
+            </tr>
+          )}
+          <tr className="font-semibold">
+            <td colSpan={5} className="pr-4 text-right">
+              {language === 'ar' ? 'الإجمالي' : 'Total'}
+              {numberOfRooms > 1 && ` (${numberOfRooms} ${language === 'ar' ? 'غرف' : 'rooms'})`}
+            </td>
+            <td className="text-right">{totals.total} SAR</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default RateLinesTable;
@@ -0,0 +1,58 @@
+'use client';
+
+import { createContext, useContext, useEffect } from 'react';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import type { Role } from '@/lib/session';
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  name: string | null;
+  role: Role;
+}
+
+interface SessionProviderProps {
+  user: SessionUser | null;
+  // The browser still holds a session cookie, but the server no longer accepts it (logged out elsewhere)
+  stale: boolean;
+  children: React.ReactNode;
+}
+
+const SessionContext = createContext<SessionUser | null>(null);
+
+/**
+ * End the current session and go back to the login page, optionally telling it why.
+ */
+export async function signOut(reason?: 'idle' | 'revoked') {
+  try {
+    await fetch('/api/auth/logout', { method: 'POST' });
+  } catch (error) {
+    console.error('Error signing out:', error);
+  }
+  window.location.href = reason ? `/?reason=${reason}` : '/';
+}
+
+const SessionProvider = ({ user, stale, children }: SessionProviderProps) => {
+  useEffect(() => {
+    if (stale) {
+      signOut('revoked');
+    }
+  }, [stale]);
+
+  return (
+    <SessionContext.Provider value={user}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export function useSessionUser() {
+  return useContext(SessionContext);
+}
+
+export function useCan(permission: Permission) {
+  const user = useSessionUser();
+  return hasPermission(user?.role, permission);
+}
+
+export default SessionProvider;
@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useState } from 'react';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import { signOut, useSessionUser } from './SessionProvider';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -11,25 +13,49 @@ interface SidebarProps {
 
 const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
   const pathname = usePathname();
+  const user = useSessionUser();
 
-  const menuItems = [
+  const menuItems: {
+    title: string;
+    href: string;
+    icon: string;
+    isActive: boolean;
+    permission?: Permission;
+  }[] = [
     {
       title: 'Hotels Management',
       href: '/addhotel',
       icon: '🏨',
-      isActive: pathname.startsWith('/addhotel')
+      isActive: pathname.startsWith('/addhotel'),
+      permission: 'hotels:write'
     },
     {
       title: 'Rooms Management', 
       href: '/addroom',
       icon: '🏠',
-      isActive: pathname.startsWith('/addroom')
+      isActive: pathname.startsWith('/addroom'),
+      permission: 'rooms:write'
+    },
+    {
+      title: 'Rate Plans',
+      href: '/rate-plans',
+      icon: '🏷️',
+      isActive: pathname.startsWith('/rate-plans'),
+      permission: 'rates:write'
+    },
+    {
+      title: 'Taxes & Fees',
+      href: '/taxes',
+      icon: '🧾',
+      isActive: pathname.startsWith('/taxes'),
+      permission: 'taxes:write'
     },
     {
       title: 'Create a Reservations',
       href: '/booking',
       icon: '📝',
-      isActive: pathname.startsWith('/booking')
+      isActive: pathname.startsWith('/booking'),
+      permission: 'reservations:write'
     },
     {
       title: 'All Reservations',
@@ -37,14 +63,58 @@ const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
       icon: '📋',
       isActive: pathname === '/reservations'
     },
+    {
+      title: 'Tape Chart',
+      href: '/tape-chart',
+      icon: '📅',
+      isActive: pathname.startsWith('/tape-chart')
+    },
+    {
+      title: 'Receivables',
+      href: '/receivables',
+      icon: '⏰',
+      isActive: pathname === '/receivables'
+    },
+    {
+      title: 'Invoices',
+      href: '/invoices',
+      icon: '📄',
+      isActive: pathname.startsWith('/invoices')
+    },
     {
       title: 'All Guests',
       href: '/guests',
       icon: '👥',
       isActive: pathname === '/guests'
+    },
+    {
+      title: 'Housekeeping',
+      href: '/housekeeping',
+      icon: '🧹',
+      isActive: pathname.startsWith('/housekeeping'),
+      permission: 'rooms:housekeeping'
+    },
+    {
+      title: 'Cashier Shift',
+      href: '/shifts',
+      icon: '💵',
+      isActive: pathname.startsWith('/shifts'),
+      permission: 'shifts:write'
+    },
+    {
+      title: 'Active Sessions',
+      href: '/sessions',
+      icon: '🔐',
+      isActive: pathname.startsWith('/sessions'),
+      permission: 'sessions:manage'
     }
   ];
 
+  // Signed-out visitors see no links; everyone else only sees what their role can open
+  const visibleItems = menuItems.filter(item =>
+    user && (!item.permission || hasPermission(user.role, item.permission))
+  );
+
   return (
     <>
       {/* Mobile overlay */}
@@ -59,7 +129,7 @@ const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
       <div className={`
         fixed top-0 left-0 h-full w-72 bg-white shadow-lg z-50 transform transition-transform duration-300 ease-in-out
         ${isOpen ? 'translate-x-0' : '-translate-x-full'}
-        lg:translate-x-0 lg:static lg:z-auto
+        lg:translate-x-0 lg:static lg:z-auto print:hidden
       `}>
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
@@ -83,7 +153,7 @@ const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
 
         {/* Navigation Menu */}
         <nav className="flex-1 p-4 space-y-2">
-          {menuItems.map((item, index) => (
+          {visibleItems.map((item, index) => (
             <Link
               key={index}
               href={item.href}
@@ -103,7 +173,10 @@ const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
 
         {/* Logout Button */}
         <div className="p-4 border-t border-gray-200">
-          <button className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors duration-200">
+          <button
+            onClick={() => signOut()}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors duration-200"
+          >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
             </svg>
@@ -0,0 +1,246 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { toAmendmentEvent } from '@/lib/booking-status';
+import { formatDateOnly, nightsBetween, parseDateOnly } from '@/lib/dates';
+import { getFolioTotals, getOpenCharges, toReversalEntry } from '@/lib/folio';
+import { replanInstallments } from '@/lib/installments';
+import { findUnavailableNights } from '@/lib/inventory';
+import { getRateLineTotals, getRatePlanStayError, roundMoney } from '@/lib/pricing';
+import { serializeRatePlan } from '@/lib/rate-plans';
+import { bookingInclude, priceStay, toRoomCharge } from '@/lib/reservations';
+import {
+  AMENDABLE_STATUSES,
+  BOOKING_STATUS_LABELS,
+  type Amendment,
+  type AmendmentInput,
+  type BookingStatus,
+} from '@/lib/domain';
+
+export const amendmentInclude = {
+  hotel: { include: { taxes: true } },
+  roomType: true,
+  ratePlan: true,
+  rateLines: { where: { releasedAt: null }, orderBy: { date: 'asc' }, include: { taxes: true } },
+  folioEntries: { include: { taxes: true } },
+  installments: { orderBy: { sequence: 'asc' } },
+} satisfies Prisma.BookingInclude;
+
+type BookingForAmendment = Prisma.BookingGetPayload<{ include: typeof amendmentInclude }>;
+
+/**
+ * Work out what amending a reservation's stay does: check the new dates, room type and number of rooms are still
+ * available (the reservation's own rooms aside) and reprice the stay. Nights kept in the same room type keep the
+ * rate and taxes the guest was quoted; nights added, or every night when the room type changes, are priced at
+ * today's rates for the room type and the reservation's rate plan, or at the rate typed in at booking if there was
+ * one. The room charges of nights that change are reversed and posted again at their new price.
+ */
+async function planAmendment(tx: Prisma.TransactionClient, booking: BookingForAmendment, input: AmendmentInput, postedById: string | null) {
+  if (!AMENDABLE_STATUSES.includes(booking.status as BookingStatus)) {
+    throw new ApiError(
+      409,
+      'INVALID_STATUS',
+      `Reservation ${booking.resId} is ${BOOKING_STATUS_LABELS[booking.status as BookingStatus].en} and can no longer be amended`
+    );
+  }
+
+  const roomType = await tx.roomType.findUnique({ where: { id: input.roomTypeId }, include: { seasonalPrices: true } });
+  if (!roomType || roomType.hotelId !== booking.hotelId) {
+    throw new ApiError(404, 'ROOM_TYPE_NOT_FOUND', 'Room type not found for this hotel');
+  }
+
+  // A plan withdrawn since the booking still prices the reservations already made on it
+  const ratePlan = booking.ratePlan && serializeRatePlan({ ...booking.ratePlan, hotel: booking.hotel });
+  const ratePlanError = ratePlan && getRatePlanStayError({ ...ratePlan, active: true }, input.arrivalDate, input.departureDate);
+  if (ratePlanError) {
+    throw new ApiError(409, 'RATE_PLAN_RESTRICTED', ratePlanError);
+  }
+
+  const checkIn = parseDateOnly(input.arrivalDate);
+  const checkOut = parseDateOnly(input.departureDate);
+  const unavailableNights = await findUnavailableNights(tx, roomType, checkIn, checkOut, input.numberOfRooms, booking.id);
+  if (unavailableNights.length > 0) {
+    throw new ApiError(
+      409,
+      'ROOM_UNAVAILABLE',
+      'Not enough rooms of this type are available for the selected dates',
+      { nights: unavailableNights }
+    );
+  }
+
+  const sameRoomType = roomType.id === booking.roomTypeId;
+  // A rate typed in at booking carries over to the nights added, as long as the room type stays the same
+  const overrideRate = sameRoomType ? booking.overrideRate ?? undefined : undefined;
+  const priced = priceStay(roomType, ratePlan, booking.hotel, input, overrideRate);
+  const keptLines = sameRoomType
+    ? booking.rateLines.filter(line => formatDateOnly(line.date) >= input.arrivalDate && formatDateOnly(line.date) < input.departureDate)
+    : [];
+  const isKept = (date: Date) => keptLines.some(line => line.date.getTime() === date.getTime());
+  // A kept night's room charge still stands as posted unless the number of rooms changes
+  const isUnchanged = (date: Date) => isKept(date) && input.numberOfRooms === booking.numberOfRooms;
+
+  const rateLines = priced.rateLines.map(night => {
+    const kept = keptLines.find(line => line.date.getTime() === night.date.getTime());
+    if (kept) {
+      return {
+        date: kept.date,
+        rateCode: kept.rateCode,
+        roomTypeName: kept.roomTypeName,
+        price: kept.price,
+        tax: kept.tax,
+        seasonal: kept.seasonal,
+        ratePlanId: kept.ratePlanId,
+        roomTypeId: kept.roomTypeId,
+        taxes: kept.taxes.map(tax => ({ code: tax.code, name: tax.name, rate: tax.rate, amount: tax.amount, taxId: tax.taxId })),
+      };
+    }
+    return night;
+  });
+  const roomCharges = rateLines
+    .filter(line => !isUnchanged(line.date))
+    .map(line => toRoomCharge(line, input.numberOfRooms, postedById));
+
+  const reversals = getOpenCharges(booking.folioEntries)
+    .filter(entry => entry.chargeType === 'room' && !isUnchanged(entry.date))
+    .map(entry => toReversalEntry(entry, `Amended - ${entry.description}`, postedById));
+  const adjustment = [...reversals, ...roomCharges].reduce((sum, entry) => sum + entry.total, 0);
+  const before = {
+    roomType: booking.roomType.name,
+    arrival: formatDateOnly(booking.checkIn),
+    departure: formatDateOnly(booking.checkOut),
+    nights: nightsBetween(booking.checkIn, booking.checkOut),
+    numberOfRooms: booking.numberOfRooms,
+    total: getRateLineTotals(booking.rateLines, booking.numberOfRooms).total,
+  };
+  const after = {
+    roomType: roomType.name,
+    arrival: input.arrivalDate,
+    departure: input.departureDate,
+    nights: rateLines.length,
+    numberOfRooms: input.numberOfRooms,
+    total: getRateLineTotals(rateLines, input.numberOfRooms).total,
+  };
+
+  const amendment: Amendment = {
+    bookingId: booking.id,
+    resId: booking.resId,
+    before,
+    after,
+    rateLines: rateLines.map(line => ({
+      date: formatDateOnly(line.date),
+      rateCode: line.rateCode,
+      roomType: line.roomTypeName,
+      price: line.price,
+      tax: line.tax,
+      taxes: line.taxes.map(tax => ({ code: tax.code, name: tax.name, rate: tax.rate, amount: tax.amount })),
+      seasonal: line.seasonal,
+    })),
+    repricedNights: rateLines.filter(line => !isKept(line.date)).map(line => formatDateOnly(line.date)),
+    difference: roundMoney(after.total - before.total),
+    balance: roundMoney(getFolioTotals(booking.folioEntries).balance + adjustment),
+  };
+
+  return {
+    amendment,
+    roomType,
+    roomRate: priced.roomRate,
+    overrideRate: overrideRate ?? null,
+    releasedLineIds: booking.rateLines.filter(line => !isKept(line.date)).map(line => line.id),
+    rateLines: rateLines
+      .filter(line => !isKept(line.date))
+      .map(line => ({ ...line, taxes: { create: line.taxes } })),
+    folioEntries: [...reversals, ...roomCharges],
+  };
+}
+
+// What changed, as a line on the reservation's timeline
+function getAmendmentReason({ before, after }: Amendment) {
+  const changes = [
+    before.arrival !== after.arrival || before.departure !== after.departure
+      ? `dates ${before.arrival} – ${before.departure} to ${after.arrival} – ${after.departure}`
+      : null,
+    before.roomType !== after.roomType ? `room type ${before.roomType} to ${after.roomType}` : null,
+    before.numberOfRooms !== after.numberOfRooms ? `rooms ${before.numberOfRooms} to ${after.numberOfRooms}` : null,
+  ].filter(change => change !== null);
+
+  return changes.length > 0
+    ? `Amended ${changes.join(', ')}; total ${before.total} to ${after.total} SAR`
+    : null;
+}
+
+async function findBooking(tx: Prisma.TransactionClient, id: string) {
+  const booking = await tx.booking.findUnique({ where: { id }, include: amendmentInclude });
+  if (!booking) {
+    throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+  }
+  return booking;
+}
+
+export async function previewAmendment(id: string, input: AmendmentInput) {
+  const booking = await findBooking(prisma, id);
+  const { amendment } = await planAmendment(prisma, booking, input, null);
+  return amendment;
+}
+
+/**
+ * Amend a reservation's dates, room type or number of rooms. Rate lines for nights that change are marked released
+ * and the repriced nights added; room charges that change are reversed and posted again, so the folio keeps its
+ * history. On a credit reservation, installments already due or paid stay as they are and the rest of the new balance
+ * is spread again over the installments not yet due. Payments already taken stay on the folio; anything the guest
+ * overpaid is refunded from there.
+ */
+export async function amendReservation(id: string, input: AmendmentInput, changedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await findBooking(tx, id);
+    const plan = await planAmendment(tx, booking, input, changedById);
+    const reason = getAmendmentReason(plan.amendment);
+    if (!reason) {
+      throw new ApiError(409, 'NO_CHANGES', `The amendment does not change reservation ${booking.resId}`);
+    }
+
+    await tx.bookingRateLine.updateMany({
+      where: { id: { in: plan.releasedLineIds } },
+      data: { releasedAt: new Date() },
+    });
+
+    const installments = booking.installments.length > 0
+      ? replanInstallments(
+        booking.installments.map(row => ({ id: row.id, sequence: row.sequence, dueDate: formatDateOnly(row.dueDate), amount: row.amount })),
+        getFolioTotals(booking.folioEntries).balance,
+        plan.amendment.balance,
+        formatDateOnly(new Date())
+      )
+      : { replaced: [], planned: [] };
+    await tx.installment.deleteMany({ where: { id: { in: installments.replaced.map(installment => installment.id) } } });
+
+    return tx.booking.update({
+      where: { id },
+      data: {
+        checkIn: parseDateOnly(input.arrivalDate),
+        checkOut: parseDateOnly(input.departureDate),
+        numberOfRooms: input.numberOfRooms,
+        roomTypeId: plan.roomType.id,
+        // A room number asked for at booking belongs to the old room type
+        roomNo: plan.roomType.id === booking.roomTypeId ? booking.roomNo : null,
+        roomRate: plan.roomRate,
+        overrideRate: plan.overrideRate,
+        totalAmount: plan.amendment.after.total,
+        rateLines: {
+          create: plan.rateLines,
+        },
+        folioEntries: {
+          create: plan.folioEntries,
+        },
+        installments: {
+          create: installments.planned.map(installment => ({ ...installment, dueDate: parseDateOnly(installment.dueDate) })),
+        },
+        statusChanges: {
+          create: [toAmendmentEvent(booking.status, changedById, reason)],
+        },
+      },
+      include: bookingInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
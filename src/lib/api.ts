@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * An expected failure raised by a service, carrying the HTTP status and a machine-readable code for the client.
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Map an error thrown inside a route handler to a JSON response.
+ * Validation and known Prisma errors become 4xx responses, anything else is logged and returned as a 500.
+ */
+export function handleApiError(error: unknown, context: string) {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    switch (error.code) {
+      case 'P2002': {
+        const target = (error.meta?.target as string[] | undefined)?.join(', ') ?? 'field';
+        return NextResponse.json(
+          { error: `A record with this ${target} already exists` },
+          { status: 409 }
+        );
+      }
+      case 'P2003':
+        return NextResponse.json(
+          { error: 'This record is still referenced by other data' },
+          { status: 409 }
+        );
+      case 'P2034':
+        return NextResponse.json(
+          { error: 'The request conflicted with a concurrent change, please try again' },
+          { status: 409 }
+        );
+      case 'P2025':
+        return NextResponse.json(
+          { error: 'Record not found' },
+          { status: 404 }
+        );
+    }
+  }
+
+  console.error(`${context} error:`, error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
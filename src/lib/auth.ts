@@ -0,0 +1,135 @@
+import { cookies } from 'next/headers';
+import type { Session, User } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import {
+  IDLE_TIMEOUT_MS,
+  REMEMBER_ME_MAX_AGE,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  signSession,
+  verifySession,
+  type Role,
+  type SessionPayload,
+} from '@/lib/session';
+
+// How stale lastSeenAt may get before a request refreshes it
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+interface CreateSessionOptions {
+  remember: boolean;
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Record a new signed-in device for `user` and return the cookie value and lifetime for it.
+ * Without "remember me" the cookie is left without a max age so it ends with the browser session.
+ */
+export async function createSession(user: User, { remember, userAgent, ipAddress }: CreateSessionOptions) {
+  const maxAge = remember ? REMEMBER_ME_MAX_AGE : SESSION_MAX_AGE;
+  const expiresAt = new Date(Date.now() + maxAge * 1000);
+
+  const session = await prisma.session.create({
+    data: { userId: user.id, remember, userAgent, ipAddress, expiresAt },
+  });
+
+  const token = await signSession({
+    sid: session.id,
+    sub: user.id,
+    username: user.username,
+    name: user.name,
+    role: user.role as Role,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  });
+
+  return { token, maxAge: remember ? maxAge : undefined };
+}
+
+/**
+ * Mark a session as revoked. Returns false when it does not exist or was already revoked.
+ */
+export async function revokeSession(id: string) {
+  const { count } = await prisma.session.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+function isActive(session: Session | null): session is Session {
+  return (
+    !!session &&
+    !session.revokedAt &&
+    session.expiresAt > new Date() &&
+    Date.now() - session.lastSeenAt.getTime() <= IDLE_TIMEOUT_MS
+  );
+}
+
+/**
+ * Record that the signed-in page still has input, so the session does not count as idle.
+ */
+export async function touchSession(id: string) {
+  await prisma.session.update({ where: { id }, data: { lastSeenAt: new Date() } });
+}
+
+/**
+ * Read the signed-in user from the session cookie of the current request. Unlike the middleware, which only
+ * checks the signature, this also rejects sessions that were logged out, force-logged-out or left idle.
+ */
+export async function getSession(): Promise<SessionPayload | null> {
+  const cookieStore = await cookies();
+  const payload = await verifySession(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!payload) return null;
+
+  const session = await prisma.session.findUnique({ where: { id: payload.sid } });
+  if (!isActive(session)) return null;
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await touchSession(session.id);
+  }
+
+  return payload;
+}
+
+/**
+ * Like getSession, but throws a 401 ApiError for route handlers when nobody is signed in.
+ */
+export async function requireSession() {
+  const session = await getSession();
+  if (!session) {
+    throw new ApiError(401, 'UNAUTHENTICATED', 'Authentication required');
+  }
+  return session;
+}
+
+/**
+ * Require a signed-in user whose role grants `permission`; throws a 403 ApiError otherwise.
+ */
+export async function requirePermission(permission: Permission) {
+  const session = await requireSession();
+  if (!hasPermission(session.role, permission)) {
+    throw new ApiError(403, 'FORBIDDEN', `Missing permission: ${permission}`);
+  }
+  return session;
+}
+
+export const activeSessionWhere = () => ({
+  revokedAt: null,
+  expiresAt: { gt: new Date() },
+  lastSeenAt: { gt: new Date(Date.now() - IDLE_TIMEOUT_MS) },
+});
+
+export function serializeSession(session: Session, currentSessionId?: string) {
+  return {
+    id: session.id,
+    remember: session.remember,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    current: session.id === currentSessionId,
+  };
+}
@@ -0,0 +1,64 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import {
+  BOOKING_STATUS_LABELS,
+  canChangeStatus,
+  type BookingStatus,
+  type StatusChange,
+  type TimelineEvent,
+} from '@/lib/domain';
+
+export const statusChangeInclude = {
+  changedBy: { select: { name: true, username: true } },
+} satisfies Prisma.BookingStatusChangeInclude;
+
+type StatusChangeWithUser = Prisma.BookingStatusChangeGetPayload<{ include: typeof statusChangeInclude }>;
+
+export function serializeStatusChange(change: StatusChangeWithUser): StatusChange {
+  return {
+    id: change.id,
+    event: change.event as TimelineEvent,
+    fromStatus: change.fromStatus as BookingStatus | null,
+    toStatus: change.toStatus as BookingStatus,
+    reason: change.reason,
+    changedBy: change.changedBy ? change.changedBy.name ?? change.changedBy.username : null,
+    createdAt: change.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Refuse a status change the reservation state machine does not allow, e.g. confirming a cancelled reservation.
+ */
+export function assertStatusChange(booking: { resId: string; status: string }, to: BookingStatus) {
+  const from = booking.status as BookingStatus;
+  if (!canChangeStatus(from, to)) {
+    throw new ApiError(
+      409,
+      'INVALID_STATUS',
+      `Reservation ${booking.resId} cannot go from ${BOOKING_STATUS_LABELS[from].en} to ${BOOKING_STATUS_LABELS[to].en}`
+    );
+  }
+}
+
+/**
+ * The history row for a status change, as a nested create on the booking update that makes the change.
+ */
+export function toStatusChange(from: string | null, to: BookingStatus, changedById: string | null, reason: string | null) {
+  return { fromStatus: from, toStatus: to, changedById, reason };
+}
+
+/**
+ * The timeline row for an amendment to the stay, which leaves the reservation in the status it was in.
+ */
+export function toAmendmentEvent(status: string, changedById: string | null, reason: string) {
+  return { event: 'amendment', fromStatus: status, toStatus: status, changedById, reason };
+}
+
+export async function getStatusHistory(bookingId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { statusChanges: { orderBy: { createdAt: 'asc' }, include: statusChangeInclude } },
+  });
+  return booking && booking.statusChanges.map(serializeStatusChange);
+}
@@ -0,0 +1,280 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { assertStatusChange, toStatusChange } from '@/lib/booking-status';
+import { daysBetween, formatDateOnly, parseDateOnly } from '@/lib/dates';
+import { getFolioTotals, getOpenCharges, toChargeEntry, toReversalEntry } from '@/lib/folio';
+import { refundAuthorization, releaseDeposit } from '@/lib/payments';
+import { roundMoney } from '@/lib/pricing';
+import { bookingInclude } from '@/lib/reservations';
+import { getShiftForEntry } from '@/lib/shifts';
+import {
+  CANCELLATION_REASON_LABELS,
+  type BookingStatus,
+  type CancellationInput,
+  type CancellationQuote,
+  type CancellationType,
+} from '@/lib/domain';
+
+export const cancellationInclude = {
+  guest: true,
+  ratePlan: true,
+  folioEntries: { orderBy: { date: 'asc' }, include: { taxes: true } },
+} satisfies Prisma.BookingInclude;
+
+type BookingForCancellation = Prisma.BookingGetPayload<{ include: typeof cancellationInclude }>;
+
+interface CardRefund {
+  authorizationId: string;
+  amount: number;
+}
+
+// Reservations booked without a rate plan can be cancelled for free until the day before arrival
+const DEFAULT_CANCELLATION = { cancellationType: 'free-until', freeCancellationDays: 1 };
+
+/**
+ * Work out what cancelling a reservation on `today` costs under its rate plan's policy. A free-until plan costs
+ * nothing up to its number of days before arrival and the first night after that, including on or after the
+ * arrival date whatever its number of days; a first-night plan always keeps the first night and a non-refundable
+ * plan keeps the whole stay. The penalty is the room charges already on the folio for those nights, so it carries
+ * the rate and taxes the guest was quoted.
+ */
+export function getCancellationQuote(booking: BookingForCancellation, today: string): CancellationQuote {
+  const { freeCancellationDays, ...policy } = booking.ratePlan ?? DEFAULT_CANCELLATION;
+  const cancellationType = policy.cancellationType as CancellationType;
+  const arrival = formatDateOnly(booking.checkIn);
+  const daysBeforeArrival = daysBetween(parseDateOnly(today), booking.checkIn);
+  const roomCharges = getOpenCharges(booking.folioEntries).filter(entry => entry.chargeType === 'room');
+  const nights = roomCharges
+    .map(entry => formatDateOnly(entry.date))
+    .filter((date, index, dates) => dates.indexOf(date) === index);
+
+  const penaltyNights = cancellationType === 'non-refundable'
+    ? nights
+    : cancellationType === 'first-night' || daysBeforeArrival <= 0 || daysBeforeArrival < freeCancellationDays
+      ? nights.slice(0, 1)
+      : [];
+  const penalty = roundMoney(roomCharges
+    .filter(entry => penaltyNights.includes(formatDateOnly(entry.date)))
+    .reduce((sum, entry) => sum + entry.total, 0));
+  const releasedCharges = roundMoney(roomCharges.reduce((sum, entry) => sum + entry.total, 0) - penalty);
+  const balance = roundMoney(getFolioTotals(booking.folioEntries).balance - releasedCharges);
+
+  return {
+    bookingId: booking.id,
+    resId: booking.resId,
+    status: booking.status as BookingStatus,
+    guestName: booking.guest.fullName,
+    arrival,
+    departure: formatDateOnly(booking.checkOut),
+    ratePlanName: booking.ratePlan?.name ?? null,
+    cancellationType,
+    freeCancellationDays,
+    cancellationPolicy: booking.ratePlan?.cancellationPolicy ?? null,
+    daysBeforeArrival,
+    penaltyNights,
+    penalty,
+    releasedCharges,
+    balance,
+    refund: balance < 0 ? -balance : 0,
+  };
+}
+
+export async function getCancellation(bookingId: string) {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId }, include: cancellationInclude });
+  return booking && getCancellationQuote(booking, formatDateOnly(new Date()));
+}
+
+/**
+ * Settle a reservation's room charges under a cancellation quote: every open room charge is reversed and the nights
+ * the policy keeps are charged again as the penalty, at the rate and taxes first posted.
+ */
+function toPenaltyEntries(
+  booking: BookingForCancellation,
+  quote: CancellationQuote,
+  labels: { reversal: string; penalty: string },
+  changedById: string | null
+) {
+  const roomCharges = getOpenCharges(booking.folioEntries).filter(entry => entry.chargeType === 'room');
+  const penalized = roomCharges.filter(entry => quote.penaltyNights.includes(formatDateOnly(entry.date)));
+
+  return [
+    ...roomCharges.map(entry => toReversalEntry(entry, `${labels.reversal} - ${entry.description}`, changedById)),
+    ...penalized.map(entry => toChargeEntry(
+      'room',
+      `${labels.penalty} - ${entry.description}`,
+      entry.date,
+      entry.quantity,
+      entry.amount,
+      entry.taxes.map(tax => ({ code: tax.code, name: tax.name, rate: tax.rate, amount: tax.amount, taxId: tax.taxId })),
+      changedById
+    )),
+  ];
+}
+
+// Spread a card refund over the captured card payments, oldest first; what they cannot cover is left for the terminal
+function splitCardRefund(authorizations: { id: string; captured: number; refunded: number }[], amount: number): CardRefund[] {
+  const refunds: CardRefund[] = [];
+  let remaining = amount;
+  for (const authorization of authorizations) {
+    const share = roundMoney(Math.min(remaining, authorization.captured - authorization.refunded));
+    if (share > 0) {
+      refunds.push({ authorizationId: authorization.id, amount: share });
+      remaining = roundMoney(remaining - share);
+    }
+  }
+  return refunds;
+}
+
+function assertRefundable(quote: CancellationQuote) {
+  if (quote.refund <= 0) {
+    throw new ApiError(409, 'REFUND_EXCEEDS_CREDIT', 'Nothing is owed back to the guest');
+  }
+}
+
+async function findBooking(tx: Prisma.TransactionClient, id: string) {
+  const booking = await tx.booking.findUnique({ where: { id }, include: cancellationInclude });
+  if (!booking) {
+    throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+  }
+  if (booking.status !== 'cancelled') {
+    assertStatusChange(booking, 'cancelled');
+  }
+  return booking;
+}
+
+/**
+ * Cancel a reservation under its rate plan's policy. The room charges are reversed on the folio and the nights the
+ * policy keeps go on as the cancellation penalty; what the guest paid beyond that can be refunded straight away or
+ * later from the folio. Its rooms go back on sale, since cancelled reservations no longer count against inventory.
+ * Once the cancellation is saved, deposits still on hold on the guest's card are released with the provider (a hold
+ * the provider fails to release stays authorized and lapses on its own) and a refund to card goes back through the
+ * provider against the card payments it captured. Cancelling an already cancelled reservation is a no-op; a guest
+ * who has arrived can only leave through check-out.
+ */
+export async function cancelReservation(id: string, input: CancellationInput, changedById: string | null) {
+  const { booking, holds, cardRefunds } = await cancelWithPolicy(id, input, changedById);
+
+  for (const hold of holds) {
+    try {
+      await releaseDeposit(hold);
+      await prisma.paymentAuthorization.updateMany({
+        where: { id: hold.id, status: 'authorized' },
+        data: { status: 'voided' },
+      });
+    } catch (error) {
+      console.error(`Error releasing hold ${hold.reference} of cancelled reservation ${booking.resId}:`, error);
+    }
+  }
+
+  for (const { authorizationId, amount } of cardRefunds) {
+    try {
+      await refundAuthorization(authorizationId, { amount, reason: 'Refund on cancellation' }, changedById);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'the payment provider did not respond';
+      throw new ApiError(502, 'REFUND_FAILED', `The reservation was cancelled but the card refund failed (${reason}); refund it from the folio`);
+    }
+  }
+
+  return cardRefunds.length > 0 ? prisma.booking.findUniqueOrThrow({ where: { id }, include: bookingInclude }) : booking;
+}
+
+async function cancelWithPolicy(id: string, input: CancellationInput, changedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await findBooking(tx, id);
+    if (booking.status === 'cancelled') {
+      return { booking: await tx.booking.findUniqueOrThrow({ where: { id }, include: bookingInclude }), holds: [], cardRefunds: [] };
+    }
+
+    const today = formatDateOnly(new Date());
+    const quote = getCancellationQuote(booking, today);
+    if (input.refund) {
+      assertRefundable(quote);
+    }
+
+    const { refund } = input;
+    const shiftId = refund ? await getShiftForEntry(tx, changedById, refund.method) : null;
+    const label = CANCELLATION_REASON_LABELS[input.reasonCode].en;
+    const cardRefunds = refund?.method === 'visa'
+      ? splitCardRefund(
+        await tx.paymentAuthorization.findMany({ where: { bookingId: id, status: 'captured' }, orderBy: { createdAt: 'asc' } }),
+        quote.refund
+      )
+      : [];
+    const folioRefund = roundMoney(quote.refund - cardRefunds.reduce((sum, cardRefund) => sum + cardRefund.amount, 0));
+
+    const updated = await tx.booking.update({
+      where: { id },
+      data: {
+        status: 'cancelled',
+        totalAmount: quote.penalty,
+        folioEntries: {
+          create: [
+            ...toPenaltyEntries(booking, quote, { reversal: 'Cancelled', penalty: 'Cancellation penalty' }, changedById),
+            ...(refund && folioRefund > 0 ? [{
+              type: 'refund',
+              description: 'Refund on cancellation',
+              date: parseDateOnly(today),
+              amount: folioRefund,
+              total: folioRefund,
+              method: refund.method,
+              reference: refund.reference || null,
+              postedById: changedById,
+              shiftId,
+            }] : []),
+          ],
+        },
+        statusChanges: {
+          create: [toStatusChange(booking.status, 'cancelled', changedById, input.reason ? `${label}: ${input.reason}` : label)],
+        },
+      },
+      include: bookingInclude,
+    });
+    const holds = await tx.paymentAuthorization.findMany({ where: { bookingId: id, status: 'authorized' } });
+
+    return { booking: updated, holds, cardRefunds };
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
+
+/**
+ * Mark a reservation whose guest never arrived a no-show. It is settled like a cancellation on the arrival date: the
+ * room charges are reversed and the rate plan's penalty goes on the folio, the first night or the whole stay on a
+ * non-refundable plan. Its rooms go back to inventory; deposits still on hold stay there to be captured against the
+ * penalty.
+ */
+export async function markNoShow(id: string, reason: string | null, changedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({ where: { id }, include: cancellationInclude });
+    if (!booking) {
+      throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+    }
+    assertStatusChange(booking, 'no-show');
+
+    const today = formatDateOnly(new Date());
+    const arrival = formatDateOnly(booking.checkIn);
+    if (today < arrival) {
+      throw new ApiError(409, 'BEFORE_ARRIVAL', `Reservation ${booking.resId} is not due to arrive until ${arrival}`);
+    }
+
+    const quote = getCancellationQuote(booking, today);
+
+    return tx.booking.update({
+      where: { id },
+      data: {
+        status: 'no-show',
+        totalAmount: quote.penalty,
+        folioEntries: {
+          create: toPenaltyEntries(booking, quote, { reversal: 'No-show', penalty: 'No-show penalty' }, changedById),
+        },
+        statusChanges: {
+          create: [toStatusChange(booking.status, 'no-show', changedById, reason)],
+        },
+      },
+      include: bookingInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
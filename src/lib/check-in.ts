@@ -0,0 +1,208 @@
+import { Prisma, type Room } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { assertStatusChange, toStatusChange } from '@/lib/booking-status';
+import { formatDateOnly, parseDateOnly } from '@/lib/dates';
+import { getFolioTotals, serializeAuthorization } from '@/lib/folio';
+import { authorizeDeposit, releaseDeposit, type HeldDeposit } from '@/lib/payments';
+import { bookingInclude, serializeBooking } from '@/lib/reservations';
+import { getShiftForEntry } from '@/lib/shifts';
+import type {
+  CheckInInput,
+  CheckInRoom,
+  HousekeepingStatus,
+  IdType,
+  Registration,
+  RoomStatus,
+} from '@/lib/domain';
+
+export const registrationInclude = {
+  ...bookingInclude,
+  authorizations: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.BookingInclude;
+
+type BookingForRegistration = Prisma.BookingGetPayload<{ include: typeof registrationInclude }>;
+
+function isAssignable(room: Pick<Room, 'status' | 'housekeeping'>) {
+  return room.status === 'available' && room.housekeeping === 'clean';
+}
+
+function serializeCheckInRoom(room: Room): CheckInRoom {
+  return {
+    id: room.id,
+    number: room.number,
+    status: room.status as RoomStatus,
+    housekeeping: room.housekeeping as HousekeepingStatus,
+    assignable: isAssignable(room),
+  };
+}
+
+/**
+ * Shape a reservation for the check-in screen and the registration card: the guest's identity document on file, the
+ * rooms of the booked type with which of them can be assigned, and any card holds.
+ */
+export function serializeRegistration(booking: BookingForRegistration, rooms: Room[]): Registration {
+  const { guest } = booking;
+
+  return {
+    booking: serializeBooking(booking),
+    hotelName: booking.hotel.name,
+    hotelAltName: booking.hotel.altName,
+    hotelLocation: booking.hotel.location,
+    checkOutTime: booking.hotel.checkOutTime,
+    checkedInAt: booking.checkedInAt?.toISOString() ?? null,
+    identity: {
+      idType: guest.idType as IdType | null,
+      idNumber: guest.idNumber,
+      idCountry: guest.idCountry,
+      idExpiry: guest.idExpiry ? formatDateOnly(guest.idExpiry) : null,
+      dateOfBirth: guest.dateOfBirth ? formatDateOnly(guest.dateOfBirth) : null,
+      nationality: guest.nationality,
+    },
+    rooms: rooms.map(serializeCheckInRoom),
+    authorizations: booking.authorizations.map(serializeAuthorization),
+  };
+}
+
+/**
+ * Load a reservation with the physical rooms of its type, the rooms already assigned to it first.
+ */
+export async function getRegistration(bookingId: string) {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId }, include: registrationInclude });
+  if (!booking) {
+    return null;
+  }
+
+  const rooms = await prisma.room.findMany({
+    where: { roomTypeId: booking.roomTypeId },
+    orderBy: { number: 'asc' },
+  });
+  const assigned = (room: Room) => Number(booking.rooms.some(({ id }) => id === room.id));
+  rooms.sort((a, b) => assigned(b) - assigned(a));
+
+  return serializeRegistration(booking, rooms);
+}
+
+/**
+ * Check a guest in: assign a vacant, clean room of the booked type for each room booked, keep their identity document on their profile,
+ * take whatever they pay at the desk and put a deposit on hold on their card. Check-in opens on the arrival date and
+ * stays open until the day before departure. The card hold is placed with the payment provider first and released
+ * again if the check-in cannot go through.
+ */
+export async function checkInReservation(id: string, input: CheckInInput, postedById: string | null) {
+  const { deposit } = input;
+  const held = deposit ? await authorizeDeposit(deposit, 'Deposit at check-in') : null;
+
+  try {
+    return await assignRoom(id, input, held, postedById);
+  } catch (error) {
+    if (held) {
+      await releaseDeposit(held).catch(releaseError => console.error('Error releasing deposit:', releaseError));
+    }
+    throw error;
+  }
+}
+
+async function assignRoom(id: string, input: CheckInInput, held: HeldDeposit | null, postedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({ where: { id }, include: { folioEntries: true } });
+    if (!booking) {
+      throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+    }
+    assertStatusChange(booking, 'checked-in');
+    if (input.roomIds.length !== booking.numberOfRooms) {
+      throw new ApiError(
+        409,
+        'ROOM_COUNT_MISMATCH',
+        `Reservation ${booking.resId} is for ${booking.numberOfRooms} room(s); pick ${booking.numberOfRooms} to check in`
+      );
+    }
+
+    const today = formatDateOnly(new Date());
+    const arrival = formatDateOnly(booking.checkIn);
+    const departure = formatDateOnly(booking.checkOut);
+    if (today < arrival) {
+      throw new ApiError(409, 'BEFORE_ARRIVAL', `Reservation ${booking.resId} cannot be checked in before ${arrival}`);
+    }
+    if (today >= departure) {
+      throw new ApiError(409, 'AFTER_DEPARTURE', `Reservation ${booking.resId} was due to depart on ${departure}`);
+    }
+
+    const { identity } = input;
+    if (identity.idExpiry && identity.idExpiry < today) {
+      throw new ApiError(409, 'ID_EXPIRED', `The guest's ID expired on ${identity.idExpiry}`);
+    }
+
+    const rooms = await tx.room.findMany({ where: { id: { in: input.roomIds } }, orderBy: { number: 'asc' } });
+    if (rooms.length !== input.roomIds.length || rooms.some(room => room.roomTypeId !== booking.roomTypeId)) {
+      throw new ApiError(404, 'ROOM_NOT_FOUND', 'Room not found for the booked room type');
+    }
+    rooms.forEach(room => {
+      if (room.status !== 'available') {
+        throw new ApiError(409, 'ROOM_NOT_VACANT', `Room ${room.number} is ${room.status}`);
+      }
+      if (room.housekeeping !== 'clean') {
+        throw new ApiError(409, 'ROOM_NOT_CLEAN', `Room ${room.number} has not been cleaned yet`);
+      }
+    });
+    const roomNumbers = rooms.map(room => room.number).join(', ');
+
+    const { payment } = input;
+    const { balance } = getFolioTotals(booking.folioEntries);
+    if (payment && payment.amount > balance) {
+      throw new ApiError(
+        409,
+        'PAYMENT_EXCEEDS_BALANCE',
+        balance > 0 ? `Only ${balance} SAR is outstanding on this folio` : 'Nothing is outstanding on this folio'
+      );
+    }
+    const shiftId = payment ? await getShiftForEntry(tx, postedById, payment.method) : null;
+
+    await tx.guest.update({
+      where: { id: booking.guestId },
+      data: {
+        idType: identity.idType,
+        idNumber: identity.idNumber,
+        idCountry: identity.idCountry,
+        idExpiry: identity.idExpiry ? parseDateOnly(identity.idExpiry) : null,
+        dateOfBirth: identity.dateOfBirth ? parseDateOnly(identity.dateOfBirth) : undefined,
+        nationality: identity.nationality || undefined,
+      },
+    });
+    await tx.room.updateMany({ where: { id: { in: input.roomIds } }, data: { status: 'occupied' } });
+
+    return tx.booking.update({
+      where: { id },
+      data: {
+        status: 'checked-in',
+        checkedInAt: new Date(),
+        rooms: { connect: rooms.map(room => ({ id: room.id })) },
+        roomNo: roomNumbers,
+        folioEntries: {
+          create: payment
+            ? [{
+              type: 'payment',
+              description: 'Payment at check-in',
+              date: parseDateOnly(payment.date ?? today),
+              amount: payment.amount,
+              total: payment.amount,
+              method: payment.method,
+              reference: payment.reference || null,
+              postedById,
+              shiftId,
+            }]
+            : [],
+        },
+        authorizations: {
+          create: held ? [held] : [],
+        },
+        statusChanges: {
+          create: [toStatusChange(booking.status, 'checked-in', postedById, `Checked in to ${rooms.length > 1 ? 'rooms' : 'room'} ${roomNumbers}`)],
+        },
+      },
+      include: registrationInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
@@ -0,0 +1,234 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { assertStatusChange, toStatusChange } from '@/lib/booking-status';
+import { addDays, formatDateOnly, parseDateOnly } from '@/lib/dates';
+import { getFolioTotals, getOpenCharges, toChargeEntry, toReversalEntry } from '@/lib/folio';
+import { createStayInvoice } from '@/lib/invoices';
+import { getRateLineTotals, roundMoney } from '@/lib/pricing';
+import { bookingInclude } from '@/lib/reservations';
+import { getShiftForEntry } from '@/lib/shifts';
+import { applyTaxes, serializeTax } from '@/lib/taxes';
+import type { BookingStatus, CheckOutInput, CheckOutPlan } from '@/lib/domain';
+
+export const checkOutInclude = {
+  hotel: { include: { taxes: true } },
+  guest: true,
+  rooms: { orderBy: { number: 'asc' } },
+  rateLines: { where: { releasedAt: null }, orderBy: { date: 'asc' } },
+  folioEntries: { include: { taxes: true } },
+  installments: true,
+} satisfies Prisma.BookingInclude;
+
+type BookingForCheckOut = Prisma.BookingGetPayload<{ include: typeof checkOutInclude }>;
+
+/**
+ * A check-out fee as a taxed service charge; fees are configured at the price the guest sees, like room rates.
+ */
+function getFee(booking: BookingForCheckOut, amount: number, date: string) {
+  const { hotel } = booking;
+  const taxes = hotel.taxes.map(tax => serializeTax({ ...tax, hotel }));
+  return applyTaxes(amount, 'service', date, taxes, hotel.pricesIncludeTax);
+}
+
+// The room charges for the nights after `checkOutDate`, which come off the folio when the guest leaves early
+function getReleasedCharges(booking: BookingForCheckOut, checkOutDate: string) {
+  return getOpenCharges(booking.folioEntries)
+    .filter(entry => entry.chargeType === 'room' && formatDateOnly(entry.date) >= checkOutDate);
+}
+
+/**
+ * Work out what checking a guest out on `today` does to their folio. A guest leaving before their departure date
+ * stays at least the first night; the nights after the day they leave come off the folio and the early check-out fee
+ * goes on. A guest still in the room after their departure date is charged the late check-out fee.
+ */
+export function getCheckOutPlan(booking: BookingForCheckOut, today: string): CheckOutPlan {
+  const arrival = formatDateOnly(booking.checkIn);
+  const departure = formatDateOnly(booking.checkOut);
+  const firstDeparture = formatDateOnly(addDays(booking.checkIn, 1));
+  const checkOutDate = today >= departure ? departure : today > firstDeparture ? today : firstDeparture;
+  const early = checkOutDate < departure;
+  const released = getReleasedCharges(booking, checkOutDate);
+
+  return {
+    bookingId: booking.id,
+    resId: booking.resId,
+    status: booking.status as BookingStatus,
+    guestName: booking.guest.fullName,
+    company: booking.guest.company,
+    hotelName: booking.hotel.name,
+    roomNo: booking.rooms.map(room => room.number).join(', ') || booking.roomNo,
+    arrival,
+    departure,
+    checkOutDate,
+    checkOutTime: booking.hotel.checkOutTime,
+    early,
+    overstay: today > departure,
+    releasedNights: booking.rateLines
+      .map(line => formatDateOnly(line.date))
+      .filter(date => date >= checkOutDate),
+    releasedCharges: roundMoney(released.reduce((sum, entry) => sum + entry.total, 0)),
+    earlyFee: early ? getFee(booking, booking.hotel.earlyCheckOutFee, today).total : 0,
+    lateFee: getFee(booking, booking.hotel.lateCheckOutFee, today).total,
+    balance: getFolioTotals(booking.folioEntries).balance,
+    scheduled: roundMoney(booking.installments.reduce((sum, installment) => sum + installment.amount, 0)),
+    canInvoice: !!booking.hotel.vatNumber,
+  };
+}
+
+// Early and late departures are worth a line on the reservation's timeline
+function getCheckOutReason(plan: CheckOutPlan, late: boolean) {
+  if (plan.early) return `Early check-out on ${plan.checkOutDate}`;
+  if (plan.overstay) return `Overstayed departure of ${plan.departure}`;
+  return late ? 'Late check-out' : null;
+}
+
+export async function getCheckOut(bookingId: string) {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId }, include: checkOutInclude });
+  return booking && getCheckOutPlan(booking, formatDateOnly(new Date()));
+}
+
+/**
+ * Check a guest out. The folio has to close at zero: whatever is still owed is taken as a settlement payment or
+ * moved to a company's city ledger account, and an overpayment is refunded. A credit reservation may leave what its
+ * installment plan still covers owing. The stay is then counted on the guest's profile, the room goes back on sale
+ * marked dirty for housekeeping, and the final tax invoice is issued when the hotel is VAT registered.
+ */
+export async function checkOutReservation(id: string, input: CheckOutInput, postedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({ where: { id }, include: checkOutInclude });
+    if (!booking) {
+      throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+    }
+    assertStatusChange(booking, 'checked-out');
+
+    const today = formatDateOnly(new Date());
+    const plan = getCheckOutPlan(booking, today);
+    const checkOutDate = parseDateOnly(plan.checkOutDate);
+
+    // The nights not stayed are reversed on the folio and their rate lines kept, marked released
+    if (plan.early) {
+      await tx.bookingRateLine.updateMany({
+        where: { bookingId: id, releasedAt: null, date: { gte: checkOutDate } },
+        data: { releasedAt: new Date() },
+      });
+    }
+    const reversals = getReleasedCharges(booking, plan.checkOutDate)
+      .map(entry => toReversalEntry(entry, `Early check-out - ${entry.description}`, postedById));
+
+    const fees = [
+      { charged: plan.early, description: 'Early check-out fee', amount: booking.hotel.earlyCheckOutFee },
+      { charged: input.late || plan.overstay, description: 'Late check-out fee', amount: booking.hotel.lateCheckOutFee },
+    ].filter(fee => fee.charged && fee.amount > 0);
+    await tx.booking.update({
+      where: { id },
+      data: {
+        folioEntries: {
+          create: [
+            ...reversals,
+            ...fees.map(fee => {
+              const taxed = getFee(booking, fee.amount, today);
+              return toChargeEntry('service', fee.description, parseDateOnly(today), 1, taxed.net, taxed.taxes, postedById);
+            }),
+          ],
+        },
+      },
+    });
+
+    const totals = getFolioTotals(await tx.folioEntry.findMany({ where: { bookingId: id } }));
+    let { balance } = totals;
+
+    const { settlement } = input;
+    if (settlement) {
+      if (settlement.type === 'payment' && settlement.amount > balance) {
+        throw new ApiError(
+          409,
+          'PAYMENT_EXCEEDS_BALANCE',
+          balance > 0 ? `Only ${balance} SAR is outstanding on this folio` : 'Nothing is outstanding on this folio'
+        );
+      }
+      if (settlement.type === 'refund' && settlement.amount > -balance) {
+        throw new ApiError(
+          409,
+          'REFUND_EXCEEDS_CREDIT',
+          balance < 0 ? `Only ${-balance} SAR is owed back to the guest` : 'Nothing is owed back to the guest'
+        );
+      }
+
+      const shiftId = await getShiftForEntry(tx, postedById, settlement.method);
+      await tx.folioEntry.create({
+        data: {
+          type: settlement.type,
+          description: settlement.type === 'payment' ? 'Payment at check-out' : 'Refund at check-out',
+          date: parseDateOnly(settlement.date ?? today),
+          amount: settlement.amount,
+          total: settlement.amount,
+          method: settlement.method,
+          reference: settlement.reference || null,
+          postedById,
+          shiftId,
+          bookingId: id,
+        },
+      });
+      balance = roundMoney(settlement.type === 'payment' ? balance - settlement.amount : balance + settlement.amount);
+    }
+
+    // Owed by the company from here on, so it is not taken by any payment method or counted as collected
+    if (input.cityLedger && balance > 0) {
+      await tx.folioEntry.create({
+        data: {
+          type: 'transfer',
+          description: 'Transfer to city ledger',
+          date: parseDateOnly(today),
+          amount: balance,
+          total: balance,
+          reference: input.cityLedger.account,
+          postedById,
+          bookingId: id,
+        },
+      });
+      balance = 0;
+    }
+
+    if (balance < 0) {
+      throw new ApiError(409, 'CREDIT_OUTSTANDING', `Refund the ${-balance} SAR owed to the guest before checking out`);
+    }
+    if (balance > 0 && !(booking.paymentMethod === 'credit' && balance <= plan.scheduled)) {
+      throw new ApiError(409, 'BALANCE_OUTSTANDING', `Settle the ${balance} SAR outstanding before checking out`);
+    }
+
+    const rateLines = booking.rateLines.filter(line => formatDateOnly(line.date) < plan.checkOutDate);
+
+    await tx.guest.update({
+      where: { id: booking.guestId },
+      data: {
+        lastStay: checkOutDate,
+        totalStays: { increment: 1 },
+        totalSpent: { increment: totals.charges },
+      },
+    });
+    await tx.room.updateMany({
+      where: { id: { in: booking.rooms.map(room => room.id) } },
+      data: { status: 'available', housekeeping: 'dirty' },
+    });
+    const updated = await tx.booking.update({
+      where: { id },
+      data: {
+        status: 'checked-out',
+        checkedOutAt: new Date(),
+        checkOut: checkOutDate,
+        totalAmount: getRateLineTotals(rateLines, booking.numberOfRooms).total,
+        statusChanges: {
+          create: [toStatusChange(booking.status, 'checked-out', postedById, getCheckOutReason(plan, input.late))],
+        },
+      },
+      include: bookingInclude,
+    });
+
+    const invoice = booking.hotel.vatNumber ? await createStayInvoice(tx, id, input.invoice) : null;
+
+    return { booking: updated, invoice };
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+/** A calendar date in `YYYY-MM-DD` form, as produced by `<input type="date">`. */
+export const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format')
+  // Reject dates that don't exist (2024-02-30, 2024-13-01) rather than letting Date roll them over
+  .refine(isValidDateOnly, 'Expected a valid calendar date');
+
+function isValidDateOnly(value: string): boolean {
+  const date = parseDateOnly(value);
+  return !Number.isNaN(date.getTime()) && formatDateOnly(date) === value;
+}
+
+/**
+ * Parse a `YYYY-MM-DD` string into a UTC midnight Date so it round-trips through `@db.Date` columns unchanged.
+ */
+export function parseDateOnly(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+export function formatDateOnly(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/** Signed number of days from `from` to `to` (negative when `to` is earlier). */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/** Number of nights between two dates (0 when departure is not after arrival). */
+export function nightsBetween(arrival: Date, departure: Date): number {
+  return Math.max(daysBetween(arrival, departure), 0);
+}
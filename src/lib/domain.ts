@@ -0,0 +1,1300 @@
+import { z } from 'zod';
+import { dateOnlySchema } from '@/lib/dates';
+
+// Domain types shared by the API routes and the pages. Every shape is a zod schema so the same definition
+// validates request payloads, API responses and the sample data in public/*.json.
+
+// Enums
+
+export const BOOKING_STATUSES = ['pending', 'confirmed', 'checked-in', 'checked-out', 'cancelled', 'no-show'] as const;
+
+export const PAYMENT_METHODS = ['cash', 'credit', 'visa'] as const;
+
+export const BOARD_TYPES = ['Room only', 'Bed & breakfast', 'Half board', 'Full board'] as const;
+
+export const ROOM_STATUSES = ['available', 'occupied', 'maintenance'] as const;
+
+// A room is dirty from the moment its guest checks out until housekeeping has made it up again
+export const HOUSEKEEPING_STATUSES = ['clean', 'dirty'] as const;
+
+// Identity documents accepted at check-in
+export const ID_TYPES = ['passport', 'national-id', 'iqama', 'gcc-id'] as const;
+
+// How a rate plan's nightly rate is derived from the best available rate (BAR)
+export const RATE_DERIVATIONS = ['bar', 'percent-off', 'amount-off', 'fixed'] as const;
+
+// What a rate plan charges when its reservation is cancelled
+export const CANCELLATION_TYPES = ['free-until', 'first-night', 'non-refundable'] as const;
+
+// Why a reservation was cancelled; one has to be given with every cancellation
+export const CANCELLATION_REASONS = ['guest-request', 'duplicate', 'no-payment', 'hotel-error', 'other'] as const;
+
+// What a charge is for; each tax lists the charge types it applies to
+export const CHARGE_TYPES = ['room', 'food-beverage', 'minibar', 'laundry', 'service', 'other'] as const;
+
+// A credit note reverses all or part of a tax invoice
+export const INVOICE_TYPES = ['invoice', 'credit-note'] as const;
+
+// Charges add to what the guest owes, payments take it off and refunds give money back; a transfer moves what is
+// owed to a company's city ledger account, so it settles the folio without any money coming in
+export const FOLIO_ENTRY_TYPES = ['charge', 'payment', 'refund', 'transfer'] as const;
+
+// Where an installment of a credit plan stands, worked out from the folio balance
+export const INSTALLMENT_STATUSES = ['paid', 'partial', 'due', 'overdue'] as const;
+
+// Where a card hold stands at the payment provider; a captured hold stays captured until all of it is refunded
+export const AUTHORIZATION_STATUSES = ['authorized', 'captured', 'refunded', 'voided', 'declined'] as const;
+
+// What a line on a reservation's timeline records: a move to another status or a change to the stay
+export const TIMELINE_EVENTS = ['status', 'amendment'] as const;
+
+export const bookingStatusSchema = z.enum(BOOKING_STATUSES);
+export const paymentMethodSchema = z.enum(PAYMENT_METHODS);
+export const boardTypeSchema = z.enum(BOARD_TYPES);
+export const roomStatusSchema = z.enum(ROOM_STATUSES);
+export const housekeepingStatusSchema = z.enum(HOUSEKEEPING_STATUSES);
+export const idTypeSchema = z.enum(ID_TYPES);
+export const rateDerivationSchema = z.enum(RATE_DERIVATIONS);
+export const cancellationTypeSchema = z.enum(CANCELLATION_TYPES);
+export const cancellationReasonSchema = z.enum(CANCELLATION_REASONS);
+export const chargeTypeSchema = z.enum(CHARGE_TYPES);
+export const invoiceTypeSchema = z.enum(INVOICE_TYPES);
+export const folioEntryTypeSchema = z.enum(FOLIO_ENTRY_TYPES);
+export const installmentStatusSchema = z.enum(INSTALLMENT_STATUSES);
+export const authorizationStatusSchema = z.enum(AUTHORIZATION_STATUSES);
+export const timelineEventSchema = z.enum(TIMELINE_EVENTS);
+
+export type BookingStatus = z.infer<typeof bookingStatusSchema>;
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+export type BoardType = z.infer<typeof boardTypeSchema>;
+export type RoomStatus = z.infer<typeof roomStatusSchema>;
+export type HousekeepingStatus = z.infer<typeof housekeepingStatusSchema>;
+export type IdType = z.infer<typeof idTypeSchema>;
+export type RateDerivation = z.infer<typeof rateDerivationSchema>;
+export type CancellationType = z.infer<typeof cancellationTypeSchema>;
+export type CancellationReason = z.infer<typeof cancellationReasonSchema>;
+export type ChargeType = z.infer<typeof chargeTypeSchema>;
+export type InvoiceType = z.infer<typeof invoiceTypeSchema>;
+export type FolioEntryType = z.infer<typeof folioEntryTypeSchema>;
+export type InstallmentStatus = z.infer<typeof installmentStatusSchema>;
+export type AuthorizationStatus = z.infer<typeof authorizationStatusSchema>;
+export type TimelineEvent = z.infer<typeof timelineEventSchema>;
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, { en: string; ar: string }> = {
+  pending: { en: 'Pending', ar: 'في الانتظار' },
+  confirmed: { en: 'Confirmed', ar: 'مؤكد' },
+  'checked-in': { en: 'Checked-in', ar: 'تم تسجيل الدخول' },
+  'checked-out': { en: 'Checked-out', ar: 'تم تسجيل الخروج' },
+  cancelled: { en: 'Cancelled', ar: 'ملغي' },
+  'no-show': { en: 'No-show', ar: 'لم يحضر' },
+};
+
+// Where a reservation can go from each status. Check-in and check-out only happen through their own workflows;
+// checked-out, cancelled and no-show reservations are closed for good.
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  pending: ['confirmed', 'checked-in', 'cancelled', 'no-show'],
+  confirmed: ['checked-in', 'cancelled', 'no-show'],
+  'checked-in': ['checked-out'],
+  'checked-out': [],
+  cancelled: [],
+  'no-show': [],
+};
+
+export function canChangeStatus(from: BookingStatus, to: BookingStatus) {
+  return BOOKING_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export const ID_TYPE_LABELS: Record<IdType, { en: string; ar: string }> = {
+  passport: { en: 'Passport', ar: 'جواز سفر' },
+  'national-id': { en: 'National ID', ar: 'الهوية الوطنية' },
+  iqama: { en: 'Iqama', ar: 'الإقامة' },
+  'gcc-id': { en: 'GCC ID', ar: 'هوية خليجية' },
+};
+
+export const RATE_DERIVATION_LABELS: Record<RateDerivation, { en: string; ar: string }> = {
+  bar: { en: 'Best available rate', ar: 'أفضل سعر متاح' },
+  'percent-off': { en: 'Percentage off BAR', ar: 'نسبة خصم من أفضل سعر' },
+  'amount-off': { en: 'Amount off BAR', ar: 'مبلغ خصم من أفضل سعر' },
+  fixed: { en: 'Fixed nightly rate', ar: 'سعر ثابت لليلة' },
+};
+
+export const CANCELLATION_TYPE_LABELS: Record<CancellationType, { en: string; ar: string }> = {
+  'free-until': { en: 'Free cancellation until', ar: 'إلغاء مجاني حتى' },
+  'first-night': { en: 'First night charged', ar: 'تحتسب الليلة الأولى' },
+  'non-refundable': { en: 'Non-refundable', ar: 'غير قابل للاسترداد' },
+};
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, { en: string; ar: string }> = {
+  'guest-request': { en: 'Guest request', ar: 'بطلب من النزيل' },
+  duplicate: { en: 'Duplicate reservation', ar: 'حجز مكرر' },
+  'no-payment': { en: 'Payment not received', ar: 'لم يتم الدفع' },
+  'hotel-error': { en: 'Hotel error', ar: 'خطأ من الفندق' },
+  other: { en: 'Other', ar: 'أخرى' },
+};
+
+export const CHARGE_TYPE_LABELS: Record<ChargeType, { en: string; ar: string }> = {
+  room: { en: 'Room', ar: 'الغرفة' },
+  'food-beverage': { en: 'Food & beverage', ar: 'الطعام والمشروبات' },
+  minibar: { en: 'Minibar', ar: 'الميني بار' },
+  laundry: { en: 'Laundry', ar: 'الغسيل' },
+  service: { en: 'Service', ar: 'الخدمات' },
+  other: { en: 'Other', ar: 'أخرى' },
+};
+
+export const INVOICE_TYPE_LABELS: Record<InvoiceType, { en: string; ar: string }> = {
+  invoice: { en: 'Tax Invoice', ar: 'فاتورة ضريبية' },
+  'credit-note': { en: 'Credit Note', ar: 'إشعار دائن' },
+};
+
+export const FOLIO_ENTRY_TYPE_LABELS: Record<FolioEntryType, { en: string; ar: string }> = {
+  charge: { en: 'Charge', ar: 'رسوم' },
+  payment: { en: 'Payment', ar: 'دفعة' },
+  refund: { en: 'Refund', ar: 'استرداد' },
+  transfer: { en: 'City Ledger', ar: 'حساب المدينة' },
+};
+
+export const INSTALLMENT_STATUS_LABELS: Record<InstallmentStatus, { en: string; ar: string }> = {
+  paid: { en: 'Paid', ar: 'مدفوع' },
+  partial: { en: 'Partly paid', ar: 'مدفوع جزئياً' },
+  due: { en: 'Due', ar: 'مستحق' },
+  overdue: { en: 'Overdue', ar: 'متأخر' },
+};
+
+export const AUTHORIZATION_STATUS_LABELS: Record<AuthorizationStatus, { en: string; ar: string }> = {
+  authorized: { en: 'On hold', ar: 'محجوز' },
+  captured: { en: 'Captured', ar: 'محصل' },
+  refunded: { en: 'Refunded', ar: 'مسترد' },
+  voided: { en: 'Released', ar: 'ملغى' },
+  declined: { en: 'Declined', ar: 'مرفوض' },
+};
+
+// Hotels
+
+// Saudi VAT registration numbers have 15 digits and start and end with 3
+export const vatNumberSchema = z.string().trim().regex(/^3\d{13}3$/, 'A VAT number has 15 digits and starts and ends with 3');
+
+export const hotelInputSchema = z.object({
+  name: z.string().trim().min(1, 'Hotel name is required'),
+  code: z.string().trim().min(1, 'Hotel code is required'),
+  altName: z.string().trim().min(1, 'Alternative name is required'),
+  description: z.string().trim().optional(),
+  location: z.string().trim().optional(),
+  pricesIncludeTax: z.boolean().default(false),
+  vatNumber: vatNumberSchema.nullable().optional(),
+  crNumber: z.string().trim().nullable().optional(),
+  street: z.string().trim().nullable().optional(),
+  buildingNumber: z.string().trim().nullable().optional(),
+  city: z.string().trim().nullable().optional(),
+  postalCode: z.string().trim().nullable().optional(),
+  checkOutTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Check-out time must be HH:MM').default('12:00'),
+  earlyCheckOutFee: z.number().nonnegative().default(0),
+  lateCheckOutFee: z.number().nonnegative().default(0),
+});
+
+export const hotelUpdateSchema = hotelInputSchema.partial();
+
+export const hotelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  code: z.string(),
+  altName: z.string(),
+  description: z.string().nullable(),
+  location: z.string().nullable(),
+  pricesIncludeTax: z.boolean(),
+  vatNumber: z.string().nullable(),
+  crNumber: z.string().nullable(),
+  street: z.string().nullable(),
+  buildingNumber: z.string().nullable(),
+  city: z.string().nullable(),
+  postalCode: z.string().nullable(),
+  checkOutTime: z.string(),
+  earlyCheckOutFee: z.number(),
+  lateCheckOutFee: z.number(),
+  createdAt: dateOnlySchema,
+});
+
+export const hotelListSchema = z.array(hotelSchema);
+
+export type HotelInput = z.infer<typeof hotelInputSchema>;
+export type Hotel = z.infer<typeof hotelSchema>;
+
+// Room types (what the owner screens call a "room")
+
+// A season covers the nights from startDate through endDate, both included
+export const seasonalPriceSchema = z.object({
+  startDate: dateOnlySchema,
+  endDate: dateOnlySchema,
+  price: z.number().nonnegative(),
+}).refine(season => season.startDate <= season.endDate, {
+  message: 'Season end date must not be before its start date',
+  path: ['endDate'],
+});
+
+// Every night has at most one seasonal price, so a room type's seasons may not share a night
+export const seasonalPriceListSchema = z.array(seasonalPriceSchema).superRefine((seasons, ctx) => {
+  seasons.forEach((season, index) => {
+    const clash = seasons.findIndex((other, otherIndex) => otherIndex < index
+      && other.startDate <= season.endDate && season.startDate <= other.endDate);
+    if (clash !== -1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Season ${season.startDate} – ${season.endDate} overlaps ${seasons[clash].startDate} – ${seasons[clash].endDate}`,
+        path: [index, 'startDate'],
+      });
+    }
+  });
+});
+
+const roomTypeFields = {
+  hotelId: z.string().min(1, 'Hotel is required'),
+  roomType: z.string().trim().min(1, 'Room type is required'),
+  roomTypeDescription: z.string().trim().min(1, 'Room description is required'),
+  altDescription: z.string().trim().min(1, 'Alternative description is required'),
+  price: z.number().nonnegative(),
+  alternativePrice: z.number().nonnegative().nullable().optional(),
+  quantity: z.number().int().positive(),
+  boardType: boardTypeSchema,
+  seasonalPrices: seasonalPriceListSchema.optional(),
+  roomNumbers: z.array(z.string().trim().min(1)).optional(),
+};
+
+function roomNumbersFitQuantity(data: { quantity?: number; roomNumbers?: string[] }) {
+  return !data.roomNumbers || data.quantity === undefined || data.roomNumbers.length <= data.quantity;
+}
+
+const roomNumbersError = {
+  message: 'There are more room numbers than rooms of this type',
+  path: ['roomNumbers'],
+};
+
+export const roomTypeInputSchema = z.object(roomTypeFields)
+  .refine(roomNumbersFitQuantity, roomNumbersError);
+
+// hotelId is fixed once a room type exists; move it by deleting and re-adding
+export const roomTypeUpdateSchema = z.object(roomTypeFields)
+  .omit({ hotelId: true })
+  .partial()
+  .refine(roomNumbersFitQuantity, roomNumbersError);
+
+export const roomTypeSchema = z.object({
+  id: z.string(),
+  hotelId: z.string(),
+  hotelName: z.string(),
+  roomType: z.string(),
+  roomTypeDescription: z.string(),
+  altDescription: z.string(),
+  price: z.number(),
+  alternativePrice: z.number().nullable(),
+  quantity: z.number().int(),
+  boardType: boardTypeSchema,
+  seasonalPrices: z.array(z.object({
+    startDate: dateOnlySchema,
+    endDate: dateOnlySchema,
+    price: z.number(),
+  })),
+  roomNumbers: z.array(z.string()),
+  createdAt: dateOnlySchema,
+});
+
+export const roomTypeListSchema = z.array(roomTypeSchema);
+
+export type SeasonalPrice = z.infer<typeof seasonalPriceSchema>;
+export type RoomTypeInput = z.infer<typeof roomTypeInputSchema>;
+export type RoomTypeUpdate = z.infer<typeof roomTypeUpdateSchema>;
+export type RoomType = z.infer<typeof roomTypeSchema>;
+
+// Rate plans
+
+const ratePlanFields = {
+  hotelId: z.string().min(1, 'Hotel is required'),
+  code: z.string().trim().toUpperCase().min(1, 'Rate code is required'),
+  name: z.string().trim().min(1, 'Rate plan name is required'),
+  description: z.string().trim().nullable().optional(),
+  derivation: rateDerivationSchema,
+  derivationValue: z.number().nonnegative().default(0),
+  // Overrides the room type's board type when set
+  boardType: boardTypeSchema.nullable().optional(),
+  minStay: z.number().int().positive().nullable().optional(),
+  maxStay: z.number().int().positive().nullable().optional(),
+  // Arrival dates the plan can be sold for, both included
+  validFrom: dateOnlySchema.nullable().optional(),
+  validTo: dateOnlySchema.nullable().optional(),
+  cancellationPolicy: z.string().trim().nullable().optional(),
+  cancellationType: cancellationTypeSchema.default('free-until'),
+  // Days before arrival a free-until plan can still be cancelled without a penalty
+  freeCancellationDays: z.number().int().nonnegative().default(0),
+  active: z.boolean().default(true),
+};
+
+type RatePlanRules = {
+  derivation?: RateDerivation;
+  derivationValue?: number;
+  minStay?: number | null;
+  maxStay?: number | null;
+  validFrom?: string | null;
+  validTo?: string | null;
+};
+
+function refineRatePlan(data: RatePlanRules, ctx: z.RefinementCtx) {
+  if (data.derivation === 'percent-off' && (data.derivationValue ?? 0) > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A percentage off cannot exceed 100', path: ['derivationValue'] });
+  }
+  if (data.minStay && data.maxStay && data.minStay > data.maxStay) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Minimum stay cannot exceed maximum stay', path: ['maxStay'] });
+  }
+  if (data.validFrom && data.validTo && data.validFrom > data.validTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Valid to must not be before valid from', path: ['validTo'] });
+  }
+}
+
+export const ratePlanInputSchema = z.object(ratePlanFields).superRefine(refineRatePlan);
+
+// hotelId is fixed once a rate plan exists, like a room type's
+export const ratePlanUpdateSchema = z.object(ratePlanFields)
+  .omit({ hotelId: true })
+  .partial()
+  .superRefine(refineRatePlan);
+
+export const ratePlanSchema = z.object({
+  id: z.string(),
+  hotelId: z.string(),
+  hotelName: z.string(),
+  code: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  derivation: rateDerivationSchema,
+  derivationValue: z.number(),
+  boardType: boardTypeSchema.nullable(),
+  minStay: z.number().int().nullable(),
+  maxStay: z.number().int().nullable(),
+  validFrom: dateOnlySchema.nullable(),
+  validTo: dateOnlySchema.nullable(),
+  cancellationPolicy: z.string().nullable(),
+  cancellationType: cancellationTypeSchema,
+  freeCancellationDays: z.number().int(),
+  active: z.boolean(),
+  createdAt: dateOnlySchema,
+});
+
+export const ratePlanListSchema = z.array(ratePlanSchema);
+
+export type RatePlanInput = z.infer<typeof ratePlanInputSchema>;
+export type RatePlanUpdate = z.infer<typeof ratePlanUpdateSchema>;
+export type RatePlan = z.infer<typeof ratePlanSchema>;
+
+// Taxes
+
+const taxFields = {
+  hotelId: z.string().min(1, 'Hotel is required'),
+  code: z.string().trim().toUpperCase().min(1, 'Tax code is required'),
+  name: z.string().trim().min(1, 'Tax name is required'),
+  altName: z.string().trim().nullable().optional(),
+  // Percentage of the amount it is charged on
+  rate: z.number().nonnegative().max(100, 'A tax rate cannot exceed 100%'),
+  compound: z.boolean().default(false),
+  chargeTypes: z.array(chargeTypeSchema).min(1, 'Pick at least one charge type'),
+  // Nights and charge dates the rate applies to, both included; open-ended when empty
+  effectiveFrom: dateOnlySchema.nullable().optional(),
+  effectiveTo: dateOnlySchema.nullable().optional(),
+};
+
+function refineTax(data: { effectiveFrom?: string | null; effectiveTo?: string | null }, ctx: z.RefinementCtx) {
+  if (data.effectiveFrom && data.effectiveTo && data.effectiveFrom > data.effectiveTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Effective to must not be before effective from', path: ['effectiveTo'] });
+  }
+}
+
+export const taxInputSchema = z.object(taxFields).superRefine(refineTax);
+
+export const taxUpdateSchema = z.object(taxFields)
+  .omit({ hotelId: true })
+  .partial()
+  .superRefine(refineTax);
+
+export const taxSchema = z.object({
+  id: z.string(),
+  hotelId: z.string(),
+  hotelName: z.string(),
+  code: z.string(),
+  name: z.string(),
+  altName: z.string().nullable(),
+  rate: z.number(),
+  compound: z.boolean(),
+  chargeTypes: z.array(chargeTypeSchema),
+  effectiveFrom: dateOnlySchema.nullable(),
+  effectiveTo: dateOnlySchema.nullable(),
+  createdAt: dateOnlySchema,
+});
+
+export const taxListSchema = z.array(taxSchema);
+
+export type TaxInput = z.infer<typeof taxInputSchema>;
+export type TaxUpdate = z.infer<typeof taxUpdateSchema>;
+export type Tax = z.infer<typeof taxSchema>;
+
+// Reservations
+
+const optionalText = z.string().trim().optional();
+
+export const reservationGuestSchema = z.object({
+  fullName: z.string().trim().min(1, 'Guest name is required'),
+  email: z.string().trim().email().or(z.literal('')).optional(),
+  guestClassification: optionalText,
+  travelAgent: optionalText,
+  company: optionalText,
+  source: optionalText,
+  group: optionalText,
+  vip: z.boolean().default(false),
+  nationality: optionalText,
+  telephone: optionalText,
+  roomNo: optionalText,
+  rateCode: optionalText,
+  profileId: optionalText,
+});
+
+// Installments of a credit plan fall due between its start and completion dates
+export const MAX_INSTALLMENTS = 24;
+
+export const installmentPlanSchema = z.object({
+  count: z.number().int().min(1).max(MAX_INSTALLMENTS, `At most ${MAX_INSTALLMENTS} installments`),
+  startDate: dateOnlySchema,
+  completionDate: dateOnlySchema,
+}).refine(data => data.startDate <= data.completionDate, {
+  message: 'Payment completion date must not be before the start date',
+  path: ['completionDate'],
+});
+
+// One payment taken from the guest; a stay can be paid part by one method and part by another
+export const paymentEntryInputSchema = z.object({
+  method: paymentMethodSchema,
+  amount: z.number().positive('Amount must be more than 0'),
+  // The business date the money came in; today when left out
+  date: dateOnlySchema.optional(),
+  // Card last four, receipt number and the like
+  reference: z.string().trim().optional(),
+});
+
+// Card details go straight to the payment provider; only the brand and last four digits are kept
+export const cardInputSchema = z.object({
+  number: z.string().trim().regex(/^\d{12,19}$/, 'Card number must have 12 to 19 digits'),
+  expiry: z.string().trim().regex(/^(0[1-9]|1[0-2])\/\d{2}$/, 'Expiry must be MM/YY'),
+  cvc: z.string().trim().regex(/^\d{3,4}$/, 'CVC must have 3 or 4 digits'),
+  holder: optionalText,
+});
+
+// A deposit held on the guest's card at booking; nothing is charged until the hold is captured
+export const depositInputSchema = z.object({
+  amount: z.number().positive('Deposit must be more than 0'),
+  card: cardInputSchema,
+});
+
+export const reservationPaymentSchema = z.object({
+  // How the stay is settled; credit puts whatever is left after the payments below on an installment plan
+  method: paymentMethodSchema,
+  // Taken at booking and posted to the folio; together they may not exceed the reservation total
+  payments: z.array(paymentEntryInputSchema).default([]),
+  startDate: dateOnlySchema.optional(),
+  completionDate: dateOnlySchema.optional(),
+  // Credit only: how many installments the balance is split into
+  installments: z.number().int().min(1).max(MAX_INSTALLMENTS).default(1),
+  deposit: depositInputSchema.optional(),
+}).refine(data => data.method !== 'credit' || (data.startDate && data.completionDate), {
+  message: 'Credit payments need a start and a completion date',
+  path: ['completionDate'],
+}).refine(data => !data.startDate || !data.completionDate || data.startDate <= data.completionDate, {
+  message: 'Payment completion date must not be before the start date',
+  path: ['completionDate'],
+});
+
+export const reservationInputSchema = z.object({
+  hotelId: z.string().min(1, 'Hotel is required'),
+  roomTypeId: z.string().min(1, 'Room type is required'),
+  arrivalDate: dateOnlySchema,
+  departureDate: dateOnlySchema,
+  numberOfRooms: z.number().int().positive(),
+  ratePlanId: z.string().min(1).optional(),
+  roomRate: z.number().positive().optional(),
+  guest: reservationGuestSchema,
+  payment: reservationPaymentSchema,
+}).refine(data => data.arrivalDate < data.departureDate, {
+  message: 'Departure date must be after arrival date',
+  path: ['departureDate'],
+});
+
+export type ReservationInput = z.infer<typeof reservationInputSchema>;
+export type CardInput = z.infer<typeof cardInputSchema>;
+export type DepositInput = z.infer<typeof depositInputSchema>;
+
+// The guest as recorded on one reservation (stay dates and rate included), as the booking form edits it
+export const bookingGuestSchema = z.object({
+  fullName: z.string(),
+  email: z.string().default(''),
+  guestClassification: z.string(),
+  travelAgent: z.string(),
+  company: z.string(),
+  source: z.string(),
+  group: z.string(),
+  arrival: z.string(),
+  departure: z.string(),
+  vip: z.boolean(),
+  nationality: z.string(),
+  telephone: z.string(),
+  roomNo: z.string(),
+  rateCode: z.string(),
+  roomRate: z.number(),
+  payment: z.string(),
+  resId: z.string(),
+  profileId: z.string(),
+});
+
+// The room type a reservation is for, flattened for display
+export const bookingRoomSchema = z.object({
+  id: z.string(),
+  hotelId: z.string(),
+  type: z.string(),
+  boardType: boardTypeSchema,
+  description: z.string(),
+  rate: z.number(),
+  available: z.boolean(),
+  status: roomStatusSchema,
+});
+
+// What a reservation has taken by one payment method, net of refunds
+export const paymentMethodTotalSchema = z.object({
+  method: paymentMethodSchema,
+  amount: z.number(),
+});
+
+// How a reservation is paid; amount and remainingBalance are the folio's payments (net of refunds) and balance
+export const paymentSchema = z.object({
+  method: paymentMethodSchema,
+  amount: z.number(),
+  date: z.string(),
+  startDate: z.string().optional(),
+  completionDate: z.string().optional(),
+  remainingBalance: z.number(),
+  byMethod: z.array(paymentMethodTotalSchema).default([]),
+});
+
+// One tax charged on a rate line, as it stood when the reservation was made
+export const rateLineTaxSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  rate: z.number(),
+  amount: z.number(),
+});
+
+// One night of a reservation as priced at booking time; price and tax are per room
+export const bookingRateLineSchema = z.object({
+  date: dateOnlySchema,
+  rateCode: z.string().nullable(),
+  roomType: z.string(),
+  price: z.number(),
+  tax: z.number(),
+  taxes: z.array(rateLineTaxSchema).default([]),
+  seasonal: z.boolean(),
+});
+
+export const installmentSchema = z.object({
+  id: z.string(),
+  sequence: z.number().int(),
+  dueDate: dateOnlySchema,
+  amount: z.number(),
+  // Part of the amount not yet covered by payments on the folio
+  outstanding: z.number(),
+  status: installmentStatusSchema,
+});
+
+export const bookingSchema = z.object({
+  id: z.string(),
+  resId: z.string(),
+  guest: bookingGuestSchema,
+  room: bookingRoomSchema,
+  numberOfRooms: z.number().int().positive(),
+  payment: paymentSchema,
+  status: bookingStatusSchema,
+  createdAt: z.string(),
+  totalAmount: z.number(),
+  nights: z.number().int(),
+  rateLines: z.array(bookingRateLineSchema).default([]),
+  installments: z.array(installmentSchema).default([]),
+});
+
+export const bookingListSchema = z.array(bookingSchema);
+
+export type BookingGuest = z.infer<typeof bookingGuestSchema>;
+export type BookingRoom = z.infer<typeof bookingRoomSchema>;
+export type PaymentEntryInput = z.infer<typeof paymentEntryInputSchema>;
+export type PaymentMethodTotal = z.infer<typeof paymentMethodTotalSchema>;
+export type Payment = z.infer<typeof paymentSchema>;
+export type RateLineTax = z.infer<typeof rateLineTaxSchema>;
+export type Installment = z.infer<typeof installmentSchema>;
+export type InstallmentPlan = z.infer<typeof installmentPlanSchema>;
+export type BookingRateLine = z.infer<typeof bookingRateLineSchema>;
+export type Booking = z.infer<typeof bookingSchema>;
+
+// Status history
+
+// The statuses staff set by hand; the others come with check-in, check-out and cancellation
+export const statusChangeInputSchema = z.object({
+  status: z.enum(['confirmed', 'no-show']),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const cancellationInputSchema = z.object({
+  reasonCode: cancellationReasonSchema,
+  reason: z.string().trim().max(500).optional(),
+  // Gives back what the guest paid beyond the penalty; needs the folio:refund permission
+  refund: paymentEntryInputSchema.pick({ method: true, reference: true }).optional(),
+});
+
+// What cancelling a reservation now would cost under its rate plan's policy, for the cancel dialog to confirm
+export const cancellationQuoteSchema = z.object({
+  bookingId: z.string(),
+  resId: z.string(),
+  status: bookingStatusSchema,
+  guestName: z.string(),
+  arrival: dateOnlySchema,
+  departure: dateOnlySchema,
+  ratePlanName: z.string().nullable(),
+  cancellationType: cancellationTypeSchema,
+  freeCancellationDays: z.number().int(),
+  cancellationPolicy: z.string().nullable(),
+  // Negative once the arrival date has passed
+  daysBeforeArrival: z.number().int(),
+  // Nights whose room charges stay on the folio as the penalty; the others come off
+  penaltyNights: z.array(dateOnlySchema),
+  penalty: z.number(),
+  releasedCharges: z.number(),
+  // The folio balance once the cancellation is posted; negative when the guest is owed money back
+  balance: z.number(),
+  refund: z.number(),
+});
+
+export const statusChangeSchema = z.object({
+  id: z.string(),
+  event: timelineEventSchema.default('status'),
+  fromStatus: bookingStatusSchema.nullable(),
+  toStatus: bookingStatusSchema,
+  reason: z.string().nullable(),
+  changedBy: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const statusHistorySchema = z.array(statusChangeSchema);
+
+export type StatusChangeInput = z.infer<typeof statusChangeInputSchema>;
+export type CancellationInput = z.infer<typeof cancellationInputSchema>;
+export type CancellationQuote = z.infer<typeof cancellationQuoteSchema>;
+export type StatusChange = z.infer<typeof statusChangeSchema>;
+
+// Amendments
+
+// Once the guest has arrived the stay changes through check-out instead
+export const AMENDABLE_STATUSES: readonly BookingStatus[] = ['pending', 'confirmed'];
+
+// A change to the stay of a pending or confirmed reservation; its guest, rate plan and payments stay as they are
+export const amendmentInputSchema = z.object({
+  roomTypeId: z.string().min(1, 'Room type is required'),
+  arrivalDate: dateOnlySchema,
+  departureDate: dateOnlySchema,
+  numberOfRooms: z.number().int().positive(),
+}).refine(data => data.arrivalDate < data.departureDate, {
+  message: 'Departure date must be after arrival date',
+  path: ['departureDate'],
+});
+
+const amendmentStaySchema = z.object({
+  roomType: z.string(),
+  arrival: dateOnlySchema,
+  departure: dateOnlySchema,
+  nights: z.number().int(),
+  numberOfRooms: z.number().int(),
+  total: z.number(),
+});
+
+// The reservation before and after an amendment, for the booking screen to confirm
+export const amendmentSchema = z.object({
+  bookingId: z.string(),
+  resId: z.string(),
+  before: amendmentStaySchema,
+  after: amendmentStaySchema,
+  rateLines: z.array(bookingRateLineSchema),
+  // Nights priced at today's rates; the nights kept stay at the rate the guest was quoted
+  repricedNights: z.array(dateOnlySchema),
+  difference: z.number(),
+  // The folio balance once the amendment is posted; negative when the guest has paid more than the new total
+  balance: z.number(),
+});
+
+export type AmendmentInput = z.infer<typeof amendmentInputSchema>;
+export type Amendment = z.infer<typeof amendmentSchema>;
+
+// Folios
+
+const folioChargeInputSchema = z.object({
+  type: z.literal('charge'),
+  chargeType: chargeTypeSchema,
+  description: z.string().trim().min(1, 'Description is required'),
+  // The business date the charge belongs to; today when left out
+  date: dateOnlySchema.optional(),
+  quantity: z.number().int().positive().default(1),
+  // Per unit, including tax when the hotel's prices include tax
+  unitPrice: z.number().positive('Price must be more than 0'),
+});
+
+const folioPaymentInputSchema = paymentEntryInputSchema.extend({
+  type: z.literal('payment'),
+});
+
+const folioRefundInputSchema = folioPaymentInputSchema.extend({
+  type: z.literal('refund'),
+  reference: z.string().trim().min(1, 'A refund needs a reason'),
+});
+
+export const folioEntryInputSchema = z.discriminatedUnion('type', [
+  folioChargeInputSchema,
+  folioPaymentInputSchema,
+  folioRefundInputSchema,
+]);
+
+export const folioEntrySchema = z.object({
+  id: z.string(),
+  type: folioEntryTypeSchema,
+  chargeType: chargeTypeSchema.nullable(),
+  description: z.string(),
+  date: dateOnlySchema,
+  quantity: z.number().int(),
+  unitPrice: z.number(),
+  amount: z.number(),
+  tax: z.number(),
+  total: z.number(),
+  taxes: z.array(rateLineTaxSchema),
+  method: paymentMethodSchema.nullable(),
+  reference: z.string().nullable(),
+  postedBy: z.string().nullable(),
+  createdAt: z.string(),
+  // What the guest owes after this entry
+  balance: z.number(),
+});
+
+export const paymentAuthorizationSchema = z.object({
+  id: z.string(),
+  provider: z.string(),
+  reference: z.string(),
+  status: authorizationStatusSchema,
+  amount: z.number(),
+  captured: z.number(),
+  refunded: z.number(),
+  overpaid: z.number().default(0),
+  cardBrand: z.string().nullable(),
+  cardLast4: z.string().nullable(),
+  declineReason: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+// Capture all of a hold or, with an amount, part of it; the rest is released
+export const captureInputSchema = z.object({
+  amount: z.number().positive('Amount must be more than 0').optional(),
+});
+
+export const authorizationRefundInputSchema = z.object({
+  amount: z.number().positive('Amount must be more than 0'),
+  reason: z.string().trim().min(1, 'A refund needs a reason'),
+});
+
+// A status change a payment provider reports through its webhook
+export const gatewayEventSchema = z.object({
+  reference: z.string().min(1),
+  status: z.enum(['captured', 'refunded', 'voided', 'declined']),
+  amount: z.number().nonnegative().default(0),
+  reason: z.string().optional(),
+});
+
+export const folioTotalsSchema = z.object({
+  charges: z.number(),
+  tax: z.number(),
+  payments: z.number(),
+  refunds: z.number(),
+  transfers: z.number().default(0),
+  balance: z.number(),
+});
+
+export const folioSchema = z.object({
+  bookingId: z.string(),
+  resId: z.string(),
+  hotelId: z.string(),
+  hotelName: z.string(),
+  guestName: z.string(),
+  arrival: dateOnlySchema,
+  departure: dateOnlySchema,
+  status: bookingStatusSchema,
+  entries: z.array(folioEntrySchema),
+  totals: folioTotalsSchema,
+  installments: z.array(installmentSchema),
+  authorizations: z.array(paymentAuthorizationSchema).default([]),
+});
+
+export type FolioEntryInput = z.infer<typeof folioEntryInputSchema>;
+export type PaymentAuthorization = z.infer<typeof paymentAuthorizationSchema>;
+export type CaptureInput = z.infer<typeof captureInputSchema>;
+export type AuthorizationRefundInput = z.infer<typeof authorizationRefundInputSchema>;
+export type GatewayEvent = z.infer<typeof gatewayEventSchema>;
+export type FolioEntry = z.infer<typeof folioEntrySchema>;
+export type FolioTotals = z.infer<typeof folioTotalsSchema>;
+export type Folio = z.infer<typeof folioSchema>;
+
+// Receivables
+
+// An installment still owed, with the reservation it belongs to
+export const receivableSchema = installmentSchema.extend({
+  bookingId: z.string(),
+  resId: z.string(),
+  hotelId: z.string(),
+  hotelName: z.string(),
+  guestName: z.string(),
+  telephone: z.string(),
+  daysOverdue: z.number().int(),
+});
+
+export const receivableListSchema = z.array(receivableSchema);
+
+export type Receivable = z.infer<typeof receivableSchema>;
+
+// Cashier shifts
+
+export const shiftOpenInputSchema = z.object({
+  // Cash in the drawer when the shift starts
+  openingFloat: z.number().nonnegative('Opening float cannot be negative'),
+});
+
+export const shiftCloseInputSchema = z.object({
+  countedCash: z.number().nonnegative('Counted cash cannot be negative'),
+  // The card terminal's settlement total for the shift
+  countedCard: z.number().nonnegative('Counted card total cannot be negative'),
+  notes: z.string().trim().optional(),
+});
+
+// One drawer of a shift: what went in and out, what should be there and, once closed, what was counted
+export const shiftDrawerSchema = z.object({
+  payments: z.number(),
+  refunds: z.number(),
+  expected: z.number(),
+  counted: z.number().nullable(),
+  // Counted less expected; negative when the drawer is short
+  variance: z.number().nullable(),
+});
+
+export const shiftSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  cashier: z.string(),
+  status: z.enum(['open', 'closed']),
+  openedAt: z.string(),
+  closedAt: z.string().nullable(),
+  openingFloat: z.number(),
+  cash: shiftDrawerSchema,
+  card: shiftDrawerSchema,
+  notes: z.string().nullable(),
+  transactionCount: z.number().int(),
+});
+
+// A payment or refund taken on a shift, for the reconciliation report
+export const shiftTransactionSchema = z.object({
+  id: z.string(),
+  type: folioEntryTypeSchema,
+  method: paymentMethodSchema.nullable(),
+  amount: z.number(),
+  reference: z.string().nullable(),
+  bookingId: z.string(),
+  resId: z.string(),
+  guestName: z.string(),
+  createdAt: z.string(),
+});
+
+export const shiftReportSchema = shiftSchema.extend({
+  transactions: z.array(shiftTransactionSchema),
+});
+
+export const shiftListSchema = z.array(shiftSchema);
+
+export type ShiftOpenInput = z.infer<typeof shiftOpenInputSchema>;
+export type ShiftCloseInput = z.infer<typeof shiftCloseInputSchema>;
+export type ShiftDrawer = z.infer<typeof shiftDrawerSchema>;
+export type Shift = z.infer<typeof shiftSchema>;
+export type ShiftTransaction = z.infer<typeof shiftTransactionSchema>;
+export type ShiftReport = z.infer<typeof shiftReportSchema>;
+
+// Check-in
+
+// The identity document a guest shows at the desk; it is kept on their profile for the next stay
+export const guestIdentityInputSchema = z.object({
+  idType: idTypeSchema,
+  idNumber: z.string().trim().min(1, 'ID number is required'),
+  // Country that issued the document
+  idCountry: z.string().trim().min(1, 'Issuing country is required'),
+  idExpiry: dateOnlySchema.optional(),
+  dateOfBirth: dateOnlySchema.optional(),
+  nationality: optionalText,
+});
+
+export const checkInInputSchema = z.object({
+  // One room for each room booked
+  roomIds: z.array(z.string().min(1))
+    .min(1, 'Pick a room')
+    .refine(ids => new Set(ids).size === ids.length, 'Pick each room only once'),
+  identity: guestIdentityInputSchema,
+  // Taken at the desk and posted to the folio
+  payment: paymentEntryInputSchema.optional(),
+  // Held on the guest's card against the stay and incidentals
+  deposit: depositInputSchema.optional(),
+});
+
+export const guestIdentitySchema = z.object({
+  idType: idTypeSchema.nullable(),
+  idNumber: z.string().nullable(),
+  idCountry: z.string().nullable(),
+  idExpiry: dateOnlySchema.nullable(),
+  dateOfBirth: dateOnlySchema.nullable(),
+  nationality: z.string().nullable(),
+});
+
+// A physical room of the booked type; only vacant, clean rooms can be assigned
+export const checkInRoomSchema = z.object({
+  id: z.string(),
+  number: z.string(),
+  status: roomStatusSchema,
+  housekeeping: housekeepingStatusSchema,
+  assignable: z.boolean(),
+});
+
+// What the check-in screen and the registration card show
+export const registrationSchema = z.object({
+  booking: bookingSchema,
+  hotelName: z.string(),
+  hotelAltName: z.string(),
+  hotelLocation: z.string().nullable(),
+  checkOutTime: z.string(),
+  checkedInAt: z.string().nullable(),
+  identity: guestIdentitySchema,
+  rooms: z.array(checkInRoomSchema),
+  authorizations: z.array(paymentAuthorizationSchema),
+});
+
+export type GuestIdentityInput = z.infer<typeof guestIdentityInputSchema>;
+export type CheckInInput = z.infer<typeof checkInInputSchema>;
+export type GuestIdentity = z.infer<typeof guestIdentitySchema>;
+export type CheckInRoom = z.infer<typeof checkInRoomSchema>;
+export type Registration = z.infer<typeof registrationSchema>;
+
+// Invoices
+
+// Stays whose charges are final: a completed stay, or the penalty kept for a cancellation or no-show
+export const INVOICEABLE_STATUSES: readonly BookingStatus[] = ['checked-out', 'cancelled', 'no-show'];
+
+export const invoiceIssueSchema = z.object({
+  buyerName: z.string().trim().optional(),
+  // A buyer with a VAT number gets a standard (B2B) invoice, everyone else a simplified one
+  buyerVatNumber: vatNumberSchema.or(z.literal('')).optional(),
+});
+
+export const creditNoteInputSchema = z.object({
+  reason: z.string().trim().min(1, 'A credit note needs a reason'),
+  // VAT-inclusive amount to refund; the whole invoice when left out
+  amount: z.number().positive().optional(),
+});
+
+export const invoiceLineSchema = z.object({
+  position: z.number().int(),
+  description: z.string(),
+  altDescription: z.string().nullable(),
+  quantity: z.number(),
+  unitPrice: z.number(),
+  netAmount: z.number(),
+  vatRate: z.number(),
+  vatAmount: z.number(),
+  total: z.number(),
+});
+
+export const invoiceSellerSchema = z.object({
+  name: z.string(),
+  altName: z.string(),
+  vatNumber: z.string().nullable(),
+  crNumber: z.string().nullable(),
+  street: z.string().nullable(),
+  buildingNumber: z.string().nullable(),
+  city: z.string().nullable(),
+  postalCode: z.string().nullable(),
+});
+
+export const invoiceSchema = z.object({
+  id: z.string(),
+  number: z.string(),
+  sequence: z.number().int(),
+  type: invoiceTypeSchema,
+  simplified: z.boolean(),
+  uuid: z.string(),
+  issuedAt: z.string(),
+  currency: z.string(),
+  hotelId: z.string(),
+  seller: invoiceSellerSchema,
+  bookingId: z.string(),
+  resId: z.string(),
+  arrival: dateOnlySchema,
+  departure: dateOnlySchema,
+  buyerName: z.string().nullable(),
+  buyerVatNumber: z.string().nullable(),
+  reason: z.string().nullable(),
+  originalInvoiceId: z.string().nullable(),
+  originalNumber: z.string().nullable(),
+  subtotal: z.number(),
+  vatTotal: z.number(),
+  total: z.number(),
+  // VAT-inclusive amount already refunded by credit notes against this invoice
+  credited: z.number(),
+  hash: z.string(),
+  previousHash: z.string(),
+  qrCode: z.string(),
+  lines: z.array(invoiceLineSchema),
+});
+
+export const invoiceListSchema = z.array(invoiceSchema);
+
+export type InvoiceIssue = z.infer<typeof invoiceIssueSchema>;
+export type CreditNoteInput = z.infer<typeof creditNoteInputSchema>;
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+export type Invoice = z.infer<typeof invoiceSchema>;
+
+// Check-out
+
+export const checkOutInputSchema = z.object({
+  // Charge the hotel's late check-out fee; always charged once the guest has stayed past their departure date
+  late: z.boolean().default(false),
+  // Takes what the guest still owes, or gives back what they overpaid, so the folio closes at zero
+  settlement: paymentEntryInputSchema.extend({
+    type: z.enum(['payment', 'refund']),
+  }).optional(),
+  // Moves what is still owed to a company's account; needs the folio:city-ledger permission
+  cityLedger: z.object({
+    account: z.string().trim().min(1, 'City ledger account is required'),
+  }).optional(),
+  invoice: invoiceIssueSchema.default({}),
+});
+
+// What checking a guest out now would do to their folio, for the check-out screen to confirm
+export const checkOutPlanSchema = z.object({
+  bookingId: z.string(),
+  resId: z.string(),
+  status: bookingStatusSchema,
+  guestName: z.string(),
+  company: z.string().nullable(),
+  hotelName: z.string(),
+  roomNo: z.string().nullable(),
+  arrival: dateOnlySchema,
+  departure: dateOnlySchema,
+  // The date the stay ends on; earlier than departure when the guest leaves early
+  checkOutDate: dateOnlySchema,
+  checkOutTime: z.string(),
+  early: z.boolean(),
+  overstay: z.boolean(),
+  // Nights not stayed, whose room charges come off the folio
+  releasedNights: z.array(dateOnlySchema),
+  releasedCharges: z.number(),
+  earlyFee: z.number(),
+  lateFee: z.number(),
+  balance: z.number(),
+  // What is left on an installment plan, which can stay owed after check-out
+  scheduled: z.number(),
+  canInvoice: z.boolean(),
+});
+
+export const checkOutResultSchema = z.object({
+  booking: bookingSchema,
+  invoiceId: z.string().nullable(),
+});
+
+export type CheckOutInput = z.infer<typeof checkOutInputSchema>;
+export type CheckOutPlan = z.infer<typeof checkOutPlanSchema>;
+export type CheckOutResult = z.infer<typeof checkOutResultSchema>;
+
+// Housekeeping
+
+// A physical room as the housekeeping board lists it; rooms are marked dirty at check-out
+export const housekeepingRoomSchema = z.object({
+  id: z.string(),
+  number: z.string(),
+  hotelId: z.string(),
+  hotelName: z.string(),
+  roomType: z.string(),
+  status: roomStatusSchema,
+  housekeeping: housekeepingStatusSchema,
+});
+
+export const housekeepingRoomListSchema = z.array(housekeepingRoomSchema);
+
+export const housekeepingUpdateSchema = z.object({
+  housekeeping: housekeepingStatusSchema,
+});
+
+export type HousekeepingRoom = z.infer<typeof housekeepingRoomSchema>;
+export type HousekeepingUpdate = z.infer<typeof housekeepingUpdateSchema>;
+
+// Guest profiles
+
+export const guestProfileSchema = z.object({
+  id: z.string(),
+  fullName: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  guestClassification: z.string(),
+  telephone: z.string(),
+  nationality: z.string(),
+  passportNumber: z.string(),
+  dateOfBirth: z.string(),
+  gender: z.enum(['male', 'female']),
+  address: z.string(),
+  city: z.string(),
+  country: z.string(),
+  company: z.string(),
+  travelAgent: z.string(),
+  source: z.string(),
+  group: z.string(),
+  vip: z.boolean(),
+  profileId: z.string(),
+  preferences: z.object({
+    roomType: z.string(),
+    bedType: z.string(),
+    smokingPreference: z.enum(['smoking', 'non-smoking']),
+    floorPreference: z.string(),
+    specialRequests: z.array(z.string()),
+  }),
+  loyaltyProgram: z.object({
+    member: z.boolean(),
+    level: z.enum(['bronze', 'silver', 'gold', 'platinum']),
+    points: z.number(),
+  }),
+  emergencyContact: z.object({
+    name: z.string(),
+    relationship: z.string(),
+    phone: z.string(),
+  }),
+  createdAt: z.string(),
+  lastStay: z.string(),
+  totalStays: z.number(),
+  totalSpent: z.number(),
+  notes: z.string(),
+});
+
+export type GuestProfile = z.infer<typeof guestProfileSchema>;
+
+// Tape chart: physical rooms by dates, with reservations drawn as bars
+
+export const tapeChartBarSchema = z.object({
+  bookingId: z.string(),
+  resId: z.string(),
+  guestName: z.string(),
+  status: bookingStatusSchema,
+  checkIn: dateOnlySchema,
+  checkOut: dateOnlySchema,
+  // Column range [startIndex, endIndex) inside the chart window
+  startIndex: z.number().int(),
+  endIndex: z.number().int(),
+  startsBefore: z.boolean(),
+  endsAfter: z.boolean(),
+});
+
+export const tapeChartRowSchema = z.object({
+  // null for overflow rows holding reservations that no numbered room could take
+  roomId: z.string().nullable(),
+  label: z.string(),
+  status: roomStatusSchema.nullable(),
+  bars: z.array(tapeChartBarSchema),
+});
+
+export const tapeChartRoomTypeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  quantity: z.number().int(),
+  rows: z.array(tapeChartRowSchema),
+  // Rooms sold on each night of the window
+  sold: z.array(z.number().int()),
+});
+
+export const tapeChartSchema = z.object({
+  hotelId: z.string(),
+  from: dateOnlySchema,
+  to: dateOnlySchema,
+  dates: z.array(dateOnlySchema),
+  roomTypes: z.array(tapeChartRoomTypeSchema),
+});
+
+export type TapeChartBar = z.infer<typeof tapeChartBarSchema>;
+export type TapeChartRow = z.infer<typeof tapeChartRowSchema>;
+export type TapeChartRoomType = z.infer<typeof tapeChartRoomTypeSchema>;
+export type TapeChart = z.infer<typeof tapeChartSchema>;
+
+// Inventory: how many rooms of a type can still be sold on each night
+
+export const inventoryNightSchema = z.object({
+  date: dateOnlySchema,
+  total: z.number().int(),
+  sold: z.number().int(),
+  outOfOrder: z.number().int(),
+  available: z.number().int(),
+});
+
+export const roomTypeInventorySchema = z.object({
+  roomTypeId: z.string(),
+  hotelId: z.string(),
+  name: z.string(),
+  nights: z.array(inventoryNightSchema),
+  // Rooms free on every night of the range, i.e. the most a single reservation can take
+  available: z.number().int(),
+});
+
+export const inventoryListSchema = z.array(roomTypeInventorySchema);
+
+export type InventoryNight = z.infer<typeof inventoryNightSchema>;
+export type RoomTypeInventory = z.infer<typeof roomTypeInventorySchema>;
+
+// Sample data in public/*.json
+
+export const staticHotelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  code: z.string(),
+  location: z.string(),
+  rating: z.number(),
+  description: z.string(),
+  amenities: z.array(z.string()),
+  contact: z.object({
+    phone: z.string(),
+    email: z.string(),
+    address: z.string(),
+  }),
+});
+
+export const staticRoomSchema = bookingRoomSchema.extend({
+  roomNumber: z.string(),
+  capacity: z.number().int(),
+  amenities: z.array(z.string()),
+  size: z.string(),
+  floor: z.number().int(),
+  availableCount: z.number().int().optional(),
+});
+
+export const staticBookingSchema = bookingSchema.extend({
+  room: staticRoomSchema,
+  numberOfRooms: z.number().int().positive().default(1),
+  checkInDate: z.string().optional(),
+  cancelledAt: z.string().optional(),
+});
+
+export const staticHotelListSchema = z.array(staticHotelSchema);
+export const staticRoomListSchema = z.array(staticRoomSchema);
+export const staticBookingListSchema = z.array(staticBookingSchema);
+
+export type StaticHotel = z.infer<typeof staticHotelSchema>;
+export type StaticRoom = z.infer<typeof staticRoomSchema>;
+export type StaticBooking = z.infer<typeof staticBookingSchema>;
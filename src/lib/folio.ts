@@ -0,0 +1,275 @@
+import {
+  Prisma,
+  type FolioEntry as FolioEntryRow,
+  type FolioEntryTax,
+  type PaymentAuthorization as PaymentAuthorizationRow,
+} from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { formatDateOnly, parseDateOnly } from '@/lib/dates';
+import { roundMoney } from '@/lib/pricing';
+import { serializeInstallments } from '@/lib/installments';
+import { getShiftForEntry } from '@/lib/shifts';
+import { applyTaxes, serializeTax, type TaxAmount } from '@/lib/taxes';
+import {
+  PAYMENT_METHODS,
+  type AuthorizationStatus,
+  type ChargeType,
+  type Folio,
+  type FolioEntryInput,
+  type FolioEntryType,
+  type FolioTotals,
+  type PaymentAuthorization,
+  type PaymentMethod,
+  type PaymentMethodTotal,
+} from '@/lib/domain';
+
+export const folioEntryInclude = {
+  taxes: true,
+  postedBy: { select: { name: true, username: true } },
+} satisfies Prisma.FolioEntryInclude;
+
+export const folioInclude = {
+  hotel: true,
+  guest: true,
+  folioEntries: {
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    include: folioEntryInclude,
+  },
+  installments: { orderBy: { sequence: 'asc' } },
+  authorizations: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.BookingInclude;
+
+type BookingWithFolio = Prisma.BookingGetPayload<{ include: typeof folioInclude }>;
+
+type FolioAmounts = { type: string; amount: number; tax: number; total: number };
+
+// A folio closes to new charges once the stay is over or called off; money can still be taken or refunded
+const CLOSED_FOLIO_STATUSES = ['cancelled', 'checked-out', 'no-show'];
+
+/**
+ * Sum a folio's entries. The balance is what the guest still owes: charges less payments and city ledger transfers,
+ * plus refunds paid out. Reversals are negative charges, so they come off the charges.
+ */
+export function getFolioTotals(entries: FolioAmounts[]): FolioTotals {
+  const sum = (type: FolioEntryType, field: 'amount' | 'tax' | 'total') => roundMoney(entries
+    .filter(entry => entry.type === type)
+    .reduce((total, entry) => total + entry[field], 0));
+
+  const charges = sum('charge', 'total');
+  const payments = sum('payment', 'total');
+  const refunds = sum('refund', 'total');
+  const transfers = sum('transfer', 'total');
+
+  return {
+    charges,
+    tax: sum('charge', 'tax'),
+    payments,
+    refunds,
+    transfers,
+    balance: roundMoney(charges - payments - transfers + refunds),
+  };
+}
+
+/**
+ * What a folio has taken by each payment method, net of refunds made the same way. Methods never used are left out,
+ * and so are city ledger transfers, which are owed by the company rather than collected.
+ */
+export function getPaymentsByMethod(entries: (FolioAmounts & { method: string | null })[]): PaymentMethodTotal[] {
+  return PAYMENT_METHODS
+    .map(method => ({
+      method,
+      amount: roundMoney(entries
+        .filter(entry => entry.method === method && (entry.type === 'payment' || entry.type === 'refund'))
+        .reduce((total, entry) => total + (entry.type === 'payment' ? entry.total : -entry.total), 0)),
+    }))
+    .filter(total => total.amount !== 0);
+}
+
+function getBalanceChange(entry: FolioAmounts) {
+  return entry.type === 'payment' || entry.type === 'transfer' ? -entry.total : entry.total;
+}
+
+/**
+ * Shape a reservation's folio for the folio screen, with the running balance after each entry.
+ */
+export function serializeFolio(booking: BookingWithFolio): Folio {
+  const totals = getFolioTotals(booking.folioEntries);
+  let balance = 0;
+
+  return {
+    bookingId: booking.id,
+    resId: booking.resId,
+    hotelId: booking.hotelId,
+    hotelName: booking.hotel.name,
+    guestName: booking.guest.fullName,
+    arrival: formatDateOnly(booking.checkIn),
+    departure: formatDateOnly(booking.checkOut),
+    status: booking.status as Folio['status'],
+    entries: booking.folioEntries.map(entry => {
+      balance = roundMoney(balance + getBalanceChange(entry));
+      return {
+        id: entry.id,
+        type: entry.type as FolioEntryType,
+        chargeType: entry.chargeType as ChargeType | null,
+        description: entry.description,
+        date: formatDateOnly(entry.date),
+        quantity: entry.quantity,
+        unitPrice: entry.unitPrice,
+        amount: entry.amount,
+        tax: entry.tax,
+        total: entry.total,
+        taxes: entry.taxes.map(tax => ({ code: tax.code, name: tax.name, rate: tax.rate, amount: tax.amount })),
+        method: entry.method as PaymentMethod | null,
+        reference: entry.reference,
+        postedBy: entry.postedBy ? entry.postedBy.name ?? entry.postedBy.username : null,
+        createdAt: entry.createdAt.toISOString(),
+        balance,
+      };
+    }),
+    totals,
+    installments: serializeInstallments(booking.installments, totals.balance),
+    authorizations: booking.authorizations.map(serializeAuthorization),
+  };
+}
+
+export function serializeAuthorization(authorization: PaymentAuthorizationRow): PaymentAuthorization {
+  return {
+    id: authorization.id,
+    provider: authorization.provider,
+    reference: authorization.reference,
+    status: authorization.status as AuthorizationStatus,
+    amount: authorization.amount,
+    captured: authorization.captured,
+    refunded: authorization.refunded,
+    overpaid: authorization.overpaid,
+    cardBrand: authorization.cardBrand,
+    cardLast4: authorization.cardLast4,
+    declineReason: authorization.declineReason,
+    createdAt: authorization.createdAt.toISOString(),
+  };
+}
+
+/**
+ * The folio entry for one charge, with its taxes as nested creates.
+ */
+export function toChargeEntry(
+  chargeType: ChargeType,
+  description: string,
+  date: Date,
+  quantity: number,
+  net: number,
+  taxes: TaxAmount[],
+  postedById: string | null
+) {
+  const tax = roundMoney(taxes.reduce((sum, line) => sum + line.amount, 0));
+  return {
+    type: 'charge',
+    chargeType,
+    description,
+    date,
+    quantity,
+    unitPrice: roundMoney(net / quantity),
+    amount: net,
+    tax,
+    total: roundMoney(net + tax),
+    postedById,
+    taxes: { create: taxes },
+  };
+}
+
+/**
+ * The charges still standing on a folio: reversals, and the charges they took back off, are left out.
+ */
+export function getOpenCharges<T extends Pick<FolioEntryRow, 'id' | 'type' | 'reversesId'>>(entries: T[]) {
+  const reversed = new Set(entries.map(entry => entry.reversesId).filter(id => id !== null));
+  return entries.filter(entry => entry.type === 'charge' && !entry.reversesId && !reversed.has(entry.id));
+}
+
+/**
+ * The folio entry that takes a charge back off: the same charge with its amounts and taxes negated, pointing at it.
+ */
+export function toReversalEntry(entry: FolioEntryRow & { taxes: FolioEntryTax[] }, description: string, postedById: string | null) {
+  return {
+    ...toChargeEntry(
+      entry.chargeType as ChargeType,
+      description,
+      entry.date,
+      entry.quantity,
+      -entry.amount,
+      entry.taxes.map(tax => ({ code: tax.code, name: tax.name, rate: tax.rate, amount: -tax.amount, taxId: tax.taxId })),
+      postedById
+    ),
+    reversesId: entry.id,
+  };
+}
+
+/**
+ * Post a charge, payment or refund to a reservation's folio. Charges are taxed with the hotel's taxes in force on
+ * their date; a payment cannot take more than the balance and a refund cannot return more than the folio has taken in.
+ */
+export async function postFolioEntry(bookingId: string, input: FolioEntryInput, postedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      include: { hotel: { include: { taxes: true } }, folioEntries: true },
+    });
+    if (!booking) {
+      throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+    }
+
+    const date = input.date ?? formatDateOnly(new Date());
+
+    if (input.type === 'charge') {
+      if (CLOSED_FOLIO_STATUSES.includes(booking.status)) {
+        throw new ApiError(409, 'FOLIO_CLOSED', `Charges cannot be posted to a ${booking.status} reservation`);
+      }
+
+      const { hotel } = booking;
+      const taxes = hotel.taxes.map(tax => serializeTax({ ...tax, hotel }));
+      const taxed = applyTaxes(roundMoney(input.unitPrice * input.quantity), input.chargeType, date, taxes, hotel.pricesIncludeTax);
+
+      await tx.folioEntry.create({
+        data: {
+          ...toChargeEntry(input.chargeType, input.description, parseDateOnly(date), input.quantity, taxed.net, taxed.taxes, postedById),
+          bookingId,
+        },
+      });
+    } else {
+      const totals = getFolioTotals(booking.folioEntries);
+      if (input.type === 'payment' && input.amount > totals.balance) {
+        throw new ApiError(
+          409,
+          'PAYMENT_EXCEEDS_BALANCE',
+          totals.balance > 0 ? `Only ${totals.balance} SAR is outstanding on this folio` : 'Nothing is outstanding on this folio'
+        );
+      }
+      if (input.type === 'refund') {
+        const refundable = roundMoney(totals.payments - totals.refunds);
+        if (input.amount > refundable) {
+          throw new ApiError(409, 'REFUND_EXCEEDS_PAYMENTS', `Only ${refundable} SAR has been paid on this folio`);
+        }
+      }
+
+      const shiftId = await getShiftForEntry(tx, postedById, input.method);
+      await tx.folioEntry.create({
+        data: {
+          type: input.type,
+          description: input.type === 'payment' ? 'Payment' : 'Refund',
+          date: parseDateOnly(date),
+          amount: input.amount,
+          total: input.amount,
+          method: input.method,
+          reference: input.reference || null,
+          postedById,
+          shiftId,
+          bookingId,
+        },
+      });
+    }
+
+    return tx.booking.findUniqueOrThrow({ where: { id: bookingId }, include: folioInclude });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
@@ -0,0 +1,27 @@
+import type { Hotel as HotelRow } from '@prisma/client';
+import type { Hotel } from '@/lib/domain';
+
+/**
+ * Shape a Hotel row the way the owner screens expect it (date-only createdAt).
+ */
+export function serializeHotel(hotel: HotelRow): Hotel {
+  return {
+    id: hotel.id,
+    name: hotel.name,
+    code: hotel.code,
+    altName: hotel.altName,
+    description: hotel.description,
+    location: hotel.location,
+    pricesIncludeTax: hotel.pricesIncludeTax,
+    vatNumber: hotel.vatNumber,
+    crNumber: hotel.crNumber,
+    street: hotel.street,
+    buildingNumber: hotel.buildingNumber,
+    city: hotel.city,
+    postalCode: hotel.postalCode,
+    checkOutTime: hotel.checkOutTime,
+    earlyCheckOutFee: hotel.earlyCheckOutFee,
+    lateCheckOutFee: hotel.lateCheckOutFee,
+    createdAt: hotel.createdAt.toISOString().split('T')[0],
+  };
+}
@@ -0,0 +1,110 @@
+import { addDays, formatDateOnly, nightsBetween, parseDateOnly } from '@/lib/dates';
+import { roundMoney } from '@/lib/pricing';
+import type { Installment, InstallmentPlan, InstallmentStatus } from '@/lib/domain';
+
+// Client-safe like pricing.ts: the booking wizard previews the same plan the server stores
+
+export interface PlannedInstallment {
+  sequence: number;
+  dueDate: string;
+  amount: number;
+}
+
+type ScheduledInstallment = { id: string; sequence: number; dueDate: string; amount: number };
+
+/**
+ * Split `amount` into `count` installments due evenly from the start date to the completion date; the first falls
+ * due on the start date and the last on the completion date. Cents left over by rounding go on the last one.
+ */
+export function buildInstallmentPlan(amount: number, plan: InstallmentPlan): PlannedInstallment[] {
+  const start = parseDateOnly(plan.startDate);
+  const span = nightsBetween(start, parseDateOnly(plan.completionDate));
+  const share = Math.floor(amount * 100 / plan.count) / 100;
+
+  return Array.from({ length: plan.count }, (_, index) => ({
+    sequence: index + 1,
+    dueDate: plan.count === 1
+      ? plan.completionDate
+      : formatDateOnly(addDays(start, Math.round(index * span / (plan.count - 1)))),
+    amount: index === plan.count - 1 ? roundMoney(amount - share * (plan.count - 1)) : share,
+  }));
+}
+
+/**
+ * Work out what is still owed on each installment from the folio balance. Payments settle installments in due-date
+ * order, so the balance sits on the latest ones; anything charged beyond the plan lands on the first unpaid one.
+ */
+export function getInstallmentStatuses<T extends ScheduledInstallment>(
+  installments: T[],
+  balance: number,
+  today: string
+): (T & Pick<Installment, 'outstanding' | 'status'>)[] {
+  let remaining = Math.max(balance, 0);
+  const outstanding = installments.slice().reverse().map(installment => {
+    const owed = roundMoney(Math.min(installment.amount, remaining));
+    remaining = roundMoney(remaining - owed);
+    return owed;
+  }).reverse();
+  const firstUnpaid = outstanding.findIndex(owed => owed > 0);
+  if (remaining > 0 && firstUnpaid >= 0) {
+    outstanding[firstUnpaid] = roundMoney(outstanding[firstUnpaid] + remaining);
+  }
+
+  return installments.map((installment, index) => ({
+    ...installment,
+    outstanding: outstanding[index],
+    status: getInstallmentStatus(installment, outstanding[index], today),
+  }));
+}
+
+/**
+ * Spread a changed balance over an existing plan. Installments already due or already paid stay as they are; what
+ * the guest owes beyond them is split again over the installments not yet due, between their first and last due
+ * dates. When none are left it falls due in one installment, on the plan's last due date or today if that has
+ * passed. Returns the installments to replace and their replacements, numbered after the ones kept.
+ */
+export function replanInstallments<T extends ScheduledInstallment>(
+  installments: T[],
+  balanceBefore: number,
+  balanceAfter: number,
+  today: string
+) {
+  const statuses = getInstallmentStatuses(installments, balanceBefore, today);
+  const replaced = statuses.filter(installment => installment.dueDate >= today && installment.outstanding > 0);
+  const kept = statuses.filter(installment => !replaced.includes(installment));
+  const amount = roundMoney(balanceAfter - kept.reduce((sum, installment) => sum + installment.outstanding, 0));
+  const lastDueDate = installments.reduce((latest, installment) => installment.dueDate > latest ? installment.dueDate : latest, today);
+  const lastKept = kept.reduce((latest, installment) => Math.max(latest, installment.sequence), 0);
+
+  const planned = amount > 0
+    ? buildInstallmentPlan(amount, replaced.length > 0
+      ? { count: replaced.length, startDate: replaced[0].dueDate, completionDate: replaced[replaced.length - 1].dueDate }
+      : { count: 1, startDate: lastDueDate, completionDate: lastDueDate })
+    : [];
+
+  return {
+    replaced,
+    planned: planned.map(installment => ({ ...installment, sequence: lastKept + installment.sequence })),
+  };
+}
+
+/**
+ * Shape a reservation's stored installments with what is still owed on each, as of today.
+ */
+export function serializeInstallments(
+  rows: { id: string; sequence: number; dueDate: Date; amount: number }[],
+  balance: number,
+  today = formatDateOnly(new Date())
+): Installment[] {
+  return getInstallmentStatuses(
+    rows.map(row => ({ id: row.id, sequence: row.sequence, dueDate: formatDateOnly(row.dueDate), amount: row.amount })),
+    balance,
+    today
+  );
+}
+
+function getInstallmentStatus(installment: ScheduledInstallment, outstanding: number, today: string): InstallmentStatus {
+  if (outstanding <= 0) return 'paid';
+  if (installment.dueDate < today) return 'overdue';
+  return outstanding < installment.amount ? 'partial' : 'due';
+}
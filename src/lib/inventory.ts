@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { addDays, dateOnlySchema, formatDateOnly, nightsBetween, parseDateOnly } from '@/lib/dates';
+import type { InventoryNight, RoomTypeInventory } from '@/lib/domain';
+
+// Reservations in these statuses no longer hold inventory
+export const RELEASED_STATUSES = ['cancelled', 'no-show'];
+
+export const INVENTORY_MAX_NIGHTS = 366;
+
+export const inventoryQuerySchema = z.object({
+  hotelId: z.string().min(1).optional(),
+  roomTypeId: z.string().min(1).optional(),
+  from: dateOnlySchema.default(() => formatDateOnly(new Date())),
+  to: dateOnlySchema.optional(),
+  // Leaves a reservation's own rooms out of the count, for amending it
+  excludeBookingId: z.string().min(1).optional(),
+})
+  .refine(query => query.hotelId || query.roomTypeId, {
+    message: 'hotelId or roomTypeId is required',
+    path: ['hotelId'],
+  })
+  .refine(query => !query.to || query.to > query.from, {
+    message: 'to must be after from',
+    path: ['to'],
+  })
+  .refine(query => !query.to || nightsBetween(parseDateOnly(query.from), parseDateOnly(query.to)) <= INVENTORY_MAX_NIGHTS, {
+    message: `The range cannot exceed ${INVENTORY_MAX_NIGHTS} nights`,
+    path: ['to'],
+  });
+
+interface StockedRoomType {
+  id: string;
+  quantity: number;
+}
+
+/**
+ * Count, for each room type and each night in [checkIn, checkOut), the rooms sold and the rooms out of order.
+ * A room is out of order while its status is "maintenance"; rooms carry no maintenance dates, so it counts
+ * against every night of the range.
+ */
+export async function countInventory(
+  client: Prisma.TransactionClient,
+  roomTypes: StockedRoomType[],
+  checkIn: Date,
+  checkOut: Date,
+  excludeBookingId?: string
+): Promise<Record<string, InventoryNight[]>> {
+  const roomTypeIds = roomTypes.map(roomType => roomType.id);
+
+  const [bookings, outOfOrderRooms] = await Promise.all([
+    client.booking.findMany({
+      where: {
+        roomTypeId: { in: roomTypeIds },
+        status: { notIn: RELEASED_STATUSES },
+        checkIn: { lt: checkOut },
+        checkOut: { gt: checkIn },
+        ...(excludeBookingId ? { id: { not: excludeBookingId } } : {}),
+      },
+      select: { roomTypeId: true, checkIn: true, checkOut: true, numberOfRooms: true },
+    }),
+    client.room.findMany({
+      where: { roomTypeId: { in: roomTypeIds }, status: 'maintenance' },
+      select: { roomTypeId: true },
+    }),
+  ]);
+
+  const inventory: Record<string, InventoryNight[]> = {};
+  roomTypes.forEach(roomType => {
+    const roomTypeBookings = bookings.filter(booking => booking.roomTypeId === roomType.id);
+    const outOfOrder = outOfOrderRooms.filter(room => room.roomTypeId === roomType.id).length;
+    const nights: InventoryNight[] = [];
+
+    for (let night = checkIn; night.getTime() < checkOut.getTime(); night = addDays(night, 1)) {
+      const sold = roomTypeBookings
+        .filter(booking => booking.checkIn.getTime() <= night.getTime() && booking.checkOut.getTime() > night.getTime())
+        .reduce((sum, booking) => sum + booking.numberOfRooms, 0);
+
+      nights.push({
+        date: formatDateOnly(night),
+        total: roomType.quantity,
+        sold,
+        outOfOrder,
+        available: Math.max(roomType.quantity - sold - outOfOrder, 0),
+      });
+    }
+
+    inventory[roomType.id] = nights;
+  });
+
+  return inventory;
+}
+
+export interface UnavailableNight {
+  date: string;
+  sold: number;
+  available: number;
+}
+
+/**
+ * List the nights in [checkIn, checkOut) on which the room type cannot take `numberOfRooms` more rooms.
+ */
+export async function findUnavailableNights(
+  tx: Prisma.TransactionClient,
+  roomType: StockedRoomType,
+  checkIn: Date,
+  checkOut: Date,
+  numberOfRooms: number,
+  excludeBookingId?: string
+): Promise<UnavailableNight[]> {
+  const inventory = await countInventory(tx, [roomType], checkIn, checkOut, excludeBookingId);
+
+  return inventory[roomType.id]
+    .filter(night => night.available < numberOfRooms)
+    .map(night => ({ date: night.date, sold: night.sold, available: night.available }));
+}
+
+/**
+ * Night-by-night inventory for a hotel's room types, or a single room type, over [from, to). `to` defaults to
+ * the night after `from`.
+ */
+export async function getInventory(query: z.infer<typeof inventoryQuerySchema>): Promise<RoomTypeInventory[]> {
+  const checkIn = parseDateOnly(query.from);
+  const checkOut = query.to ? parseDateOnly(query.to) : addDays(checkIn, 1);
+
+  const roomTypes = await prisma.roomType.findMany({
+    where: {
+      ...(query.hotelId ? { hotelId: query.hotelId } : {}),
+      ...(query.roomTypeId ? { id: query.roomTypeId } : {}),
+    },
+    orderBy: { name: 'asc' },
+  });
+  const inventory = await countInventory(prisma, roomTypes, checkIn, checkOut, query.excludeBookingId);
+
+  return roomTypes.map(roomType => ({
+    roomTypeId: roomType.id,
+    hotelId: roomType.hotelId,
+    name: roomType.name,
+    nights: inventory[roomType.id],
+    available: Math.min(...inventory[roomType.id].map(night => night.available)),
+  }));
+}
@@ -0,0 +1,331 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { Booking, Hotel } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { formatDateOnly } from '@/lib/dates';
+import { getOpenCharges } from '@/lib/folio';
+import { roundMoney } from '@/lib/pricing';
+import { VAT_TAX_CODE } from '@/lib/taxes';
+import { INITIAL_PREVIOUS_HASH, buildInvoiceXml, buildQrPayload, hashInvoiceXml, type ZatcaDocument } from '@/lib/zatca';
+import { CHARGE_TYPE_LABELS, INVOICEABLE_STATUSES, type BookingStatus, type ChargeType, type CreditNoteInput, type Invoice, type InvoiceIssue, type InvoiceLine, type InvoiceType } from '@/lib/domain';
+
+export const invoiceInclude = {
+  hotel: true,
+  booking: true,
+  lines: { orderBy: { position: 'asc' } },
+  originalInvoice: { select: { number: true } },
+  creditNotes: { select: { total: true } },
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceWithRelations = Prisma.InvoiceGetPayload<{ include: typeof invoiceInclude }>;
+
+// What an invoice is built from: the charges on the stay's folio with the taxes charged on them
+const invoicedBookingInclude = {
+  hotel: true,
+  folioEntries: {
+    where: { type: 'charge' },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    include: { taxes: { include: { tax: true } } },
+  },
+  invoices: { include: { creditNotes: { select: { total: true } } } },
+} satisfies Prisma.BookingInclude;
+
+type InvoicedBooking = Prisma.BookingGetPayload<{ include: typeof invoicedBookingInclude }>;
+
+type DocumentLine = Omit<InvoiceLine, 'position'>;
+
+function getCredited(invoice: { creditNotes: { total: number }[] }) {
+  return roundMoney(invoice.creditNotes.reduce((sum, note) => sum + note.total, 0));
+}
+
+/**
+ * Shape an Invoice row for the invoice screens. The XML is served on its own.
+ */
+export function serializeInvoice(invoice: InvoiceWithRelations): Invoice {
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    sequence: invoice.sequence,
+    type: invoice.type as InvoiceType,
+    simplified: invoice.simplified,
+    uuid: invoice.uuid,
+    issuedAt: invoice.issuedAt.toISOString(),
+    currency: invoice.currency,
+    hotelId: invoice.hotelId,
+    seller: {
+      name: invoice.hotel.name,
+      altName: invoice.hotel.altName,
+      vatNumber: invoice.hotel.vatNumber,
+      crNumber: invoice.hotel.crNumber,
+      street: invoice.hotel.street,
+      buildingNumber: invoice.hotel.buildingNumber,
+      city: invoice.hotel.city,
+      postalCode: invoice.hotel.postalCode,
+    },
+    bookingId: invoice.bookingId,
+    resId: invoice.booking.resId,
+    arrival: formatDateOnly(invoice.booking.checkIn),
+    departure: formatDateOnly(invoice.booking.checkOut),
+    buyerName: invoice.buyerName,
+    buyerVatNumber: invoice.buyerVatNumber,
+    reason: invoice.reason,
+    originalInvoiceId: invoice.originalInvoiceId,
+    originalNumber: invoice.originalInvoice?.number ?? null,
+    subtotal: invoice.subtotal,
+    vatTotal: invoice.vatTotal,
+    total: invoice.total,
+    credited: getCredited(invoice),
+    hash: invoice.hash,
+    previousHash: invoice.previousHash,
+    qrCode: invoice.qrCode,
+    lines: invoice.lines.map(line => ({
+      position: line.position,
+      description: line.description,
+      altDescription: line.altDescription,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      netAmount: line.netAmount,
+      vatRate: line.vatRate,
+      vatAmount: line.vatAmount,
+      total: line.total,
+    })),
+  };
+}
+
+function toDocumentLine(description: string, altDescription: string | null, quantity: number, netAmount: number, vatRate: number): DocumentLine {
+  const vatAmount = roundMoney(netAmount * vatRate / 100);
+  return {
+    description,
+    altDescription,
+    quantity,
+    unitPrice: roundMoney(netAmount / quantity),
+    netAmount,
+    vatRate,
+    vatAmount,
+    total: roundMoney(netAmount + vatAmount),
+  };
+}
+
+/**
+ * One line per folio charge (each room night and extra), then one per fee (every tax but VAT) over the whole stay.
+ * Charges that were reversed are left out along with their reversals. VAT is worked out per line at the rate the
+ * charge was posted with, as ZATCA requires it on each line.
+ */
+function getBookingInvoiceLines(booking: InvoicedBooking): DocumentLine[] {
+  const getVatRate = (entry: InvoicedBooking['folioEntries'][number]) => entry.taxes.find(tax => tax.code === VAT_TAX_CODE)?.rate ?? 0;
+  const entries = getOpenCharges(booking.folioEntries);
+
+  const charges = entries.map(entry => {
+    const date = formatDateOnly(entry.date);
+    const label = CHARGE_TYPE_LABELS[entry.chargeType as ChargeType] ?? CHARGE_TYPE_LABELS.other;
+    return toDocumentLine(`${entry.description} – ${date}`, `${label.ar} – ${date}`, entry.quantity, entry.amount, getVatRate(entry));
+  });
+
+  const fees: { name: string; altName: string | null; rate: number; vatRate: number; amount: number }[] = [];
+  entries.forEach(entry => {
+    entry.taxes.filter(tax => tax.code !== VAT_TAX_CODE).forEach(tax => {
+      const vatRate = getVatRate(entry);
+      const existing = fees.find(fee => fee.name === tax.name && fee.rate === tax.rate && fee.vatRate === vatRate);
+      if (existing) {
+        existing.amount += tax.amount;
+      } else {
+        fees.push({ name: tax.name, altName: tax.tax?.altName ?? null, rate: tax.rate, vatRate, amount: tax.amount });
+      }
+    });
+  });
+
+  return [
+    ...charges,
+    ...fees.map(fee => toDocumentLine(
+      `${fee.name} (${fee.rate}%)`,
+      fee.altName && `${fee.altName} (${fee.rate}%)`,
+      1,
+      roundMoney(fee.amount),
+      fee.vatRate
+    )),
+  ];
+}
+
+interface DocumentFields {
+  type: InvoiceType;
+  simplified: boolean;
+  buyerName: string | null;
+  buyerVatNumber: string | null;
+  reason: string | null;
+  originalInvoiceId: string | null;
+  originalNumber: string | null;
+  lines: DocumentLine[];
+}
+
+/**
+ * Number, hash and store a document as the hotel's next one. Callers run this in a serializable transaction so two
+ * documents cannot take the same sequence or chain onto the same previous hash.
+ */
+async function createDocument(tx: Prisma.TransactionClient, hotel: Hotel, booking: Booking, fields: DocumentFields) {
+  const last = await tx.invoice.findFirst({
+    where: { hotelId: hotel.id },
+    orderBy: { sequence: 'desc' },
+    select: { sequence: true, hash: true },
+  });
+  const sequence = (last?.sequence ?? 0) + 1;
+  const prefix = fields.type === 'credit-note' ? 'CRN' : 'INV';
+  const lines = fields.lines.map((line, index) => ({ ...line, position: index + 1 }));
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.netAmount, 0));
+  const vatTotal = roundMoney(lines.reduce((sum, line) => sum + line.vatAmount, 0));
+
+  const doc: ZatcaDocument = {
+    number: `${prefix}-${hotel.code}-${sequence.toString().padStart(6, '0')}`,
+    uuid: randomUUID(),
+    sequence,
+    type: fields.type,
+    simplified: fields.simplified,
+    issuedAt: new Date(),
+    currency: 'SAR',
+    previousHash: last?.hash ?? INITIAL_PREVIOUS_HASH,
+    seller: hotel,
+    buyer: fields.buyerName ? { name: fields.buyerName, vatNumber: fields.buyerVatNumber } : null,
+    originalNumber: fields.originalNumber,
+    reason: fields.reason,
+    paymentMethod: booking.paymentMethod,
+    supplyDate: formatDateOnly(booking.checkIn),
+    supplyEndDate: formatDateOnly(booking.checkOut),
+    lines,
+    subtotal,
+    vatTotal,
+    total: roundMoney(subtotal + vatTotal),
+  };
+  const hash = hashInvoiceXml(buildInvoiceXml(doc));
+  const qrCode = buildQrPayload(doc, hash);
+
+  return tx.invoice.create({
+    data: {
+      number: doc.number,
+      sequence,
+      type: doc.type,
+      simplified: doc.simplified,
+      uuid: doc.uuid,
+      issuedAt: doc.issuedAt,
+      currency: doc.currency,
+      buyerName: fields.buyerName,
+      buyerVatNumber: fields.buyerVatNumber,
+      reason: fields.reason,
+      subtotal: doc.subtotal,
+      vatTotal: doc.vatTotal,
+      total: doc.total,
+      hash,
+      previousHash: doc.previousHash,
+      qrCode,
+      xml: buildInvoiceXml(doc, qrCode),
+      hotelId: hotel.id,
+      bookingId: booking.id,
+      originalInvoiceId: fields.originalInvoiceId,
+      lines: { create: lines },
+    },
+    include: invoiceInclude,
+  });
+}
+
+/**
+ * Issue the tax invoice for a checked-out stay, or for the penalty kept on a cancelled or no-show reservation, from
+ * the charges on its folio. A stay has one open invoice at a time; to correct one, credit it in full and invoice again.
+ */
+export async function issueInvoice(bookingId: string, input: InvoiceIssue) {
+  return prisma.$transaction(async (tx) => createStayInvoice(tx, bookingId, input), {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
+
+/**
+ * Issue a stay's tax invoice inside a transaction the caller already holds, as check-out does.
+ */
+export async function createStayInvoice(tx: Prisma.TransactionClient, bookingId: string, input: InvoiceIssue) {
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    include: { ...invoicedBookingInclude, guest: true },
+  });
+  if (!booking) {
+    throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+  }
+  if (!INVOICEABLE_STATUSES.includes(booking.status as BookingStatus)) {
+    throw new ApiError(409, 'NOT_CHECKED_OUT', 'Only checked-out, cancelled and no-show reservations can be invoiced');
+  }
+  if (!booking.hotel.vatNumber) {
+    throw new ApiError(409, 'HOTEL_NOT_REGISTERED', `Add ${booking.hotel.name}'s VAT number before issuing invoices`);
+  }
+  const open = booking.invoices.find(invoice => invoice.type === 'invoice' && getCredited(invoice) < invoice.total);
+  if (open) {
+    throw new ApiError(409, 'ALREADY_INVOICED', `Reservation ${booking.resId} is already invoiced on ${open.number}`);
+  }
+  const lines = getBookingInvoiceLines(booking);
+  if (lines.length === 0) {
+    throw new ApiError(409, 'NOTHING_TO_INVOICE', `Reservation ${booking.resId} has no charges to invoice`);
+  }
+
+  return createDocument(tx, booking.hotel, booking, {
+    type: 'invoice',
+    simplified: !input.buyerVatNumber,
+    buyerName: input.buyerName || booking.guest.company || booking.guest.fullName,
+    buyerVatNumber: input.buyerVatNumber || null,
+    reason: null,
+    originalInvoiceId: null,
+    originalNumber: null,
+    lines,
+  });
+}
+
+/**
+ * Raise a credit note against a tax invoice: the whole invoice line by line, or a VAT-inclusive refund amount as a
+ * single line at the invoice's VAT rate. Credit notes never add up to more than the invoice.
+ */
+export async function issueCreditNote(invoiceId: string, input: CreditNoteInput) {
+  return prisma.$transaction(async (tx) => {
+    const original = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: invoiceInclude,
+    });
+    if (!original) {
+      throw new ApiError(404, 'INVOICE_NOT_FOUND', 'Invoice not found');
+    }
+    if (original.type !== 'invoice') {
+      throw new ApiError(409, 'NOT_AN_INVOICE', 'Credit notes can only be raised against a tax invoice');
+    }
+
+    const credited = getCredited(original);
+    const remaining = roundMoney(original.total - credited);
+    const amount = input.amount ?? remaining;
+    if (remaining <= 0 || amount > remaining) {
+      throw new ApiError(409, 'CREDIT_EXCEEDS_INVOICE', `Only ${remaining} SAR of ${original.number} is left to credit`);
+    }
+
+    const vatRate = original.lines.find(line => line.vatRate > 0)?.vatRate ?? 0;
+    const netAmount = roundMoney(amount / (1 + vatRate / 100));
+    const lines: DocumentLine[] = credited === 0 && input.amount === undefined
+      ? original.lines.map(({ description, altDescription, quantity, unitPrice, netAmount, vatRate, vatAmount, total }) => ({
+        description, altDescription, quantity, unitPrice, netAmount, vatRate, vatAmount, total,
+      }))
+      : [{
+        description: `Refund against ${original.number}`,
+        altDescription: `استرداد على الفاتورة ${original.number}`,
+        quantity: 1,
+        unitPrice: netAmount,
+        netAmount,
+        vatRate,
+        vatAmount: roundMoney(amount - netAmount),
+        total: amount,
+      }];
+
+    return createDocument(tx, original.hotel, original.booking, {
+      type: 'credit-note',
+      simplified: original.simplified,
+      buyerName: original.buyerName,
+      buyerVatNumber: original.buyerVatNumber,
+      reason: input.reason,
+      originalInvoiceId: original.id,
+      originalNumber: original.number,
+      lines,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
@@ -0,0 +1,80 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'noreply@localhost';
+
+/**
+ * Development transport: writes each message as an .eml file to MAIL_OUTBOX_DIR (default `.outbox/`)
+ * instead of sending it, so mail flows can be tested offline by opening the file.
+ */
+export function createOutboxTransport(directory = process.env.MAIL_OUTBOX_DIR || '.outbox'): MailTransport {
+  return {
+    async send(message) {
+      const outbox = path.resolve(process.cwd(), directory);
+      await mkdir(outbox, { recursive: true });
+
+      const boundary = `boundary-${Date.now().toString(36)}`;
+      const headers = [
+        `From: ${process.env.FROM_EMAIL || DEFAULT_FROM}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+      ];
+      const body = message.html
+        ? [
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          'Content-Type: text/plain; charset=utf-8',
+          '',
+          message.text,
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          message.html,
+          `--${boundary}--`,
+        ]
+        : ['Content-Type: text/plain; charset=utf-8', '', message.text];
+
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const file = path.join(outbox, `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`);
+      await writeFile(file, [...headers, ...body].join('\r\n'), 'utf8');
+    },
+  };
+}
+
+const transports: Record<string, () => MailTransport> = {
+  outbox: () => createOutboxTransport(),
+};
+
+/**
+ * Make a transport selectable through MAIL_TRANSPORT, e.g. an SMTP or Resend adapter registered at startup.
+ */
+export function registerMailTransport(name: string, factory: () => MailTransport) {
+  transports[name] = factory;
+}
+
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || 'outbox';
+  const factory = transports[name];
+  if (!factory) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+  return factory();
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send(message);
+}
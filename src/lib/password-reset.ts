@@ -0,0 +1,113 @@
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { sendMail } from '@/lib/mail';
+import { hashPassword } from '@/lib/password';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export const forgotPasswordSchema = z.object({
+  identifier: z.string().trim().min(1, 'Username or email is required'),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Links in emails are built from the configured address, never from the request's Host header, which a caller controls
+function getAppUrl() {
+  const appUrl = process.env.AUTH_URL;
+  if (!appUrl) {
+    throw new Error('AUTH_URL is not set');
+  }
+  return appUrl.replace(/\/+$/, '');
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Email a reset link to the user matching `identifier` (username or email). Unknown identifiers are ignored
+ * silently so the response does not reveal which accounts exist. Earlier unused links stop working.
+ */
+export async function requestPasswordReset(identifier: string) {
+  const appUrl = getAppUrl();
+  const user = await prisma.user.findFirst({
+    where: { OR: [{ username: identifier }, { email: identifier.toLowerCase() }] },
+  });
+  if (!user) return;
+
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        tokenHash: hashToken(token),
+        userId: user.id,
+        expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL_MS),
+      },
+    }),
+  ]);
+
+  const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  const greeting = `Hello ${user.name || user.username},`;
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      greeting,
+      '',
+      'We received a request to reset your password. Open the link below within one hour to choose a new one:',
+      '',
+      link,
+      '',
+      'If you did not ask for this, you can ignore this email; your password will not change.',
+    ].join('\n'),
+    html: `<p>${escapeHtml(greeting)}</p>`
+      + '<p>We received a request to reset your password. Open the link below within one hour to choose a new one:</p>'
+      + `<p><a href="${link}">Reset password</a></p>`
+      + '<p>If you did not ask for this, you can ignore this email; your password will not change.</p>',
+  });
+}
+
+/**
+ * Set a new password using a reset token. The token is consumed atomically, so a link works only once,
+ * and every signed-in device of the user is logged out.
+ */
+export async function resetPassword(token: string, password: string) {
+  const passwordHash = await hashPassword(password);
+
+  await prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const resetToken = await tx.passwordResetToken.findUnique({ where: { tokenHash: hashToken(token) } });
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= now) {
+      throw new ApiError(400, 'INVALID_RESET_TOKEN', 'This reset link is invalid or has expired');
+    }
+
+    // Conditional update so two concurrent requests cannot both use the same link
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (count === 0) {
+      throw new ApiError(400, 'INVALID_RESET_TOKEN', 'This reset link is invalid or has expired');
+    }
+
+    await tx.user.update({ where: { id: resetToken.userId }, data: { passwordHash } });
+    await tx.session.updateMany({
+      where: { userId: resetToken.userId, revokedAt: null },
+      data: { revokedAt: now },
+    });
+  });
+}
@@ -0,0 +1,25 @@
+import bcrypt from 'bcryptjs';
+
+const SALT_ROUNDS = 12;
+
+// Compared against when the username is unknown so failed logins take the same time either way
+const DUMMY_HASH = '$2b$12$BT5NbuvkFXI5eAeR5u7MlOOdhimNuyDfSkmRD.5Yk1GrjWv25pGdW';
+
+/**
+ * Hash a password using bcrypt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, SALT_ROUNDS);
+}
+
+/**
+ * Verify a password against its hash; pass `null` for unknown users
+ */
+export async function verifyPassword(password: string, hash: string | null): Promise<boolean> {
+  try {
+    const matches = await bcrypt.compare(password, hash ?? DUMMY_HASH);
+    return hash !== null && matches;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,135 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiError } from '@/lib/api';
+import { gatewayEventSchema, type CardInput, type GatewayEvent } from '@/lib/domain';
+
+export interface AuthorizeRequest {
+  amount: number;
+  currency: string;
+  card: CardInput;
+  // Shown on the guest's statement and in the provider's dashboard
+  description: string;
+}
+
+export interface AuthorizeResult {
+  reference: string;
+  approved: boolean;
+  declineReason?: string;
+  cardBrand: string | null;
+  cardLast4: string;
+}
+
+/**
+ * A card payment provider. Amounts are in the hotel's currency; `reference` is the provider's id for the hold.
+ * capture, refund and void throw when the provider turns the request down.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<AuthorizeResult>;
+  capture(reference: string, amount: number): Promise<void>;
+  refund(reference: string, amount: number): Promise<void>;
+  void(reference: string): Promise<void>;
+  // Check a webhook delivery really came from the provider and read the status change it reports
+  parseWebhook(body: string, headers: Headers): GatewayEvent;
+}
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+// Test cards for the mock provider, keyed by their last four digits; any other card with a future expiry is approved
+const MOCK_DECLINES: Record<string, string> = {
+  '0002': 'Card declined',
+  '9995': 'Insufficient funds',
+};
+
+export function getCardBrand(number: string) {
+  if (/^4/.test(number)) return 'Visa';
+  if (/^(5[1-5]|2[2-7])/.test(number)) return 'Mastercard';
+  if (/^3[47]/.test(number)) return 'American Express';
+  return null;
+}
+
+function isExpired(expiry: string, now: Date) {
+  const [month, year] = expiry.split('/').map(part => parseInt(part, 10));
+  // A card is good until the end of its expiry month
+  return new Date(Date.UTC(2000 + year, month, 1)) <= now;
+}
+
+function signWebhook(body: string, secret: string) {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function getMockWebhookSecret() {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET is not set');
+  }
+  return secret;
+}
+
+/**
+ * Sign a webhook body the way the mock provider checks it, to fire test callbacks at /api/payments/webhooks/mock.
+ */
+export function signMockWebhook(body: string) {
+  return signWebhook(body, getMockWebhookSecret());
+}
+
+/**
+ * Development provider: approves holds in-process without talking to any gateway, so card flows can be tried
+ * offline. Webhooks are HMAC-SHA256 signed with PAYMENT_WEBHOOK_SECRET in the `x-mock-signature` header.
+ * It is not available in production, where anyone could otherwise approve a card or fire a capture.
+ */
+export function createMockProvider(): PaymentProvider {
+  return {
+    name: 'mock',
+    async authorize({ card }) {
+      const cardLast4 = card.number.slice(-4);
+      const declineReason = isExpired(card.expiry, new Date()) ? 'Card expired' : MOCK_DECLINES[cardLast4];
+      return {
+        reference: `mock_${randomBytes(12).toString('hex')}`,
+        approved: !declineReason,
+        declineReason,
+        cardBrand: getCardBrand(card.number),
+        cardLast4,
+      };
+    },
+    async capture() {},
+    async refund() {},
+    async void() {},
+    parseWebhook(body, headers) {
+      const expected = Buffer.from(signMockWebhook(body));
+      const signature = Buffer.from(headers.get(MOCK_SIGNATURE_HEADER) ?? '');
+      if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+        throw new ApiError(401, 'INVALID_SIGNATURE', 'Webhook signature does not match');
+      }
+      try {
+        return gatewayEventSchema.parse(JSON.parse(body));
+      } catch {
+        throw new ApiError(400, 'INVALID_PAYLOAD', 'Webhook body is not a valid payment event');
+      }
+    },
+  };
+}
+
+const providers: Record<string, () => PaymentProvider> = process.env.NODE_ENV === 'production'
+  ? {}
+  : { mock: () => createMockProvider() };
+
+/**
+ * Make a provider selectable through PAYMENT_PROVIDER, e.g. a real gateway adapter registered at startup.
+ */
+export function registerPaymentProvider(name: string, factory: () => PaymentProvider) {
+  providers[name] = factory;
+}
+
+export function isPaymentProvider(name: string) {
+  return Object.hasOwn(providers, name);
+}
+
+/**
+ * The provider new holds are taken with, or the one an existing hold was taken with when `name` is given.
+ */
+export function getPaymentProvider(name = process.env.PAYMENT_PROVIDER || 'mock'): PaymentProvider {
+  if (!isPaymentProvider(name)) {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+  return providers[name]();
+}
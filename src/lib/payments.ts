@@ -0,0 +1,236 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { formatDateOnly, parseDateOnly } from '@/lib/dates';
+import { folioInclude, getFolioTotals } from '@/lib/folio';
+import { getPaymentProvider, isPaymentProvider, type PaymentProvider } from '@/lib/payment-gateway';
+import { roundMoney } from '@/lib/pricing';
+import { getShiftForEntry } from '@/lib/shifts';
+import type { AuthorizationRefundInput, CaptureInput, DepositInput, GatewayEvent } from '@/lib/domain';
+
+export interface HeldDeposit {
+  provider: string;
+  reference: string;
+  amount: number;
+  cardBrand: string | null;
+  cardLast4: string;
+}
+
+// Gateway calls happen outside database transactions; a failure to reach the provider surfaces as a 502
+async function callProvider<T>(name: string | undefined, call: (provider: PaymentProvider) => Promise<T>) {
+  try {
+    return await call(getPaymentProvider(name));
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    console.error('Payment provider error:', error);
+    throw new ApiError(502, 'GATEWAY_ERROR', error instanceof Error ? error.message : 'The payment provider did not respond');
+  }
+}
+
+function describeCard(authorization: { cardBrand: string | null; cardLast4: string | null }) {
+  return [authorization.cardBrand ?? 'Card', authorization.cardLast4 ? `•••• ${authorization.cardLast4}` : null]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Put a deposit on hold on the guest's card with the configured provider. Nothing is charged until the hold is
+ * captured; a declined card fails with 402 PAYMENT_DECLINED.
+ */
+export async function authorizeDeposit(deposit: DepositInput, description: string): Promise<HeldDeposit> {
+  return callProvider(undefined, async (provider) => {
+    const result = await provider.authorize({ amount: deposit.amount, currency: 'SAR', card: deposit.card, description });
+    if (!result.approved) {
+      throw new ApiError(402, 'PAYMENT_DECLINED', `The card was declined: ${result.declineReason ?? 'no reason given'}`);
+    }
+    return {
+      provider: provider.name,
+      reference: result.reference,
+      amount: deposit.amount,
+      cardBrand: result.cardBrand,
+      cardLast4: result.cardLast4,
+    };
+  });
+}
+
+/**
+ * Release a hold taken for a reservation that was never made, or one that was called off.
+ */
+export async function releaseDeposit(deposit: Pick<HeldDeposit, 'provider' | 'reference'>) {
+  await callProvider(deposit.provider, provider => provider.void(deposit.reference));
+}
+
+async function findAuthorization(id: string) {
+  const authorization = await prisma.paymentAuthorization.findUnique({
+    where: { id },
+    include: { booking: { include: { folioEntries: true } } },
+  });
+  if (!authorization) {
+    throw new ApiError(404, 'AUTHORIZATION_NOT_FOUND', 'Card authorization not found');
+  }
+  return authorization;
+}
+
+/**
+ * Apply a status change to a card authorization and post the money it moves to the folio, on the shift of the
+ * cashier who moved it. Event amounts are the provider's running totals (captured so far, refunded so far), so
+ * replaying an event changes nothing. A capture is money the provider already took, so it is always recorded; what
+ * it took beyond the folio balance is flagged on the authorization as overpaid, to be refunded.
+ */
+export async function recordGatewayEvent(id: string, event: GatewayEvent, postedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const authorization = await tx.paymentAuthorization.findUniqueOrThrow({
+      where: { id },
+      include: { booking: { include: { folioEntries: true } } },
+    });
+    const card = describeCard(authorization);
+    const today = parseDateOnly(formatDateOnly(new Date()));
+
+    if (event.status === 'captured' && authorization.status === 'authorized') {
+      const amount = roundMoney(event.amount || authorization.amount);
+      const { balance } = getFolioTotals(authorization.booking.folioEntries);
+      const overpaid = roundMoney(Math.max(0, amount - Math.max(0, balance)));
+      if (overpaid > 0) {
+        console.warn(`Capture ${authorization.reference} took ${overpaid} SAR more than the folio balance`);
+      }
+      await tx.paymentAuthorization.update({ where: { id }, data: { status: 'captured', captured: amount, overpaid } });
+      await tx.folioEntry.create({
+        data: {
+          type: 'payment',
+          description: 'Card payment',
+          date: today,
+          amount,
+          total: amount,
+          method: 'visa',
+          reference: card,
+          postedById,
+          shiftId: await getShiftForEntry(tx, postedById, 'visa'),
+          bookingId: authorization.bookingId,
+        },
+      });
+    }
+
+    if (event.status === 'refunded' && authorization.status === 'captured') {
+      const refunded = roundMoney(Math.min(event.amount, authorization.captured));
+      const amount = roundMoney(refunded - authorization.refunded);
+      if (amount > 0) {
+        await tx.paymentAuthorization.update({
+          where: { id },
+          data: { refunded, status: refunded >= authorization.captured ? 'refunded' : 'captured' },
+        });
+        await tx.folioEntry.create({
+          data: {
+            type: 'refund',
+            description: 'Refund',
+            date: today,
+            amount,
+            total: amount,
+            method: 'visa',
+            reference: event.reason ? `${card} - ${event.reason}` : card,
+            postedById,
+            shiftId: await getShiftForEntry(tx, postedById, 'visa'),
+            bookingId: authorization.bookingId,
+          },
+        });
+      }
+    }
+
+    if ((event.status === 'voided' || event.status === 'declined') && authorization.status === 'authorized') {
+      await tx.paymentAuthorization.update({
+        where: { id },
+        data: { status: event.status, declineReason: event.status === 'declined' ? event.reason ?? null : null },
+      });
+    }
+
+    return tx.booking.findUniqueOrThrow({ where: { id: authorization.bookingId }, include: folioInclude });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
+
+/**
+ * Take all of a held deposit, or part of it, as a folio payment; what is not captured is released. A capture
+ * cannot take more than was held or than the folio balance; both are checked before the provider is called.
+ */
+export async function captureAuthorization(id: string, input: CaptureInput, postedById: string | null) {
+  const authorization = await findAuthorization(id);
+  if (authorization.status !== 'authorized') {
+    throw new ApiError(409, 'INVALID_STATUS', `Only a held authorization can be captured; this one is ${authorization.status}`);
+  }
+
+  const amount = input.amount ?? authorization.amount;
+  if (amount > authorization.amount) {
+    throw new ApiError(409, 'CAPTURE_EXCEEDS_AUTHORIZATION', `Only ${authorization.amount} SAR is held on this card`);
+  }
+  const { balance } = getFolioTotals(authorization.booking.folioEntries);
+  if (amount > balance) {
+    throw new ApiError(409, 'PAYMENT_EXCEEDS_BALANCE', `Only ${balance} SAR is outstanding on this folio`);
+  }
+
+  // Fail before the provider moves any money when the cashier has no open shift to put it on
+  await getShiftForEntry(prisma, postedById, 'visa');
+
+  await callProvider(authorization.provider, provider => provider.capture(authorization.reference, amount));
+  return recordGatewayEvent(id, { reference: authorization.reference, status: 'captured', amount }, postedById);
+}
+
+/**
+ * Release a hold without taking any money.
+ */
+export async function voidAuthorization(id: string, postedById: string | null) {
+  const authorization = await findAuthorization(id);
+  if (authorization.status !== 'authorized') {
+    throw new ApiError(409, 'INVALID_STATUS', `Only a held authorization can be released; this one is ${authorization.status}`);
+  }
+
+  await callProvider(authorization.provider, provider => provider.void(authorization.reference));
+  return recordGatewayEvent(id, { reference: authorization.reference, status: 'voided', amount: 0 }, postedById);
+}
+
+/**
+ * Give back part or all of a captured card payment through the provider and post it to the folio as a refund. It
+ * cannot give back more than is left of the capture, nor more than the folio has taken in and not yet refunded.
+ */
+export async function refundAuthorization(id: string, input: AuthorizationRefundInput, postedById: string | null) {
+  const authorization = await findAuthorization(id);
+  if (authorization.status !== 'captured') {
+    throw new ApiError(409, 'INVALID_STATUS', `Only a captured authorization can be refunded; this one is ${authorization.status}`);
+  }
+
+  const { payments, refunds } = getFolioTotals(authorization.booking.folioEntries);
+  const refundable = roundMoney(Math.min(authorization.captured - authorization.refunded, payments - refunds));
+  if (input.amount > refundable) {
+    throw new ApiError(409, 'REFUND_EXCEEDS_PAYMENTS', `Only ${refundable} SAR can still be refunded to this card`);
+  }
+
+  // Fail before the provider moves any money when the cashier has no open shift to put it on
+  await getShiftForEntry(prisma, postedById, 'visa');
+
+  await callProvider(authorization.provider, provider => provider.refund(authorization.reference, input.amount));
+  return recordGatewayEvent(id, {
+    reference: authorization.reference,
+    status: 'refunded',
+    amount: roundMoney(authorization.refunded + input.amount),
+    reason: input.reason,
+  }, postedById);
+}
+
+/**
+ * Handle a webhook delivery from a payment provider: check its signature, find the hold it is about and apply the
+ * status change.
+ */
+export async function handleGatewayWebhook(providerName: string, body: string, headers: Headers) {
+  if (!isPaymentProvider(providerName)) {
+    throw new ApiError(404, 'UNKNOWN_PROVIDER', `No payment provider named "${providerName}"`);
+  }
+
+  const event = getPaymentProvider(providerName).parseWebhook(body, headers);
+  const authorization = await prisma.paymentAuthorization.findUnique({
+    where: { provider_reference: { provider: providerName, reference: event.reference } },
+  });
+  if (!authorization) {
+    throw new ApiError(404, 'AUTHORIZATION_NOT_FOUND', `No card authorization with reference ${event.reference}`);
+  }
+
+  await recordGatewayEvent(authorization.id, event, null);
+}
@@ -0,0 +1,86 @@
+import type { Role } from '@/lib/session';
+
+// Shared by middleware, route handlers and client components, so keep this module free of server-only imports
+
+export const PERMISSIONS = [
+  'hotels:write',
+  'rooms:write',
+  'rooms:housekeeping',
+  'rates:write',
+  'taxes:write',
+  'reservations:write',
+  'reservations:cancel',
+  'reservations:check-in',
+  'reservations:check-out',
+  'folio:write',
+  'folio:refund',
+  'folio:city-ledger',
+  'invoices:write',
+  'invoices:credit',
+  'guests:export',
+  'shifts:write',
+  'shifts:review',
+  'sessions:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  'front-desk': [
+    'reservations:write',
+    'reservations:cancel',
+    'reservations:check-in',
+    'reservations:check-out',
+    'rooms:housekeeping',
+    'folio:write',
+    'invoices:write',
+    'guests:export',
+    'shifts:write',
+  ],
+  accountant: [
+    'taxes:write',
+    'folio:write',
+    'folio:refund',
+    'folio:city-ledger',
+    'invoices:write',
+    'invoices:credit',
+    'guests:export',
+    'shifts:write',
+    'shifts:review',
+  ],
+};
+
+// Pages that need more than a signed-in user, matched by path prefix
+export const PAGE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/addhotel', permission: 'hotels:write' },
+  { prefix: '/addroom', permission: 'rooms:write' },
+  { prefix: '/housekeeping', permission: 'rooms:housekeeping' },
+  { prefix: '/rate-plans', permission: 'rates:write' },
+  { prefix: '/taxes', permission: 'taxes:write' },
+  { prefix: '/booking', permission: 'reservations:write' },
+  { prefix: '/shifts', permission: 'shifts:write' },
+  { prefix: '/sessions', permission: 'sessions:manage' },
+];
+
+export function hasPermission(role: Role | null | undefined, permission: Permission) {
+  if (!role) return false;
+  return (ROLE_PERMISSIONS[role] ?? []).includes(permission);
+}
+
+/**
+ * Return the permission a page path requires, if any.
+ */
+export function getPagePermission(pathname: string): Permission | null {
+  const match = PAGE_PERMISSIONS.find(
+    page => pathname === page.prefix || pathname.startsWith(`${page.prefix}/`)
+  );
+  return match ? match.permission : null;
+}
+
+/**
+ * Where a signed-in user lands after login: the booking screen when they can create reservations, else the list.
+ */
+export function getHomePath(role: Role) {
+  return hasPermission(role, 'reservations:write') ? '/booking' : '/reservations';
+}
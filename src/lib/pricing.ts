@@ -0,0 +1,95 @@
+import { addDays, formatDateOnly, nightsBetween, parseDateOnly } from '@/lib/dates';
+import type { BookingRateLine, RatePlan, SeasonalPrice } from '@/lib/domain';
+
+export interface NightlyRate {
+  date: string;
+  rate: number;
+  // true when a seasonal price replaced the base rate for this night
+  seasonal: boolean;
+}
+
+type RateDerivationRule = Pick<RatePlan, 'derivation' | 'derivationValue'>;
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Derive a rate plan's nightly rate from the best available rate (BAR) for that night.
+ */
+export function deriveRate(bar: number, plan: RateDerivationRule): number {
+  switch (plan.derivation) {
+    case 'percent-off': return roundMoney(bar * (1 - plan.derivationValue / 100));
+    case 'amount-off': return Math.max(roundMoney(bar - plan.derivationValue), 0);
+    case 'fixed': return plan.derivationValue;
+    default: return bar;
+  }
+}
+
+/**
+ * Price each night in [arrival, departure). The best available rate for a night is the season covering it, or
+ * the base rate; a rate plan then derives its own rate from that. An override rate, such as the alternative
+ * price typed in at booking, applies to every night instead.
+ */
+export function getNightlyRates(
+  baseRate: number,
+  seasons: SeasonalPrice[],
+  arrival: string,
+  departure: string,
+  options: { ratePlan?: RateDerivationRule | null; overrideRate?: number } = {}
+): NightlyRate[] {
+  const { ratePlan, overrideRate } = options;
+  const nights: NightlyRate[] = [];
+  const end = parseDateOnly(departure);
+
+  for (let night = parseDateOnly(arrival); night.getTime() < end.getTime(); night = addDays(night, 1)) {
+    const date = formatDateOnly(night);
+    const season = overrideRate === undefined
+      ? seasons.find(candidate => candidate.startDate <= date && date <= candidate.endDate)
+      : undefined;
+    const bar = season?.price ?? baseRate;
+
+    nights.push({
+      date,
+      rate: overrideRate ?? (ratePlan ? deriveRate(bar, ratePlan) : bar),
+      seasonal: season !== undefined,
+    });
+  }
+
+  return nights;
+}
+
+/**
+ * Room charges, tax and total of a reservation from its stored rate lines, which are priced per room.
+ */
+export function getRateLineTotals(lines: Pick<BookingRateLine, 'price' | 'tax'>[], numberOfRooms: number) {
+  const charges = roundMoney(lines.reduce((sum, line) => sum + line.price, 0) * numberOfRooms);
+  const tax = roundMoney(lines.reduce((sum, line) => sum + line.tax, 0) * numberOfRooms);
+  return { charges, tax, total: roundMoney(charges + tax) };
+}
+
+/**
+ * Explain why a rate plan cannot be sold for a stay (inactive, arrival outside its validity, too short or too
+ * long), or return null when it can.
+ */
+export function getRatePlanStayError(
+  plan: Pick<RatePlan, 'code' | 'active' | 'minStay' | 'maxStay' | 'validFrom' | 'validTo'>,
+  arrival: string,
+  departure: string
+): string | null {
+  const nights = nightsBetween(parseDateOnly(arrival), parseDateOnly(departure));
+
+  if (!plan.active) {
+    return `Rate plan ${plan.code} is no longer offered`;
+  }
+  if ((plan.validFrom && arrival < plan.validFrom) || (plan.validTo && arrival > plan.validTo)) {
+    return `Rate plan ${plan.code} is only valid for arrivals from ${plan.validFrom ?? 'any date'} to ${plan.validTo ?? 'any date'}`;
+  }
+  if (plan.minStay && nights < plan.minStay) {
+    return `Rate plan ${plan.code} requires a stay of at least ${plan.minStay} nights`;
+  }
+  if (plan.maxStay && nights > plan.maxStay) {
+    return `Rate plan ${plan.code} allows a stay of at most ${plan.maxStay} nights`;
+  }
+  return null;
+}
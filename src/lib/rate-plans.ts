@@ -0,0 +1,35 @@
+import type { Hotel, RatePlan as RatePlanRow } from '@prisma/client';
+import { formatDateOnly } from '@/lib/dates';
+import type { BoardType, CancellationType, RateDerivation, RatePlan } from '@/lib/domain';
+
+export const ratePlanInclude = {
+  hotel: true,
+} as const;
+
+type RatePlanWithHotel = RatePlanRow & { hotel: Hotel };
+
+/**
+ * Shape a RatePlan row for the rate plan screen and the booking wizard.
+ */
+export function serializeRatePlan(ratePlan: RatePlanWithHotel): RatePlan {
+  return {
+    id: ratePlan.id,
+    hotelId: ratePlan.hotelId,
+    hotelName: ratePlan.hotel.name,
+    code: ratePlan.code,
+    name: ratePlan.name,
+    description: ratePlan.description,
+    derivation: ratePlan.derivation as RateDerivation,
+    derivationValue: ratePlan.derivationValue,
+    boardType: ratePlan.boardType as BoardType | null,
+    minStay: ratePlan.minStay,
+    maxStay: ratePlan.maxStay,
+    validFrom: ratePlan.validFrom ? formatDateOnly(ratePlan.validFrom) : null,
+    validTo: ratePlan.validTo ? formatDateOnly(ratePlan.validTo) : null,
+    cancellationPolicy: ratePlan.cancellationPolicy,
+    cancellationType: ratePlan.cancellationType as CancellationType,
+    freeCancellationDays: ratePlan.freeCancellationDays,
+    active: ratePlan.active,
+    createdAt: formatDateOnly(ratePlan.createdAt),
+  };
+}
@@ -0,0 +1,85 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { formatDateOnly, nightsBetween, parseDateOnly } from '@/lib/dates';
+import { folioInclude, getFolioTotals } from '@/lib/folio';
+import { buildInstallmentPlan, serializeInstallments } from '@/lib/installments';
+import type { InstallmentPlan, InstallmentStatus, Receivable } from '@/lib/domain';
+
+export const receivableBookingInclude = {
+  hotel: true,
+  guest: true,
+  folioEntries: { select: { type: true, amount: true, tax: true, total: true } },
+  installments: { orderBy: { sequence: 'asc' } },
+} satisfies Prisma.BookingInclude;
+
+type BookingWithInstallments = Prisma.BookingGetPayload<{ include: typeof receivableBookingInclude }>;
+
+/**
+ * The installments still owed on some reservations, oldest due first. `status` narrows them to overdue or not yet
+ * due ones.
+ */
+export function getReceivables(
+  bookings: BookingWithInstallments[],
+  status?: InstallmentStatus | null,
+  today = formatDateOnly(new Date())
+): Receivable[] {
+  return bookings
+    .flatMap(booking => serializeInstallments(booking.installments, getFolioTotals(booking.folioEntries).balance, today)
+      .filter(installment => installment.outstanding > 0)
+      .map(installment => ({
+        ...installment,
+        bookingId: booking.id,
+        resId: booking.resId,
+        hotelId: booking.hotelId,
+        hotelName: booking.hotel.name,
+        guestName: booking.guest.fullName,
+        telephone: booking.guest.telephone ?? '',
+        daysOverdue: installment.status === 'overdue'
+          ? nightsBetween(parseDateOnly(installment.dueDate), parseDateOnly(today))
+          : 0,
+      })))
+    .filter(receivable => !status || receivable.status === status)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.resId.localeCompare(b.resId));
+}
+
+/**
+ * Replace a credit reservation's installment plan with a new one for what it owes now, e.g. after extra charges or
+ * when the guest agrees new dates.
+ */
+export async function scheduleInstallments(bookingId: string, plan: InstallmentPlan) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      include: { folioEntries: true },
+    });
+    if (!booking) {
+      throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+    }
+    if (booking.status === 'cancelled') {
+      throw new ApiError(409, 'INVALID_STATUS', 'A cancelled reservation cannot be put on a payment plan');
+    }
+
+    const { balance } = getFolioTotals(booking.folioEntries);
+    if (balance <= 0) {
+      throw new ApiError(409, 'NOTHING_OUTSTANDING', `Reservation ${booking.resId} has nothing left to pay`);
+    }
+
+    await tx.installment.deleteMany({ where: { bookingId } });
+    return tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        paymentMethod: 'credit',
+        paymentStartDate: parseDateOnly(plan.startDate),
+        paymentCompletionDate: parseDateOnly(plan.completionDate),
+        installments: {
+          create: buildInstallmentPlan(balance, plan)
+            .map(installment => ({ ...installment, dueDate: parseDateOnly(installment.dueDate) })),
+        },
+      },
+      include: folioInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
@@ -0,0 +1,382 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { assertStatusChange, toStatusChange } from '@/lib/booking-status';
+import { formatDateOnly, nightsBetween, parseDateOnly } from '@/lib/dates';
+import { getFolioTotals, getPaymentsByMethod, toChargeEntry } from '@/lib/folio';
+import { buildInstallmentPlan, serializeInstallments } from '@/lib/installments';
+import { findUnavailableNights } from '@/lib/inventory';
+import { deriveRate, getNightlyRates, getRatePlanStayError, getRateLineTotals, roundMoney } from '@/lib/pricing';
+import { ratePlanInclude, serializeRatePlan } from '@/lib/rate-plans';
+import { authorizeDeposit, releaseDeposit, type HeldDeposit } from '@/lib/payments';
+import { getShiftForEntry, isDrawerMethod } from '@/lib/shifts';
+import { applyTaxes, serializeTax } from '@/lib/taxes';
+import type {
+  BoardType,
+  Booking,
+  BookingStatus,
+  PaymentMethod,
+  RatePlan,
+  ReservationInput,
+  RoomStatus,
+  StatusChangeInput,
+} from '@/lib/domain';
+
+export const bookingInclude = {
+  hotel: true,
+  roomType: true,
+  rooms: { orderBy: { number: 'asc' } },
+  guest: true,
+  ratePlan: true,
+  rateLines: { where: { releasedAt: null }, orderBy: { date: 'asc' }, include: { taxes: true } },
+  folioEntries: { select: { type: true, amount: true, tax: true, total: true, method: true } },
+  installments: { orderBy: { sequence: 'asc' } },
+} satisfies Prisma.BookingInclude;
+
+type BookingWithRelations = Prisma.BookingGetPayload<{ include: typeof bookingInclude }>;
+
+/**
+ * Shape a Booking row like the reservation records the booking and reservations screens render.
+ */
+export function serializeBooking(booking: BookingWithRelations): Booking {
+  const arrival = formatDateOnly(booking.checkIn);
+  const departure = formatDateOnly(booking.checkOut);
+  const roomStatus = (booking.rooms[0]?.status ?? 'available') as RoomStatus;
+  const folio = getFolioTotals(booking.folioEntries);
+
+  return {
+    id: booking.id,
+    resId: booking.resId,
+    guest: {
+      fullName: booking.guest.fullName,
+      email: booking.guest.email ?? '',
+      guestClassification: booking.guest.guestClassification ?? '',
+      travelAgent: booking.guest.travelAgent ?? '',
+      company: booking.guest.company ?? '',
+      source: booking.source ?? '',
+      group: booking.group ?? '',
+      arrival,
+      departure,
+      vip: booking.guest.vip,
+      nationality: booking.guest.nationality ?? '',
+      telephone: booking.guest.telephone ?? '',
+      roomNo: booking.rooms.map(room => room.number).join(', ') || booking.roomNo || '',
+      rateCode: booking.rateCode ?? '',
+      roomRate: booking.roomRate,
+      payment: booking.paymentMethod,
+      resId: booking.resId,
+      profileId: booking.guest.profileId,
+    },
+    room: {
+      id: booking.roomTypeId,
+      hotelId: booking.hotelId,
+      type: booking.roomType.name,
+      boardType: (booking.ratePlan?.boardType ?? booking.roomType.boardType) as BoardType,
+      description: booking.roomType.description,
+      rate: booking.roomRate,
+      available: roomStatus === 'available',
+      status: roomStatus,
+    },
+    numberOfRooms: booking.numberOfRooms,
+    payment: {
+      method: booking.paymentMethod as PaymentMethod,
+      amount: roundMoney(folio.payments - folio.refunds),
+      date: booking.paymentDate ? formatDateOnly(booking.paymentDate) : '',
+      startDate: booking.paymentStartDate ? formatDateOnly(booking.paymentStartDate) : undefined,
+      completionDate: booking.paymentCompletionDate ? formatDateOnly(booking.paymentCompletionDate) : undefined,
+      remainingBalance: folio.balance,
+      byMethod: getPaymentsByMethod(booking.folioEntries),
+    },
+    status: booking.status as BookingStatus,
+    createdAt: booking.createdAt.toISOString(),
+    totalAmount: booking.totalAmount,
+    nights: nightsBetween(booking.checkIn, booking.checkOut),
+    rateLines: booking.rateLines.map(line => ({
+      date: formatDateOnly(line.date),
+      rateCode: line.rateCode,
+      roomType: line.roomTypeName,
+      price: line.price,
+      tax: line.tax,
+      taxes: line.taxes.map(tax => ({ code: tax.code, name: tax.name, rate: tax.rate, amount: tax.amount })),
+      seasonal: line.seasonal,
+    })),
+    installments: serializeInstallments(booking.installments, folio.balance),
+  };
+}
+
+// Reservation numbers run per calendar year: RES-2024-0001, RES-2024-0002, ...
+async function nextResId(tx: Prisma.TransactionClient, now: Date) {
+  const prefix = `RES-${now.getUTCFullYear()}-`;
+  const latest = await tx.booking.findFirst({
+    where: { resId: { startsWith: prefix } },
+    orderBy: { resId: 'desc' },
+    select: { resId: true },
+  });
+  const sequence = latest ? parseInt(latest.resId.slice(prefix.length), 10) + 1 : 1;
+  return `${prefix}${sequence.toString().padStart(4, '0')}`;
+}
+
+async function upsertGuest(tx: Prisma.TransactionClient, guest: ReservationInput['guest']) {
+  const profile = {
+    fullName: guest.fullName,
+    email: guest.email || null,
+    guestClassification: guest.guestClassification || null,
+    nationality: guest.nationality || null,
+    telephone: guest.telephone || null,
+    company: guest.company || null,
+    travelAgent: guest.travelAgent || null,
+    vip: guest.vip,
+  };
+
+  if (guest.profileId) {
+    return tx.guest.upsert({
+      where: { profileId: guest.profileId },
+      update: profile,
+      create: { ...profile, profileId: guest.profileId },
+    });
+  }
+
+  return tx.guest.create({
+    data: { ...profile, profileId: `PROF-${Date.now().toString(36).toUpperCase()}` },
+  });
+}
+
+type RoomTypeWithSeasons = Prisma.RoomTypeGetPayload<{ include: { seasonalPrices: true } }>;
+
+type HotelWithTaxes = Prisma.HotelGetPayload<{ include: { taxes: true } }>;
+
+/**
+ * Price one room of `roomType` for each night of a stay: the season covering the night, through the rate plan when
+ * there is one or at `overrideRate` instead, taxed with the hotel's taxes in force that night. Returns the room rate
+ * shown on the reservation and a rate line per night, with its taxes.
+ */
+export function priceStay(
+  roomType: RoomTypeWithSeasons,
+  ratePlan: RatePlan | null,
+  hotel: HotelWithTaxes,
+  stay: { arrivalDate: string; departureDate: string },
+  overrideRate?: number
+) {
+  const roomRate = overrideRate ?? (ratePlan ? deriveRate(roomType.price, ratePlan) : roomType.price);
+  const seasons = roomType.seasonalPrices.map(season => ({
+    startDate: formatDateOnly(season.startDate),
+    endDate: formatDateOnly(season.endDate),
+    price: season.price,
+  }));
+  const nightlyRates = getNightlyRates(roomType.price, seasons, stay.arrivalDate, stay.departureDate, {
+    ratePlan,
+    overrideRate,
+  });
+  const taxes = hotel.taxes.map(tax => serializeTax({ ...tax, hotel }));
+  const rateLines = nightlyRates.map(night => {
+    const taxed = applyTaxes(night.rate, 'room', night.date, taxes, hotel.pricesIncludeTax);
+    return {
+      date: parseDateOnly(night.date),
+      rateCode: ratePlan?.code ?? null,
+      roomTypeName: roomType.name,
+      price: taxed.net,
+      tax: taxed.tax,
+      seasonal: night.seasonal,
+      ratePlanId: ratePlan?.id ?? null,
+      roomTypeId: roomType.id,
+      taxes: taxed.taxes,
+    };
+  });
+
+  return { roomRate, rateLines };
+}
+
+type PricedNight = ReturnType<typeof priceStay>['rateLines'][number];
+
+/**
+ * The folio room charge for one night. Rate lines are per room; a room charge covers all the rooms booked that night.
+ */
+export function toRoomCharge(
+  line: Pick<PricedNight, 'date' | 'roomTypeName' | 'price' | 'taxes'>,
+  numberOfRooms: number,
+  postedById: string | null
+) {
+  return toChargeEntry(
+    'room',
+    line.roomTypeName,
+    line.date,
+    numberOfRooms,
+    roundMoney(line.price * numberOfRooms),
+    line.taxes.map(tax => ({ ...tax, amount: roundMoney(tax.amount * numberOfRooms) })),
+    postedById
+  );
+}
+
+/**
+ * Create a reservation after checking, in the same serializable transaction, that the room type still has
+ * `numberOfRooms` rooms free on every night of the stay. Each night is priced from the season covering it,
+ * through the reservation's rate plan when it has one, taxed with the hotel's taxes in force that night, and kept
+ * as a rate line the total is summed from. Each night is also posted to the folio as a room charge, along with
+ * whatever was paid at booking; on credit, the rest is split into installments. A card deposit is put on hold
+ * with the payment provider first and released again if the reservation cannot be made.
+ */
+export async function createReservation(input: ReservationInput, postedById: string | null = null) {
+  const { deposit } = input.payment;
+  const held = deposit ? await authorizeDeposit(deposit, `Deposit for ${input.guest.fullName}`) : null;
+
+  try {
+    return await insertReservation(input, held, postedById);
+  } catch (error) {
+    if (held) {
+      await releaseDeposit(held).catch(releaseError => console.error('Error releasing deposit:', releaseError));
+    }
+    throw error;
+  }
+}
+
+async function insertReservation(input: ReservationInput, held: HeldDeposit | null, postedById: string | null) {
+  const checkIn = parseDateOnly(input.arrivalDate);
+  const checkOut = parseDateOnly(input.departureDate);
+
+  return prisma.$transaction(async (tx) => {
+    const roomType = await tx.roomType.findUnique({
+      where: { id: input.roomTypeId },
+      include: { seasonalPrices: true, hotel: { include: { taxes: true } } },
+    });
+    if (!roomType || roomType.hotelId !== input.hotelId) {
+      throw new ApiError(404, 'ROOM_TYPE_NOT_FOUND', 'Room type not found for this hotel');
+    }
+
+    const ratePlanRow = input.ratePlanId
+      ? await tx.ratePlan.findUnique({ where: { id: input.ratePlanId }, include: ratePlanInclude })
+      : null;
+    if (input.ratePlanId && (!ratePlanRow || ratePlanRow.hotelId !== roomType.hotelId)) {
+      throw new ApiError(404, 'RATE_PLAN_NOT_FOUND', 'Rate plan not found for this hotel');
+    }
+    const ratePlan = ratePlanRow && serializeRatePlan(ratePlanRow);
+    const ratePlanError = ratePlan && getRatePlanStayError(ratePlan, input.arrivalDate, input.departureDate);
+    if (ratePlanError) {
+      throw new ApiError(409, 'RATE_PLAN_RESTRICTED', ratePlanError);
+    }
+
+    const unavailableNights = await findUnavailableNights(tx, roomType, checkIn, checkOut, input.numberOfRooms);
+    if (unavailableNights.length > 0) {
+      throw new ApiError(
+        409,
+        'ROOM_UNAVAILABLE',
+        'Not enough rooms of this type are available for the selected dates',
+        { nights: unavailableNights }
+      );
+    }
+
+    const guest = await upsertGuest(tx, input.guest);
+    const resId = await nextResId(tx, new Date());
+    const { roomRate, rateLines } = priceStay(roomType, ratePlan, roomType.hotel, input, input.roomRate);
+    const totalAmount = getRateLineTotals(rateLines, input.numberOfRooms).total;
+    const { payment } = input;
+    const roomCharges = rateLines.map(line => toRoomCharge(line, input.numberOfRooms, postedById));
+    const paid = roundMoney(payment.payments.reduce((sum, entry) => sum + entry.amount, 0));
+    if (paid > totalAmount) {
+      throw new ApiError(
+        409,
+        'PAYMENT_EXCEEDS_BALANCE',
+        `Payments of ${paid} SAR exceed the reservation total of ${totalAmount} SAR`
+      );
+    }
+    if (held && held.amount > roundMoney(totalAmount - paid)) {
+      throw new ApiError(
+        409,
+        'DEPOSIT_EXCEEDS_BALANCE',
+        `A deposit of ${held.amount} SAR is more than the ${roundMoney(totalAmount - paid)} SAR left to pay`
+      );
+    }
+    const today = formatDateOnly(new Date());
+    // Cash and card taken at booking go on the cashier's open shift
+    const drawerPayment = payment.payments.find(entry => isDrawerMethod(entry.method));
+    const shiftId = drawerPayment ? await getShiftForEntry(tx, postedById, drawerPayment.method) : null;
+    const deposits = payment.payments.map(entry => ({
+      type: 'payment',
+      description: 'Payment at booking',
+      date: parseDateOnly(entry.date ?? today),
+      amount: entry.amount,
+      total: entry.amount,
+      method: entry.method,
+      reference: entry.reference || null,
+      postedById,
+      shiftId: isDrawerMethod(entry.method) ? shiftId : null,
+    }));
+    const firstPaidOn = payment.payments.map(entry => entry.date ?? today).sort()[0];
+    const balance = roundMoney(totalAmount - paid);
+    const installments = payment.method === 'credit' && balance > 0 && payment.startDate && payment.completionDate
+      ? buildInstallmentPlan(balance, {
+        count: payment.installments,
+        startDate: payment.startDate,
+        completionDate: payment.completionDate,
+      })
+      : [];
+
+    return tx.booking.create({
+      data: {
+        resId,
+        checkIn,
+        checkOut,
+        numberOfRooms: input.numberOfRooms,
+        status: 'confirmed',
+        source: input.guest.source || null,
+        group: input.guest.group || null,
+        rateCode: ratePlan?.code ?? (input.guest.rateCode || null),
+        roomNo: input.guest.roomNo || null,
+        roomRate,
+        overrideRate: input.roomRate ?? null,
+        totalAmount,
+        paymentMethod: payment.method,
+        paymentDate: firstPaidOn ? parseDateOnly(firstPaidOn) : null,
+        paymentStartDate: payment.method === 'credit' && payment.startDate ? parseDateOnly(payment.startDate) : null,
+        paymentCompletionDate: payment.method === 'credit' && payment.completionDate ? parseDateOnly(payment.completionDate) : null,
+        hotelId: roomType.hotelId,
+        roomTypeId: roomType.id,
+        ratePlanId: ratePlan?.id ?? null,
+        guestId: guest.id,
+        rateLines: {
+          create: rateLines.map(line => ({ ...line, taxes: { create: line.taxes } })),
+        },
+        folioEntries: {
+          create: [...roomCharges, ...deposits],
+        },
+        installments: {
+          create: installments.map(installment => ({ ...installment, dueDate: parseDateOnly(installment.dueDate) })),
+        },
+        authorizations: {
+          create: held ? [held] : [],
+        },
+        statusChanges: {
+          create: [toStatusChange(null, 'confirmed', postedById, null)],
+        },
+      },
+      include: bookingInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
+
+/**
+ * Confirm a pending reservation. No-shows go through markNoShow, which also settles the folio.
+ */
+export async function changeStatus(id: string, input: StatusChangeInput, changedById: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({ where: { id } });
+    if (!booking) {
+      throw new ApiError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+    }
+    assertStatusChange(booking, input.status);
+
+    return tx.booking.update({
+      where: { id },
+      data: {
+        status: input.status,
+        statusChanges: {
+          create: [toStatusChange(booking.status, input.status, changedById, input.reason || null)],
+        },
+      },
+      include: bookingInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
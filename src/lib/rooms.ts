@@ -0,0 +1,65 @@
+import type { Hotel, Room, RoomType as RoomTypeRow, SeasonalPrice } from '@prisma/client';
+import { formatDateOnly } from '@/lib/dates';
+import type { BoardType, HousekeepingRoom, HousekeepingStatus, RoomStatus, RoomType } from '@/lib/domain';
+
+export const roomTypeInclude = {
+  hotel: true,
+  seasonalPrices: { orderBy: { startDate: 'asc' } },
+  rooms: { orderBy: { number: 'asc' } },
+} as const;
+
+type RoomTypeWithRelations = RoomTypeRow & {
+  hotel: Hotel;
+  seasonalPrices: SeasonalPrice[];
+  rooms: Room[];
+};
+
+/**
+ * Shape a RoomType row the way the /addroom screen models a "room".
+ */
+export function serializeRoomType(roomType: RoomTypeWithRelations): RoomType {
+  return {
+    id: roomType.id,
+    hotelId: roomType.hotelId,
+    hotelName: roomType.hotel.name,
+    roomType: roomType.name,
+    roomTypeDescription: roomType.description,
+    altDescription: roomType.altDescription,
+    price: roomType.price,
+    alternativePrice: roomType.alternativePrice,
+    quantity: roomType.quantity,
+    boardType: roomType.boardType as BoardType,
+    seasonalPrices: roomType.seasonalPrices.map(season => ({
+      startDate: formatDateOnly(season.startDate),
+      endDate: formatDateOnly(season.endDate),
+      price: season.price,
+    })),
+    roomNumbers: roomType.rooms.map(room => room.number),
+    createdAt: formatDateOnly(roomType.createdAt),
+  };
+}
+
+export const housekeepingRoomInclude = {
+  hotel: true,
+  roomType: true,
+} as const;
+
+type RoomWithRelations = Room & {
+  hotel: Hotel;
+  roomType: RoomTypeRow;
+};
+
+/**
+ * Shape a physical Room row for the housekeeping board.
+ */
+export function serializeHousekeepingRoom(room: RoomWithRelations): HousekeepingRoom {
+  return {
+    id: room.id,
+    number: room.number,
+    hotelId: room.hotelId,
+    hotelName: room.hotel.name,
+    roomType: room.roomType.name,
+    status: room.status as RoomStatus,
+    housekeeping: room.housekeeping as HousekeepingStatus,
+  };
+}
@@ -0,0 +1,96 @@
+// Signed session cookies using Web Crypto only, so the same code runs in middleware (Edge) and route handlers (Node).
+
+export const SESSION_COOKIE = 'session';
+
+export const SESSION_MAX_AGE = 60 * 60 * 12; // 12 hours, in seconds
+
+export const REMEMBER_ME_MAX_AGE = 60 * 60 * 24 * 30; // 30 days, in seconds
+
+// Signed-in pages warn after IDLE_TIMEOUT_MS - IDLE_WARNING_MS without input and log out at IDLE_TIMEOUT_MS;
+// the server turns away sessions it has not heard from for IDLE_TIMEOUT_MS
+export const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export const IDLE_WARNING_MS = 2 * 60 * 1000;
+
+// How often a page with fresh input tells the server the session is still in use
+export const ACTIVITY_PING_MS = 60 * 1000;
+
+export const ROLES = ['owner', 'front-desk', 'accountant'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface SessionPayload {
+  sid: string;
+  sub: string;
+  username: string;
+  name: string | null;
+  role: Role;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getSigningKey() {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not set');
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function signSession(payload: SessionPayload): Promise<string> {
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Return the payload of a session token, or null when it is missing, tampered with or expired.
+ */
+export async function verifySession(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      base64UrlDecode(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(body))) as SessionPayload;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { roundMoney } from '@/lib/pricing';
+import type {
+  FolioEntryType,
+  PaymentMethod,
+  Shift,
+  ShiftCloseInput,
+  ShiftDrawer,
+  ShiftOpenInput,
+  ShiftReport,
+} from '@/lib/domain';
+
+// The payment methods that pass through the front desk and so have to be counted at the end of a shift
+const DRAWER_METHODS: Record<'cash' | 'card', PaymentMethod> = { cash: 'cash', card: 'visa' };
+
+export const shiftInclude = {
+  user: { select: { name: true, username: true } },
+  entries: {
+    orderBy: { createdAt: 'asc' },
+    include: { booking: { select: { resId: true, guest: { select: { fullName: true } } } } },
+  },
+} satisfies Prisma.CashierShiftInclude;
+
+type ShiftWithEntries = Prisma.CashierShiftGetPayload<{ include: typeof shiftInclude }>;
+
+type DrawerEntry = { type: string; method: string | null; total: number };
+
+function getDrawer(
+  entries: DrawerEntry[],
+  method: PaymentMethod,
+  float: number,
+  closing: { expected: number | null; counted: number | null }
+): ShiftDrawer {
+  const sum = (type: FolioEntryType) => roundMoney(entries
+    .filter(entry => entry.type === type && entry.method === method)
+    .reduce((total, entry) => total + entry.total, 0));
+
+  const payments = sum('payment');
+  const refunds = sum('refund');
+  const expected = closing.expected ?? roundMoney(float + payments - refunds);
+
+  return {
+    payments,
+    refunds,
+    expected,
+    counted: closing.counted,
+    variance: closing.counted === null ? null : roundMoney(closing.counted - expected),
+  };
+}
+
+/**
+ * Shape a shift with its cash and card drawers. The cash drawer starts from the opening float; the card drawer
+ * is what the terminal should settle for the shift. A closed shift keeps the expected amounts it closed with.
+ */
+export function serializeShift(shift: ShiftWithEntries): Shift {
+  return {
+    id: shift.id,
+    userId: shift.userId,
+    cashier: shift.user.name ?? shift.user.username,
+    status: shift.closedAt ? 'closed' : 'open',
+    openedAt: shift.openedAt.toISOString(),
+    closedAt: shift.closedAt?.toISOString() ?? null,
+    openingFloat: shift.openingFloat,
+    cash: getDrawer(shift.entries, DRAWER_METHODS.cash, shift.openingFloat, {
+      expected: shift.expectedCash,
+      counted: shift.countedCash,
+    }),
+    card: getDrawer(shift.entries, DRAWER_METHODS.card, 0, { expected: shift.expectedCard, counted: shift.countedCard }),
+    notes: shift.notes,
+    transactionCount: shift.entries.length,
+  };
+}
+
+/**
+ * The end-of-shift reconciliation report: the shift's drawers and every payment and refund taken on it.
+ */
+export function serializeShiftReport(shift: ShiftWithEntries): ShiftReport {
+  return {
+    ...serializeShift(shift),
+    transactions: shift.entries.map(entry => ({
+      id: entry.id,
+      type: entry.type as FolioEntryType,
+      method: entry.method as PaymentMethod | null,
+      amount: entry.total,
+      reference: entry.reference,
+      bookingId: entry.bookingId,
+      resId: entry.booking.resId,
+      guestName: entry.booking.guest.fullName,
+      createdAt: entry.createdAt.toISOString(),
+    })),
+  };
+}
+
+export function isDrawerMethod(method: string | null | undefined) {
+  return method === DRAWER_METHODS.cash || method === DRAWER_METHODS.card;
+}
+
+/**
+ * The shift a folio payment or refund goes on. Cash and card taken or given back by a user must go through their
+ * open shift; other methods, and entries no user posted (such as gateway callbacks), belong to no shift.
+ */
+export async function getShiftForEntry(tx: Prisma.TransactionClient, userId: string | null, method: string | null) {
+  if (!userId || !isDrawerMethod(method)) {
+    return null;
+  }
+
+  const shift = await tx.cashierShift.findFirst({ where: { userId, closedAt: null }, select: { id: true } });
+  if (!shift) {
+    throw new ApiError(409, 'NO_OPEN_SHIFT', 'Open a cashier shift before taking cash or card payments');
+  }
+  return shift.id;
+}
+
+/**
+ * Start a shift for a cashier with the float counted into their drawer.
+ */
+export async function openShift(userId: string, input: ShiftOpenInput) {
+  return prisma.$transaction(async (tx) => {
+    const open = await tx.cashierShift.findFirst({ where: { userId, closedAt: null } });
+    if (open) {
+      throw new ApiError(409, 'SHIFT_ALREADY_OPEN', 'You already have an open shift; close it before opening another');
+    }
+
+    return tx.cashierShift.create({
+      data: { userId, openingFloat: input.openingFloat },
+      include: shiftInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
+
+/**
+ * Close a shift with what was counted in the drawer and settled on the card terminal. The expected amounts are
+ * kept as they stand now, so the report does not move if a reservation and its entries are deleted later. With a
+ * `cashierId`, only that cashier's shift can be closed.
+ */
+export async function closeShift(id: string, input: ShiftCloseInput, cashierId: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const shift = await tx.cashierShift.findUnique({ where: { id }, include: shiftInclude });
+    if (!shift || (cashierId && shift.userId !== cashierId)) {
+      throw new ApiError(404, 'SHIFT_NOT_FOUND', 'Shift not found');
+    }
+    if (shift.closedAt) {
+      throw new ApiError(409, 'SHIFT_CLOSED', 'This shift is already closed');
+    }
+
+    const { cash, card } = serializeShift(shift);
+    return tx.cashierShift.update({
+      where: { id },
+      data: {
+        closedAt: new Date(),
+        expectedCash: cash.expected,
+        expectedCard: card.expected,
+        countedCash: input.countedCash,
+        countedCard: input.countedCard,
+        notes: input.notes || null,
+      },
+      include: shiftInclude,
+    });
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
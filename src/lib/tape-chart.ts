@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import type { Booking, Guest, Room } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ApiError } from '@/lib/api';
+import { addDays, dateOnlySchema, formatDateOnly, nightsBetween, parseDateOnly } from '@/lib/dates';
+import type { BookingStatus, RoomStatus, TapeChart, TapeChartBar, TapeChartRow } from '@/lib/domain';
+import { RELEASED_STATUSES } from '@/lib/inventory';
+
+export const TAPE_CHART_MAX_DAYS = 62;
+
+export const tapeChartQuerySchema = z.object({
+  hotelId: z.string().min(1, 'Hotel is required'),
+  from: dateOnlySchema.default(() => formatDateOnly(new Date())),
+  days: z.coerce.number().int().min(1).max(TAPE_CHART_MAX_DAYS).default(14),
+});
+
+type BookingWithGuest = Booking & { guest: Guest; rooms: Room[] };
+
+function toBar(booking: BookingWithGuest, windowStart: Date, days: number): TapeChartBar {
+  const startOffset = nightsBetween(windowStart, booking.checkIn);
+  const endOffset = nightsBetween(windowStart, booking.checkOut);
+
+  return {
+    bookingId: booking.id,
+    resId: booking.resId,
+    guestName: booking.guest.fullName,
+    status: booking.status as BookingStatus,
+    checkIn: formatDateOnly(booking.checkIn),
+    checkOut: formatDateOnly(booking.checkOut),
+    startIndex: startOffset,
+    endIndex: Math.min(endOffset, days),
+    startsBefore: booking.checkIn < windowStart,
+    endsAfter: endOffset > days,
+  };
+}
+
+function overlaps(row: TapeChartRow, bar: TapeChartBar) {
+  return row.bars.some(existing => existing.startIndex < bar.endIndex && bar.startIndex < existing.endIndex);
+}
+
+/**
+ * Lay out one room type's reservations on its physical rooms. Reservations with assigned rooms go on those
+ * rooms' rows; the others are placed, one bar per booked room, on the first numbered row that is free for the
+ * whole stay, falling back to "Unassigned" overflow rows when the numbered rooms are full.
+ */
+function layoutRows(rooms: Room[], bookings: BookingWithGuest[], windowStart: Date, days: number) {
+  const rows: TapeChartRow[] = rooms.map(room => ({
+    roomId: room.id,
+    label: room.number,
+    status: room.status as RoomStatus,
+    bars: [],
+  }));
+  const overflow: TapeChartRow[] = [];
+
+  bookings.forEach(booking => {
+    const assignedRows = rows.filter(row => booking.rooms.some(room => room.id === row.roomId));
+    if (assignedRows.length > 0) {
+      assignedRows.forEach(row => row.bars.push(toBar(booking, windowStart, days)));
+      return;
+    }
+
+    for (let unit = 0; unit < booking.numberOfRooms; unit++) {
+      const bar = toBar(booking, windowStart, days);
+      let row = rows.find(candidate => candidate.status !== 'maintenance' && !overlaps(candidate, bar))
+        ?? overflow.find(candidate => !overlaps(candidate, bar));
+      if (!row) {
+        row = { roomId: null, label: 'Unassigned', status: null, bars: [] };
+        overflow.push(row);
+      }
+      row.bars.push(bar);
+    }
+  });
+
+  return rows.concat(overflow);
+}
+
+/**
+ * Build the tape chart for a hotel over `days` nights starting at `from`. Cancelled reservations are left out.
+ */
+export async function getTapeChart(hotelId: string, from: string, days: number): Promise<TapeChart> {
+  const windowStart = parseDateOnly(from);
+  const windowEnd = addDays(windowStart, days);
+
+  const hotel = await prisma.hotel.findUnique({
+    where: { id: hotelId },
+    include: {
+      roomTypes: {
+        orderBy: { name: 'asc' },
+        include: { rooms: { orderBy: { number: 'asc' } } },
+      },
+    },
+  });
+  if (!hotel) {
+    throw new ApiError(404, 'HOTEL_NOT_FOUND', 'Hotel not found');
+  }
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      hotelId,
+      status: { notIn: RELEASED_STATUSES },
+      checkIn: { lt: windowEnd },
+      checkOut: { gt: windowStart },
+    },
+    include: { guest: true, rooms: true },
+    orderBy: [{ checkIn: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const dates = Array.from({ length: days }, (_, i) => formatDateOnly(addDays(windowStart, i)));
+
+  return {
+    hotelId,
+    from,
+    to: formatDateOnly(windowEnd),
+    dates,
+    roomTypes: hotel.roomTypes.map(roomType => {
+      const roomTypeBookings = bookings.filter(booking => booking.roomTypeId === roomType.id);
+
+      return {
+        id: roomType.id,
+        name: roomType.name,
+        quantity: roomType.quantity,
+        rows: layoutRows(roomType.rooms, roomTypeBookings, windowStart, days),
+        sold: dates.map((_, night) => roomTypeBookings
+          .filter(booking => {
+            const bar = toBar(booking, windowStart, days);
+            return bar.startIndex <= night && night < bar.endIndex;
+          })
+          .reduce((sum, booking) => sum + booking.numberOfRooms, 0)),
+      };
+    }),
+  };
+}
@@ -0,0 +1,120 @@
+import type { Hotel, Tax as TaxRow } from '@prisma/client';
+import { formatDateOnly } from '@/lib/dates';
+import { roundMoney } from '@/lib/pricing';
+import type { ChargeType, RateLineTax, Tax } from '@/lib/domain';
+
+// Client-safe like pricing.ts: the booking wizard previews taxes with the same rules the server stores
+
+export const taxInclude = {
+  hotel: true,
+} as const;
+
+type TaxWithHotel = TaxRow & { hotel: Hotel };
+
+type TaxRule = Pick<Tax, 'code' | 'name' | 'rate' | 'compound' | 'chargeTypes' | 'effectiveFrom' | 'effectiveTo'> & { id?: string };
+
+type TaxPeriod = { id?: string; code: string; effectiveFrom?: string | null; effectiveTo?: string | null };
+
+// The tax reported as VAT on ZATCA invoices; any other tax (such as the municipality fee) is a fee VAT is charged on
+export const VAT_TAX_CODE = 'VAT';
+
+// A tax as charged on one amount; taxId links back to the hotel's tax when there is one
+export type TaxAmount = RateLineTax & { taxId: string | null };
+
+export interface TaxedAmount {
+  net: number;
+  tax: number;
+  total: number;
+  taxes: TaxAmount[];
+}
+
+/**
+ * Shape a Tax row for the tax screen and the booking wizard.
+ */
+export function serializeTax(tax: TaxWithHotel): Tax {
+  return {
+    id: tax.id,
+    hotelId: tax.hotelId,
+    hotelName: tax.hotel.name,
+    code: tax.code,
+    name: tax.name,
+    altName: tax.altName,
+    rate: tax.rate,
+    compound: tax.compound,
+    chargeTypes: tax.chargeTypes as ChargeType[],
+    effectiveFrom: tax.effectiveFrom ? formatDateOnly(tax.effectiveFrom) : null,
+    effectiveTo: tax.effectiveTo ? formatDateOnly(tax.effectiveTo) : null,
+    createdAt: formatDateOnly(tax.createdAt),
+  };
+}
+
+export function isTaxApplicable(tax: TaxRule, chargeType: ChargeType, date: string) {
+  return tax.chargeTypes.includes(chargeType)
+    && (!tax.effectiveFrom || tax.effectiveFrom <= date)
+    && (!tax.effectiveTo || date <= tax.effectiveTo);
+}
+
+/**
+ * Work out the taxes on one charge of a hotel. Non-compound taxes are charged on the net amount and compound ones
+ * on the net plus those taxes. When the hotel's prices include tax, `amount` is the gross and the net is backed
+ * out of it, so the total always equals the quoted price; otherwise the taxes are added on top.
+ */
+export function applyTaxes(
+  amount: number,
+  chargeType: ChargeType,
+  date: string,
+  taxes: TaxRule[],
+  pricesIncludeTax: boolean
+): TaxedAmount {
+  const applicable = taxes.filter(tax => isTaxApplicable(tax, chargeType, date));
+  const simple = applicable.filter(tax => !tax.compound);
+  const compound = applicable.filter(tax => tax.compound);
+  const simpleRate = simple.reduce((sum, tax) => sum + tax.rate, 0) / 100;
+  const compoundRate = compound.reduce((sum, tax) => sum + tax.rate, 0) / 100;
+
+  const base = pricesIncludeTax ? amount / ((1 + simpleRate) * (1 + compoundRate)) : amount;
+  const simpleAmounts = simple.map(tax => toTaxAmount(tax, roundMoney(base * tax.rate / 100)));
+  const compoundBase = base + simpleAmounts.reduce((sum, tax) => sum + tax.amount, 0);
+  const compoundAmounts = compound.map(tax => toTaxAmount(tax, roundMoney(compoundBase * tax.rate / 100)));
+
+  const lines = [...simpleAmounts, ...compoundAmounts];
+  const tax = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  const net = pricesIncludeTax ? roundMoney(amount - tax) : amount;
+
+  return { net, tax, total: roundMoney(net + tax), taxes: lines };
+}
+
+function toTaxAmount(tax: TaxRule, amount: number): TaxAmount {
+  return { taxId: tax.id ?? null, code: tax.code, name: tax.name, rate: tax.rate, amount };
+}
+
+/**
+ * Add up the taxes of several charges by tax code and rate, e.g. for a reservation's rate lines, which are per room.
+ */
+export function getTaxBreakdown(charges: { taxes: RateLineTax[] }[], quantity = 1): RateLineTax[] {
+  const breakdown: RateLineTax[] = [];
+
+  charges.forEach(charge => {
+    charge.taxes.forEach(tax => {
+      const existing = breakdown.find(line => line.code === tax.code && line.rate === tax.rate);
+      if (existing) {
+        existing.amount = roundMoney(existing.amount + tax.amount * quantity);
+      } else {
+        breakdown.push({ code: tax.code, name: tax.name, rate: tax.rate, amount: roundMoney(tax.amount * quantity) });
+      }
+    });
+  });
+
+  return breakdown;
+}
+
+/**
+ * Return another period of the same tax code that shares a date with this one, if any. A hotel changes a rate by
+ * ending the old period and starting a new one, so each date has one rate per code.
+ */
+export function findOverlappingTax<T extends TaxPeriod>(taxes: T[], candidate: TaxPeriod): T | undefined {
+  return taxes.find(tax => tax.code === candidate.code
+    && tax.id !== candidate.id
+    && (!tax.effectiveFrom || !candidate.effectiveTo || tax.effectiveFrom <= candidate.effectiveTo)
+    && (!candidate.effectiveFrom || !tax.effectiveTo || candidate.effectiveFrom <= tax.effectiveTo));
+}
@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import type { InvoiceType } from '@/lib/domain';
+
+// ZATCA (Saudi e-invoicing) building blocks: UBL 2.1 XML, the TLV QR payload and the invoice hash chain.
+// Everything is produced locally; nothing here talks to the ZATCA portal, so the documents carry no cryptographic
+// stamp (QR tags 7-9) until the hotel onboards a signing certificate.
+
+// PIH of a hotel's first invoice: the base64 of the hex SHA-256 of "0", as ZATCA specifies
+export const INITIAL_PREVIOUS_HASH = Buffer.from(createHash('sha256').update('0').digest('hex')).toString('base64');
+
+const INVOICE_TYPE_CODES: Record<InvoiceType, string> = {
+  invoice: '388',
+  'credit-note': '381',
+};
+
+const PAYMENT_MEANS_CODES: Record<string, string> = {
+  cash: '10',
+  credit: '30',
+  visa: '48',
+};
+
+export interface ZatcaParty {
+  name: string;
+  vatNumber?: string | null;
+  crNumber?: string | null;
+  street?: string | null;
+  buildingNumber?: string | null;
+  city?: string | null;
+  postalCode?: string | null;
+}
+
+export interface ZatcaLine {
+  position: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  netAmount: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+}
+
+export interface ZatcaDocument {
+  number: string;
+  uuid: string;
+  sequence: number;
+  type: InvoiceType;
+  simplified: boolean;
+  issuedAt: Date;
+  currency: string;
+  previousHash: string;
+  seller: ZatcaParty;
+  buyer: ZatcaParty | null;
+  // The invoice a credit note reverses, and why
+  originalNumber?: string | null;
+  reason?: string | null;
+  paymentMethod: string;
+  supplyDate: string;
+  supplyEndDate: string;
+  lines: ZatcaLine[];
+  subtotal: number;
+  vatTotal: number;
+  total: number;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function amount(value: number) {
+  return value.toFixed(2);
+}
+
+// Element with escaped text, or nothing when the value is empty
+function element(name: string, value: string | null | undefined, attributes = '') {
+  return value ? `<${name}${attributes}>${escapeXml(value)}</${name}>` : '';
+}
+
+// Standard rated (S) when VAT is charged, otherwise out of scope (O), which needs an exemption reason
+function taxCategory(vatRate: number) {
+  return vatRate > 0
+    ? `<cbc:ID>S</cbc:ID><cbc:Percent>${amount(vatRate)}</cbc:Percent>`
+    : '<cbc:ID>O</cbc:ID><cbc:Percent>0.00</cbc:Percent>'
+      + '<cbc:TaxExemptionReasonCode>VATEX-SA-OOS</cbc:TaxExemptionReasonCode>'
+      + '<cbc:TaxExemptionReason>Not subject to VAT</cbc:TaxExemptionReason>';
+}
+
+function party(value: ZatcaParty) {
+  return '<cac:Party>'
+    + (value.crNumber ? `<cac:PartyIdentification>${element('cbc:ID', value.crNumber, ' schemeID="CRN"')}</cac:PartyIdentification>` : '')
+    + '<cac:PostalAddress>'
+    + element('cbc:StreetName', value.street)
+    + element('cbc:BuildingNumber', value.buildingNumber)
+    + element('cbc:CityName', value.city)
+    + element('cbc:PostalZone', value.postalCode)
+    + '<cac:Country><cbc:IdentificationCode>SA</cbc:IdentificationCode></cac:Country>'
+    + '</cac:PostalAddress>'
+    + (value.vatNumber
+      ? `<cac:PartyTaxScheme>${element('cbc:CompanyID', value.vatNumber)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : '')
+    + `<cac:PartyLegalEntity>${element('cbc:RegistrationName', value.name)}</cac:PartyLegalEntity>`
+    + '</cac:Party>';
+}
+
+function documentReference(id: string, content: string) {
+  return `<cac:AdditionalDocumentReference><cbc:ID>${id}</cbc:ID><cac:Attachment>`
+    + `<cbc:EmbeddedDocumentBinaryObject mimeCode="text/plain">${content}</cbc:EmbeddedDocumentBinaryObject>`
+    + '</cac:Attachment></cac:AdditionalDocumentReference>';
+}
+
+/**
+ * Render a document as ZATCA UBL 2.1 XML. Without `qrCode` this is the form the invoice hash is taken over, since
+ * ZATCA hashes the invoice without its QR reference.
+ */
+export function buildInvoiceXml(doc: ZatcaDocument, qrCode?: string) {
+  const currency = ` currencyID="${doc.currency}"`;
+  const [issueDate, issueTime] = doc.issuedAt.toISOString().split('.')[0].split('T');
+  // Invoice type transaction code: 01 standard (B2B), 02 simplified (B2C)
+  const subtype = doc.simplified ? '0200000' : '0100000';
+
+  const rates = doc.lines.map(line => line.vatRate).filter((rate, index, all) => all.indexOf(rate) === index);
+  const subtotals = rates.map(rate => {
+    const lines = doc.lines.filter(line => line.vatRate === rate);
+    const taxable = lines.reduce((sum, line) => sum + line.netAmount, 0);
+    const vat = lines.reduce((sum, line) => sum + line.vatAmount, 0);
+    return '<cac:TaxSubtotal>'
+      + `<cbc:TaxableAmount${currency}>${amount(taxable)}</cbc:TaxableAmount>`
+      + `<cbc:TaxAmount${currency}>${amount(vat)}</cbc:TaxAmount>`
+      + `<cac:TaxCategory>${taxCategory(rate)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:TaxCategory>`
+      + '</cac:TaxSubtotal>';
+  }).join('');
+
+  const lines = doc.lines.map(line => '<cac:InvoiceLine>'
+    + `<cbc:ID>${line.position}</cbc:ID>`
+    + `<cbc:InvoicedQuantity unitCode="PCE">${line.quantity}</cbc:InvoicedQuantity>`
+    + `<cbc:LineExtensionAmount${currency}>${amount(line.netAmount)}</cbc:LineExtensionAmount>`
+    + '<cac:TaxTotal>'
+    + `<cbc:TaxAmount${currency}>${amount(line.vatAmount)}</cbc:TaxAmount>`
+    + `<cbc:RoundingAmount${currency}>${amount(line.total)}</cbc:RoundingAmount>`
+    + '</cac:TaxTotal>'
+    + `<cac:Item>${element('cbc:Name', line.description)}`
+    + `<cac:ClassifiedTaxCategory>${taxCategory(line.vatRate)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:ClassifiedTaxCategory>`
+    + '</cac:Item>'
+    + `<cac:Price><cbc:PriceAmount${currency}>${amount(line.unitPrice)}</cbc:PriceAmount></cac:Price>`
+    + '</cac:InvoiceLine>').join('');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>'
+    + '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"'
+    + ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"'
+    + ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">'
+    + '<cbc:ProfileID>reporting:1.0</cbc:ProfileID>'
+    + element('cbc:ID', doc.number)
+    + `<cbc:UUID>${doc.uuid}</cbc:UUID>`
+    + `<cbc:IssueDate>${issueDate}</cbc:IssueDate>`
+    + `<cbc:IssueTime>${issueTime}</cbc:IssueTime>`
+    + `<cbc:InvoiceTypeCode name="${subtype}">${INVOICE_TYPE_CODES[doc.type]}</cbc:InvoiceTypeCode>`
+    + `<cbc:DocumentCurrencyCode>${doc.currency}</cbc:DocumentCurrencyCode>`
+    + `<cbc:TaxCurrencyCode>${doc.currency}</cbc:TaxCurrencyCode>`
+    + (doc.originalNumber
+      ? `<cac:BillingReference><cac:InvoiceDocumentReference>${element('cbc:ID', doc.originalNumber)}</cac:InvoiceDocumentReference></cac:BillingReference>`
+      : '')
+    + `<cac:AdditionalDocumentReference><cbc:ID>ICV</cbc:ID><cbc:UUID>${doc.sequence}</cbc:UUID></cac:AdditionalDocumentReference>`
+    + documentReference('PIH', doc.previousHash)
+    + (qrCode ? documentReference('QR', qrCode) : '')
+    + `<cac:AccountingSupplierParty>${party(doc.seller)}</cac:AccountingSupplierParty>`
+    + `<cac:AccountingCustomerParty>${doc.buyer ? party(doc.buyer) : ''}</cac:AccountingCustomerParty>`
+    + '<cac:Delivery>'
+    + `<cbc:ActualDeliveryDate>${doc.supplyDate}</cbc:ActualDeliveryDate>`
+    + `<cbc:LatestDeliveryDate>${doc.supplyEndDate}</cbc:LatestDeliveryDate>`
+    + '</cac:Delivery>'
+    + '<cac:PaymentMeans>'
+    + `<cbc:PaymentMeansCode>${PAYMENT_MEANS_CODES[doc.paymentMethod] ?? '1'}</cbc:PaymentMeansCode>`
+    + element('cbc:InstructionNote', doc.reason)
+    + '</cac:PaymentMeans>'
+    + `<cac:TaxTotal><cbc:TaxAmount${currency}>${amount(doc.vatTotal)}</cbc:TaxAmount></cac:TaxTotal>`
+    + `<cac:TaxTotal><cbc:TaxAmount${currency}>${amount(doc.vatTotal)}</cbc:TaxAmount>${subtotals}</cac:TaxTotal>`
+    + '<cac:LegalMonetaryTotal>'
+    + `<cbc:LineExtensionAmount${currency}>${amount(doc.subtotal)}</cbc:LineExtensionAmount>`
+    + `<cbc:TaxExclusiveAmount${currency}>${amount(doc.subtotal)}</cbc:TaxExclusiveAmount>`
+    + `<cbc:TaxInclusiveAmount${currency}>${amount(doc.total)}</cbc:TaxInclusiveAmount>`
+    + `<cbc:AllowanceTotalAmount${currency}>0.00</cbc:AllowanceTotalAmount>`
+    + `<cbc:PrepaidAmount${currency}>0.00</cbc:PrepaidAmount>`
+    + `<cbc:PayableAmount${currency}>${amount(doc.total)}</cbc:PayableAmount>`
+    + '</cac:LegalMonetaryTotal>'
+    + lines
+    + '</Invoice>';
+}
+
+/**
+ * Base64 SHA-256 of the XML, the value the next invoice carries as its PIH.
+ */
+export function hashInvoiceXml(xml: string) {
+  return createHash('sha256').update(xml, 'utf8').digest('base64');
+}
+
+/**
+ * Encode values as ZATCA TLV and base64 it: each value is a one-byte tag (its position, from 1), a one-byte
+ * length and the UTF-8 bytes.
+ */
+export function encodeTlv(values: string[]) {
+  const parts = values.map((value, index) => {
+    const bytes = Buffer.from(value, 'utf8');
+    if (bytes.length > 255) {
+      throw new Error(`TLV value for tag ${index + 1} is longer than 255 bytes`);
+    }
+    return Buffer.concat([Buffer.from([index + 1, bytes.length]), bytes]);
+  });
+  return Buffer.concat(parts).toString('base64');
+}
+
+/**
+ * QR payload: seller name, VAT number, timestamp, total with VAT, VAT total and the invoice hash (tags 1-6).
+ */
+export function buildQrPayload(doc: ZatcaDocument, hash: string) {
+  return encodeTlv([
+    doc.seller.name,
+    doc.seller.vatNumber ?? '',
+    doc.issuedAt.toISOString().split('.')[0] + 'Z',
+    amount(doc.total),
+    amount(doc.vatTotal),
+    hash,
+  ]);
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHomePath, getPagePermission, hasPermission } from '@/lib/permissions';
+import { SESSION_COOKIE, verifySession } from '@/lib/session';
+
+// Page prefixes that require a signed-in user; `(owner)` pages live at /addhotel, /addroom and /sessions
+const PROTECTED_PAGES = ['/booking', '/reservations', '/tape-chart', '/receivables', '/invoices', '/guests', '/addhotel', '/addroom', '/housekeeping', '/rate-plans', '/taxes', '/shifts', '/sessions'];
+
+// API routes reachable without a session; payment webhooks are checked against the provider's signature instead
+const PUBLIC_API = ['/api/auth/', '/api/payments/webhooks/'];
+
+function matchesPrefix(pathname: string, prefixes: string[]) {
+  return prefixes.some(prefix =>
+    prefix.endsWith('/')
+      ? pathname.startsWith(prefix)
+      : pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  // Only the signature is checked here; every handler still calls requireSession or requirePermission, which also
+  // turn away cookies whose session was logged out or force-logged-out
+  if (pathname.startsWith('/api/')) {
+    if (!session && !matchesPrefix(pathname, PUBLIC_API)) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHENTICATED' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.next();
+  }
+
+  if (pathname === '/') {
+    if (session) {
+      return NextResponse.redirect(new URL(getHomePath(session.role), request.url));
+    }
+    return NextResponse.next();
+  }
+
+  if (!session && matchesPrefix(pathname, PROTECTED_PAGES)) {
+    const loginUrl = new URL('/', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Keep the requested URL in the address bar but render the 403 page
+  const permission = getPagePermission(pathname);
+  if (session && permission && !hasPermission(session.role, permission)) {
+    return NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    '/',
+    '/api/:path*',
+    '/booking/:path*',
+    '/reservations/:path*',
+    '/tape-chart/:path*',
+    '/receivables/:path*',
+    '/invoices/:path*',
+    '/guests/:path*',
+    '/addhotel/:path*',
+    '/addroom/:path*',
+    '/housekeeping/:path*',
+    '/rate-plans/:path*',
+    '/taxes/:path*',
+    '/shifts/:path*',
+    '/sessions/:path*',
+  ],
+};